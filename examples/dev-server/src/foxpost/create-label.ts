@@ -43,6 +43,16 @@ export async function registerCreateLabelRoute(
                  description: 'Use test API endpoint instead of production',
                  default: false,
                },
+                labelFormat: {
+                  type: 'string',
+                  enum: ['PDF', 'ZPL'],
+                  description: 'Deliver labels in this format; PDF labels are rasterised to ZPL',
+                },
+                labelDpi: {
+                  type: 'integer',
+                  enum: [203, 300],
+                  description: 'Printer resolution for ZPL labels (default: 203)',
+                },
                 size: {
                   type: 'string',
                   enum: ['A6', 'A7', '_85X85'],
@@ -5,7 +5,8 @@
 
 import { FastifyInstance } from 'fastify';
 import { FoxpostAdapter } from '@shopickup/adapters-foxpost';
-import { withOperationName, withCallTracing, composeAdapterWrappers, type CarrierAdapter } from '@shopickup/core';
+import { withOperationName, withCallTracing, composeAdapterWrappers, type CarrierAdapter, type CarrierRegistry, type LabelStorage } from '@shopickup/core';
+import { labelFormatWrappers, labelStorageWrappers } from '../labels.js';
 import { registerCreateParcelRoute } from './create-parcel.js';
 import { registerCreateParcelsRoute } from './create-parcels.js';
 import { registerCreateLabelRoute } from './create-label.js';
@@ -69,18 +70,24 @@ import { registerPickupPointsRoute } from './get-pickup-points.js';
  * const pickupPoints = await adapter.fetchPickupPoints(req, ctx);
  * ```
  */
-export async function registerFoxpostRoutes(fastify: FastifyInstance) {
+export async function registerFoxpostRoutes(fastify: FastifyInstance, registry?: CarrierRegistry, labelStorage?: LabelStorage) {
   // Create base adapter
   const baseAdapter = new FoxpostAdapter();
   
   // Apply wrappers for cross-cutting concerns:
   // 1. withOperationName: automatically injects operation name into context
   // 2. withCallTracing: logs method timing information
+  // Foxpost only returns PDFs; withLabelFormat converts them when ZPL is requested
   const adapter = composeAdapterWrappers(baseAdapter, [
+    ...labelFormatWrappers(),
+    ...labelStorageWrappers(labelStorage),
     (a: CarrierAdapter) => withOperationName(a),
     (a: CarrierAdapter) => withCallTracing(a, fastify.log),
   ]);
 
+  // Make the wrapped adapter reachable through the shared carrier registry
+  registry?.register(adapter);
+
   // Register individual route handlers
   await registerCreateParcelRoute(fastify, adapter as any);
   await registerCreateParcelsRoute(fastify, adapter as any);
@@ -5,7 +5,8 @@
 
 import { FastifyInstance } from 'fastify';
 import { GLSAdapter } from '@shopickup/adapters-gls';
-import { withOperationName, withCallTracing, composeAdapterWrappers, type CarrierAdapter } from '@shopickup/core';
+import { withOperationName, withCallTracing, composeAdapterWrappers, createHmacVerifier, type CarrierAdapter, type CarrierRegistry, type LabelStorage } from '@shopickup/core';
+import { labelStorageWrappers } from '../labels.js';
 import { registerPickupPointsRoute } from './pickup-points.js';
 import { registerCreateParcelsRoute } from './create-parcels.js';
 import { registerCreateLabelsRoute } from './create-labels.js';
@@ -26,18 +27,30 @@ import { registerTrackRoute } from './track.js';
  * 1. withOperationName: automatically injects operation name into context
  * 2. withCallTracing: logs method timing information
  */
-export async function registerGLSRoutes(fastify: FastifyInstance) {
+export async function registerGLSRoutes(fastify: FastifyInstance, registry?: CarrierRegistry, labelStorage?: LabelStorage) {
   // Create base adapter
   const baseAdapter = new GLSAdapter();
 
+  // Verify pushed status notifications (POST /webhooks/hu-gls) when a secret is configured
+  if (process.env.GLS_WEBHOOK_SECRET) {
+    baseAdapter.webhookVerifier = createHmacVerifier({
+      secret: process.env.GLS_WEBHOOK_SECRET,
+      header: process.env.GLS_WEBHOOK_SIGNATURE_HEADER ?? 'x-gls-signature',
+    });
+  }
+
   // Apply wrappers for cross-cutting concerns:
   // 1. withOperationName: automatically injects operation name into context
   // 2. withCallTracing: logs method timing information
   const adapter = composeAdapterWrappers(baseAdapter, [
+    ...labelStorageWrappers(labelStorage),
     (a: CarrierAdapter) => withOperationName(a),
     (a: CarrierAdapter) => withCallTracing(a, fastify.log),
   ]);
 
+  // Make the wrapped adapter reachable through the shared carrier registry
+  registry?.register(adapter);
+
   // Register route handlers
   await registerPickupPointsRoute(fastify, adapter as any);
   await registerCreateParcelsRoute(fastify, adapter as any);
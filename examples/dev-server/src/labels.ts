@@ -0,0 +1,145 @@
+/**
+ * Stored label files and label previews
+ * GET /labels/*
+ * POST /api/dev/labels/preview
+ *
+ * When LABEL_STORAGE_DIR is set, carrier adapters are wrapped with
+ * withLabelStorage: label responses carry URLs pointing here instead of
+ * inlined bytes. LABEL_URL_SECRET makes those URLs signed and expiring.
+ *
+ * Adapters that only produce PDFs are wrapped with withLabelFormat, so
+ * `options.labelFormat: 'ZPL'` works for every carrier; the PDF pages are
+ * rasterised with pdftoppm (PDFTOPPM_PATH overrides the executable).
+ */
+
+import { FastifyInstance } from 'fastify';
+import {
+  FilesystemLabelStorage,
+  createPdftoppmRasterizer,
+  renderZplPreview,
+  verifyLabelUrlSignature,
+  withLabelFormat,
+  withLabelStorage,
+  type CarrierAdapter,
+  type LabelStorage,
+} from '@shopickup/core';
+
+/**
+ * Label storage configured from the environment, or undefined to keep bytes inline
+ */
+export function createDevLabelStorage(): LabelStorage | undefined {
+  const directory = process.env.LABEL_STORAGE_DIR;
+  if (!directory) {
+    return undefined;
+  }
+  const port = process.env.SERVER_PORT ?? '3000';
+  return new FilesystemLabelStorage({
+    directory,
+    baseUrl: process.env.LABEL_BASE_URL ?? `http://localhost:${port}/labels`,
+    signingSecret: process.env.LABEL_URL_SECRET,
+  });
+}
+
+/**
+ * Adapter wrapper list entry for composeAdapterWrappers (empty without storage)
+ */
+export function labelStorageWrappers<T extends CarrierAdapter>(storage?: LabelStorage): Array<(a: T) => T> {
+  return storage ? [(a: T) => withLabelStorage(a, storage)] : [];
+}
+
+/**
+ * Adapter wrapper list entry converting PDF labels when a request asks for ZPL
+ * Goes before labelStorageWrappers so the converted file is what gets stored
+ */
+export function labelFormatWrappers<T extends CarrierAdapter>(): Array<(a: T) => T> {
+  const rasterizer = createPdftoppmRasterizer({ command: process.env.PDFTOPPM_PATH });
+  return [(a: T) => withLabelFormat(a, { rasterizer })];
+}
+
+export async function registerLabelPreviewRoute(fastify: FastifyInstance) {
+  fastify.post('/api/dev/labels/preview', {
+    schema: {
+      description: 'Render ZPL labels as a PNG (one label) or PDF (all labels). Only graphic fields (^GF) and boxes (^GB) are drawn, so rasterised Foxpost labels preview exactly. Text and barcodes in carrier-native GLS/MPL ZPL are left blank; the commands that were not drawn are listed in the x-zpl-unsupported header, and x-zpl-preview is "partial".',
+      tags: ['Dev'],
+      summary: 'Preview ZPL labels',
+      body: {
+        type: 'object',
+        required: ['zpl'],
+        properties: {
+          zpl: { type: 'string', description: 'ZPL text, or base64 when encoding is "base64"' },
+          encoding: { type: 'string', enum: ['text', 'base64'], default: 'text' },
+          format: { type: 'string', enum: ['png', 'pdf'], default: 'png' },
+          label: { type: 'integer', minimum: 1, description: '1-based label for PNG previews (default: 1)' },
+          dpi: { type: 'integer', enum: [203, 300], default: 203 },
+        },
+        examples: [
+          { zpl: '^XA^PW16^LL16^FO0,0^GB16,16,2^FS^XZ', format: 'png' },
+        ],
+      },
+    },
+  }, async (request, reply) => {
+    const body = request.body as { zpl: string; encoding?: 'text' | 'base64'; format?: 'png' | 'pdf'; label?: number; dpi?: 203 | 300 };
+    const zpl = body.encoding === 'base64' ? Buffer.from(body.zpl, 'base64') : body.zpl;
+
+    let preview;
+    try {
+      // Carrier ZPL is mostly text and barcodes: preview what can be drawn and say what was not
+      preview = renderZplPreview(zpl, { format: body.format, label: body.label, dpi: body.dpi, allowPartial: true });
+    } catch (err) {
+      return reply.status(400).send({ message: err instanceof Error ? err.message : String(err), category: 'Validation' });
+    }
+
+    if (preview.unsupported.length > 0) {
+      request.log.warn({ unsupported: preview.unsupported }, 'ZPL preview leaves text and barcodes blank');
+    }
+
+    return reply
+      .header('content-type', preview.contentType)
+      .header('x-label-count', preview.labelCount)
+      .header('x-zpl-preview', preview.unsupported.length > 0 ? 'partial' : 'complete')
+      .header('x-zpl-unsupported', preview.unsupported.join(','))
+      .send(preview.bytes);
+  });
+}
+
+export async function registerLabelFileRoutes(fastify: FastifyInstance, storage: LabelStorage) {
+  const secret = process.env.LABEL_URL_SECRET;
+
+  fastify.get('/labels/*', {
+    schema: {
+      description: 'Download a label file stored by withLabelStorage',
+      tags: ['Dev'],
+      summary: 'Stored label file',
+      querystring: {
+        type: 'object',
+        properties: {
+          expires: { type: 'string', description: 'Signed URL expiry (unix seconds)' },
+          signature: { type: 'string', description: 'Signed URL HMAC' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    const key = (request.params as { '*': string })['*'];
+    const query = request.query as { expires?: string; signature?: string };
+
+    if (secret && !verifyLabelUrlSignature(key, query, secret)) {
+      return reply.status(403).send({ message: 'Invalid or expired label URL', category: 'Auth' });
+    }
+
+    let file;
+    try {
+      file = await storage.get(key);
+    } catch {
+      file = null;
+    }
+    if (!file) {
+      return reply.status(404).send({ message: `Label file not found: ${key}`, category: 'NotFound' });
+    }
+
+    return reply
+      .header('content-type', file.label.contentType)
+      .header('content-length', file.label.byteLength)
+      .header('x-checksum-sha256', file.label.checksum)
+      .send(file.bytes);
+  });
+}
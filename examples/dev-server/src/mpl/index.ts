@@ -5,7 +5,8 @@
 
 import { FastifyInstance } from 'fastify';
 import { MPLAdapter, createResolveBaseUrl, createResolveOAuthUrl } from '@shopickup/adapters-mpl';
-import { withOperationName, withCallTracing, composeAdapterWrappers } from '@shopickup/core';
+import { withOperationName, withCallTracing, composeAdapterWrappers, createSharedSecretVerifier, type CarrierRegistry, type LabelStorage } from '@shopickup/core';
+import { labelStorageWrappers } from '../labels.js';
 import { registerPickupPointsRoute } from './pickup-points.js';
 import { registerPickupPointsOAuthFallbackRoute } from './pickup-points-oauth-fallback.js';
 import { registerExchangeAuthTokenRoute } from './auth.js';
@@ -53,18 +54,30 @@ import { registerPull500Routes } from './track-pull500.js';
  * ]);
  * ```
  */
-export async function registerMPLRoutes(fastify: FastifyInstance) {
+export async function registerMPLRoutes(fastify: FastifyInstance, registry?: CarrierRegistry, labelStorage?: LabelStorage) {
   // Create base adapter
   const baseAdapter = new MPLAdapter();
+
+  // Verify push tracking notifications (POST /webhooks/hu-mpl) when a token is configured
+  if (process.env.MPL_WEBHOOK_TOKEN) {
+    baseAdapter.webhookVerifier = createSharedSecretVerifier({
+      secret: process.env.MPL_WEBHOOK_TOKEN,
+      header: process.env.MPL_WEBHOOK_TOKEN_HEADER ?? 'x-mpl-token',
+    });
+  }
   
   // Apply wrappers for cross-cutting concerns:
   // 1. withOperationName: automatically injects operation name into context
   // 2. withCallTracing: logs method timing information
   const adapter = composeAdapterWrappers(baseAdapter, [
+    ...labelStorageWrappers<MPLAdapter>(labelStorage),
     (a) => withOperationName(a),
     (a) => withCallTracing(a, fastify.log),
   ]);
 
+  // Make the wrapped adapter reachable through the shared carrier registry
+  registry?.register(adapter);
+
   // Create resolver for API base URLs (production vs. test)
   const resolveBaseUrl = createResolveBaseUrl(
     'https://core.api.posta.hu/v2/mplapi',
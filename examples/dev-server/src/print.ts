@@ -0,0 +1,113 @@
+/**
+ * Label printing
+ * POST /api/dev/print
+ *
+ * Sends a label to a network printer so the packing UI can print without a
+ * local print dialog. PRINTER_URI sets the default printer, e.g.
+ * raw://192.168.1.50:9100 for a Zebra or ipp://192.168.1.20/ipp/print.
+ */
+
+import { FastifyInstance } from 'fastify';
+import {
+  CarrierError,
+  ValidationError,
+  parsePrinterUri,
+  printLabelFile,
+  type LabelFileResource,
+  type LabelStorage,
+} from '@shopickup/core';
+import { wrapPinoLogger } from './http-client.js';
+
+interface PrintBody {
+  printer?: string;
+  zpl?: string;
+  file?: { id?: string; contentType: string; labelFormat?: 'PDF' | 'ZPL'; rawBytes: string };
+  labelKey?: string;
+  copies?: number;
+  jobName?: string;
+}
+
+export async function registerPrintRoute(fastify: FastifyInstance, labelStorage?: LabelStorage) {
+  fastify.post('/api/dev/print', {
+    schema: {
+      description: 'Print a label on a network printer: ZPL over raw TCP (port 9100) or PDF over IPP. Transient printer errors are retried.',
+      tags: ['Dev'],
+      summary: 'Print a label',
+      body: {
+        type: 'object',
+        properties: {
+          printer: { type: 'string', description: 'Printer URI (raw://, socket://, ipp://, ipps://); default: PRINTER_URI' },
+          zpl: { type: 'string', description: 'ZPL to print' },
+          file: {
+            type: 'object',
+            description: 'Label file from a createLabel(s) response, with base64 rawBytes',
+            required: ['contentType', 'rawBytes'],
+            properties: {
+              id: { type: 'string' },
+              contentType: { type: 'string' },
+              labelFormat: { type: 'string', enum: ['PDF', 'ZPL'] },
+              rawBytes: { type: 'string', description: 'Base64 label bytes' },
+            },
+          },
+          labelKey: { type: 'string', description: 'Key of a stored label file (when LABEL_STORAGE_DIR is set)' },
+          copies: { type: 'integer', minimum: 1, default: 1 },
+          jobName: { type: 'string' },
+        },
+        examples: [
+          { printer: 'raw://127.0.0.1:9100', zpl: '^XA^FO50,50^A0N,40,40^FDHello^FS^XZ' },
+        ],
+      },
+    },
+  }, async (request, reply) => {
+    const body = request.body as PrintBody;
+    const uri = body.printer ?? process.env.PRINTER_URI;
+    if (!uri) {
+      return reply.status(400).send({ message: 'No printer given and PRINTER_URI is not set', category: 'Validation' });
+    }
+
+    try {
+      let file: LabelFileResource;
+      if (body.zpl !== undefined) {
+        file = { id: body.jobName ?? 'zpl', contentType: 'application/x-zpl', labelFormat: 'ZPL', rawBytes: Buffer.from(body.zpl, 'utf8') };
+      } else if (body.file) {
+        file = { ...body.file, id: body.file.id ?? body.jobName ?? 'label', rawBytes: Buffer.from(body.file.rawBytes, 'base64') };
+      } else if (body.labelKey && labelStorage) {
+        const stored = await labelStorage.get(body.labelKey);
+        if (!stored) {
+          return reply.status(404).send({ message: `Label file not found: ${body.labelKey}`, category: 'NotFound' });
+        }
+        file = { id: body.labelKey, contentType: stored.label.contentType, rawBytes: stored.bytes };
+      } else {
+        return reply.status(400).send({ message: 'Send zpl, file or labelKey', category: 'Validation' });
+      }
+
+      const job = await printLabelFile(file, parsePrinterUri(uri), {
+        copies: body.copies,
+        jobName: body.jobName,
+        logger: wrapPinoLogger(fastify.log),
+      });
+      return reply.send(job);
+    } catch (error) {
+      fastify.log.error(error);
+
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({ message: error.message, category: 'Validation', details: error.details });
+      }
+      if (error instanceof CarrierError) {
+        const statusCode = error.category === 'Auth' ? 401
+          : error.category === 'NotFound' ? 404
+          : error.category === 'Transient' ? 503
+          : 400;
+        return reply.status(statusCode).send({
+          message: error.message,
+          category: error.category,
+          ...(error.carrierCode && { carrierCode: error.carrierCode }),
+        });
+      }
+      return reply.status(500).send({
+        message: error instanceof Error ? error.message : String(error),
+        category: 'Internal',
+      });
+    }
+  });
+}
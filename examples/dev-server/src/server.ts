@@ -8,6 +8,10 @@ import fastifySwaggerUi from '@fastify/swagger-ui';
 import { registerFoxpostRoutes } from './foxpost/index.js';
 import { registerMPLRoutes } from './mpl/index.js';
 import { registerGLSRoutes } from './gls/index.js';
+import { registerWebhookRoutes } from './webhooks.js';
+import { registerPrintRoute } from './print.js';
+import { createDevLabelStorage, registerLabelFileRoutes, registerLabelPreviewRoute } from './labels.js';
+import { CarrierRegistry } from '@shopickup/core';
 
 // Create a Fastify instance
 const isDev = process.env.NODE_ENV !== 'production';
@@ -32,6 +36,10 @@ import { makeHttpClient } from './http-client.js';
 const client = makeHttpClient(fastify.log as any);
 fastify.decorate('httpClient', client);
 
+// Shared registry: every carrier route group registers its wrapped adapter here
+const carriers = new CarrierRegistry();
+fastify.decorate('carriers', carriers);
+
 
 // Register CORS plugin
 await fastify.register(cors, {
@@ -250,14 +258,29 @@ fastify.post("/admin/logging", {
     };
 });
 
+// Label files go to storage (served from /labels/*) when LABEL_STORAGE_DIR is set
+const labelStorage = createDevLabelStorage();
+if (labelStorage) {
+    await registerLabelFileRoutes(fastify, labelStorage);
+}
+
+// ZPL -> PNG/PDF previews for the UI (graphics only; text and barcodes stay blank)
+await registerLabelPreviewRoute(fastify);
+
+// Network printing (raw 9100 / IPP) for the packing UI
+await registerPrintRoute(fastify, labelStorage);
+
 // Register Foxpost dev routes
-await registerFoxpostRoutes(fastify);
+await registerFoxpostRoutes(fastify, carriers, labelStorage);
 
 // Register MPL dev routes
-await registerMPLRoutes(fastify);
+await registerMPLRoutes(fastify, carriers, labelStorage);
 
 // Register GLS dev routes
-await registerGLSRoutes(fastify);
+await registerGLSRoutes(fastify, carriers, labelStorage);
+
+// Register carrier webhook receiver (dispatches to any adapter with WEBHOOKS)
+await registerWebhookRoutes(fastify, carriers);
 
 // Run the server
 await fastify.ready();
@@ -0,0 +1,137 @@
+/**
+ * Webhook Route Handler
+ * POST /webhooks/:carrierId
+ *
+ * Receives carrier push notifications and hands them to the registered
+ * adapter's parseWebhook (capability WEBHOOKS). The body is kept raw so the
+ * adapter's webhookVerifier can check signatures over the exact bytes sent.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { Capabilities, CarrierError, type AdapterContext, type CarrierRegistry } from '@shopickup/core';
+import { wrapPinoLogger } from './http-client.js';
+
+export async function registerWebhookRoutes(fastify: FastifyInstance, registry: CarrierRegistry) {
+  // Encapsulated so the raw-body JSON parser only applies to webhook routes
+  await fastify.register(async (instance) => {
+    instance.addContentTypeParser(
+      ['application/json', 'text/plain'],
+      { parseAs: 'buffer' },
+      (_request, body, done) => done(null, body)
+    );
+
+    instance.post('/webhooks/:carrierId', {
+      schema: {
+        description: 'Receive a carrier push notification and normalise it to tracking updates',
+        tags: ['Dev'],
+        summary: 'Carrier webhook receiver',
+        params: {
+          type: 'object',
+          properties: {
+            carrierId: {
+              type: 'string',
+              description: 'Registered carrier ID (e.g., hu-gls, hu-mpl)',
+            },
+          },
+          required: ['carrierId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              carrierId: { type: 'string' },
+              updates: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    trackingNumber: { type: 'string' },
+                    status: { type: 'string' },
+                    lastUpdate: { type: ['string', 'null'] },
+                    events: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          timestamp: { type: 'string' },
+                          status: { type: 'string' },
+                          carrierStatusCode: { type: 'string' },
+                          description: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              category: { type: 'string' },
+            },
+          },
+        },
+      },
+      async handler(request: any, reply: any) {
+        const { carrierId } = request.params as { carrierId: string };
+
+        if (!registry.supports(carrierId, Capabilities.WEBHOOKS)) {
+          return reply.status(404).send({
+            message: `Carrier '${carrierId}' does not accept webhooks`,
+            category: 'NotFound',
+          });
+        }
+
+        const ctx: AdapterContext = {
+          logger: wrapPinoLogger(fastify.log),
+          operationName: 'parseWebhook',
+        };
+
+        try {
+          const updates = await registry.dispatch(
+            carrierId,
+            Capabilities.WEBHOOKS,
+            { headers: request.headers, body: request.body },
+            ctx
+          );
+
+          return reply.status(200).send({
+            carrierId,
+            updates: updates.map((update) => ({
+              trackingNumber: update.trackingNumber,
+              status: update.status,
+              lastUpdate: update.lastUpdate ? update.lastUpdate.toISOString() : null,
+              events: update.events.map((event) => ({
+                timestamp: event.timestamp.toISOString(),
+                status: event.status,
+                carrierStatusCode: event.carrierStatusCode,
+                description: event.description,
+              })),
+            })),
+          });
+        } catch (error) {
+          fastify.log.error(error);
+
+          if (error instanceof CarrierError) {
+            const statusCode =
+              error.category === 'Auth' ? 401 :
+                error.category === 'Validation' ? 400 :
+                  500;
+
+            return reply.status(statusCode).send({
+              message: error.message,
+              category: error.category,
+            });
+          }
+
+          return reply.status(500).send({
+            message: error instanceof Error ? error.message : String(error),
+            category: 'Internal',
+          });
+        }
+      },
+    });
+  });
+}
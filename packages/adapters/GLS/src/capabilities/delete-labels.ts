@@ -0,0 +1,264 @@
+/**
+ * GLS DeleteLabels Capability
+ *
+ * Deletes parcels (and their labels) using GLS MyGLS API DeleteLabels endpoint.
+ * GLS sets the DELETED state on the parcel records, so a deleted parcel's label
+ * is void as well.
+ *
+ * Capabilities: DELETE_PARCEL, VOID_LABEL
+ *
+ * IMPORTANT: This is HU-specific implementation.
+ */
+
+import type {
+  AdapterContext,
+  CarrierResource,
+  DeleteParcelResult,
+} from '@shopickup/core';
+import {
+  CarrierError,
+  safeLog,
+  serializeForLog,
+  errorToLog,
+} from '@shopickup/core';
+import {
+  hashPasswordSHA512,
+  resolveGLSBaseUrl,
+  convertToPascalCase,
+  convertFromPascalCase,
+} from '../utils/authentication.js';
+import {
+  safeValidateDeleteParcelRequest,
+  safeValidateDeleteParcelsRequest,
+  safeValidateVoidLabelRequest,
+  safeValidateGLSDeleteLabelsResponse,
+  type GLSDeleteParcelRequest,
+  type GLSDeleteParcelsRequest,
+  type GLSDeleteParcelsResponse,
+  type GLSVoidLabelRequest,
+} from '../validation/delete-labels.js';
+import {
+  getGLSRequestLevelErrors,
+  mapGLSDeleteLabelsToCanonical,
+} from '../mappers/delete-labels.js';
+import { mapGLSErrorCategory } from '../mappers/labels.js';
+import type { GLSDeleteLabelsResponse } from '../types/index.js';
+
+/**
+ * Delete a single parcel
+ * Delegates to deleteParcels; a parcel GLS refuses to delete comes back with status 'failed'
+ */
+export async function deleteParcel(
+  req: GLSDeleteParcelRequest,
+  ctx: AdapterContext,
+  deleteParcelsImpl: (req: GLSDeleteParcelsRequest, ctx: AdapterContext) => Promise<GLSDeleteParcelsResponse>
+): Promise<DeleteParcelResult> {
+  const validated = safeValidateDeleteParcelRequest(req);
+  if (!validated.success) {
+    throw new CarrierError(
+      `Invalid request: ${validated.error.message}`,
+      'Validation',
+      { raw: serializeForLog(validated.error.issues) }
+    );
+  }
+
+  const response = await deleteParcelsImpl({
+    parcelCarrierIds: [validated.data.parcelCarrierId],
+    credentials: validated.data.credentials,
+    options: validated.data.options,
+  }, ctx);
+
+  return response.results[0];
+}
+
+/**
+ * Void a label
+ * GLS labels belong to parcel records, so this deletes the parcel
+ *
+ * @throws CarrierError('Validation') for a bare label ID: MyGLS needs credentials
+ * @throws CarrierError when GLS refuses the deletion
+ */
+export async function voidLabel(
+  req: GLSVoidLabelRequest | string,
+  ctx: AdapterContext,
+  deleteParcelsImpl: (req: GLSDeleteParcelsRequest, ctx: AdapterContext) => Promise<GLSDeleteParcelsResponse>
+): Promise<CarrierResource> {
+  if (typeof req === 'string') {
+    throw new CarrierError(
+      'GLS voidLabel requires credentials: pass { labelId, credentials }',
+      'Validation'
+    );
+  }
+
+  const validated = safeValidateVoidLabelRequest(req);
+  if (!validated.success) {
+    throw new CarrierError(
+      `Invalid request: ${validated.error.message}`,
+      'Validation',
+      { raw: serializeForLog(validated.error.issues) }
+    );
+  }
+
+  const response = await deleteParcelsImpl({
+    parcelCarrierIds: [validated.data.labelId],
+    credentials: validated.data.credentials,
+    options: validated.data.options,
+  }, ctx);
+  const result = response.results[0];
+
+  if (result.status !== 'deleted') {
+    const [error] = result.errors ?? [];
+    throw new CarrierError(
+      `GLS could not void label ${validated.data.labelId}: ${error?.message ?? 'unknown error'}`,
+      mapGLSErrorCategory(error?.code),
+      { carrierCode: error?.code, raw: serializeForLog(result.raw) }
+    );
+  }
+
+  return {
+    carrierId: validated.data.labelId,
+    status: 'voided',
+    raw: result.raw,
+  };
+}
+
+/**
+ * Delete multiple parcels in one DeleteLabels call (max 50)
+ *
+ * Per-parcel failures (already deleted, already handed over to GLS, unknown
+ * ID) come back as results with status 'failed' and the GLS error codes.
+ * Errors that apply to the whole request (login, client number) throw a
+ * CarrierError categorised by mapGLSErrorCategory.
+ *
+ * @param req Request with GLS parcel database IDs (from createParcels) and credentials
+ * @param ctx Adapter context with HTTP client
+ * @returns One DeleteParcelResult per requested ID, in request order
+ */
+export async function deleteParcels(
+  req: GLSDeleteParcelsRequest,
+  ctx: AdapterContext
+): Promise<GLSDeleteParcelsResponse> {
+  try {
+    const validated = safeValidateDeleteParcelsRequest(req);
+    if (!validated.success) {
+      throw new CarrierError(
+        `Invalid request: ${validated.error.message}`,
+        'Validation',
+        { raw: serializeForLog(validated.error.issues) }
+      );
+    }
+
+    if (!ctx.http) {
+      throw new CarrierError(
+        'HTTP client not provided in context',
+        'Permanent'
+      );
+    }
+
+    const { parcelCarrierIds, credentials, options } = validated.data;
+    const country = options?.gls?.country || 'HU';
+    const useTestApi = options?.useTestApi || false;
+    const baseUrl = resolveGLSBaseUrl(country, useTestApi);
+
+    const deleteRequest = convertToPascalCase({
+      username: credentials.username,
+      password: hashPasswordSHA512(credentials.password),
+      clientNumberList: credentials.clientNumberList,
+      parcelIdList: parcelCarrierIds.map(Number),
+    });
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Deleting parcels (DeleteLabels endpoint)',
+      { count: parcelCarrierIds.length, country, testMode: useTestApi },
+      ctx,
+      ['deleteParcels']
+    );
+
+    const httpResponse = await ctx.http.post<any>(
+      `${baseUrl}/json/DeleteLabels`,
+      deleteRequest
+    );
+
+    const carrierRespBody = httpResponse.body as any;
+    const normalizedResponse = convertFromPascalCase(carrierRespBody) as GLSDeleteLabelsResponse;
+
+    const responseValidation = safeValidateGLSDeleteLabelsResponse(normalizedResponse);
+    if (!responseValidation.success) {
+      throw new CarrierError(
+        `Invalid GLS DeleteLabels response: ${responseValidation.error.message}`,
+        'Transient',
+        { raw: { issues: serializeForLog(responseValidation.error.issues), rawCarrierResponse: carrierRespBody } }
+      );
+    }
+
+    // Request-level errors with nothing deleted mean the call itself failed
+    const requestErrors = getGLSRequestLevelErrors(normalizedResponse);
+    if (requestErrors.length > 0 && !normalizedResponse.successfullyDeletedList?.length) {
+      const [first] = requestErrors;
+      throw new CarrierError(
+        `GLS API error: ${first.errorDescription} (code: ${first.errorCode})`,
+        mapGLSErrorCategory(first.errorCode),
+        {
+          carrierCode: String(first.errorCode),
+          raw: { errors: serializeForLog(requestErrors), rawCarrierResponse: carrierRespBody },
+        }
+      );
+    }
+
+    const results = mapGLSDeleteLabelsToCanonical(normalizedResponse, parcelCarrierIds);
+    const successCount = results.filter((result) => result.status === 'deleted').length;
+    const failureCount = results.length - successCount;
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: DeleteLabels finished',
+      { successCount, failureCount, testMode: useTestApi },
+      ctx,
+      ['deleteParcels']
+    );
+
+    return {
+      results,
+      successCount,
+      failureCount,
+      totalCount: results.length,
+      allSucceeded: failureCount === 0,
+      allFailed: successCount === 0,
+      someFailed: successCount > 0 && failureCount > 0,
+      summary: failureCount === 0
+        ? `All ${successCount} parcels deleted`
+        : `${successCount} of ${results.length} parcels deleted`,
+      rawCarrierResponse: normalizedResponse,
+    };
+  } catch (error) {
+    safeLog(
+      ctx.logger,
+      'error',
+      'GLS: Error deleting parcels',
+      { error: errorToLog(error) },
+      ctx,
+      ['deleteParcels']
+    );
+
+    if (error instanceof CarrierError) {
+      throw error;
+    }
+
+    const status = (error as any).response?.status ?? (error as any).status;
+    if (status === 401 || status === 403) {
+      throw new CarrierError('GLS authentication failed', 'Auth', { raw: error });
+    }
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      throw new CarrierError('GLS API temporarily unavailable', 'Transient', { raw: error });
+    }
+
+    throw new CarrierError(
+      `GLS DeleteLabels error: ${error instanceof Error ? error.message : String(error)}`,
+      'Transient',
+      { raw: error }
+    );
+  }
+}
@@ -28,7 +28,46 @@ export {
   printLabels,
 } from './print-labels.js';
 
+// Delete parcels / void labels capability (DeleteLabels)
+export {
+  deleteParcel,
+  deleteParcels,
+  voidLabel,
+} from './delete-labels.js';
+
+// Modify parcel capability (ModifyCOD)
+export {
+  updateParcel,
+} from './modify-cod.js';
+
+// List parcels capability (GetParcelList)
+export {
+  listParcels,
+} from './list-parcels.js';
+
+// Returns capability (GetClientReturnAddress + PrepareLabels)
+export {
+  createReturn,
+  createReturns,
+} from './returns.js';
+
+// Pickup capability (Pick&Ship parcel via PrepareLabels)
+export {
+  requestPickup,
+} from './pickup.js';
+
 // Tracking capability
 export {
   track,
 } from './tracking.js';
+
+// Rates capability (local tariff table)
+export {
+  getRates,
+  GLS_DEFAULT_TARIFF,
+} from './rates.js';
+
+// Webhooks capability (status push notifications)
+export {
+  parseWebhook,
+} from './webhooks.js';
@@ -37,6 +37,7 @@ import {
 import {
   mapCanonicalCreateLabelsToGLSGetPrintedLabels,
   mapGLSGetPrintedLabelsToCanonicalCreateLabels,
+  resolvePrinterType,
 } from '../mappers/labels.js';
 
 /**
@@ -162,7 +163,7 @@ export async function createLabels(
       clientNumber,
       credentials.username,
       hashedPassword,
-      (validated.options?.gls?.printerType as string)
+      resolvePrinterType(validated.options)
     );
 
     // Convert to PascalCase (matching PHP example)
@@ -248,7 +249,7 @@ export async function createLabels(
     const response = mapGLSGetPrintedLabelsToCanonicalCreateLabels(
       carrierRespBody,
       validated.parcelCarrierIds.length,
-      validated.options?.gls?.printerType
+      resolvePrinterType(validated.options)
     );
 
     safeLog(
@@ -0,0 +1,176 @@
+/**
+ * GLS GetParcelList Capability
+ *
+ * Lists the parcels GLS holds for the account using GLS MyGLS API
+ * GetParcelList endpoint, filtered by pickup date and/or print date range.
+ * Used to reconcile the integrator's database with GLS: printed vs.
+ * unprinted parcels, and parcels created outside the integrator's system.
+ *
+ * Capabilities: LIST_PARCELS
+ *
+ * IMPORTANT: This is HU-specific implementation.
+ */
+
+import type { AdapterContext, ListParcelsResponse } from '@shopickup/core';
+import {
+  CarrierError,
+  safeLog,
+  serializeForLog,
+  errorToLog,
+} from '@shopickup/core';
+import {
+  hashPasswordSHA512,
+  resolveGLSBaseUrl,
+  validateGLSCredentials,
+  convertToPascalCase,
+  convertFromPascalCase,
+} from '../utils/authentication.js';
+import {
+  safeValidateListParcelsRequest,
+  safeValidateGLSGetParcelListResponse,
+  type GLSListParcelsRequest,
+} from '../validation/list-parcels.js';
+import { formatGLSDate, mapGLSParcelListItemToCanonical } from '../mappers/list-parcels.js';
+import { mapGLSErrorCategory } from '../mappers/labels.js';
+import type { GLSGetParcelListRequest, GLSGetParcelListResponse } from '../types/index.js';
+
+/**
+ * List parcels by pickup date and/or print date range (GetParcelList)
+ *
+ * @param req Request with at least one date range and credentials
+ * @param ctx Adapter context with HTTP client
+ * @returns One ListedParcelResource per parcel GLS reports
+ * @throws CarrierError categorised by mapGLSErrorCategory when GLS reports an error
+ */
+export async function listParcels(
+  req: GLSListParcelsRequest,
+  ctx: AdapterContext
+): Promise<ListParcelsResponse> {
+  try {
+    const validated = safeValidateListParcelsRequest(req);
+    if (!validated.success) {
+      throw new CarrierError(
+        `Invalid request: ${validated.error.message}`,
+        'Validation',
+        { raw: serializeForLog(validated.error.issues) }
+      );
+    }
+
+    if (!ctx.http) {
+      throw new CarrierError(
+        'HTTP client not provided in context',
+        'Permanent'
+      );
+    }
+
+    const { pickupDate, printDate, credentials, options } = validated.data;
+    const country = options?.gls?.country || 'HU';
+    const useTestApi = options?.useTestApi || false;
+    const baseUrl = resolveGLSBaseUrl(country, useTestApi);
+
+    validateGLSCredentials({
+      username: credentials.username,
+      password: credentials.password,
+      clientNumberList: credentials.clientNumberList,
+    });
+    const clientNumber = credentials.clientNumberList[0];
+
+    const listRequest: GLSGetParcelListRequest = {
+      username: credentials.username,
+      password: hashPasswordSHA512(credentials.password),
+      clientNumberList: [clientNumber],
+      webshopEngine: credentials.webshopEngine || 'shopickup-adapter/1.0',
+      pickupDateFrom: pickupDate ? formatGLSDate(pickupDate.from) : null,
+      pickupDateTo: pickupDate ? formatGLSDate(pickupDate.to) : null,
+      printDateFrom: printDate ? formatGLSDate(printDate.from) : null,
+      printDateTo: printDate ? formatGLSDate(printDate.to) : null,
+    };
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Listing parcels (GetParcelList endpoint)',
+      {
+        pickupDate: pickupDate && { from: pickupDate.from.toISOString(), to: pickupDate.to.toISOString() },
+        printDate: printDate && { from: printDate.from.toISOString(), to: printDate.to.toISOString() },
+        country,
+        testMode: useTestApi,
+      },
+      ctx,
+      ['listParcels']
+    );
+
+    const httpResponse = await ctx.http.post<any>(
+      `${baseUrl}/json/GetParcelList`,
+      convertToPascalCase(listRequest)
+    );
+
+    const carrierRespBody = httpResponse.body as any;
+    const normalizedResponse = convertFromPascalCase(carrierRespBody) as GLSGetParcelListResponse;
+
+    const responseValidation = safeValidateGLSGetParcelListResponse(normalizedResponse);
+    if (!responseValidation.success) {
+      throw new CarrierError(
+        `Invalid GLS GetParcelList response: ${responseValidation.error.message}`,
+        'Transient',
+        { raw: { issues: serializeForLog(responseValidation.error.issues), rawCarrierResponse: carrierRespBody } }
+      );
+    }
+
+    const [error] = normalizedResponse.getParcelListErrors ?? [];
+    if (error) {
+      throw new CarrierError(
+        `GLS API error: ${error.errorDescription} (code: ${error.errorCode})`,
+        mapGLSErrorCategory(error.errorCode),
+        { carrierCode: String(error.errorCode), raw: serializeForLog(normalizedResponse) }
+      );
+    }
+
+    const parcels = (normalizedResponse.printDataInfoList ?? []).map(mapGLSParcelListItemToCanonical);
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: GetParcelList finished',
+      {
+        count: parcels.length,
+        printedCount: parcels.filter((parcel) => parcel.status === 'printed').length,
+        testMode: useTestApi,
+      },
+      ctx,
+      ['listParcels']
+    );
+
+    return {
+      parcels,
+      rawCarrierResponse: normalizedResponse,
+    };
+  } catch (error) {
+    safeLog(
+      ctx.logger,
+      'error',
+      'GLS: Error listing parcels',
+      { error: errorToLog(error) },
+      ctx,
+      ['listParcels']
+    );
+
+    if (error instanceof CarrierError) {
+      throw error;
+    }
+
+    const status = (error as any).response?.status ?? (error as any).status;
+    if (status === 401 || status === 403) {
+      throw new CarrierError('GLS authentication failed', 'Auth', { raw: error });
+    }
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      throw new CarrierError('GLS API temporarily unavailable', 'Transient', { raw: error });
+    }
+
+    throw new CarrierError(
+      `GLS GetParcelList error: ${error instanceof Error ? error.message : String(error)}`,
+      'Transient',
+      { raw: error }
+    );
+  }
+}
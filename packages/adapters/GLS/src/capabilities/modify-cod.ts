@@ -0,0 +1,172 @@
+/**
+ * GLS ModifyCOD Capability
+ *
+ * Changes the cash on delivery amount of an existing parcel using GLS MyGLS
+ * API ModifyCOD endpoint, e.g. after a partial refund. GLS keeps the COD
+ * currency and reference the parcel was created with.
+ *
+ * Capabilities: MODIFY_PARCEL
+ *
+ * IMPORTANT: This is HU-specific implementation.
+ */
+
+import type { AdapterContext, CarrierResource } from '@shopickup/core';
+import {
+  CarrierError,
+  safeLog,
+  serializeForLog,
+  errorToLog,
+} from '@shopickup/core';
+import {
+  hashPasswordSHA512,
+  resolveGLSBaseUrl,
+  validateGLSCredentials,
+  convertToPascalCase,
+  convertFromPascalCase,
+} from '../utils/authentication.js';
+import {
+  safeValidateUpdateParcelRequest,
+  safeValidateGLSModifyCODResponse,
+  type GLSUpdateParcelRequest,
+} from '../validation/modify-cod.js';
+import { mapGLSErrorCategory } from '../mappers/labels.js';
+import type { GLSModifyCODRequest, GLSModifyCODResponse } from '../types/index.js';
+
+/**
+ * Change the COD amount of a parcel (ModifyCOD)
+ *
+ * An amount of 0 removes COD from the parcel.
+ *
+ * @param req Request with the GLS parcel database ID (from createParcels), the new COD and credentials
+ * @param ctx Adapter context with HTTP client
+ * @returns CarrierResource with status 'updated'
+ * @throws CarrierError categorised by mapGLSErrorCategory when GLS refuses the change
+ */
+export async function updateParcel(
+  req: GLSUpdateParcelRequest,
+  ctx: AdapterContext
+): Promise<CarrierResource> {
+  try {
+    const validated = safeValidateUpdateParcelRequest(req);
+    if (!validated.success) {
+      throw new CarrierError(
+        `Invalid request: ${validated.error.message}`,
+        'Validation',
+        { raw: serializeForLog(validated.error.issues) }
+      );
+    }
+
+    if (!ctx.http) {
+      throw new CarrierError(
+        'HTTP client not provided in context',
+        'Permanent'
+      );
+    }
+
+    const { parcelCarrierId, changes, credentials, options } = validated.data;
+    const country = options?.gls?.country || 'HU';
+    const useTestApi = options?.useTestApi || false;
+    const baseUrl = resolveGLSBaseUrl(country, useTestApi);
+
+    // Same credential handling as createParcels: hashed password, first client number
+    validateGLSCredentials({
+      username: credentials.username,
+      password: credentials.password,
+      clientNumberList: credentials.clientNumberList,
+    });
+    const clientNumber = credentials.clientNumberList[0];
+
+    const modifyRequest: GLSModifyCODRequest = {
+      username: credentials.username,
+      password: hashPasswordSHA512(credentials.password),
+      clientNumberList: [clientNumber],
+      webshopEngine: credentials.webshopEngine || 'shopickup-adapter/1.0',
+      parcelId: Number(parcelCarrierId),
+      codAmount: changes.cod.amount.amount,
+    };
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Modifying COD (ModifyCOD endpoint)',
+      { parcelCarrierId, codAmount: modifyRequest.codAmount, country, testMode: useTestApi },
+      ctx,
+      ['updateParcel']
+    );
+
+    const httpResponse = await ctx.http.post<any>(
+      `${baseUrl}/json/ModifyCOD`,
+      convertToPascalCase(modifyRequest)
+    );
+
+    const carrierRespBody = httpResponse.body as any;
+    const normalizedResponse = convertFromPascalCase(carrierRespBody) as GLSModifyCODResponse;
+
+    const responseValidation = safeValidateGLSModifyCODResponse(normalizedResponse);
+    if (!responseValidation.success) {
+      throw new CarrierError(
+        `Invalid GLS ModifyCOD response: ${responseValidation.error.message}`,
+        'Transient',
+        { raw: { issues: serializeForLog(responseValidation.error.issues), rawCarrierResponse: carrierRespBody } }
+      );
+    }
+
+    const [error] = normalizedResponse.modifyCODError ?? [];
+    if (error) {
+      throw new CarrierError(
+        `GLS could not modify COD of parcel ${parcelCarrierId}: ${error.errorDescription} (code: ${error.errorCode})`,
+        mapGLSErrorCategory(error.errorCode),
+        { carrierCode: String(error.errorCode), raw: serializeForLog(normalizedResponse) }
+      );
+    }
+    if (normalizedResponse.successful !== true) {
+      throw new CarrierError(
+        `GLS did not confirm the COD change of parcel ${parcelCarrierId}`,
+        'Permanent',
+        { raw: serializeForLog(normalizedResponse) }
+      );
+    }
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: COD modified',
+      { parcelCarrierId, codAmount: modifyRequest.codAmount, testMode: useTestApi },
+      ctx,
+      ['updateParcel']
+    );
+
+    return {
+      carrierId: parcelCarrierId,
+      status: 'updated',
+      raw: normalizedResponse,
+    };
+  } catch (error) {
+    safeLog(
+      ctx.logger,
+      'error',
+      'GLS: Error modifying COD',
+      { error: errorToLog(error) },
+      ctx,
+      ['updateParcel']
+    );
+
+    if (error instanceof CarrierError) {
+      throw error;
+    }
+
+    const status = (error as any).response?.status ?? (error as any).status;
+    if (status === 401 || status === 403) {
+      throw new CarrierError('GLS authentication failed', 'Auth', { raw: error });
+    }
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      throw new CarrierError('GLS API temporarily unavailable', 'Transient', { raw: error });
+    }
+
+    throw new CarrierError(
+      `GLS ModifyCOD error: ${error instanceof Error ? error.message : String(error)}`,
+      'Transient',
+      { raw: error }
+    );
+  }
+}
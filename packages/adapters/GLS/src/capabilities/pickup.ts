@@ -0,0 +1,191 @@
+/**
+ * GLS Pickup Capability
+ *
+ * Books a courier collection by creating a Pick&Ship parcel with GLS MyGLS
+ * API PrepareLabels: GLS collects `parcelCount` parcels at the pickup
+ * address on the day of the requested window and delivers them to
+ * `options.gls.deliveryAddress`. Labels come from createLabel(s) as for any
+ * other parcel; deleteParcel cancels the pickup until GLS has collected it.
+ *
+ * Capabilities: PICKUP
+ *
+ * IMPORTANT: This is HU-specific implementation.
+ */
+
+import type { AdapterContext, PickupResponse } from '@shopickup/core';
+import {
+  CarrierError,
+  safeLog,
+  serializeForLog,
+  errorToLog,
+  toLocalDate,
+} from '@shopickup/core';
+import {
+  hashPasswordSHA512,
+  resolveGLSBaseUrl,
+  validateGLSCredentials,
+  convertToPascalCase,
+  convertFromPascalCase,
+} from '../utils/authentication.js';
+import { getGLSPickupCalendar } from '../utils/pickup-calendar.js';
+import {
+  safeValidateRequestPickupRequest,
+  type GLSRequestPickupRequest,
+} from '../validation/pickup.js';
+import { safeValidateGLSPrepareLabelsResponse } from '../validation/parcels.js';
+import {
+  getGLSPickupReference,
+  mapGLSPickupParcelInfo,
+  mapPickupRequestToGLSParcel,
+} from '../mappers/pickup.js';
+import { mapGLSErrorCategory } from '../mappers/labels.js';
+import type { GLSPrepareLabelsResponse } from '../types/index.js';
+
+/**
+ * Request a courier collection (Pick&Ship parcel via PrepareLabels)
+ *
+ * GLS books whole days: the courier comes on the local day of
+ * `window.from`; the times of the window are not sent to GLS.
+ *
+ * @param req Pickup request with credentials and `options.gls.deliveryAddress`
+ * @param ctx Adapter context with HTTP client
+ * @returns PickupResponse with the GLS parcel ID and status 'scheduled'
+ * @throws CarrierError('Validation') for windows in the past, on weekends or on public holidays
+ * @throws CarrierError categorised by mapGLSErrorCategory when GLS refuses the booking
+ */
+export async function requestPickup(
+  req: GLSRequestPickupRequest,
+  ctx: AdapterContext
+): Promise<PickupResponse> {
+  try {
+    const validated = safeValidateRequestPickupRequest(req);
+    if (!validated.success) {
+      throw new CarrierError(
+        `Invalid request: ${validated.error.message}`,
+        'Validation',
+        { raw: serializeForLog(validated.error.issues) }
+      );
+    }
+
+    if (!ctx.http) {
+      throw new CarrierError(
+        'HTTP client not provided in context',
+        'Permanent'
+      );
+    }
+
+    const pickup = validated.data;
+    const { credentials, options } = pickup;
+    const country = options.gls.country || 'HU';
+    const useTestApi = options.useTestApi || false;
+    const baseUrl = resolveGLSBaseUrl(country, useTestApi);
+
+    validateGLSCredentials({
+      username: credentials.username,
+      password: credentials.password,
+      clientNumberList: credentials.clientNumberList,
+    });
+    const clientNumber = credentials.clientNumberList[0];
+
+    const pickupDay = toLocalDate(pickup.window.from, getGLSPickupCalendar(country).timeZone);
+    const reference = getGLSPickupReference(pickup, pickupDay);
+    const parcel = mapPickupRequestToGLSParcel(pickup, clientNumber, reference, pickupDay);
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Requesting pickup (PrepareLabels endpoint, Pick&Ship)',
+      { pickupDay, parcelCount: pickup.parcelCount, reference, country, testMode: useTestApi },
+      ctx,
+      ['requestPickup']
+    );
+
+    const httpResponse = await ctx.http.post<any>(
+      `${baseUrl}/json/PrepareLabels`,
+      convertToPascalCase({
+        username: credentials.username,
+        password: hashPasswordSHA512(credentials.password),
+        clientNumberList: [clientNumber],
+        webshopEngine: credentials.webshopEngine || 'shopickup-adapter/1.0',
+        parcelList: [parcel],
+      })
+    );
+
+    const carrierRespBody = httpResponse.body as any;
+    const normalizedResponse = convertFromPascalCase(carrierRespBody) as GLSPrepareLabelsResponse;
+
+    // Lenient like createParcels: GLS fills unused lists with null
+    const responseValidation = safeValidateGLSPrepareLabelsResponse(normalizedResponse);
+    if (!responseValidation.success) {
+      safeLog(
+        ctx.logger,
+        'warn',
+        'GLS: Response validation failed',
+        { errors: serializeForLog(responseValidation.error.issues) as any },
+        ctx,
+        ['requestPickup']
+      );
+    }
+    if (!normalizedResponse) {
+      throw new CarrierError('Invalid response from GLS', 'Transient', {
+        raw: serializeForLog(httpResponse) as any,
+      });
+    }
+
+    const [error] = normalizedResponse.prepareLabelsError ?? [];
+    if (error) {
+      throw new CarrierError(
+        `GLS could not book pickup ${reference}: ${error.errorDescription} (code: ${error.errorCode})`,
+        mapGLSErrorCategory(error.errorCode),
+        { carrierCode: String(error.errorCode), raw: serializeForLog(normalizedResponse) }
+      );
+    }
+
+    const [parcelInfo] = normalizedResponse.parcelInfoList ?? [];
+    if (!parcelInfo) {
+      throw new CarrierError(
+        `GLS did not confirm pickup ${reference}`,
+        'Permanent',
+        { raw: serializeForLog(normalizedResponse) }
+      );
+    }
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Pickup scheduled',
+      { parcelId: parcelInfo.parcelId, pickupDay, reference, testMode: useTestApi },
+      ctx,
+      ['requestPickup']
+    );
+
+    return mapGLSPickupParcelInfo(parcelInfo, pickup);
+  } catch (error) {
+    safeLog(
+      ctx.logger,
+      'error',
+      'GLS: Error requesting pickup',
+      { error: errorToLog(error) },
+      ctx,
+      ['requestPickup']
+    );
+
+    if (error instanceof CarrierError) {
+      throw error;
+    }
+
+    const status = (error as any).response?.status ?? (error as any).status;
+    if (status === 401 || status === 403) {
+      throw new CarrierError('GLS authentication failed', 'Auth', { raw: error });
+    }
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      throw new CarrierError('GLS API temporarily unavailable', 'Transient', { raw: error });
+    }
+
+    throw new CarrierError(
+      `GLS pickup error: ${error instanceof Error ? error.message : String(error)}`,
+      'Transient',
+      { raw: error }
+    );
+  }
+}
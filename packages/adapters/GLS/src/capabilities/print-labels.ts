@@ -34,6 +34,7 @@ import {
 import {
   mapCanonicalCreateLabelsToGLSPrintLabels,
   mapGLSPrintLabelsToCanonicalCreateLabels,
+  resolvePrinterType,
 } from '../mappers/labels.js';
 
 /**
@@ -178,7 +179,7 @@ export async function printLabels(
       credentials.username,
       hashedPassword,
       credentials.webshopEngine,
-      validated.options?.gls?.printerType,
+      resolvePrinterType(validated.options),
       validated.options?.gls?.printPosition,
       validated.options?.gls?.showPrintDialog,
       undefined,
@@ -251,7 +252,8 @@ export async function printLabels(
     const response = mapGLSPrintLabelsToCanonicalCreateLabels(
       carrierRespBody,
       validated.parcels.length,
-      validated.options?.gls?.printerType
+      resolvePrinterType(validated.options),
+      validated.options?.gls?.printPosition
     );
 
     safeLog(
@@ -0,0 +1,94 @@
+/**
+ * GLS Rates Capability
+ *
+ * MyGLS has no price quote endpoint; rates are computed from a local
+ * weight-band tariff table (home delivery vs ParcelShop/Locker) by the core
+ * tariff engine.
+ */
+
+import type {
+  AdapterContext,
+  RatesRequest,
+  RatesResponse,
+  TariffTable,
+} from '@shopickup/core';
+import {
+  CarrierError,
+  parseTariffTable,
+  quoteFromTariff,
+  safeLog,
+} from '@shopickup/core';
+
+/**
+ * Default GLS Hungary tariff (net HUF list prices in fillér, 27% VAT)
+ *
+ * Indicative only: GLS prices are contract based, so override
+ * `GLSAdapter.tariffTable` with your own price list.
+ */
+export const GLS_DEFAULT_TARIFF: TariffTable = parseTariffTable({
+  carrier: 'hu-gls',
+  currency: 'HUF',
+  fuelSurchargePercent: 15,
+  vatPercent: 27,
+  services: [
+    {
+      service: 'standard',
+      delivery: 'HOME',
+      carrierServiceCode: 'BusinessParcel',
+      estimatedDays: 1,
+      weightBands: [
+        { maxWeightGrams: 2000, price: 149000 },
+        { maxWeightGrams: 5000, price: 169000 },
+        { maxWeightGrams: 10000, price: 199000 },
+        { maxWeightGrams: 20000, price: 259000 },
+        { maxWeightGrams: 30000, price: 319000 },
+        { maxWeightGrams: 40000, price: 399000 },
+      ],
+      codSurcharge: { fixed: 35000, percent: 0.5 },
+    },
+    {
+      service: 'standard',
+      delivery: 'PICKUP_POINT',
+      carrierServiceCode: 'PSD',
+      estimatedDays: 2,
+      weightBands: [
+        { maxWeightGrams: 2000, price: 109000 },
+        { maxWeightGrams: 5000, price: 129000 },
+        { maxWeightGrams: 10000, price: 159000 },
+        { maxWeightGrams: 20000, price: 209000 },
+      ],
+      codSurcharge: { fixed: 35000, percent: 0.5 },
+    },
+  ],
+});
+
+/**
+ * Quote GLS rates from a tariff table
+ *
+ * @param req RatesRequest with parcels to quote
+ * @param ctx Adapter context (used for logging)
+ * @param table Tariff table to quote from
+ * @returns RatesResponse with one rate per serviceable delivery type
+ */
+export async function getRates(
+  req: RatesRequest,
+  ctx: AdapterContext,
+  table: TariffTable
+): Promise<RatesResponse> {
+  if (!Array.isArray(req?.parcels) || req.parcels.length === 0) {
+    throw new CarrierError('Invalid request: at least one parcel is required', 'Validation');
+  }
+
+  const response = quoteFromTariff(table, req);
+
+  safeLog(
+    ctx.logger,
+    'debug',
+    'GLS: Quoted rates from tariff',
+    { parcelCount: req.parcels.length, rateCount: response.rates.length },
+    ctx,
+    ['getRates']
+  );
+
+  return response;
+}
@@ -0,0 +1,304 @@
+/**
+ * GLS Returns Capability
+ *
+ * Creates return parcels: resolves the client's return address with GLS
+ * MyGLS API GetClientReturnAddress, then creates reversed-direction parcels
+ * (pickup at the customer, delivery to the client) with the Pick&Return
+ * service via PrepareLabels. Labels come from createLabel(s) as for any
+ * other parcel.
+ *
+ * Capabilities: CREATE_RETURN, CREATE_RETURNS
+ *
+ * IMPORTANT: This is HU-specific implementation.
+ */
+
+import type {
+  AdapterContext,
+  CarrierResource,
+  CreateParcelsResponse,
+} from '@shopickup/core';
+import {
+  CarrierError,
+  safeLog,
+  serializeForLog,
+  errorToLog,
+} from '@shopickup/core';
+import {
+  hashPasswordSHA512,
+  resolveGLSBaseUrl,
+  validateGLSCredentials,
+  convertToPascalCase,
+  convertFromPascalCase,
+} from '../utils/authentication.js';
+import {
+  safeValidateCreateReturnRequest,
+  safeValidateCreateReturnsRequest,
+  safeValidateGLSClientReturnAddressResponse,
+  type GLSCreateReturnRequest,
+  type GLSCreateReturnsRequest,
+  type GLSReturnOptions,
+} from '../validation/returns.js';
+import { safeValidateGLSPrepareLabelsResponse } from '../validation/parcels.js';
+import {
+  getGLSReturnReference,
+  mapGLSReturnResults,
+  mapReturnItemToGLSParcel,
+} from '../mappers/returns.js';
+import { mapGLSErrorCategory } from '../mappers/labels.js';
+import type {
+  GLSAddress,
+  GLSGetClientReturnAddressRequest,
+  GLSGetClientReturnAddressResponse,
+  GLSPrepareLabelsResponse,
+} from '../types/index.js';
+
+/**
+ * Create a single return parcel
+ * Delegates to createReturns to reuse batching logic
+ */
+export async function createReturn(
+  req: GLSCreateReturnRequest,
+  ctx: AdapterContext,
+  createReturnsImpl: (req: GLSCreateReturnsRequest, ctx: AdapterContext) => Promise<CreateParcelsResponse>
+): Promise<CarrierResource> {
+  const validated = safeValidateCreateReturnRequest(req);
+  if (!validated.success) {
+    throw new CarrierError(
+      `Invalid request: ${validated.error.message}`,
+      'Validation',
+      { raw: serializeForLog(validated.error.issues) }
+    );
+  }
+
+  const response = await createReturnsImpl({
+    returns: [req.return],
+    credentials: req.credentials,
+    options: req.options,
+  }, ctx);
+
+  return {
+    ...response.results[0],
+    rawCarrierResponse: response.rawCarrierResponse,
+  } as CarrierResource & { rawCarrierResponse?: unknown };
+}
+
+/**
+ * Create return parcels in one PrepareLabels call
+ *
+ * Looks up the return address of `options.gls.returnLinkName` once, then
+ * creates one parcel per return from its shipper (the customer) to that
+ * address. Returns GLS refuses come back with status 'failed'.
+ *
+ * @param req Return items with shipper, credentials and the return link name
+ * @param ctx Adapter context with HTTP client
+ * @returns One CarrierResource per return, in request order, with summary statistics
+ */
+export async function createReturns(
+  req: GLSCreateReturnsRequest,
+  ctx: AdapterContext
+): Promise<CreateParcelsResponse> {
+  try {
+    const validated = safeValidateCreateReturnsRequest(req);
+    if (!validated.success) {
+      throw new CarrierError(
+        `Invalid request: ${validated.error.message}`,
+        'Validation',
+        { raw: serializeForLog(validated.error.issues) }
+      );
+    }
+
+    if (!ctx.http) {
+      throw new CarrierError(
+        'HTTP client not provided in context',
+        'Permanent'
+      );
+    }
+
+    const { returns, credentials, options } = validated.data;
+    const country = options.gls.country || 'HU';
+    const useTestApi = options.useTestApi || false;
+    const baseUrl = resolveGLSBaseUrl(country, useTestApi);
+
+    validateGLSCredentials({
+      username: credentials.username,
+      password: credentials.password,
+      clientNumberList: credentials.clientNumberList,
+    });
+    const hashedPassword = hashPasswordSHA512(credentials.password);
+    const clientNumber = credentials.clientNumberList[0];
+    const auth = {
+      username: credentials.username,
+      password: hashedPassword,
+      clientNumberList: [clientNumber],
+      webshopEngine: credentials.webshopEngine || 'shopickup-adapter/1.0',
+    };
+
+    const returnAddress = await getClientReturnAddress(baseUrl, auth, options, ctx);
+
+    const references = returns.map(getGLSReturnReference);
+    const parcelList = returns.map((item) =>
+      mapReturnItemToGLSParcel(item, clientNumber, returnAddress, options.gls.pickupDate)
+    );
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Creating return parcels (PrepareLabels endpoint)',
+      { count: returns.length, country, testMode: useTestApi },
+      ctx,
+      ['createReturns']
+    );
+
+    const httpResponse = await ctx.http.post<any>(
+      `${baseUrl}/json/PrepareLabels`,
+      convertToPascalCase({ ...auth, parcelList })
+    );
+
+    const carrierRespBody = httpResponse.body as any;
+    const normalizedResponse = convertFromPascalCase(carrierRespBody) as GLSPrepareLabelsResponse;
+
+    // Lenient like createParcels: GLS fills unused lists with null
+    const responseValidation = safeValidateGLSPrepareLabelsResponse(normalizedResponse);
+    if (!responseValidation.success) {
+      safeLog(
+        ctx.logger,
+        'warn',
+        'GLS: Response validation failed',
+        { errors: serializeForLog(responseValidation.error.issues) as any },
+        ctx,
+        ['createReturns']
+      );
+    }
+    if (!normalizedResponse) {
+      throw new CarrierError('Invalid response from GLS', 'Transient', {
+        raw: serializeForLog(httpResponse) as any,
+      });
+    }
+
+    const results = mapGLSReturnResults(normalizedResponse, references);
+    const successCount = results.filter((result) => result.status === 'created').length;
+    const failureCount = results.length - successCount;
+    const totalCount = results.length;
+
+    let summary: string;
+    if (failureCount === 0) {
+      summary = `All ${totalCount} returns created successfully`;
+    } else if (successCount === 0) {
+      summary = `All ${totalCount} returns failed`;
+    } else {
+      summary = `Mixed results: ${successCount} succeeded, ${failureCount} failed`;
+    }
+
+    safeLog(
+      ctx.logger,
+      'info',
+      'GLS: Returns creation finished',
+      { summary, successCount, failureCount, testMode: useTestApi },
+      ctx,
+      ['createReturns']
+    );
+
+    return {
+      results,
+      successCount,
+      failureCount,
+      totalCount,
+      allSucceeded: failureCount === 0 && totalCount > 0,
+      allFailed: successCount === 0 && totalCount > 0,
+      someFailed: successCount > 0 && failureCount > 0,
+      summary,
+      rawCarrierResponse: serializeForLog(normalizedResponse),
+    };
+  } catch (error) {
+    safeLog(
+      ctx.logger,
+      'error',
+      'GLS: Error creating returns',
+      { error: errorToLog(error) },
+      ctx,
+      ['createReturns']
+    );
+
+    if (error instanceof CarrierError) {
+      throw error;
+    }
+
+    const status = (error as any).response?.status ?? (error as any).status;
+    if (status === 401 || status === 403) {
+      throw new CarrierError('GLS authentication failed', 'Auth', { raw: error });
+    }
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      throw new CarrierError('GLS API temporarily unavailable', 'Transient', { raw: error });
+    }
+
+    throw new CarrierError(
+      `GLS returns error: ${error instanceof Error ? error.message : String(error)}`,
+      'Transient',
+      { raw: error }
+    );
+  }
+}
+
+/**
+ * Resolve the return address of a MyGLS return link (GetClientReturnAddress)
+ *
+ * @throws CarrierError('NotFound') when the link does not exist, is deleted or has no address
+ */
+async function getClientReturnAddress(
+  baseUrl: string,
+  auth: Pick<GLSGetClientReturnAddressRequest, 'username' | 'password' | 'clientNumberList' | 'webshopEngine'>,
+  options: GLSReturnOptions,
+  ctx: AdapterContext
+): Promise<GLSAddress> {
+  const lookupRequest: GLSGetClientReturnAddressRequest = {
+    ...auth,
+    clientNumber: auth.clientNumberList[0],
+    languageIsoCode: (options.gls.languageIsoCode || 'HU').toUpperCase(),
+    linkTypeId: options.gls.returnLinkTypeId ?? null,
+    name: options.gls.returnLinkName,
+  };
+
+  safeLog(
+    ctx.logger,
+    'debug',
+    'GLS: Resolving client return address (GetClientReturnAddress endpoint)',
+    { returnLinkName: lookupRequest.name, clientNumber: lookupRequest.clientNumber },
+    ctx,
+    ['createReturns']
+  );
+
+  const httpResponse = await ctx.http!.post<any>(
+    `${baseUrl}/json/GetClientReturnAddress`,
+    convertToPascalCase(lookupRequest)
+  );
+  const normalizedResponse = convertFromPascalCase(httpResponse.body) as GLSGetClientReturnAddressResponse;
+
+  const responseValidation = safeValidateGLSClientReturnAddressResponse(normalizedResponse);
+  if (!responseValidation.success) {
+    throw new CarrierError(
+      `Invalid GLS GetClientReturnAddress response: ${responseValidation.error.message}`,
+      'Transient',
+      { raw: { issues: serializeForLog(responseValidation.error.issues), rawCarrierResponse: httpResponse.body } }
+    );
+  }
+
+  const [error] = normalizedResponse.getClientReturnAddressErrors ?? [];
+  if (error) {
+    throw new CarrierError(
+      `GLS API error: ${error.errorDescription} (code: ${error.errorCode})`,
+      mapGLSErrorCategory(error.errorCode),
+      { carrierCode: String(error.errorCode), raw: serializeForLog(normalizedResponse) }
+    );
+  }
+
+  const { returnAddress, linkStatus } = normalizedResponse;
+  if (!returnAddress || linkStatus === 0 || linkStatus === 3) {
+    throw new CarrierError(
+      `GLS return link '${lookupRequest.name}' has no return address (link status: ${linkStatus ?? 'unknown'})`,
+      'NotFound',
+      { raw: serializeForLog(normalizedResponse) }
+    );
+  }
+
+  return returnAddress;
+}
@@ -0,0 +1,71 @@
+/**
+ * GLS Webhooks Capability
+ *
+ * Parses GLS status push notifications into canonical tracking updates.
+ *
+ * Capability: WEBHOOKS
+ *
+ * GLS pushes the same parcel status structure GetParcelStatuses returns
+ * (ParcelNumber + ParcelStatusList, PascalCase keys), either one parcel per
+ * notification or an array of parcels. Each parcel is mapped with the
+ * tracking mappers, so updates match what track() produces.
+ */
+
+import type {
+  AdapterContext,
+  TrackingUpdate,
+  WebhookRequest,
+} from '@shopickup/core';
+import {
+  CarrierError,
+  readWebhookJson,
+  safeLog,
+} from '@shopickup/core';
+import { mapGLSTrackingResponseToCanonical } from '../mappers/tracking.js';
+import { convertFromPascalCase } from '../utils/authentication.js';
+import { safeValidateGLSTrackingResponse } from '../validation/tracking.js';
+
+/**
+ * Parse a GLS status notification
+ *
+ * Verification (signature/shared secret) is done by the adapter before this
+ * is called.
+ *
+ * @param req Webhook request (raw or parsed JSON body)
+ * @param ctx Adapter context (logger)
+ * @returns One TrackingUpdate per parcel in the notification
+ * @throws CarrierError("Validation") if the payload is not a GLS status notification
+ */
+export async function parseWebhook(
+  req: WebhookRequest,
+  ctx: AdapterContext
+): Promise<TrackingUpdate[]> {
+  const payload = convertFromPascalCase(readWebhookJson(req));
+  const parcels = Array.isArray(payload) ? payload : [payload];
+
+  const updates = parcels.map((parcel, index) => {
+    const validation = safeValidateGLSTrackingResponse(parcel);
+    if (!validation.success) {
+      throw new CarrierError(
+        `Invalid GLS webhook payload (item ${index}): ${validation.error.message}`,
+        'Validation',
+        { raw: parcel }
+      );
+    }
+    return mapGLSTrackingResponseToCanonical(validation.data);
+  });
+
+  safeLog(
+    ctx.logger,
+    'info',
+    'GLS: Webhook parsed',
+    {
+      parcels: updates.length,
+      trackingNumbers: updates.map((u) => u.trackingNumber),
+    },
+    ctx,
+    ['parseWebhook']
+  );
+
+  return updates;
+}
@@ -12,6 +12,14 @@
  * - PRINT_LABEL: Create single label/PDF from full parcel payload (delegates to PRINT_LABELS)
  * - PRINT_LABELS: Create/Print labels from full parcel payloads in one step via GLS PrintLabels endpoint
  * - TRACK: Track shipments and parcels (Phase 3)
+ * - DELETE_PARCEL: Delete parcels (and their labels) via GLS DeleteLabels
+ * - VOID_LABEL: Void a label by deleting its parcel via GLS DeleteLabels
+ * - MODIFY_PARCEL: Change the COD amount of a parcel via GLS ModifyCOD
+ * - LIST_PARCELS: List parcels by pickup/print date range via GLS GetParcelList
+ * - CREATE_RETURN: Create single return parcel (delegates to CREATE_RETURNS)
+ * - CREATE_RETURNS: Create Pick&Return parcels to the client's return address (GetClientReturnAddress + PrepareLabels)
+ * - RATES: Quote prices from a local tariff table (no API call)
+ * - WEBHOOKS: Parse GLS status push notifications into tracking updates
  * 
  * IMPORTANT: This adapter is HU (Hungary) specific for parcel/label creation and tracking.
  * Pickup points support 20+ countries via public feed.
@@ -20,7 +28,6 @@
  * 
  * Future capabilities (Phase 4+):
  * - CLOSE_SHIPMENT: Close shipments for label generation
- * - VOID_LABEL: Cancel/void labels
  * 
  * Pickup Points:
  * - Public, unauthenticated feed
@@ -58,12 +65,27 @@ import type {
   CreateLabelResponse,
   CreateLabelsResponse,
   CarrierResource,
+  CreateReturnRequest,
+  CreateReturnsRequest,
+  DeleteParcelRequest,
+  DeleteParcelResult,
   FetchPickupPointsRequest,
   FetchPickupPointsResponse,
+  ListParcelsRequest,
+  ListParcelsResponse,
+  PickupRequest,
+  PickupResponse,
   TrackingRequest,
   TrackingUpdate,
+  RatesRequest,
+  RatesResponse,
+  TariffTable,
+  UpdateParcelRequest,
+  VoidLabelRequest,
+  WebhookRequest,
+  WebhookVerifier,
 } from '@shopickup/core';
-import { Capabilities, NotImplementedError } from '@shopickup/core';
+import { Capabilities } from '@shopickup/core';
 import {
   fetchPickupPoints as fetchPickupPointsImpl,
   createParcel as createParcelImpl,
@@ -73,6 +95,17 @@ import {
   printLabel as printLabelImpl,
   printLabels as printLabelsImpl,
   track as trackImpl,
+  deleteParcel as deleteParcelImpl,
+  deleteParcels as deleteParcelsImpl,
+  voidLabel as voidLabelImpl,
+  updateParcel as updateParcelImpl,
+  listParcels as listParcelsImpl,
+  createReturn as createReturnImpl,
+  createReturns as createReturnsImpl,
+  requestPickup as requestPickupImpl,
+  getRates as getRatesImpl,
+  GLS_DEFAULT_TARIFF,
+  parseWebhook as parseWebhookImpl,
 } from './capabilities/index.js';
 import type {
   GLSCreateParcelRequest,
@@ -83,6 +116,15 @@ import type {
   GLSPrintLabelsRequest,
   GLSTrackingRequest,
   GLSFetchPickupPointsRequest,
+  GLSDeleteParcelRequest,
+  GLSDeleteParcelsRequest,
+  GLSDeleteParcelsResponse,
+  GLSVoidLabelRequest,
+  GLSUpdateParcelRequest,
+  GLSListParcelsRequest,
+  GLSCreateReturnRequest,
+  GLSCreateReturnsRequest,
+  GLSRequestPickupRequest,
 } from './validation.js';
 
 type GLSAdapterWithPrintContracts = CarrierAdapter & {
@@ -102,6 +144,14 @@ type GLSAdapterWithPrintContracts = CarrierAdapter & {
  * - PRINT_LABEL: Creates single label/PDF via GLS PrintLabels from full parcel payload (HU-specific, one-step)
  * - PRINT_LABELS: Creates multiple labels/PDFs via GLS PrintLabels from full parcel payloads (HU-specific, one-step)
  * - TRACK: Tracks parcels via GLS GetParcelStatuses API (HU-focused, experimental for other countries)
+ * - DELETE_PARCEL: Deletes parcels via GLS DeleteLabels (HU-specific)
+ * - VOID_LABEL: Voids a label by deleting its parcel via GLS DeleteLabels (HU-specific)
+ * - MODIFY_PARCEL: Changes the COD amount of a parcel via GLS ModifyCOD (HU-specific)
+ * - LIST_PARCELS: Lists parcels by pickup/print date range via GLS GetParcelList (HU-specific)
+ * - CREATE_RETURN / CREATE_RETURNS: Creates return parcels to the client's return address (HU-specific)
+ * - PICKUP: Books a courier collection as a Pick&Ship parcel via GLS PrepareLabels (HU-specific)
+ * - RATES: Quotes prices from a local tariff table (overridable via `tariffTable`)
+ * - WEBHOOKS: Parses status push notifications (verified via `webhookVerifier`)
  */
 export class GLSAdapter implements CarrierAdapter {
   readonly id = 'hu-gls';
@@ -113,6 +163,15 @@ export class GLSAdapter implements CarrierAdapter {
     Capabilities.CREATE_PARCELS,
     Capabilities.CREATE_LABEL,
     Capabilities.TRACK,
+    Capabilities.DELETE_PARCEL,
+    Capabilities.VOID_LABEL,
+    Capabilities.MODIFY_PARCEL,
+    Capabilities.LIST_PARCELS,
+    Capabilities.CREATE_RETURN,
+    Capabilities.CREATE_RETURNS,
+    Capabilities.PICKUP,
+    Capabilities.RATES,
+    Capabilities.WEBHOOKS,
     Capabilities.TEST_MODE_SUPPORTED,
   ];
 
@@ -120,6 +179,26 @@ export class GLSAdapter implements CarrierAdapter {
     createLabel: [Capabilities.CREATE_PARCEL],
   };
 
+  readonly limits = {
+    maxWeightGrams: 40000,
+    acceptsCod: true,
+    pickupPointProviders: ['gls'],
+  };
+
+  /**
+   * Tariff table used by getRates
+   * Defaults to indicative list prices; replace with your contracted prices
+   * (e.g., `adapter.tariffTable = parseTariffTable(json)`)
+   */
+  tariffTable: TariffTable = GLS_DEFAULT_TARIFF;
+
+  /**
+   * Verifier applied to every notification passed to parseWebhook
+   * Unset by default; configure one before exposing a public webhook endpoint
+   * (e.g., `adapter.webhookVerifier = createHmacVerifier({ secret, header })`)
+   */
+  webhookVerifier?: WebhookVerifier;
+
   /**
    * Create a new GLS adapter instance
    */
@@ -275,12 +354,142 @@ export class GLSAdapter implements CarrierAdapter {
     return trackImpl(req as unknown as GLSTrackingRequest, ctx);
   }
 
-  async requestPickup(_req: any, _ctx: AdapterContext): Promise<CarrierResource> {
-    throw new NotImplementedError('PICKUP', this.id);
+  /**
+   * Delete a parcel (and its label) by GLS parcel database ID
+   *
+   * The parcelCarrierId is the ID returned by createParcels. GLS refuses to
+   * delete parcels it has already picked up; those come back with status 'failed'.
+   *
+   * @param req Request with GLS parcel ID and credentials
+   * @param ctx Adapter context with HTTP client
+   * @returns DeleteParcelResult indicating success or failure
+   */
+  async deleteParcel(req: GLSDeleteParcelRequest, ctx: AdapterContext): Promise<DeleteParcelResult>;
+  async deleteParcel(req: DeleteParcelRequest, ctx: AdapterContext): Promise<DeleteParcelResult> {
+    return deleteParcelImpl(
+      req as GLSDeleteParcelRequest,
+      ctx,
+      (batchReq, batchCtx) => this.deleteParcels(batchReq, batchCtx),
+    );
   }
 
-  async getRates(_req: any, _ctx: AdapterContext): Promise<any> {
-    throw new NotImplementedError('RATES', this.id);
+  /**
+   * Delete up to 50 parcels in one DeleteLabels call
+   *
+   * @param req Request with GLS parcel IDs and credentials
+   * @param ctx Adapter context with HTTP client
+   * @returns Per-parcel results and summary statistics
+   */
+  async deleteParcels(req: GLSDeleteParcelsRequest, ctx: AdapterContext): Promise<GLSDeleteParcelsResponse> {
+    return deleteParcelsImpl(req, ctx);
+  }
+
+  /**
+   * Void a label
+   *
+   * GLS labels belong to parcel records, so the parcel is deleted via
+   * DeleteLabels. MyGLS authenticates every call: pass `{ labelId, credentials }`
+   * with the GLS parcel ID as labelId.
+   *
+   * @throws CarrierError when the parcel cannot be deleted
+   */
+  async voidLabel(req: GLSVoidLabelRequest, ctx: AdapterContext): Promise<CarrierResource>;
+  async voidLabel(req: VoidLabelRequest | string, ctx: AdapterContext): Promise<CarrierResource> {
+    return voidLabelImpl(
+      req as GLSVoidLabelRequest | string,
+      ctx,
+      (batchReq, batchCtx) => this.deleteParcels(batchReq, batchCtx),
+    );
+  }
+
+  /**
+   * Change a parcel after creation
+   *
+   * GLS ModifyCOD only changes the COD amount: the parcel keeps the COD
+   * currency and reference it was created with, so the new amount must be in
+   * that currency (options.gls.codCurrency, default: the country's currency).
+   * Uses the parcel database ID returned by createParcels as parcelCarrierId.
+   *
+   * @throws CarrierError when GLS refuses the change
+   */
+  async updateParcel(req: GLSUpdateParcelRequest, ctx: AdapterContext): Promise<CarrierResource>;
+  async updateParcel(req: UpdateParcelRequest, ctx: AdapterContext): Promise<CarrierResource> {
+    return updateParcelImpl(req as GLSUpdateParcelRequest, ctx);
+  }
+
+  /**
+   * List parcels by pickup date and/or print date range
+   *
+   * Returns every parcel GLS holds for the account in the range, including
+   * ones created outside this system. Parcels with a parcel number
+   * (trackingNumber) are 'printed', the rest 'created'.
+   *
+   * @param req Request with at least one of pickupDate / printDate and credentials
+   * @param ctx Adapter context with HTTP client
+   */
+  async listParcels(req: GLSListParcelsRequest, ctx: AdapterContext): Promise<ListParcelsResponse>;
+  async listParcels(req: ListParcelsRequest, ctx: AdapterContext): Promise<ListParcelsResponse> {
+    return listParcelsImpl(req as GLSListParcelsRequest, ctx);
+  }
+
+  /**
+   * Create a return parcel for an existing parcel
+   *
+   * GLS collects the return at `return.shipper` (the customer) and delivers it
+   * to the return address of the MyGLS return link `options.gls.returnLinkName`.
+   *
+   * @param req Return item with shipper, credentials and return link options
+   * @param ctx Adapter context with HTTP client
+   * @returns CarrierResource with the GLS parcel ID of the return parcel
+   */
+  async createReturn(req: GLSCreateReturnRequest, ctx: AdapterContext): Promise<CarrierResource>;
+  async createReturn(req: CreateReturnRequest, ctx: AdapterContext): Promise<CarrierResource> {
+    return createReturnImpl(
+      req as GLSCreateReturnRequest,
+      ctx,
+      (batchReq, batchCtx) => this.createReturns(batchReq, batchCtx),
+    );
+  }
+
+  /**
+   * Create multiple return parcels in one PrepareLabels call
+   *
+   * @param req Return items with shipper, shared credentials and return link options
+   * @param ctx Adapter context with HTTP client
+   * @returns Per-return results, in request order, and summary statistics
+   */
+  async createReturns(req: GLSCreateReturnsRequest, ctx: AdapterContext): Promise<CreateParcelsResponse>;
+  async createReturns(req: CreateReturnsRequest, ctx: AdapterContext): Promise<CreateParcelsResponse> {
+    return createReturnsImpl(req as GLSCreateReturnsRequest, ctx);
+  }
+
+  /**
+   * Request a courier collection on the day of the pickup window
+   *
+   * @param req Pickup address, contact, window and parcel count, plus `options.gls.deliveryAddress`
+   * @param ctx Adapter context with HTTP client
+   * @returns PickupResponse with the GLS parcel ID of the Pick&Ship booking
+   */
+  async requestPickup(req: GLSRequestPickupRequest, ctx: AdapterContext): Promise<PickupResponse>;
+  async requestPickup(req: PickupRequest, ctx: AdapterContext): Promise<PickupResponse> {
+    return requestPickupImpl(req as GLSRequestPickupRequest, ctx);
+  }
+
+  /**
+   * Quote rates from the adapter's tariff table
+   * MyGLS has no rates endpoint, so no API call is made
+   */
+  async getRates(req: RatesRequest, ctx: AdapterContext): Promise<RatesResponse> {
+    return getRatesImpl(req, ctx, this.tariffTable);
+  }
+
+  /**
+   * Parse a GLS status push notification
+   * Runs `webhookVerifier` first, then maps every parcel in the payload
+   */
+  async parseWebhook(req: WebhookRequest, ctx: AdapterContext): Promise<TrackingUpdate[]> {
+    await this.webhookVerifier?.verify(req);
+    return parseWebhookImpl(req, ctx);
   }
 }
 
@@ -288,5 +497,6 @@ export type { GLSAdapterWithPrintContracts };
 
 // Export types for external use
 export type { GLSDeliveryPoint, GLSDeliveryPointsFeed } from './types/index.js';
+export { GLS_DEFAULT_TARIFF } from './capabilities/rates.js';
 export * from './mappers/index.js';
 export * from './validation.js';
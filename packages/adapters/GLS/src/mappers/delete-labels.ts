@@ -0,0 +1,58 @@
+/**
+ * GLS DeleteLabels Mapper
+ *
+ * Maps a GLS DeleteLabels response to one canonical DeleteParcelResult per
+ * requested parcel ID.
+ */
+
+import type { DeleteParcelResult } from "@shopickup/core";
+import type { GLSDeleteLabelsResponse, GLSErrorInfo } from "../types/index.js";
+
+function toResultError(error: GLSErrorInfo): { code: string; message: string } {
+  return {
+    code: String(error.errorCode),
+    message: error.errorDescription || `GLS error ${error.errorCode}`,
+  };
+}
+
+/**
+ * Errors that name no parcel, i.e. apply to the whole request
+ * (login failures, unknown client number, ...)
+ */
+export function getGLSRequestLevelErrors(resp: GLSDeleteLabelsResponse): GLSErrorInfo[] {
+  return (resp.deleteLabelsErrorList ?? []).filter((error) => !error.parcelIdList?.length);
+}
+
+/**
+ * Map a DeleteLabels response to per-parcel results, in request order
+ *
+ * A parcel counts as deleted only when GLS lists it in successfullyDeletedList.
+ * Failed parcels carry the errors that name them, or the request-level errors
+ * when none do.
+ */
+export function mapGLSDeleteLabelsToCanonical(
+  resp: GLSDeleteLabelsResponse,
+  parcelCarrierIds: string[],
+): DeleteParcelResult[] {
+  const deleted = new Map((resp.successfullyDeletedList ?? []).map((entry) => [String(entry.parcelId), entry]));
+  const errors = resp.deleteLabelsErrorList ?? [];
+  const requestLevel = getGLSRequestLevelErrors(resp);
+
+  return parcelCarrierIds.map((carrierId) => {
+    const entry = deleted.get(carrierId);
+    if (entry) {
+      return { carrierId, status: "deleted", raw: entry };
+    }
+
+    const own = errors.filter((error) => error.parcelIdList?.some((id) => String(id) === carrierId));
+    const relevant = own.length > 0 ? own : requestLevel;
+    return {
+      carrierId,
+      status: "failed",
+      errors: relevant.length > 0
+        ? relevant.map(toResultError)
+        : [{ code: "NOT_DELETED", message: `GLS did not confirm deleting parcel ${carrierId}` }],
+      raw: relevant.length > 0 ? relevant : undefined,
+    };
+  });
+}
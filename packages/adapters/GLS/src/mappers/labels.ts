@@ -12,6 +12,7 @@ import type {
   CreateLabelsRequest,
   CreateLabelsResponse,
   LabelFileResource,
+  LabelSheetLayout,
   Parcel,
 } from "@shopickup/core";
 import { serializeForLog } from "@shopickup/core";
@@ -26,12 +27,17 @@ import type {
   GLSErrorInfo,
   GLSParcel,
 } from "../types/index.js";
+import type { GLSPrinterOptions } from "../validation/schemas.js";
 import {
   mapCanonicalParcelToGLS,
   type CreateParcelsGLSCarrierOptions,
 } from "./parcels.js";
 
-function mapGLSErrorCategory(
+/**
+ * CarrierError category for a GLS ErrorCode (Appendix A)
+ * -1/14/15/27 are login and client number failures; 4/9/26 unknown parcels
+ */
+export function mapGLSErrorCategory(
   errorCode: number | string | undefined,
 ): "Validation" | "Auth" | "Permanent" | "Transient" | "NotFound" {
   const code = typeof errorCode === "string" ? Number(errorCode) : errorCode;
@@ -80,6 +86,53 @@ function resolveLabelContentType(
     : "application/pdf";
 }
 
+/**
+ * GLS printer type for a label request
+ * An explicit `gls.printerType` wins; otherwise the canonical `labelFormat`
+ * preference picks the ZPL printer type matching `labelDpi`.
+ */
+export function resolvePrinterType(options?: {
+  labelFormat?: "PDF" | "ZPL";
+  labelDpi?: 203 | 300;
+  gls?: Pick<GLSPrinterOptions, "printerType">;
+}): GLSPrinterOptions["printerType"] {
+  if (options?.gls?.printerType) return options.gls.printerType;
+  if (options?.labelFormat === "ZPL") {
+    return options.labelDpi === 300 ? "ThermoZPL_300DPI" : "ThermoZPL";
+  }
+  return undefined;
+}
+
+/**
+ * Sheet layout of the A4 printer types, which tile four labels per page
+ * A4_2x2 fills a 2x2 grid row by row; A4_4x1 stacks four labels in one column
+ */
+function resolveSheetLayout(
+  printerType?: string,
+  printPosition?: number,
+): LabelSheetLayout | undefined {
+  const startPosition =
+    printPosition && printPosition >= 1 && printPosition <= 4
+      ? printPosition
+      : undefined;
+  if (printerType === "A4_2x2") return { columns: 2, rows: 2, startPosition };
+  if (printerType === "A4_4x1") return { columns: 1, rows: 4, startPosition };
+  return undefined;
+}
+
+/**
+ * 1-based page holding the idx-th label: one label per page unless tiled
+ */
+function labelPage(idx: number, layout?: LabelSheetLayout): number {
+  if (!layout) return idx + 1;
+  const slot = (layout.startPosition ?? 1) - 1 + idx;
+  return Math.floor(slot / (layout.columns * layout.rows)) + 1;
+}
+
+function labelPageCount(count: number, layout?: LabelSheetLayout): number {
+  return count > 0 ? labelPage(count - 1, layout) : 0;
+}
+
 /**
  * Map canonical Shopickup CreateLabelsRequest to GLS PrintLabelsRequest
  *
@@ -137,13 +190,17 @@ export function mapCanonicalCreateLabelsToGLSPrintLabels(
  *
  * @param glsResponse GLS PrintLabelsResponse
  * @param requestParcelCount Number of parcels in the original request
+ * @param printerType GLS printer type the labels were requested for
+ * @param printPosition First cell used on A4 sheets (1-4)
  * @returns Shopickup CreateLabelsResponse with single file and per-item results
  */
 export function mapGLSPrintLabelsToCanonicalCreateLabels(
   glsResponse: GLSPrintLabelsResponse,
   requestParcelCount: number,
   printerType?: string,
+  printPosition?: number,
 ): CreateLabelsResponse {
+  const layout = resolveSheetLayout(printerType, printPosition);
   const successfulLabels =
     glsResponse.printLabelsInfoList ||
     (glsResponse as any).PrintLabelsInfoList ||
@@ -208,8 +265,8 @@ export function mapGLSPrintLabelsToCanonicalCreateLabels(
       status: "created" as const,
       fileId, // Reference the generated file ID
       pageRange: {
-        start: idx + 1, // 1-indexed page number
-        end: idx + 1,
+        start: labelPage(idx, layout), // 1-indexed page number
+        end: labelPage(idx, layout),
       },
       raw: {
         parcelId: label.parcelId || label.ParcelId,
@@ -246,8 +303,9 @@ export function mapGLSPrintLabelsToCanonicalCreateLabels(
           contentType: resolveLabelContentType(printerType),
           labelFormat: resolveLabelFormat(printerType),
           byteLength: pdfBuffer.length,
-          pages: successCount, // One page per label
+          pages: labelPageCount(successCount, layout),
           orientation: "portrait" as const,
+          layout,
           metadata: {
             combined: true,
             parcelCount: successCount,
@@ -360,6 +418,7 @@ export function mapGLSGetPrintDataToCanonicalCreateLabels(
   requestParcelCount: number,
   printerType?: string,
 ): CreateLabelsResponse {
+  const layout = resolveSheetLayout(printerType);
   // Handle case sensitivity: GLS API returns PascalCase, but spec shows camelCase
   const successfulLabels =
     glsResponse.printDataInfoList ||
@@ -423,8 +482,8 @@ export function mapGLSGetPrintDataToCanonicalCreateLabels(
       fileId, // Reference the generated file ID (if PDF available)
       pageRange: fileId
         ? {
-            start: idx + 1,
-            end: idx + 1,
+            start: labelPage(idx, layout),
+            end: labelPage(idx, layout),
           }
         : undefined,
       raw: label,
@@ -458,8 +517,9 @@ export function mapGLSGetPrintDataToCanonicalCreateLabels(
             contentType: resolveLabelContentType(printerType),
             labelFormat: resolveLabelFormat(printerType),
             byteLength: pdfBuffer.length,
-            pages: successCount,
+            pages: labelPageCount(successCount, layout),
             orientation: "portrait" as const,
+            layout,
             metadata: {
               combined: true,
               parcelCount: successCount,
@@ -562,6 +622,7 @@ export function mapGLSGetPrintedLabelsToCanonicalCreateLabels(
   requestParcelCount: number,
   printerType?: string,
 ): CreateLabelsResponse {
+  const layout = resolveSheetLayout(printerType);
   // Handle case sensitivity: GLS API returns PascalCase, but spec shows camelCase
   const successfulLabels =
     glsResponse.printDataInfoList ||
@@ -623,8 +684,8 @@ export function mapGLSGetPrintedLabelsToCanonicalCreateLabels(
       status: "created" as const,
       fileId, // Reference the generated file ID
       pageRange: {
-        start: idx + 1, // 1-indexed page number
-        end: idx + 1,
+        start: labelPage(idx, layout), // 1-indexed page number
+        end: labelPage(idx, layout),
       },
       raw: {
         parcelId: label.parcelId || label.ParcelId,
@@ -660,8 +721,9 @@ export function mapGLSGetPrintedLabelsToCanonicalCreateLabels(
           contentType: resolveLabelContentType(printerType),
           labelFormat: resolveLabelFormat(printerType),
           byteLength: pdfBuffer.length,
-          pages: successCount, // One page per label
+          pages: labelPageCount(successCount, layout),
           orientation: "portrait" as const,
+          layout,
           metadata: {
             combined: true,
             parcelCount: successCount,
@@ -0,0 +1,33 @@
+/**
+ * GLS GetParcelList Mappers
+ *
+ * Maps GLS PrintDataInfo entries to canonical ListedParcelResource records
+ */
+
+import type { ListedParcelResource } from '@shopickup/core';
+import type { GLSParcelListItem } from '../types/index.js';
+
+/**
+ * Format a date for the GLS JSON API (ASP.NET JSON date: /Date(ms)/)
+ */
+export function formatGLSDate(date: Date): string {
+  return `/Date(${date.getTime()})/`;
+}
+
+/**
+ * Map a GetParcelList entry to a canonical ListedParcelResource
+ *
+ * GLS assigns the parcel number when the label is printed, so entries with
+ * a parcel number are 'printed' and the rest 'created'.
+ */
+export function mapGLSParcelListItemToCanonical(item: GLSParcelListItem): ListedParcelResource {
+  const reference = item.clientReference ?? item.parcel?.clientReference;
+
+  return {
+    carrierId: String(item.parcelId),
+    status: item.parcelNumber != null ? 'printed' : 'created',
+    trackingNumber: item.parcelNumber != null ? String(item.parcelNumber) : undefined,
+    reference: reference || undefined,
+    raw: item,
+  };
+}
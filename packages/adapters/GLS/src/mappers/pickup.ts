@@ -0,0 +1,95 @@
+/**
+ * GLS Pickup Mappers
+ *
+ * GLS has no stand-alone pickup order: a courier collection is booked as a
+ * Pick&Ship parcel whose pickup address is the collection point and whose
+ * pickup date is the requested day
+ */
+
+import type { PickupResponse } from '@shopickup/core';
+import type { GLSParcel, GLSParcelInfo } from '../types/index.js';
+import type { GLSRequestPickupRequest } from '../validation/pickup.js';
+import { mapAddressToGLSAddress } from './parcels.js';
+
+/**
+ * Pick&Ship Service: GLS collects the parcels at the pickup address and
+ * delivers them to the delivery address
+ */
+export const GLS_PICKUP_SERVICE_CODE = 'PSS';
+
+/**
+ * Client reference of a pickup: the request's reference, or one derived from
+ * the pickup day (YYYY-MM-DD in the GLS country's time zone)
+ */
+export function getGLSPickupReference(req: Pick<GLSRequestPickupRequest, 'reference'>, pickupDay: string): string {
+  return req.reference ?? `pickup-${pickupDay}`;
+}
+
+/**
+ * Map a canonical pickup request to a GLS Pick&Ship parcel
+ *
+ * The combined weight is split evenly over the parcels, since GLS takes one
+ * parcel property entry per parcel.
+ *
+ * @param req Validated pickup request (see GLSRequestPickupRequestSchema)
+ * @param clientNumber GLS client number the pickup is booked for
+ * @param clientReference Reference from getGLSPickupReference
+ * @param pickupDay Day of window.from in the GLS country's time zone (YYYY-MM-DD),
+ *   the day the window was validated for
+ */
+export function mapPickupRequestToGLSParcel(
+  req: GLSRequestPickupRequest,
+  clientNumber: number,
+  clientReference: string,
+  pickupDay: string
+): GLSParcel {
+  const { address, contact, window, parcelCount, totalWeightGrams, options } = req;
+  const { deliveryAddress, content } = options.gls;
+
+  const weightKg = totalWeightGrams !== undefined
+    ? Math.round(totalWeightGrams / parcelCount) / 1000
+    : undefined;
+
+  return {
+    clientNumber,
+    clientReference,
+    count: parcelCount,
+    content,
+    pickupAddress: mapAddressToGLSAddress({
+      ...address,
+      contactName: contact.name,
+      contactPhone: contact.phone ?? address.phone,
+      contactEmail: contact.email ?? address.email,
+    }),
+    deliveryAddress: mapAddressToGLSAddress({
+      ...deliveryAddress.address,
+      contactName: deliveryAddress.contact.name,
+      contactPhone: deliveryAddress.contact.phone,
+      contactEmail: deliveryAddress.contact.email,
+    }),
+    pickupDate: pickupDay,
+    serviceList: [{ code: GLS_PICKUP_SERVICE_CODE }],
+    parcelPropertyList: weightKg !== undefined
+      ? Array.from({ length: parcelCount }, () => ({ packageType: 1, weight: weightKg }))
+      : undefined,
+  };
+}
+
+/**
+ * Map the created Pick&Ship parcel to a canonical PickupResponse
+ */
+export function mapGLSPickupParcelInfo(
+  parcel: GLSParcelInfo,
+  req: Pick<GLSRequestPickupRequest, 'parcelCount'>
+): PickupResponse {
+  return {
+    carrierId: String(parcel.parcelId),
+    status: 'scheduled',
+    raw: parcel,
+    meta: {
+      clientReference: parcel.clientReference,
+      service: GLS_PICKUP_SERVICE_CODE,
+      parcelCount: req.parcelCount,
+    },
+  };
+}
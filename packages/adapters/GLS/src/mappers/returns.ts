@@ -0,0 +1,94 @@
+/**
+ * GLS Returns Mappers
+ *
+ * Builds reversed-direction GLS parcels for canonical return items and maps
+ * the PrepareLabels response back to one CarrierResource per item
+ */
+
+import type { CarrierResource, FailedCarrierResource, ReturnItem } from '@shopickup/core';
+import type { GLSAddress, GLSParcel, GLSPrepareLabelsResponse } from '../types/index.js';
+import { mapAddressToGLSAddress } from './parcels.js';
+
+/**
+ * Pick&Return Service: GLS collects the parcel at the pickup address and
+ * delivers it to the client
+ */
+export const GLS_RETURN_SERVICE_CODE = 'PRS';
+
+/**
+ * Client reference of a return parcel: the item's refCode, or one derived
+ * from the original parcel ID so returns can be reconciled with their parcel
+ */
+export function getGLSReturnReference(item: ReturnItem): string {
+  return item.refCode ?? `return-${item.parcelCarrierId}`;
+}
+
+/**
+ * Map a canonical return item to a GLS parcel going from the customer
+ * (item.shipper) to the client's return address
+ *
+ * @param item Return item; shipper is required (see GLSCreateReturnsRequestSchema)
+ * @param clientNumber GLS client number the return is created for
+ * @param returnAddress Address from GetClientReturnAddress
+ * @param pickupDate Optional collection date (ISO 8601)
+ */
+export function mapReturnItemToGLSParcel(
+  item: ReturnItem & { shipper: NonNullable<ReturnItem['shipper']> },
+  clientNumber: number,
+  returnAddress: GLSAddress,
+  pickupDate?: string
+): GLSParcel {
+  const { contact, address } = item.shipper;
+
+  return {
+    clientNumber,
+    clientReference: getGLSReturnReference(item),
+    count: 1,
+    pickupAddress: mapAddressToGLSAddress({
+      ...address,
+      name: contact.name,
+      contactName: contact.name,
+      contactPhone: contact.phone,
+      contactEmail: contact.email,
+    }),
+    deliveryAddress: returnAddress,
+    pickupDate,
+    serviceList: [{ code: GLS_RETURN_SERVICE_CODE }],
+  };
+}
+
+/**
+ * Map a PrepareLabels response to one CarrierResource per return, in request order
+ *
+ * Parcels and errors are matched to returns by client reference.
+ */
+export function mapGLSReturnResults(
+  response: GLSPrepareLabelsResponse,
+  references: string[]
+): CarrierResource[] {
+  const parcels = response.parcelInfoList ?? [];
+  const errors = response.prepareLabelsError ?? [];
+
+  return references.map((reference): CarrierResource => {
+    const parcel = parcels.find((info) => info.clientReference === reference);
+    if (parcel) {
+      return {
+        carrierId: String(parcel.parcelId),
+        status: 'created',
+        raw: parcel,
+        meta: { clientReference: reference },
+      };
+    }
+
+    const itemErrors = errors.filter((error) => error.clientReferenceList?.includes(reference));
+    const failed: FailedCarrierResource = {
+      carrierId: undefined,
+      status: 'failed',
+      raw: itemErrors,
+      errors: itemErrors.length > 0
+        ? itemErrors.map((error) => ({ code: String(error.errorCode), message: error.errorDescription }))
+        : [{ code: 'NOT_CREATED', message: 'GLS did not create the return parcel' }],
+    };
+    return failed;
+  });
+}
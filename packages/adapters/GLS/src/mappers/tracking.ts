@@ -9,7 +9,9 @@ import type {
   TrackingEvent,
   TrackingUpdate,
   TrackingStatus,
+  TrackingSubStatus,
 } from '@shopickup/core';
+import { summarizeTrackingEvents, trackingFlags } from '@shopickup/core';
 import type {
   GLSGetParcelStatusesResponse,
   GLSParcelStatus,
@@ -122,6 +124,82 @@ const GLS_STATUS_MAPPING: Record<string, TrackingStatus> = {
   '420': 'EXCEPTION', // Defect box
 };
 
+/**
+ * GLS status code to sub-status mapping
+ * Only codes that say more than their canonical status are listed
+ */
+const GLS_SUB_STATUS_MAPPING: Record<string, TrackingSubStatus> = {
+  '1': 'PICKED_UP',
+  '2': 'AT_HUB',
+  '3': 'AT_HUB',
+  '4': 'WITH_COURIER',
+  '5': 'DELIVERED_TO_RECIPIENT',
+  '8': 'READY_FOR_PICKUP',
+  '9': 'DELIVERY_ATTEMPT_FAILED',
+  '10': 'AT_HUB',
+  '11': 'DELIVERY_ATTEMPT_FAILED',
+  '12': 'DELIVERY_ATTEMPT_FAILED',
+  '13': 'DELAYED',
+  '14': 'DELIVERY_ATTEMPT_FAILED',
+  '15': 'DELIVERY_ATTEMPT_FAILED',
+  '17': 'REFUSED',
+  '18': 'ADDRESS_PROBLEM',
+  '19': 'DELAYED',
+  '20': 'ADDRESS_PROBLEM',
+  '21': 'DELAYED',
+  '22': 'AT_HUB',
+  '23': 'RETURNING_TO_SENDER',
+  '24': 'REDIRECTED',
+  '25': 'DELAYED',
+  '26': 'AT_HUB',
+  '27': 'AT_HUB',
+  '30': 'DAMAGED',
+  '31': 'DAMAGED',
+  '32': 'WITH_COURIER',
+  '33': 'DELIVERY_ATTEMPT_FAILED',
+  '34': 'REFUSED',
+  '36': 'DELIVERY_ATTEMPT_FAILED',
+  '37': 'REDIRECTED',
+  '40': 'RETURNING_TO_SENDER',
+  '41': 'REDIRECTED',
+  '46': 'REDIRECTED',
+  '47': 'AT_HUB',
+  '51': 'INFO_RECEIVED',
+  '52': 'INFO_RECEIVED',
+  '53': 'AT_HUB',
+  '54': 'DELIVERED_TO_PICKUP_POINT',
+  '55': 'DELIVERED_TO_PICKUP_POINT',
+  '56': 'READY_FOR_PICKUP',
+  '57': 'PICKUP_EXPIRED',
+  '58': 'DELIVERED_TO_RECIPIENT',
+  '59': 'DELIVERED_TO_PICKUP_POINT',
+  '60': 'HELD_AT_CUSTOMS',
+  '61': 'HELD_AT_CUSTOMS',
+  '62': 'HELD_AT_CUSTOMS',
+  '66': 'HELD_AT_CUSTOMS',
+  '67': 'HELD_AT_CUSTOMS',
+  '68': 'REFUSED',
+  '70': 'HELD_AT_CUSTOMS',
+  '71': 'HELD_AT_CUSTOMS',
+  '72': 'HELD_AT_CUSTOMS',
+  '73': 'HELD_AT_CUSTOMS',
+  '74': 'HELD_AT_CUSTOMS',
+  '75': 'HELD_AT_CUSTOMS',
+  '80': 'REDIRECTED',
+  '83': 'INFO_RECEIVED',
+  '84': 'INFO_RECEIVED',
+  '85': 'INFO_RECEIVED',
+  '86': 'AT_HUB',
+  '92': 'DELIVERED_TO_RECIPIENT',
+  '93': 'DELIVERED_TO_RECIPIENT',
+  '97': 'DELIVERED_TO_PICKUP_POINT',
+  '401': 'DELAYED',
+  '402': 'DELAYED',
+  '403': 'DAMAGED',
+  '404': 'DELAYED',
+  '420': 'DELAYED',
+};
+
 /**
  * Map GLS parcel status to canonical TrackingEvent
  * 
@@ -137,6 +215,7 @@ export function mapGLSStatusToTrackingEvent(
 ): TrackingEvent {
   // Map GLS status code to canonical status
   const canonicalStatus = GLS_STATUS_MAPPING[glsStatus.statusCode] || 'PENDING';
+  const subStatus = GLS_SUB_STATUS_MAPPING[glsStatus.statusCode];
 
   // GLS returns dates in ASP.NET JSON format: /Date(1779460879807+0200)/
   // Parse it manually since new Date() does not understand that format
@@ -151,6 +230,8 @@ export function mapGLSStatusToTrackingEvent(
   return {
     timestamp,
     status: canonicalStatus,
+    ...(subStatus ? { subStatus } : {}),
+    ...trackingFlags(canonicalStatus, subStatus),
     carrierStatusCode: glsStatus.statusCode,
     location: {
       city: glsStatus.depotCity,
@@ -195,6 +276,7 @@ export function mapGLSTrackingResponseToCanonical(
     trackingNumber: String(parcelNumber || ''),
     events,
     status: currentStatus,
+    ...summarizeTrackingEvents(events, currentStatus),
     lastUpdate,
     estimatedDelivery: null,
     relatedTrackingNumber: null,
@@ -0,0 +1,119 @@
+/**
+ * GLS DeleteLabels Mock Tests
+ *
+ * deleteParcel / deleteParcels / voidLabel through the adapter with a mock HTTP client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AdapterContext } from '@shopickup/core';
+import { CarrierError, CarrierRegistry, Capabilities } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+
+function createContext(response: unknown | Error) {
+  const post = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return { status: 200, headers: {}, body: response };
+  });
+  const ctx = {
+    http: { post },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as unknown as AdapterContext;
+  return { ctx, post };
+}
+
+describe('GLSAdapter DeleteLabels', () => {
+  let adapter: GLSAdapter;
+
+  beforeEach(() => {
+    adapter = new GLSAdapter();
+  });
+
+  it('advertises DELETE_PARCEL and VOID_LABEL', () => {
+    expect(adapter.capabilities).toEqual(expect.arrayContaining([Capabilities.DELETE_PARCEL, Capabilities.VOID_LABEL]));
+  });
+
+  it('posts parcel IDs to DeleteLabels and reports the deleted parcel', async () => {
+    const { ctx, post } = createContext({ SuccessfullyDeletedList: [{ ParcelId: 12345, SubParcelIdList: [] }] });
+
+    const result = await adapter.deleteParcel({ parcelCarrierId: '12345', credentials, options: { useTestApi: true } }, ctx);
+
+    expect(result).toMatchObject({ carrierId: '12345', status: 'deleted' });
+    const [url, body] = post.mock.calls[0] as unknown as [string, Record<string, unknown>];
+    expect(url).toBe('https://api.test.mygls.hu/ParcelService.svc/json/DeleteLabels');
+    expect(body).toMatchObject({ Username: 'user@example.com', ClientNumberList: [100000001], ParcelIdList: [12345] });
+    expect(Array.isArray(body.Password)).toBe(true);
+  });
+
+  it('returns per-parcel results for a partially failed batch', async () => {
+    const { ctx } = createContext({
+      SuccessfullyDeletedList: [{ ParcelId: 1 }],
+      DeleteLabelsErrorList: [{ ErrorCode: 1021, ErrorDescription: 'Parcel already in delivery', ParcelIdList: [2] }],
+    });
+
+    const response = await adapter.deleteParcels({ parcelCarrierIds: ['1', '2'], credentials }, ctx);
+
+    expect(response.results.map((r) => [r.carrierId, r.status])).toEqual([['1', 'deleted'], ['2', 'failed']]);
+    expect(response.results[1].errors).toEqual([{ code: '1021', message: 'Parcel already in delivery' }]);
+    expect(response).toMatchObject({ successCount: 1, failureCount: 1, someFailed: true, summary: '1 of 2 parcels deleted' });
+  });
+
+  it('returns a failed result when GLS refuses to delete the parcel', async () => {
+    const { ctx } = createContext({
+      DeleteLabelsErrorList: [{ ErrorCode: 4, ErrorDescription: 'Parcel not found', ParcelIdList: [999] }],
+    });
+
+    const result = await adapter.deleteParcel({ parcelCarrierId: '999', credentials }, ctx);
+
+    expect(result).toMatchObject({ carrierId: '999', status: 'failed', errors: [{ code: '4', message: 'Parcel not found' }] });
+  });
+
+  it('throws categorised CarrierErrors for request-level errors', async () => {
+    const { ctx } = createContext({ DeleteLabelsErrorList: [{ ErrorCode: -1, ErrorDescription: 'Unauthorized' }] });
+
+    const error = await adapter.deleteParcel({ parcelCarrierId: '12345', credentials }, ctx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CarrierError);
+    expect(error).toMatchObject({ category: 'Auth', carrierCode: '-1' });
+  });
+
+  it('rejects invalid requests before calling GLS', async () => {
+    const { ctx, post } = createContext({});
+
+    await expect(adapter.deleteParcel({ parcelCarrierId: 'CLFOX1', credentials }, ctx)).rejects.toMatchObject({ category: 'Validation' });
+    await expect(adapter.deleteParcels({ parcelCarrierIds: Array(51).fill('1'), credentials }, ctx)).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('maps HTTP failures to Transient and Auth', async () => {
+    const unavailable = Object.assign(new Error('Service Unavailable'), { response: { status: 503 } });
+    const forbidden = Object.assign(new Error('Forbidden'), { response: { status: 403 } });
+
+    await expect(adapter.deleteParcel({ parcelCarrierId: '1', credentials }, createContext(unavailable).ctx))
+      .rejects.toMatchObject({ category: 'Transient' });
+    await expect(adapter.deleteParcel({ parcelCarrierId: '1', credentials }, createContext(forbidden).ctx))
+      .rejects.toMatchObject({ category: 'Auth' });
+  });
+
+  it('voids a label by deleting its parcel, also through the registry', async () => {
+    const { ctx } = createContext({ SuccessfullyDeletedList: [{ ParcelId: 12345 }] });
+    const registry = new CarrierRegistry().register(adapter);
+
+    const resource = await registry.dispatch('hu-gls', Capabilities.VOID_LABEL, { labelId: '12345', credentials }, ctx);
+
+    expect(resource).toMatchObject({ carrierId: '12345', status: 'voided' });
+  });
+
+  it('throws when a label cannot be voided or no credentials are given', async () => {
+    const { ctx } = createContext({
+      DeleteLabelsErrorList: [{ ErrorCode: 1021, ErrorDescription: 'Parcel already in delivery', ParcelIdList: [12345] }],
+    });
+
+    await expect(adapter.voidLabel({ labelId: '12345', credentials }, ctx)).rejects.toMatchObject({
+      category: 'Permanent',
+      carrierCode: '1021',
+    });
+    await expect(adapter.voidLabel('12345' as any, ctx)).rejects.toMatchObject({ category: 'Validation' });
+  });
+});
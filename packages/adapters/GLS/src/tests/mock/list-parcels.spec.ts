@@ -0,0 +1,98 @@
+/**
+ * GLS GetParcelList Mock Tests
+ *
+ * listParcels through the adapter with a mock HTTP client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AdapterContext } from '@shopickup/core';
+import { CarrierRegistry, Capabilities } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+const from = new Date('2026-03-01T00:00:00Z');
+const to = new Date('2026-03-07T23:59:59Z');
+
+function createContext(response: unknown | Error) {
+  const post = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return { status: 200, headers: {}, body: response };
+  });
+  const ctx = {
+    http: { post },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as unknown as AdapterContext;
+  return { ctx, post };
+}
+
+describe('GLSAdapter GetParcelList', () => {
+  let adapter: GLSAdapter;
+
+  beforeEach(() => {
+    adapter = new GLSAdapter();
+  });
+
+  it('advertises LIST_PARCELS', () => {
+    expect(adapter.capabilities).toContain(Capabilities.LIST_PARCELS);
+  });
+
+  it('posts the date ranges to GetParcelList and maps printed and unprinted parcels', async () => {
+    const { ctx, post } = createContext({
+      GetParcelListErrors: [],
+      PrintDataInfoList: [
+        { ParcelId: 12345, ParcelNumber: 50012345678, ClientReference: 'order-1' },
+        { ParcelId: 12346, ParcelNumber: null, ClientReference: '' },
+      ],
+    });
+
+    const response = await adapter.listParcels({ pickupDate: { from, to }, credentials, options: { useTestApi: true } }, ctx);
+
+    const [url, body] = post.mock.calls[0] as unknown as [string, Record<string, unknown>];
+    expect(url).toBe('https://api.test.mygls.hu/ParcelService.svc/json/GetParcelList');
+    expect(body).toMatchObject({
+      Username: 'user@example.com',
+      ClientNumberList: [100000001],
+      PickupDateFrom: `/Date(${from.getTime()})/`,
+      PickupDateTo: `/Date(${to.getTime()})/`,
+      PrintDateFrom: null,
+      PrintDateTo: null,
+    });
+    expect(response.parcels.map((p) => [p.carrierId, p.status, p.trackingNumber, p.reference])).toEqual([
+      ['12345', 'printed', '50012345678', 'order-1'],
+      ['12346', 'created', undefined, undefined],
+    ]);
+  });
+
+  it('returns an empty list when GLS has no parcels in the range', async () => {
+    const { ctx } = createContext({ GetParcelListErrors: [], PrintDataInfoList: [] });
+    const registry = new CarrierRegistry().register(adapter);
+
+    const response = await registry.dispatch('hu-gls', Capabilities.LIST_PARCELS, { printDate: { from, to }, credentials }, ctx);
+
+    expect(response.parcels).toEqual([]);
+  });
+
+  it('throws categorised CarrierErrors for GLS errors', async () => {
+    const { ctx } = createContext({ GetParcelListErrors: [{ ErrorCode: 14, ErrorDescription: 'Unauthorized' }] });
+
+    await expect(adapter.listParcels({ pickupDate: { from, to }, credentials }, ctx)).rejects.toMatchObject({
+      category: 'Auth',
+      carrierCode: '14',
+    });
+  });
+
+  it('rejects requests without a date range before calling GLS', async () => {
+    const { ctx, post } = createContext({});
+
+    await expect(adapter.listParcels({ credentials }, ctx)).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('maps HTTP failures to Transient', async () => {
+    const { ctx } = createContext(Object.assign(new Error('Bad Gateway'), { response: { status: 502 } }));
+
+    await expect(adapter.listParcels({ pickupDate: { from, to }, credentials }, ctx)).rejects.toMatchObject({
+      category: 'Transient',
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * GLS ModifyCOD Mock Tests
+ *
+ * updateParcel through the adapter with a mock HTTP client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AdapterContext } from '@shopickup/core';
+import { CarrierError, CarrierRegistry, Capabilities } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001, 100000002] };
+const cod = (amount: number) => ({ amount: { amount, currency: 'HUF' } });
+
+function createContext(response: unknown | Error) {
+  const post = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return { status: 200, headers: {}, body: response };
+  });
+  const ctx = {
+    http: { post },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as unknown as AdapterContext;
+  return { ctx, post };
+}
+
+describe('GLSAdapter ModifyCOD', () => {
+  let adapter: GLSAdapter;
+
+  beforeEach(() => {
+    adapter = new GLSAdapter();
+  });
+
+  it('advertises MODIFY_PARCEL', () => {
+    expect(adapter.capabilities).toContain(Capabilities.MODIFY_PARCEL);
+  });
+
+  it('posts the new COD amount to ModifyCOD with the first client number', async () => {
+    const { ctx, post } = createContext({ Successful: true, ModifyCODError: [] });
+
+    const result = await adapter.updateParcel(
+      { parcelCarrierId: '12345', changes: { cod: cod(8500) }, credentials, options: { useTestApi: true } },
+      ctx
+    );
+
+    expect(result).toMatchObject({ carrierId: '12345', status: 'updated' });
+    const [url, body] = post.mock.calls[0] as unknown as [string, Record<string, unknown>];
+    expect(url).toBe('https://api.test.mygls.hu/ParcelService.svc/json/ModifyCOD');
+    expect(body).toMatchObject({
+      Username: 'user@example.com',
+      ClientNumberList: [100000001],
+      ParcelId: 12345,
+      CODAmount: 8500,
+    });
+    expect(Array.isArray(body.Password)).toBe(true);
+  });
+
+  it('dispatches through the registry', async () => {
+    const { ctx } = createContext({ Successful: true });
+    const registry = new CarrierRegistry().register(adapter);
+
+    const result = await registry.dispatch(
+      'hu-gls',
+      Capabilities.MODIFY_PARCEL,
+      { parcelCarrierId: '12345', changes: { cod: cod(0) }, credentials },
+      ctx
+    );
+
+    expect(result.status).toBe('updated');
+  });
+
+  it('rejects changes ModifyCOD cannot make before calling GLS', async () => {
+    const { ctx, post } = createContext({ Successful: true });
+    const update = (changes: unknown) =>
+      adapter.updateParcel({ parcelCarrierId: '12345', changes: changes as any, credentials }, ctx);
+
+    await expect(update({ cod: { ...cod(100), reference: 'INV-2' } })).rejects.toMatchObject({ category: 'Validation' });
+    await expect(update({ cod: cod(-1) })).rejects.toMatchObject({ category: 'Validation' });
+    await expect(update({})).rejects.toMatchObject({ category: 'Validation' });
+    await expect(update({ cod: cod(100), weight: 2 })).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('requires the amount in the COD currency of the parcel', async () => {
+    const { ctx, post } = createContext({ Successful: true });
+    const eur = { cod: { amount: { amount: 30, currency: 'EUR' } } };
+
+    await expect(adapter.updateParcel({ parcelCarrierId: '12345', changes: eur, credentials }, ctx))
+      .rejects.toMatchObject({ category: 'Validation', message: expect.stringContaining('HUF') });
+    await expect(
+      adapter.updateParcel({ parcelCarrierId: '12345', changes: { cod: cod(100) }, credentials, options: { gls: { country: 'SK' } } }, ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+
+    await adapter.updateParcel({ parcelCarrierId: '12345', changes: eur, credentials, options: { gls: { country: 'SK' } } }, ctx);
+    await adapter.updateParcel({ parcelCarrierId: '12345', changes: eur, credentials, options: { gls: { codCurrency: 'EUR' } } }, ctx);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws categorised CarrierErrors when GLS refuses the change', async () => {
+    const notFound = createContext({ Successful: false, ModifyCODError: [{ ErrorCode: 4, ErrorDescription: 'Parcel not found' }] });
+    const error = await adapter
+      .updateParcel({ parcelCarrierId: '999', changes: { cod: cod(100) }, credentials }, notFound.ctx)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CarrierError);
+    expect(error).toMatchObject({ category: 'NotFound', carrierCode: '4' });
+
+    const auth = createContext({ Successful: false, ModifyCODError: [{ ErrorCode: 14, ErrorDescription: 'Unauthorized' }] });
+    await expect(
+      adapter.updateParcel({ parcelCarrierId: '999', changes: { cod: cod(100) }, credentials }, auth.ctx)
+    ).rejects.toMatchObject({ category: 'Auth' });
+
+    const unconfirmed = createContext({ Successful: false });
+    await expect(
+      adapter.updateParcel({ parcelCarrierId: '999', changes: { cod: cod(100) }, credentials }, unconfirmed.ctx)
+    ).rejects.toMatchObject({ category: 'Permanent' });
+  });
+
+  it('maps HTTP failures to Transient and Auth', async () => {
+    const req = { parcelCarrierId: '12345', changes: { cod: cod(100) }, credentials };
+
+    const unavailable = createContext(Object.assign(new Error('Service Unavailable'), { response: { status: 503 } }));
+    await expect(adapter.updateParcel(req, unavailable.ctx)).rejects.toMatchObject({ category: 'Transient' });
+
+    const forbidden = createContext(Object.assign(new Error('Forbidden'), { response: { status: 403 } }));
+    await expect(adapter.updateParcel(req, forbidden.ctx)).rejects.toMatchObject({ category: 'Auth' });
+  });
+});
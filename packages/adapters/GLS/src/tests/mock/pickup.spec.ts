@@ -0,0 +1,142 @@
+/**
+ * GLS Pickup Mock Tests
+ *
+ * requestPickup through the adapter with a mock HTTP client
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AdapterContext } from '@shopickup/core';
+import { CarrierError, CarrierRegistry, Capabilities } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001, 100000002] };
+const deliveryAddress = {
+  contact: { name: 'Nagy Péter', phone: '+36209876543' },
+  address: { name: 'Nagy Péter', street: 'Kossuth Lajos utca 5', city: 'Debrecen', postalCode: '4024', country: 'HU' },
+};
+
+function pickupRequest(from = '2026-10-20T07:00:00Z', to = '2026-10-20T14:00:00Z') {
+  return {
+    address: { name: 'Webshop Kft.', street: 'Raktár utca 3', city: 'Budapest', postalCode: '1097', country: 'HU' },
+    contact: { name: 'Szabó Éva', phone: '+36301234567' },
+    window: { from: new Date(from), to: new Date(to) },
+    parcelCount: 2,
+    reference: 'DISPATCH-42',
+    credentials,
+    options: { useTestApi: true, gls: { deliveryAddress } },
+  };
+}
+
+function createContext(response: unknown | Error) {
+  const post = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return { status: 200, headers: {}, body: response };
+  });
+  const ctx = {
+    http: { post },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as unknown as AdapterContext;
+  return { ctx, post };
+}
+
+describe('GLSAdapter requestPickup', () => {
+  let adapter: GLSAdapter;
+
+  beforeEach(() => {
+    adapter = new GLSAdapter();
+    // Monday 2026-10-19 10:00 in Budapest
+    vi.useFakeTimers({ now: new Date('2026-10-19T08:00:00Z'), toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('advertises PICKUP', () => {
+    expect(adapter.capabilities).toContain(Capabilities.PICKUP);
+  });
+
+  it('books a Pick&Ship parcel via PrepareLabels with the first client number', async () => {
+    const { ctx, post } = createContext({
+      ParcelInfoList: [{ ClientReference: 'DISPATCH-42', ParcelId: 555001 }],
+      PrepareLabelsError: [],
+    });
+
+    const result = await adapter.requestPickup(pickupRequest(), ctx);
+
+    expect(result).toMatchObject({
+      carrierId: '555001',
+      status: 'scheduled',
+      meta: { clientReference: 'DISPATCH-42', service: 'PSS', parcelCount: 2 },
+    });
+    const [url, body] = post.mock.calls[0] as unknown as [string, any];
+    expect(url).toBe('https://api.test.mygls.hu/ParcelService.svc/json/PrepareLabels');
+    expect(body.ClientNumberList).toEqual([100000001]);
+    expect(body.ParcelList).toHaveLength(1);
+    expect(body.ParcelList[0]).toMatchObject({
+      ClientNumber: 100000001,
+      ClientReference: 'DISPATCH-42',
+      Count: 2,
+      PickupDate: '2026-10-20',
+      PickupAddress: { City: 'Budapest', ContactName: 'Szabó Éva' },
+      DeliveryAddress: { City: 'Debrecen' },
+      ServiceList: [{ Code: 'PSS' }],
+    });
+  });
+
+  it('sends the local day the window starts on, not the UTC date', async () => {
+    const { ctx, post } = createContext({ ParcelInfoList: [{ ClientReference: 'DISPATCH-42', ParcelId: 555001 }] });
+
+    // 00:30 on Wednesday in Budapest, still Tuesday in UTC
+    await adapter.requestPickup(pickupRequest('2026-10-20T22:30:00Z', '2026-10-21T14:00:00Z'), ctx);
+
+    const [, body] = post.mock.calls[0] as unknown as [string, any];
+    expect(body.ParcelList[0].PickupDate).toBe('2026-10-21');
+  });
+
+  it('dispatches through the registry', async () => {
+    const { ctx } = createContext({ ParcelInfoList: [{ ClientReference: 'DISPATCH-42', ParcelId: 555001 }] });
+    const registry = new CarrierRegistry().register(adapter);
+
+    const result = await registry.dispatch('hu-gls', Capabilities.PICKUP, pickupRequest(), ctx);
+
+    expect(result.status).toBe('scheduled');
+  });
+
+  it('rejects windows GLS cannot serve before calling GLS', async () => {
+    const { ctx, post } = createContext({});
+
+    await expect(
+      adapter.requestPickup(pickupRequest('2026-10-16T07:00:00Z', '2026-10-16T14:00:00Z'), ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+    await expect(
+      adapter.requestPickup(pickupRequest('2026-11-01T07:00:00Z', '2026-11-01T14:00:00Z'), ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+    await expect(
+      adapter.requestPickup(pickupRequest('2026-10-23T07:00:00Z', '2026-10-23T14:00:00Z'), ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('throws categorised CarrierErrors when GLS refuses the booking', async () => {
+    const refused = createContext({
+      ParcelInfoList: null,
+      PrepareLabelsError: [{ ErrorCode: 14, ErrorDescription: 'Unauthorized', ClientReferenceList: ['DISPATCH-42'] }],
+    });
+    const error = await adapter.requestPickup(pickupRequest(), refused.ctx).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CarrierError);
+    expect(error).toMatchObject({ category: 'Auth', carrierCode: '14' });
+
+    const unconfirmed = createContext({ ParcelInfoList: [], PrepareLabelsError: [] });
+    await expect(adapter.requestPickup(pickupRequest(), unconfirmed.ctx)).rejects.toMatchObject({ category: 'Permanent' });
+  });
+
+  it('maps HTTP failures to Transient and Auth', async () => {
+    const unavailable = createContext(Object.assign(new Error('Service Unavailable'), { response: { status: 503 } }));
+    await expect(adapter.requestPickup(pickupRequest(), unavailable.ctx)).rejects.toMatchObject({ category: 'Transient' });
+
+    const forbidden = createContext(Object.assign(new Error('Forbidden'), { response: { status: 401 } }));
+    await expect(adapter.requestPickup(pickupRequest(), forbidden.ctx)).rejects.toMatchObject({ category: 'Auth' });
+  });
+});
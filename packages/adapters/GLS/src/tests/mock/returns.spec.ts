@@ -0,0 +1,118 @@
+/**
+ * GLS Returns Mock Tests
+ *
+ * createReturn / createReturns through the adapter with a mock HTTP client
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AdapterContext } from '@shopickup/core';
+import { CarrierRegistry, Capabilities } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+const options = { useTestApi: true, gls: { returnLinkName: 'webshop-returns' } };
+const shipper = (name: string) => ({
+  contact: { name, phone: '+36301234567' },
+  address: { name, street: 'Fő utca 12', city: 'Szeged', postalCode: '6720', country: 'HU' },
+});
+const returnAddressResponse = {
+  ReturnAddress: { Name: 'Webshop Kft.', Street: 'Raktár utca', HouseNumber: '3', City: 'Budapest', ZipCode: '1097', CountryIsoCode: 'HU' },
+  LinkStatus: 1,
+  GetClientReturnAddressErrors: [],
+};
+
+function createContext(responses: Record<string, unknown>) {
+  const post = vi.fn(async (url: string) => {
+    const op = url.slice(url.lastIndexOf('/') + 1);
+    const response = responses[op];
+    if (response instanceof Error) throw response;
+    return { status: 200, headers: {}, body: response };
+  });
+  const ctx = {
+    http: { post },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  } as unknown as AdapterContext;
+  return { ctx, post };
+}
+
+describe('GLSAdapter returns', () => {
+  let adapter: GLSAdapter;
+
+  beforeEach(() => {
+    adapter = new GLSAdapter();
+  });
+
+  it('advertises CREATE_RETURN and CREATE_RETURNS', () => {
+    expect(adapter.capabilities).toEqual(expect.arrayContaining([Capabilities.CREATE_RETURN, Capabilities.CREATE_RETURNS]));
+  });
+
+  it('resolves the return address, then creates Pick&Return parcels to it', async () => {
+    const { ctx, post } = createContext({
+      GetClientReturnAddress: returnAddressResponse,
+      PrepareLabels: {
+        ParcelInfoList: [{ ParcelId: 900001, ClientReference: 'return-12345' }],
+        PrepareLabelsError: [{ ErrorCode: 5, ErrorDescription: 'Invalid zip code', ClientReferenceList: ['RMA-7'], ParcelIdList: null }],
+      },
+    });
+
+    const response = await adapter.createReturns({
+      returns: [
+        { parcelCarrierId: '12345', shipper: shipper('Kiss Anna') },
+        { parcelCarrierId: '12346', refCode: 'RMA-7', shipper: shipper('Nagy Béla') },
+      ],
+      credentials,
+      options,
+    }, ctx);
+
+    const [lookupUrl, lookupBody] = post.mock.calls[0] as unknown as [string, Record<string, unknown>];
+    expect(lookupUrl).toBe('https://api.test.mygls.hu/ParcelService.svc/json/GetClientReturnAddress');
+    expect(lookupBody).toMatchObject({ ClientNumber: 100000001, LanguageIsoCode: 'HU', Name: 'webshop-returns' });
+
+    const [prepareUrl, prepareBody] = post.mock.calls[1] as unknown as [string, any];
+    expect(prepareUrl).toBe('https://api.test.mygls.hu/ParcelService.svc/json/PrepareLabels');
+    expect(prepareBody.ParcelList[0]).toMatchObject({
+      ClientReference: 'return-12345',
+      PickupAddress: { Name: 'Kiss Anna', City: 'Szeged' },
+      DeliveryAddress: { Name: 'Webshop Kft.', City: 'Budapest', ZipCode: '1097' },
+      ServiceList: [{ Code: 'PRS' }],
+    });
+
+    expect(response.results.map((r) => [r.status, r.carrierId])).toEqual([['created', '900001'], ['failed', undefined]]);
+    expect(response).toMatchObject({ successCount: 1, failureCount: 1, someFailed: true });
+  });
+
+  it('creates a single return, also through the registry', async () => {
+    const { ctx } = createContext({
+      GetClientReturnAddress: returnAddressResponse,
+      PrepareLabels: { ParcelInfoList: [{ ParcelId: 900001, ClientReference: 'return-12345' }] },
+    });
+    const registry = new CarrierRegistry().register(adapter);
+
+    const result = await registry.dispatch(
+      'hu-gls',
+      Capabilities.CREATE_RETURN,
+      { return: { parcelCarrierId: '12345', shipper: shipper('Kiss Anna') }, credentials, options },
+      ctx
+    );
+
+    expect(result).toMatchObject({ carrierId: '900001', status: 'created' });
+  });
+
+  it('throws NotFound when the return link has no address', async () => {
+    const { ctx, post } = createContext({ GetClientReturnAddress: { LinkStatus: 0, GetClientReturnAddressErrors: [] } });
+
+    await expect(
+      adapter.createReturn({ return: { parcelCarrierId: '12345', shipper: shipper('Kiss Anna') }, credentials, options }, ctx)
+    ).rejects.toMatchObject({ category: 'NotFound' });
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects returns without a shipper before calling GLS', async () => {
+    const { ctx, post } = createContext({});
+
+    await expect(
+      adapter.createReturn({ return: { parcelCarrierId: '12345' }, credentials, options }, ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for GLS DeleteLabels Mapper and Validators
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapGLSDeleteLabelsToCanonical, getGLSRequestLevelErrors } from '../../mappers/delete-labels.js';
+import { mapGLSErrorCategory } from '../../mappers/labels.js';
+import {
+  safeValidateDeleteParcelRequest,
+  safeValidateDeleteParcelsRequest,
+  safeValidateGLSDeleteLabelsResponse,
+} from '../../validation/delete-labels.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+
+describe('GLS DeleteLabels validation', () => {
+  it('accepts numeric parcel database IDs only', () => {
+    expect(safeValidateDeleteParcelRequest({ parcelCarrierId: '12345', credentials }).success).toBe(true);
+    expect(safeValidateDeleteParcelRequest({ parcelCarrierId: 'GLS-12345', credentials }).success).toBe(false);
+    expect(safeValidateDeleteParcelRequest({ parcelCarrierId: '12345', credentials: { username: 'u' } }).success).toBe(false);
+  });
+
+  it('limits batch deletes to 1-50 IDs', () => {
+    const ids = (n: number) => Array.from({ length: n }, (_, i) => String(i + 1));
+
+    expect(safeValidateDeleteParcelsRequest({ parcelCarrierIds: ids(50), credentials }).success).toBe(true);
+    expect(safeValidateDeleteParcelsRequest({ parcelCarrierIds: ids(51), credentials }).success).toBe(false);
+    expect(safeValidateDeleteParcelsRequest({ parcelCarrierIds: [], credentials }).success).toBe(false);
+  });
+
+  it('accepts empty and partial responses but rejects malformed lists', () => {
+    expect(safeValidateGLSDeleteLabelsResponse({}).success).toBe(true);
+    expect(safeValidateGLSDeleteLabelsResponse({ successfullyDeletedList: [{ parcelId: 1 }] }).success).toBe(true);
+    expect(safeValidateGLSDeleteLabelsResponse({ successfullyDeletedList: [{ parcelId: 'x' }] }).success).toBe(false);
+  });
+});
+
+describe('mapGLSDeleteLabelsToCanonical', () => {
+  it('returns one result per requested ID in request order', () => {
+    const results = mapGLSDeleteLabelsToCanonical(
+      {
+        successfullyDeletedList: [{ parcelId: 3, subParcelIdList: [4] }, { parcelId: 1 }],
+        deleteLabelsErrorList: [{ errorCode: 1021, errorDescription: 'Parcel already in delivery', parcelIdList: [2] }],
+      },
+      ['1', '2', '3', '5']
+    );
+
+    expect(results).toEqual([
+      { carrierId: '1', status: 'deleted', raw: { parcelId: 1 } },
+      {
+        carrierId: '2',
+        status: 'failed',
+        errors: [{ code: '1021', message: 'Parcel already in delivery' }],
+        raw: [{ errorCode: 1021, errorDescription: 'Parcel already in delivery', parcelIdList: [2] }],
+      },
+      { carrierId: '3', status: 'deleted', raw: { parcelId: 3, subParcelIdList: [4] } },
+      {
+        carrierId: '5',
+        status: 'failed',
+        errors: [{ code: 'NOT_DELETED', message: 'GLS did not confirm deleting parcel 5' }],
+        raw: undefined,
+      },
+    ]);
+  });
+
+  it('attaches request-level errors to parcels no error names', () => {
+    const resp = { deleteLabelsErrorList: [{ errorCode: -1, errorDescription: 'Unauthorized' }] };
+    const [result] = mapGLSDeleteLabelsToCanonical(resp, ['7']);
+
+    expect(getGLSRequestLevelErrors(resp)).toHaveLength(1);
+    expect(result.errors).toEqual([{ code: '-1', message: 'Unauthorized' }]);
+  });
+
+  it('categorises GLS error codes', () => {
+    expect(mapGLSErrorCategory(-1)).toBe('Auth');
+    expect(mapGLSErrorCategory('27')).toBe('Auth');
+    expect(mapGLSErrorCategory(4)).toBe('NotFound');
+    expect(mapGLSErrorCategory(1021)).toBe('Permanent');
+    expect(mapGLSErrorCategory('NOT_DELETED')).toBe('Validation');
+  });
+});
@@ -9,6 +9,7 @@ import { describe, it, expect } from 'vitest';
 import {
   mapCanonicalCreateLabelsToGLSPrintLabels,
   mapGLSPrintLabelsToCanonicalCreateLabels,
+  resolvePrinterType,
 } from '../../mappers/labels.js';
 import {
   GLSCreateLabelsRequestSchema,
@@ -314,6 +315,28 @@ describe('GLS Label Mappers', () => {
       });
     });
 
+    it('should map A4 sheet output to tiled pages from the print position', () => {
+      const glsResponse = {
+        labels: Buffer.from('PDF').toString('base64'),
+        printLabelsInfoList: ['ORDER-001', 'ORDER-002', 'ORDER-003'].map((clientReference, idx) => ({
+          clientReference,
+          parcelId: 12345 + idx,
+        })),
+      };
+
+      const result = mapGLSPrintLabelsToCanonicalCreateLabels(glsResponse, 3, 'A4_2x2', 3);
+
+      expect(result.files?.[0]).toMatchObject({
+        pages: 2,
+        layout: { columns: 2, rows: 2, startPosition: 3 },
+      });
+      expect(result.results.map((r) => r.pageRange)).toEqual([
+        { start: 1, end: 1 },
+        { start: 1, end: 1 },
+        { start: 2, end: 2 },
+      ]);
+    });
+
     it('should handle binary PDF data directly', () => {
       const pdfBuffer = Buffer.from('Binary PDF data');
 
@@ -335,6 +358,29 @@ describe('GLS Label Mappers', () => {
       expect(result.files?.[0].rawBytes).toBe(pdfBuffer);
     });
   });
+
+  describe('resolvePrinterType', () => {
+    it('should pick the ZPL printer type for the canonical labelFormat preference', () => {
+      expect(resolvePrinterType({ labelFormat: 'ZPL' })).toBe('ThermoZPL');
+      expect(resolvePrinterType({ labelFormat: 'ZPL', labelDpi: 300 })).toBe('ThermoZPL_300DPI');
+      expect(resolvePrinterType({ labelFormat: 'PDF' })).toBeUndefined();
+      expect(resolvePrinterType(undefined)).toBeUndefined();
+    });
+
+    it('should let an explicit GLS printer type win', () => {
+      expect(resolvePrinterType({ labelFormat: 'ZPL', gls: { printerType: 'A4_2x2' } })).toBe('A4_2x2');
+    });
+
+    it('should keep labelFormat through request validation', () => {
+      const parsed = GLSCreateLabelsRequestSchema.parse({
+        parcelCarrierIds: ['12345'],
+        credentials: { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] },
+        options: { labelFormat: 'ZPL', labelDpi: 300 },
+      });
+
+      expect(resolvePrinterType(parsed.options)).toBe('ThermoZPL_300DPI');
+    });
+  });
 });
 
 describe('GLS Label Validators', () => {
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for GLS GetParcelList Mapper and Validators
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatGLSDate, mapGLSParcelListItemToCanonical } from '../../mappers/list-parcels.js';
+import { safeValidateListParcelsRequest } from '../../validation/list-parcels.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+const range = { from: new Date('2026-03-01T00:00:00Z'), to: new Date('2026-03-07T23:59:59Z') };
+
+describe('GLS GetParcelList validation', () => {
+  it('requires at least one date range', () => {
+    expect(safeValidateListParcelsRequest({ pickupDate: range, credentials }).success).toBe(true);
+    expect(safeValidateListParcelsRequest({ printDate: range, credentials }).success).toBe(true);
+    expect(safeValidateListParcelsRequest({ credentials }).success).toBe(false);
+  });
+
+  it('accepts ISO strings and rejects inverted ranges', () => {
+    const parsed = safeValidateListParcelsRequest({
+      pickupDate: { from: '2026-03-01T00:00:00Z', to: '2026-03-07T00:00:00Z' },
+      credentials,
+    });
+
+    expect(parsed.success && parsed.data.pickupDate?.from).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(safeValidateListParcelsRequest({ pickupDate: { from: range.to, to: range.from }, credentials }).success).toBe(false);
+  });
+});
+
+describe('mapGLSParcelListItemToCanonical', () => {
+  it('marks parcels with a parcel number as printed', () => {
+    expect(mapGLSParcelListItemToCanonical({ parcelId: 12345, parcelNumber: 50012345678, clientReference: 'order-1' })).toEqual({
+      carrierId: '12345',
+      status: 'printed',
+      trackingNumber: '50012345678',
+      reference: 'order-1',
+      raw: { parcelId: 12345, parcelNumber: 50012345678, clientReference: 'order-1' },
+    });
+  });
+
+  it('marks parcels without a parcel number as created and falls back to the parcel reference', () => {
+    const item = { parcelId: 12346, parcel: { clientReference: 'order-2' } } as any;
+
+    expect(mapGLSParcelListItemToCanonical(item)).toMatchObject({
+      carrierId: '12346',
+      status: 'created',
+      trackingNumber: undefined,
+      reference: 'order-2',
+    });
+  });
+
+  it('formats dates as ASP.NET JSON dates', () => {
+    expect(formatGLSDate(new Date(1772323200000))).toBe('/Date(1772323200000)/');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for GLS Pickup Calendar, Mappers and Validators
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ValidationError } from '@shopickup/core';
+import { getHungarianPublicHolidays, getGLSPickupCalendar } from '../../utils/pickup-calendar.js';
+import { mapPickupRequestToGLSParcel, getGLSPickupReference } from '../../mappers/pickup.js';
+import { safeValidateRequestPickupRequest, type GLSRequestPickupRequest } from '../../validation/pickup.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+const deliveryAddress = {
+  contact: { name: 'Nagy Péter', phone: '+36209876543' },
+  address: { name: 'Nagy Péter', street: 'Kossuth Lajos utca 5', city: 'Debrecen', postalCode: '4024', country: 'HU' },
+};
+
+function pickupRequest(from: string, to: string, overrides: Partial<GLSRequestPickupRequest> = {}) {
+  return {
+    address: { name: 'Webshop Kft.', street: 'Raktár utca 3', city: 'Budapest', postalCode: '1097', country: 'HU' },
+    contact: { name: 'Szabó Éva', phone: '+36301234567', email: 'raktar@example.com' },
+    window: { from: new Date(from), to: new Date(to) },
+    parcelCount: 3,
+    credentials,
+    options: { gls: { deliveryAddress } },
+    ...overrides,
+  } as GLSRequestPickupRequest;
+}
+
+describe('GLS pickup calendar', () => {
+  it('lists Hungarian public holidays including the Easter-based ones', () => {
+    const holidays = getHungarianPublicHolidays(2026);
+
+    expect(holidays).toContain('2026-03-15');
+    expect(holidays).toContain('2026-04-03'); // Good Friday
+    expect(holidays).toContain('2026-04-06'); // Easter Monday
+    expect(holidays).toContain('2026-05-25'); // Whit Monday
+    expect(holidays).toContain('2026-10-23');
+    expect(holidays).not.toContain('2026-12-24');
+  });
+
+  it('only knows weekends outside Hungary', () => {
+    expect(getGLSPickupCalendar('SK')).toMatchObject({ timeZone: 'Europe/Bratislava', holidays: undefined });
+    expect(getGLSPickupCalendar('hu', ['2026-12-24'])).toMatchObject({ timeZone: 'Europe/Budapest', extraHolidays: ['2026-12-24'] });
+  });
+
+  it('rejects countries GLS does not serve instead of assuming Hungary', () => {
+    expect(() => getGLSPickupCalendar('DE')).toThrow(ValidationError);
+  });
+});
+
+describe('GLS pickup validation', () => {
+  beforeEach(() => {
+    // Monday 2026-10-19 10:00 in Budapest
+    vi.useFakeTimers({ now: new Date('2026-10-19T08:00:00Z'), toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a window on an upcoming working day', () => {
+    const result = safeValidateRequestPickupRequest(pickupRequest('2026-10-20T07:00:00Z', '2026-10-20T14:00:00Z'));
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects past windows, weekends and public holidays', () => {
+    const messageOf = (req: unknown) => {
+      const result = safeValidateRequestPickupRequest(req);
+      expect(result.success).toBe(false);
+      return result.error?.issues[0].message;
+    };
+
+    expect(messageOf(pickupRequest('2026-10-16T07:00:00Z', '2026-10-16T14:00:00Z'))).toMatch(/in the past/);
+    expect(messageOf(pickupRequest('2026-10-24T07:00:00Z', '2026-10-24T14:00:00Z'))).toMatch(/non-working day/);
+    expect(messageOf(pickupRequest('2026-10-23T07:00:00Z', '2026-10-23T14:00:00Z'))).toMatch(/public holiday/);
+    expect(messageOf(pickupRequest('2026-12-24T07:00:00Z', '2026-12-24T14:00:00Z', {
+      options: { gls: { deliveryAddress, extraHolidays: ['2026-12-24'] } },
+    }))).toMatch(/public holiday/);
+  });
+
+  it('requires a delivery address and at most 99 parcels', () => {
+    const valid = pickupRequest('2026-10-20T07:00:00Z', '2026-10-20T14:00:00Z');
+
+    expect(safeValidateRequestPickupRequest({ ...valid, options: { gls: {} } }).success).toBe(false);
+    expect(safeValidateRequestPickupRequest({ ...valid, parcelCount: 100 }).success).toBe(false);
+    expect(safeValidateRequestPickupRequest({ ...valid, parcelCount: 0 }).success).toBe(false);
+  });
+
+  it('rejects unknown countries', () => {
+    const result = safeValidateRequestPickupRequest(pickupRequest('2026-10-20T07:00:00Z', '2026-10-20T14:00:00Z', {
+      options: { gls: { deliveryAddress, country: 'DE' } },
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['options', 'gls', 'country'], message: expect.stringContaining('DE') });
+  });
+});
+
+describe('mapPickupRequestToGLSParcel', () => {
+  it('builds a Pick&Ship parcel collected at the pickup address', () => {
+    const req = pickupRequest('2026-10-20T07:00:00Z', '2026-10-20T14:00:00Z', { totalWeightGrams: 4500 });
+    const parcel = mapPickupRequestToGLSParcel(req, 100000001, getGLSPickupReference(req, '2026-10-20'), '2026-10-20');
+
+    expect(parcel).toMatchObject({
+      clientNumber: 100000001,
+      clientReference: 'pickup-2026-10-20',
+      count: 3,
+      pickupDate: '2026-10-20',
+      pickupAddress: {
+        name: 'Webshop Kft.',
+        street: 'Raktár utca',
+        houseNumber: '3',
+        zipCode: '1097',
+        contactName: 'Szabó Éva',
+        contactPhone: '+36301234567',
+      },
+      deliveryAddress: { name: 'Nagy Péter', city: 'Debrecen', contactPhone: '+36209876543' },
+      serviceList: [{ code: 'PSS' }],
+    });
+    expect(parcel.parcelPropertyList).toEqual([
+      { packageType: 1, weight: 1.5 },
+      { packageType: 1, weight: 1.5 },
+      { packageType: 1, weight: 1.5 },
+    ]);
+  });
+
+  it('uses the request reference and omits weights it does not know', () => {
+    const req = pickupRequest('2026-10-20T07:00:00Z', '2026-10-20T14:00:00Z', { reference: 'DISPATCH-42' });
+    const parcel = mapPickupRequestToGLSParcel(req, 100000001, getGLSPickupReference(req, '2026-10-20'), '2026-10-20');
+
+    expect(parcel.clientReference).toBe('DISPATCH-42');
+    expect(parcel.parcelPropertyList).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * GLS Adapter - Rates Tests
+ *
+ * getRates is answered from the default (or overridden) tariff table.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Parcel } from '@shopickup/core';
+import { GLSAdapter, GLS_DEFAULT_TARIFF } from '../../index.js';
+
+function makeParcel(method: 'HOME' | 'PICKUP_POINT', weightGrams: number): Parcel {
+  const address = { name: 'Teszt Elek', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id: 'p-1',
+    shipper: { contact: { name: 'Shop' }, address },
+    recipient: {
+      contact: { name: 'Teszt Elek' },
+      delivery: method === 'HOME' ? { method, address } : { method, pickupPoint: { id: '1001-SHOP01' } },
+    },
+    service: 'standard',
+    package: { weightGrams },
+  } as Parcel;
+}
+
+describe('GLSAdapter.getRates', () => {
+  it('advertises RATES', () => {
+    expect(new GLSAdapter().capabilities).toContain('RATES');
+  });
+
+  it('quotes home delivery by weight band with fuel surcharge and VAT', async () => {
+    const { rates } = await new GLSAdapter().getRates({ parcels: [makeParcel('HOME', 3000)] }, {});
+
+    expect(rates).toHaveLength(1);
+    const [breakdown] = (rates[0].metadata as any).parcels;
+    expect(breakdown).toMatchObject({ base: 169000, fuelSurcharge: 25350, net: 194350 });
+    expect(rates[0].price).toBe(Math.round(194350 * 1.27));
+  });
+
+  it('returns no rate for ParcelShop parcels above the weight limit', async () => {
+    const result = await new GLSAdapter().getRates({ parcels: [makeParcel('PICKUP_POINT', 25000)] }, {});
+    expect(result.rates).toEqual([]);
+  });
+
+  it('uses an overridden tariff table', async () => {
+    const adapter = new GLSAdapter();
+    adapter.tariffTable = { ...GLS_DEFAULT_TARIFF, fuelSurchargePercent: 0, vatPercent: 0 };
+
+    const { rates } = await adapter.getRates({ parcels: [makeParcel('PICKUP_POINT', 1000)] }, {});
+    expect(rates[0].price).toBe(109000);
+  });
+});
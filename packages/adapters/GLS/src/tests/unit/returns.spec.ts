@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for GLS Returns Mappers and Validators
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapGLSReturnResults, mapReturnItemToGLSParcel, getGLSReturnReference } from '../../mappers/returns.js';
+import { safeValidateCreateReturnsRequest } from '../../validation/returns.js';
+
+const credentials = { username: 'user@example.com', password: 'secret', clientNumberList: [100000001] };
+const shipper = {
+  contact: { name: 'Kiss Anna', phone: '+36301234567', email: 'anna@example.com' },
+  address: { name: 'Kiss Anna', street: 'Fő utca 12', city: 'Szeged', postalCode: '6720', country: 'HU' },
+};
+const returnAddress = { name: 'Webshop Kft.', street: 'Raktár utca', houseNumber: '3', city: 'Budapest', zipCode: '1097', countryIsoCode: 'HU' };
+
+describe('GLS returns validation', () => {
+  it('requires a shipper per return and the return link name', () => {
+    const options = { gls: { returnLinkName: 'webshop-returns' } };
+
+    expect(safeValidateCreateReturnsRequest({ returns: [{ parcelCarrierId: '12345', shipper }], credentials, options }).success).toBe(true);
+    expect(safeValidateCreateReturnsRequest({ returns: [{ parcelCarrierId: '12345' }], credentials, options }).success).toBe(false);
+    expect(safeValidateCreateReturnsRequest({ returns: [{ parcelCarrierId: '12345', shipper }], credentials, options: { gls: {} } }).success).toBe(false);
+  });
+
+  it('rejects returns that share a client reference', () => {
+    const options = { gls: { returnLinkName: 'webshop-returns' } };
+    const validate = (returns: unknown[]) => safeValidateCreateReturnsRequest({ returns, credentials, options });
+
+    const sameParcel = validate([{ parcelCarrierId: '12345', shipper }, { parcelCarrierId: '12345', shipper }]);
+    const sameRefCode = validate([
+      { parcelCarrierId: '12345', refCode: 'RMA-7', shipper },
+      { parcelCarrierId: '12346', refCode: 'RMA-7', shipper },
+    ]);
+
+    expect(sameParcel.success).toBe(false);
+    expect(sameParcel.error?.issues[0]).toMatchObject({ path: ['returns', 1], message: expect.stringContaining('return-12345') });
+    expect(sameRefCode.success).toBe(false);
+    expect(validate([
+      { parcelCarrierId: '12345', refCode: 'RMA-7', shipper },
+      { parcelCarrierId: '12345', refCode: 'RMA-8', shipper },
+    ]).success).toBe(true);
+  });
+});
+
+describe('mapReturnItemToGLSParcel', () => {
+  it('reverses the direction: pickup at the customer, delivery to the return address', () => {
+    const parcel = mapReturnItemToGLSParcel({ parcelCarrierId: '12345', shipper }, 100000001, returnAddress, '2026-03-02T08:00:00Z');
+
+    expect(parcel).toEqual({
+      clientNumber: 100000001,
+      clientReference: 'return-12345',
+      count: 1,
+      pickupAddress: expect.objectContaining({
+        name: 'Kiss Anna',
+        street: 'Fő utca',
+        houseNumber: '12',
+        zipCode: '6720',
+        contactPhone: '+36301234567',
+        contactEmail: 'anna@example.com',
+      }),
+      deliveryAddress: returnAddress,
+      pickupDate: '2026-03-02T08:00:00Z',
+      serviceList: [{ code: 'PRS' }],
+    });
+  });
+
+  it('uses refCode as the client reference when given', () => {
+    expect(getGLSReturnReference({ parcelCarrierId: '12345', refCode: 'RMA-7' })).toBe('RMA-7');
+  });
+});
+
+describe('mapGLSReturnResults', () => {
+  it('matches parcels and errors to returns by client reference, in request order', () => {
+    const results = mapGLSReturnResults(
+      {
+        parcelInfoList: [{ parcelId: 900002, clientReference: 'return-2' }],
+        prepareLabelsError: [{ errorCode: 5, errorDescription: 'Invalid zip code', clientReferenceList: ['return-1'] }],
+      },
+      ['return-1', 'return-2', 'return-3']
+    );
+
+    expect(results.map((r) => [r.status, r.carrierId])).toEqual([
+      ['failed', undefined],
+      ['created', '900002'],
+      ['failed', undefined],
+    ]);
+    expect(results[0].errors).toEqual([{ code: '5', message: 'Invalid zip code' }]);
+    expect(results[2].errors?.[0].code).toBe('NOT_CREATED');
+  });
+});
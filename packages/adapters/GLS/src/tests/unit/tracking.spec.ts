@@ -146,6 +146,31 @@ describe('GLS Tracking Mapper', () => {
 
       expect(event.raw).toBe(glsStatus);
     });
+
+    it('should map sub-statuses and action flags', () => {
+      const cases: Array<{ code: string; subStatus?: string; requiresAction: boolean; isTerminal: boolean }> = [
+        { code: '20', subStatus: 'ADDRESS_PROBLEM', requiresAction: true, isTerminal: false },
+        { code: '12', subStatus: 'DELIVERY_ATTEMPT_FAILED', requiresAction: true, isTerminal: false },
+        { code: '60', subStatus: 'HELD_AT_CUSTOMS', requiresAction: true, isTerminal: false },
+        { code: '56', subStatus: 'READY_FOR_PICKUP', requiresAction: true, isTerminal: false },
+        { code: '57', subStatus: 'PICKUP_EXPIRED', requiresAction: false, isTerminal: false },
+        { code: '59', subStatus: 'DELIVERED_TO_PICKUP_POINT', requiresAction: false, isTerminal: true },
+        { code: '28', subStatus: undefined, requiresAction: false, isTerminal: false },
+      ];
+
+      for (const tc of cases) {
+        const event = mapGLSStatusToTrackingEvent({
+          statusCode: tc.code,
+          statusDate: '2024-01-15T08:00:00Z',
+          statusDescription: 'Status',
+          depotCity: 'Budapest',
+          depotNumber: '0001',
+        });
+        expect(event.subStatus).toBe(tc.subStatus);
+        expect(event.requiresAction).toBe(tc.requiresAction);
+        expect(event.isTerminal).toBe(tc.isTerminal);
+      }
+    });
   });
 
   describe('mapGLSTrackingResponseToCanonical', () => {
@@ -179,6 +204,26 @@ describe('GLS Tracking Mapper', () => {
       expect(update.rawCarrierResponse).toBe(glsResponse);
     });
 
+    it('should take sub-status and flags from the latest event', () => {
+      const glsResponse: GLSGetParcelStatusesResponse = {
+        parcelNumber: 123456789,
+        parcelStatusList: [
+          { statusCode: '18', statusDate: '2024-01-16T10:00:00Z', statusDescription: 'Address information needed', depotCity: 'Budapest', depotNumber: '0001' },
+          { statusCode: '1', statusDate: '2024-01-15T08:00:00Z', statusDescription: 'Handed over to GLS', depotCity: 'Budapest', depotNumber: '0001' },
+        ],
+      };
+
+      const update = mapGLSTrackingResponseToCanonical(glsResponse);
+
+      expect(update).toMatchObject({
+        status: 'EXCEPTION',
+        subStatus: 'ADDRESS_PROBLEM',
+        isTerminal: false,
+        requiresAction: true,
+      });
+      expect(update.events[0].subStatus).toBe('PICKED_UP');
+    });
+
     it('should sort events chronologically', () => {
       const glsResponse: GLSGetParcelStatusesResponse = {
         parcelNumber: 123456789,
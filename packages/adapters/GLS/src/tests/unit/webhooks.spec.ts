@@ -0,0 +1,75 @@
+/**
+ * GLS Webhook Tests
+ *
+ * Replays recorded GLS status push notifications through parseWebhook
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { createHmac } from 'node:crypto';
+import { createHmacVerifier, CarrierError, type AdapterContext } from '@shopickup/core';
+import { GLSAdapter } from '../../index.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/webhooks/${name}`, import.meta.url));
+
+const ctx: AdapterContext = {};
+
+describe('GLS parseWebhook', () => {
+  it('advertises the WEBHOOKS capability', () => {
+    expect(new GLSAdapter().capabilities).toContain('WEBHOOKS');
+  });
+
+  it('maps a single-parcel notification like track() does', async () => {
+    const [update] = await new GLSAdapter().parseWebhook(
+      { headers: { 'content-type': 'application/json' }, body: fixture('status-delivered.json') },
+      ctx
+    );
+
+    expect(update.trackingNumber).toBe('51234567890');
+    expect(update.status).toBe('DELIVERED');
+    expect(update.events.map((e) => e.carrierStatusCode)).toEqual(['1', '32', '92']);
+    expect(update.events.map((e) => e.status)).toEqual(['PENDING', 'OUT_FOR_DELIVERY', 'DELIVERED']);
+    expect(update.events[2].location).toEqual({ city: 'Budapest', facility: 'HU1010' });
+    expect(update.lastUpdate).toEqual(new Date(1718197200000));
+  });
+
+  it('maps every parcel in a batched notification', async () => {
+    const updates = await new GLSAdapter().parseWebhook(
+      { headers: {}, body: fixture('status-batch.json').toString('utf8') },
+      ctx
+    );
+
+    expect(updates.map((u) => [u.trackingNumber, u.status])).toEqual([
+      ['51234567891', 'IN_TRANSIT'],
+      ['51234567892', 'RETURNED'],
+    ]);
+  });
+
+  it('accepts an already-parsed body', async () => {
+    const body = JSON.parse(fixture('status-delivered.json').toString('utf8'));
+    const [update] = await new GLSAdapter().parseWebhook({ headers: {}, body }, ctx);
+    expect(update.status).toBe('DELIVERED');
+  });
+
+  it('rejects payloads that are not status notifications', async () => {
+    await expect(
+      new GLSAdapter().parseWebhook({ headers: {}, body: { hello: 'world' } }, ctx)
+    ).rejects.toMatchObject({ category: 'Validation' });
+  });
+
+  it('runs the configured verifier before parsing', async () => {
+    const adapter = new GLSAdapter();
+    adapter.webhookVerifier = createHmacVerifier({ secret: 'gls-secret', header: 'x-gls-signature' });
+    const body = fixture('status-delivered.json');
+    const signature = createHmac('sha256', 'gls-secret').update(body).digest('hex');
+
+    await expect(
+      adapter.parseWebhook({ headers: { 'X-GLS-Signature': signature }, body }, ctx)
+    ).resolves.toHaveLength(1);
+
+    const rejected = adapter.parseWebhook({ headers: { 'x-gls-signature': 'deadbeef' }, body }, ctx);
+    await expect(rejected).rejects.toBeInstanceOf(CarrierError);
+    await expect(rejected).rejects.toMatchObject({ category: 'Auth' });
+  });
+});
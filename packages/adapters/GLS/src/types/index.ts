@@ -365,3 +365,101 @@ export interface GLSGetParcelStatusesResponse {
   weight?: number; // Parcel weight (kg or grams - check spec)
   getParcelStatusErrors?: GLSErrorInfo[]; // Any errors encountered
 }
+
+/**
+ * GLS DeleteLabels Request
+ * Sets the DELETED state for parcel records by database ID
+ */
+export interface GLSDeleteLabelsRequest extends GLSAPIRequestBase {
+  parcelIdList: number[]; // Parcel database record IDs (REQUIRED, max 50 items)
+}
+
+/**
+ * GLS SuccessfullyDeleted - A deleted parcel record
+ * subParcelIdList is filled when the parcel was not the only one in its shipment
+ */
+export interface GLSSuccessfullyDeleted {
+  parcelId: number;
+  subParcelIdList?: number[];
+}
+
+/**
+ * GLS DeleteLabels Response
+ */
+export interface GLSDeleteLabelsResponse {
+  labels?: string | Uint8Array; // PDF document (may be base64 string or binary)
+  deleteLabelsErrorList?: GLSErrorInfo[];
+  successfullyDeletedList?: GLSSuccessfullyDeleted[];
+}
+
+/**
+ * GLS ModifyCOD Request
+ * Changes the COD amount of an existing parcel; identify it by parcelId or parcelNumber
+ */
+export interface GLSModifyCODRequest extends GLSAPIRequestBase {
+  parcelId?: number | null; // Parcel database record ID (REQUIRED if parcelNumber is null)
+  parcelNumber?: number | null; // Printed parcel number (REQUIRED if parcelId is null)
+  codAmount: number; // New COD amount (zero or positive)
+}
+
+/**
+ * GLS ModifyCOD Response
+ */
+export interface GLSModifyCODResponse {
+  successful?: boolean; // True when the COD amount was changed without error
+  modifyCODError?: GLSErrorInfo[];
+}
+
+/**
+ * GLS GetParcelList Request
+ * Lists parcels by pickup date and/or print date range
+ */
+export interface GLSGetParcelListRequest extends GLSAPIRequestBase {
+  pickupDateFrom?: string | null; // ASP.NET JSON date (/Date(ms)/)
+  pickupDateTo?: string | null;
+  printDateFrom?: string | null;
+  printDateTo?: string | null;
+}
+
+/**
+ * GLS GetParcelList item (PrintDataInfo)
+ * parcelNumber is only set once the label has been printed
+ */
+export interface GLSParcelListItem extends GLSPrintDataInfo {
+  parcelNumberWithCheckdigit?: number;
+  parcel?: Partial<GLSParcel>;
+  depot?: string;
+  depotNumber?: string;
+  driver?: string;
+  sort?: string;
+  b2cChar?: string;
+}
+
+/**
+ * GLS GetParcelList Response
+ */
+export interface GLSGetParcelListResponse {
+  getParcelListErrors?: GLSErrorInfo[];
+  printDataInfoList?: GLSParcelListItem[];
+}
+
+/**
+ * GLS GetClientReturnAddress Request
+ * Looks up the return address configured for a MyGLS return link
+ */
+export interface GLSGetClientReturnAddressRequest extends GLSAPIRequestBase {
+  clientNumber: number; // Client number the link belongs to (REQUIRED)
+  languageIsoCode: string; // HR, CS, HU, RO, SK, SL (REQUIRED)
+  linkTypeId?: number | null; // 1 = ClientPayment, 2 = ConsigneePayment
+  name: string; // Return link name (REQUIRED)
+}
+
+/**
+ * GLS GetClientReturnAddress Response
+ * linkStatus: 0 = NotExists, 1 = Active, 2 = Inactive, 3 = Deleted
+ */
+export interface GLSGetClientReturnAddressResponse {
+  returnAddress?: GLSAddress;
+  linkStatus?: 0 | 1 | 2 | 3;
+  getClientReturnAddressErrors?: GLSErrorInfo[];
+}
@@ -0,0 +1,72 @@
+/**
+ * GLS pickup calendars
+ *
+ * Working days GLS couriers collect on, per MyGLS country. Hungarian public
+ * holidays are built in; for other countries only weekends are known and
+ * holidays must be passed as `options.gls.extraHolidays`.
+ */
+
+import {
+  ValidationError,
+  addLocalDays,
+  getEasterSunday,
+  type PickupCalendar,
+} from '@shopickup/core';
+
+const GLS_TIME_ZONES: Record<string, string> = {
+  HU: 'Europe/Budapest',
+  CZ: 'Europe/Prague',
+  HR: 'Europe/Zagreb',
+  RO: 'Europe/Bucharest',
+  SI: 'Europe/Ljubljana',
+  SK: 'Europe/Bratislava',
+  RS: 'Europe/Belgrade',
+};
+
+/**
+ * Hungarian public holidays of a year (Munka Törvénykönyve 102. §)
+ *
+ * Bridge days ("áthelyezett munkanap") change every year and are not
+ * included; pass them as extra holidays.
+ */
+export function getHungarianPublicHolidays(year: number): string[] {
+  const easter = getEasterSunday(year);
+  return [
+    `${year}-01-01`,
+    `${year}-03-15`,
+    addLocalDays(easter, -2), // Good Friday
+    easter,
+    addLocalDays(easter, 1), // Easter Monday
+    `${year}-05-01`,
+    addLocalDays(easter, 49), // Whit Sunday
+    addLocalDays(easter, 50), // Whit Monday
+    `${year}-08-20`,
+    `${year}-10-23`,
+    `${year}-11-01`,
+    `${year}-12-25`,
+    `${year}-12-26`,
+  ];
+}
+
+/**
+ * Pickup calendar of a MyGLS country
+ *
+ * @param country MyGLS country code (HU, CZ, HR, RO, SI, SK, RS)
+ * @param extraHolidays Additional non-working dates (YYYY-MM-DD)
+ * @throws ValidationError with details { field: 'options.gls.country' } for other countries
+ */
+export function getGLSPickupCalendar(country: string, extraHolidays: string[] = []): PickupCalendar {
+  const countryCode = country.toUpperCase();
+  const timeZone = GLS_TIME_ZONES[countryCode];
+  if (!timeZone) {
+    throw new ValidationError(
+      `Unsupported GLS country: ${countryCode}. Supported countries: ${Object.keys(GLS_TIME_ZONES).join(', ')}`,
+      { field: 'options.gls.country', reason: 'unsupported' }
+    );
+  }
+  return {
+    timeZone,
+    holidays: countryCode === 'HU' ? getHungarianPublicHolidays : undefined,
+    extraHolidays,
+  };
+}
@@ -18,6 +18,53 @@ export {
   type GLSPrintLabelRequest,
 } from './validation/labels.js';
 
+export {
+  GLSDeleteParcelRequestSchema,
+  GLSDeleteParcelsRequestSchema,
+  GLSVoidLabelRequestSchema,
+  GLS_DELETE_LABELS_MAX_ITEMS,
+  safeValidateDeleteParcelRequest,
+  safeValidateDeleteParcelsRequest,
+  safeValidateVoidLabelRequest,
+  safeValidateGLSDeleteLabelsResponse,
+  type GLSDeleteParcelRequest,
+  type GLSDeleteParcelsRequest,
+  type GLSDeleteParcelsResponse,
+  type GLSVoidLabelRequest,
+} from './validation/delete-labels.js';
+
+export {
+  GLSUpdateParcelRequestSchema,
+  safeValidateUpdateParcelRequest,
+  safeValidateGLSModifyCODResponse,
+  type GLSUpdateParcelRequest,
+} from './validation/modify-cod.js';
+
+export {
+  GLSListParcelsRequestSchema,
+  safeValidateListParcelsRequest,
+  safeValidateGLSGetParcelListResponse,
+  type GLSListParcelsRequest,
+} from './validation/list-parcels.js';
+
+export {
+  GLSCreateReturnRequestSchema,
+  GLSCreateReturnsRequestSchema,
+  safeValidateCreateReturnRequest,
+  safeValidateCreateReturnsRequest,
+  safeValidateGLSClientReturnAddressResponse,
+  type GLSCreateReturnRequest,
+  type GLSCreateReturnsRequest,
+  type GLSReturnOptions,
+} from './validation/returns.js';
+
+export {
+  GLSRequestPickupRequestSchema,
+  safeValidateRequestPickupRequest,
+  type GLSRequestPickupRequest,
+  type GLSPickupOptions,
+} from './validation/pickup.js';
+
 export {
   safeValidateTrackingRequest,
   safeValidateGLSTrackingRequest,
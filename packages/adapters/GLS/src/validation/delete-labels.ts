@@ -0,0 +1,113 @@
+/**
+ * GLS DeleteLabels Validation
+ *
+ * Validates delete-parcel / void-label requests and GLS DeleteLabels responses using Zod
+ */
+
+import { z, type ZodSafeParseResult } from 'zod';
+import type { DeleteParcelRequest, DeleteParcelResult, VoidLabelRequest } from '@shopickup/core';
+import {
+  GLSCredentialsSchema,
+  GLSParcelIdSchema,
+  GLSParcelOperationOptionsSchema,
+  type GLSCredentials,
+} from './schemas.js';
+
+/** DeleteLabels accepts at most 50 parcel IDs per call */
+export const GLS_DELETE_LABELS_MAX_ITEMS = 50;
+
+/**
+ * Delete one parcel (and its label) by GLS parcel database ID.
+ * Mirrors canonical `DeleteParcelRequest`.
+ */
+export const GLSDeleteParcelRequestSchema = z.object({
+  parcelCarrierId: GLSParcelIdSchema,
+  credentials: GLSCredentialsSchema,
+  options: GLSParcelOperationOptionsSchema.optional(),
+});
+
+/**
+ * Delete up to 50 parcels in one DeleteLabels call.
+ */
+export const GLSDeleteParcelsRequestSchema = z.object({
+  parcelCarrierIds: z
+    .array(GLSParcelIdSchema)
+    .min(1, 'At least one parcel ID is required')
+    .max(GLS_DELETE_LABELS_MAX_ITEMS, `At most ${GLS_DELETE_LABELS_MAX_ITEMS} parcel IDs per request`),
+  credentials: GLSCredentialsSchema,
+  options: GLSParcelOperationOptionsSchema.optional(),
+});
+
+/**
+ * Void the label of a parcel; on GLS this deletes the parcel record.
+ * Mirrors canonical `VoidLabelRequest`.
+ */
+export const GLSVoidLabelRequestSchema = z.object({
+  labelId: GLSParcelIdSchema,
+  credentials: GLSCredentialsSchema,
+  options: GLSParcelOperationOptionsSchema.optional(),
+});
+
+export interface GLSDeleteParcelRequest extends DeleteParcelRequest {
+  credentials: GLSCredentials;
+}
+
+export interface GLSDeleteParcelsRequest extends Omit<DeleteParcelRequest, 'parcelCarrierId'> {
+  parcelCarrierIds: string[];
+  credentials: GLSCredentials;
+}
+
+export interface GLSVoidLabelRequest extends VoidLabelRequest {
+  credentials: GLSCredentials;
+}
+
+export function safeValidateDeleteParcelRequest(req: unknown) {
+  return GLSDeleteParcelRequestSchema.safeParse(req);
+}
+
+export function safeValidateDeleteParcelsRequest(req: unknown) {
+  return GLSDeleteParcelsRequestSchema.safeParse(req);
+}
+
+export function safeValidateVoidLabelRequest(req: unknown) {
+  return GLSVoidLabelRequestSchema.safeParse(req);
+}
+
+/**
+ * Validates GLS DeleteLabels response (lenient, after convertFromPascalCase)
+ *
+ * - deleteLabelsErrorList: Optional array of error objects
+ * - successfullyDeletedList: Optional array of { parcelId, subParcelIdList? }
+ * - Other fields: Optional (lenient)
+ */
+export function safeValidateGLSDeleteLabelsResponse(resp: unknown): ZodSafeParseResult<any> {
+  const schema = z.object({
+    deleteLabelsErrorList: z.array(z.object({
+      errorCode: z.union([z.string().min(1), z.number()]),
+      errorDescription: z.string().optional().nullable(),
+      clientReferenceList: z.array(z.string()).optional().nullable(),
+      parcelIdList: z.array(z.number()).optional().nullable(),
+    }).passthrough()).optional().nullable(),
+    successfullyDeletedList: z.array(z.object({
+      parcelId: z.number().int(),
+      subParcelIdList: z.array(z.number()).optional().nullable(),
+    }).passthrough()).optional().nullable(),
+  }).passthrough();
+
+  return schema.safeParse(resp);
+}
+
+/**
+ * Result of a batch delete: one DeleteParcelResult per requested ID, in order
+ */
+export interface GLSDeleteParcelsResponse {
+  results: DeleteParcelResult[];
+  successCount: number;
+  failureCount: number;
+  totalCount: number;
+  allSucceeded: boolean;
+  allFailed: boolean;
+  someFailed: boolean;
+  summary: string;
+  rawCarrierResponse?: unknown;
+}
@@ -17,6 +17,8 @@ import { z } from 'zod';
 import {
   GLSCredentialsSchema,
   GLSPrinterOptionsSchema,
+  LabelDpiSchema,
+  LabelFormatEnum,
   PrinterTypeEnum,
   type GLSCredentials,
   type GLSPrinterOptions,
@@ -131,6 +133,8 @@ const CanonicalParcelSchema = z.object({
  */
 const GLSPrintLabelsOptionsSchema = z.object({
   useTestApi: z.boolean().optional(),
+  labelFormat: LabelFormatEnum.optional(),
+  labelDpi: LabelDpiSchema.optional(),
   gls: GLSPrinterOptionsSchema.optional(),
 }).optional();
 
@@ -144,6 +148,8 @@ export const GLSCreateLabelsRequestSchema = z.object({
   options: z
     .object({
       useTestApi: z.boolean().optional(),
+      labelFormat: LabelFormatEnum.optional(),
+      labelDpi: LabelDpiSchema.optional(),
       gls: z
         .object({
           printerType: PrinterTypeEnum.optional(),
@@ -166,6 +172,8 @@ export const GLSCreateLabelRequestSchema = z.object({
   options: z
     .object({
       useTestApi: z.boolean().optional(),
+      labelFormat: LabelFormatEnum.optional(),
+      labelDpi: LabelDpiSchema.optional(),
       gls: z
         .object({
           printerType: PrinterTypeEnum.optional(),
@@ -206,6 +214,8 @@ export interface GLSPrintLabelRequest extends CoreCreateParcelRequest {
   credentials: GLSCredentials;
   options?: {
     useTestApi?: boolean;
+    labelFormat?: 'PDF' | 'ZPL';
+    labelDpi?: 203 | 300;
     gls?: GLSPrinterOptions;
   };
 }
@@ -217,6 +227,8 @@ export interface GLSPrintLabelsRequest extends CoreCreateParcelsRequest {
   credentials: GLSCredentials;
   options?: {
     useTestApi?: boolean;
+    labelFormat?: 'PDF' | 'ZPL';
+    labelDpi?: 203 | 300;
     gls?: GLSPrinterOptions;
   };
 }
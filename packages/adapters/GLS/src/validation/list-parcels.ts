@@ -0,0 +1,66 @@
+/**
+ * GLS GetParcelList Validation
+ *
+ * Validates list-parcels requests and GLS GetParcelList responses using Zod
+ */
+
+import { z, type ZodSafeParseResult } from 'zod';
+import type { ListParcelsRequest } from '@shopickup/core';
+import {
+  GLSCredentialsSchema,
+  GLSParcelOperationOptionsSchema,
+  type GLSCredentials,
+} from './schemas.js';
+
+// Dates may arrive as ISO strings from JSON callers
+const DateRangeSchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((range) => range.from <= range.to, 'Date range "from" must not be after "to"');
+
+/**
+ * List parcels by pickup date and/or print date range.
+ * Mirrors canonical `ListParcelsRequest`; at least one range is required so a
+ * call never asks GLS for the whole account history.
+ */
+export const GLSListParcelsRequestSchema = z
+  .object({
+    pickupDate: DateRangeSchema.optional(),
+    printDate: DateRangeSchema.optional(),
+    credentials: GLSCredentialsSchema,
+    options: GLSParcelOperationOptionsSchema.optional(),
+  })
+  .refine((req) => req.pickupDate || req.printDate, 'At least one of pickupDate or printDate is required');
+
+export interface GLSListParcelsRequest extends ListParcelsRequest {
+  credentials: GLSCredentials;
+}
+
+export function safeValidateListParcelsRequest(req: unknown) {
+  return GLSListParcelsRequestSchema.safeParse(req);
+}
+
+/**
+ * Validates GLS GetParcelList response (lenient, after convertFromPascalCase)
+ *
+ * - getParcelListErrors: Optional array of error objects
+ * - printDataInfoList: Optional array of { parcelId, parcelNumber?, clientReference? }
+ * - Other fields: Optional (lenient)
+ */
+export function safeValidateGLSGetParcelListResponse(resp: unknown): ZodSafeParseResult<any> {
+  const schema = z.object({
+    getParcelListErrors: z.array(z.object({
+      errorCode: z.union([z.string().min(1), z.number()]),
+      errorDescription: z.string().optional().nullable(),
+    }).passthrough()).optional().nullable(),
+    printDataInfoList: z.array(z.object({
+      parcelId: z.number().int(),
+      parcelNumber: z.number().int().optional().nullable(),
+      clientReference: z.string().optional().nullable(),
+    }).passthrough()).optional().nullable(),
+  }).passthrough();
+
+  return schema.safeParse(resp);
+}
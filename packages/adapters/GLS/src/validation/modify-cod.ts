@@ -0,0 +1,111 @@
+/**
+ * GLS ModifyCOD Validation
+ *
+ * Validates update-parcel requests and GLS ModifyCOD responses using Zod
+ */
+
+import { z, type ZodSafeParseResult } from 'zod';
+import type { UpdateParcelRequest } from '@shopickup/core';
+import {
+  GLSCredentialsSchema,
+  GLSParcelIdSchema,
+  GLSParcelOperationOptionsSchema,
+  type GLSCredentials,
+} from './schemas.js';
+
+/**
+ * Local currency of each GLS country, the COD currency of parcels created
+ * without `codCurrency`
+ */
+const GLS_LOCAL_CURRENCIES: Record<string, string> = {
+  HU: 'HUF',
+  CZ: 'CZK',
+  HR: 'EUR',
+  RO: 'RON',
+  SI: 'EUR',
+  SK: 'EUR',
+  RS: 'RSD',
+};
+
+/**
+ * ModifyCOD options: the common operation options plus the COD currency the
+ * parcel was created with (default: the local currency of `gls.country`)
+ */
+const GLSModifyCODOptionsSchema = GLSParcelOperationOptionsSchema.extend({
+  gls: z
+    .object({
+      country: z.string().optional(),
+      codCurrency: z.string().length(3).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Update a parcel by GLS parcel database ID.
+ * Mirrors canonical `UpdateParcelRequest`; ModifyCOD only changes the COD amount,
+ * so a COD reference (fixed at creation) and any other change are rejected.
+ * ModifyCOD takes no currency either, so the amount must be in the parcel's
+ * COD currency.
+ */
+export const GLSUpdateParcelRequestSchema = z.object({
+  parcelCarrierId: GLSParcelIdSchema,
+  changes: z
+    .object({
+      cod: z.object({
+        amount: z.object({
+          amount: z.number().nonnegative('COD amount must be zero or positive'),
+          currency: z.string().min(1),
+        }),
+        reference: z
+          .undefined({ message: 'GLS ModifyCOD cannot change the COD reference' })
+          .optional(),
+      }),
+    })
+    .strict(),
+  credentials: GLSCredentialsSchema,
+  options: GLSModifyCODOptionsSchema.optional(),
+}).superRefine((req, ctx) => {
+  const country = (req.options?.gls?.country || 'HU').toUpperCase();
+  const parcelCurrency = req.options?.gls?.codCurrency ?? GLS_LOCAL_CURRENCIES[country];
+  const currency = req.changes.cod.amount.currency;
+  if (!parcelCurrency) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['options', 'gls', 'codCurrency'],
+      message: `No default COD currency for GLS country ${country}; pass options.gls.codCurrency`,
+    });
+  } else if (currency.toUpperCase() !== parcelCurrency.toUpperCase()) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['changes', 'cod', 'amount', 'currency'],
+      message: `GLS ModifyCOD cannot convert currencies: the parcel's COD is in ${parcelCurrency}, not ${currency}`,
+    });
+  }
+});
+
+export interface GLSUpdateParcelRequest extends UpdateParcelRequest {
+  credentials: GLSCredentials;
+}
+
+export function safeValidateUpdateParcelRequest(req: unknown) {
+  return GLSUpdateParcelRequestSchema.safeParse(req);
+}
+
+/**
+ * Validates GLS ModifyCOD response (lenient, after convertFromPascalCase)
+ *
+ * - successful: Optional boolean
+ * - modifyCODError: Optional array of error objects
+ * - Other fields: Optional (lenient)
+ */
+export function safeValidateGLSModifyCODResponse(resp: unknown): ZodSafeParseResult<any> {
+  const schema = z.object({
+    successful: z.boolean().optional().nullable(),
+    modifyCODError: z.array(z.object({
+      errorCode: z.union([z.string().min(1), z.number()]),
+      errorDescription: z.string().optional().nullable(),
+    }).passthrough()).optional().nullable(),
+  }).passthrough();
+
+  return schema.safeParse(resp);
+}
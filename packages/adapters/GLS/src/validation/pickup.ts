@@ -0,0 +1,83 @@
+/**
+ * GLS Pickup Validation
+ *
+ * Validates pickup requests using Zod, including the pickup window against
+ * the GLS country's working days and public holidays
+ */
+
+import { z } from 'zod';
+import type { PickupRequest } from '@shopickup/core';
+import { ValidationError, validatePickupWindow } from '@shopickup/core';
+import { getGLSPickupCalendar } from '../utils/pickup-calendar.js';
+import {
+  GLSContactAddressSchema,
+  GLSCredentialsSchema,
+  type GLSCredentials,
+} from './schemas.js';
+
+/**
+ * Pickup options: where the Pick&Ship parcel goes after collection
+ */
+const GLSPickupOptionsSchema = z
+  .object({
+    useTestApi: z.boolean().optional(),
+    gls: z
+      .object({
+        country: z.string().optional(),
+        /** Consignee of the Pick&Ship parcel GLS books the pickup as */
+        deliveryAddress: z.object(GLSContactAddressSchema.shape, {
+          message: 'GLS books pickups as Pick&Ship parcels: options.gls.deliveryAddress (contact and address) is required',
+        }),
+        /** Non-working dates on top of the built-in calendar (YYYY-MM-DD), e.g. bridge days */
+        extraHolidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holidays must be YYYY-MM-DD')).optional(),
+        /** Parcel content description (mandatory for Serbia) */
+        content: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .catchall(z.unknown());
+
+/**
+ * Pickup request. Mirrors canonical `PickupRequest`; the window is checked
+ * against the GLS calendar of `options.gls.country` (default HU).
+ */
+export const GLSRequestPickupRequestSchema = z
+  .object({
+    address: GLSContactAddressSchema.shape.address,
+    contact: GLSContactAddressSchema.shape.contact,
+    // Dates may arrive as ISO strings from JSON callers
+    window: z.object({
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+    }),
+    parcelCount: z.number().int().min(1).max(99, 'GLS collects at most 99 parcels per pickup'),
+    totalWeightGrams: z.number().positive().optional(),
+    reference: z.string().min(1).optional(),
+    credentials: GLSCredentialsSchema,
+    options: GLSPickupOptionsSchema,
+  })
+  .superRefine((req, ctx) => {
+    try {
+      const calendar = getGLSPickupCalendar(req.options.gls.country || 'HU', req.options.gls.extraHolidays);
+      validatePickupWindow(req.window, calendar);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      ctx.addIssue({
+        code: 'custom',
+        path: String(error.details?.field ?? 'window').split('.'),
+        message: error.message,
+        params: error.details,
+      });
+    }
+  });
+
+export type GLSPickupOptions = z.infer<typeof GLSPickupOptionsSchema>;
+
+export interface GLSRequestPickupRequest extends PickupRequest {
+  credentials: GLSCredentials;
+  options: GLSPickupOptions;
+}
+
+export function safeValidateRequestPickupRequest(req: unknown) {
+  return GLSRequestPickupRequestSchema.safeParse(req);
+}
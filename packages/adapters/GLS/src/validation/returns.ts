@@ -0,0 +1,127 @@
+/**
+ * GLS Returns Validation
+ *
+ * Validates create-return requests and GLS GetClientReturnAddress responses using Zod
+ */
+
+import { z, type ZodSafeParseResult } from 'zod';
+import type { CreateReturnRequest, CreateReturnsRequest } from '@shopickup/core';
+import { getGLSReturnReference } from '../mappers/returns.js';
+import {
+  GLSContactAddressSchema,
+  GLSCredentialsSchema,
+  GLSParcelIdSchema,
+  type GLSCredentials,
+} from './schemas.js';
+
+/**
+ * Return item: the original parcel and the customer GLS collects the return from.
+ * `shipper` is required because GLS creates the return as a new parcel.
+ */
+const GLSReturnItemSchema = z.object({
+  parcelCarrierId: GLSParcelIdSchema,
+  uniqueBarcode: z.string().optional(),
+  refCode: z.string().min(1).optional(),
+  shipper: z.object(GLSContactAddressSchema.shape, { message: 'GLS returns require the customer as shipper (contact and address)' }),
+});
+
+/**
+ * Return options: the MyGLS return link whose address receives the returns
+ */
+const GLSReturnOptionsSchema = z
+  .object({
+    useTestApi: z.boolean().optional(),
+    gls: z
+      .object({
+        country: z.string().optional(),
+        /** Name of the MyGLS return link (GetClientReturnAddress `Name`) */
+        returnLinkName: z.string().min(1, 'options.gls.returnLinkName is required'),
+        /** 1 = ClientPayment, 2 = ConsigneePayment */
+        returnLinkTypeId: z.union([z.literal(1), z.literal(2)]).optional(),
+        languageIsoCode: z.string().refine(
+          (val) => ['HR', 'CS', 'HU', 'RO', 'SK', 'SL'].includes(val.toUpperCase()),
+          'Language code must be one of: HR, CS, HU, RO, SK, SL'
+        ).optional(),
+        /** When GLS should collect the returns (ISO 8601) */
+        pickupDate: z.string().datetime().optional(),
+      })
+      .passthrough(),
+  })
+  .catchall(z.unknown());
+
+export const GLSCreateReturnRequestSchema = z.object({
+  return: GLSReturnItemSchema,
+  credentials: GLSCredentialsSchema,
+  options: GLSReturnOptionsSchema,
+});
+
+/**
+ * Returns in one batch need distinct client references, since GLS results
+ * are matched back to returns by reference
+ */
+export const GLSCreateReturnsRequestSchema = z
+  .object({
+    returns: z.array(GLSReturnItemSchema).min(1, 'At least one return is required'),
+    credentials: GLSCredentialsSchema,
+    options: GLSReturnOptionsSchema,
+  })
+  .superRefine((req, ctx) => {
+    const seen = new Set<string>();
+    req.returns.forEach((item, idx) => {
+      const reference = getGLSReturnReference(item);
+      if (seen.has(reference)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['returns', idx],
+          message: `Duplicate client reference '${reference}': give each return of the same parcel its own refCode`,
+        });
+      }
+      seen.add(reference);
+    });
+  });
+
+export type GLSReturnOptions = z.infer<typeof GLSReturnOptionsSchema>;
+
+export interface GLSCreateReturnRequest extends CreateReturnRequest {
+  credentials: GLSCredentials;
+  options: GLSReturnOptions;
+}
+
+export interface GLSCreateReturnsRequest extends CreateReturnsRequest {
+  credentials: GLSCredentials;
+  options: GLSReturnOptions;
+}
+
+export function safeValidateCreateReturnRequest(req: unknown) {
+  return GLSCreateReturnRequestSchema.safeParse(req);
+}
+
+export function safeValidateCreateReturnsRequest(req: unknown) {
+  return GLSCreateReturnsRequestSchema.safeParse(req);
+}
+
+/**
+ * Validates GLS GetClientReturnAddress response (lenient, after convertFromPascalCase)
+ *
+ * - returnAddress: Optional GLS address
+ * - linkStatus: Optional 0-3
+ * - getClientReturnAddressErrors: Optional array of error objects
+ */
+export function safeValidateGLSClientReturnAddressResponse(resp: unknown): ZodSafeParseResult<any> {
+  const schema = z.object({
+    returnAddress: z.object({
+      name: z.string(),
+      street: z.string(),
+      city: z.string(),
+      zipCode: z.string(),
+      countryIsoCode: z.string(),
+    }).passthrough().optional().nullable(),
+    linkStatus: z.number().int().min(0).max(3).optional().nullable(),
+    getClientReturnAddressErrors: z.array(z.object({
+      errorCode: z.union([z.string().min(1), z.number()]),
+      errorDescription: z.string().optional().nullable(),
+    }).passthrough()).optional().nullable(),
+  }).passthrough();
+
+  return schema.safeParse(resp);
+}
@@ -34,6 +34,12 @@ export const PrinterTypeEnum = z.enum([
   'ThermoZPL_300DPI',
 ]);
 
+/** Canonical label format preference (`LabelRequestOptions.labelFormat`) */
+export const LabelFormatEnum = z.enum(['PDF', 'ZPL']);
+
+/** Canonical printer resolution (`LabelRequestOptions.labelDpi`) */
+export const LabelDpiSchema = z.union([z.literal(203), z.literal(300)]);
+
 // ---------------------------------------------------------------------------
 // Carrier-level options (for create-parcel / PrepareLabels flow)
 // ---------------------------------------------------------------------------
@@ -86,3 +92,44 @@ export const GLSPrinterOptionsSchema = z.object({
 });
 
 export type GLSPrinterOptions = z.infer<typeof GLSPrinterOptionsSchema>;
+
+// ---------------------------------------------------------------------------
+// Parcel record operations (DeleteLabels, ModifyCOD)
+// ---------------------------------------------------------------------------
+
+/** GLS parcel database IDs (createParcels `carrierId`) are positive integers, passed around as strings */
+export const GLSParcelIdSchema = z
+  .string()
+  .regex(/^[1-9]\d*$/, 'GLS parcel ID must be a positive integer');
+
+export const GLSParcelOperationOptionsSchema = z
+  .object({
+    useTestApi: z.boolean().optional(),
+    gls: z
+      .object({
+        country: z.string().optional(),
+      })
+      .optional(),
+  })
+  .catchall(z.unknown());
+
+// ---------------------------------------------------------------------------
+// Parties outside the parcel's sender/recipient
+// ---------------------------------------------------------------------------
+
+/** Canonical `{ contact, address }` pair, e.g. a return's shipper */
+export const GLSContactAddressSchema = z.object({
+  contact: z.object({
+    name: z.string().min(1),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    company: z.string().optional(),
+  }),
+  address: z.object({
+    name: z.string().min(1),
+    street: z.string().min(1),
+    city: z.string().min(1),
+    postalCode: z.string().min(1),
+    country: z.string().length(2),
+  }).passthrough(),
+});
@@ -0,0 +1,504 @@
+/**
+ * MPL Batch Tracking (Pull-500 jobs)
+ *
+ * Implements the BATCH_TRACK capability on top of the asynchronous Pull-500
+ * endpoints:
+ * 1. startTrackingJob() submits up to 500 tracking numbers and persists the
+ *    returned trackingGUID with its tracking numbers in an MPLTrackingJobStore
+ * 2. waitForTrackingJob() polls the GUID with backoff until the report is
+ *    READY, then maps it into a BatchTrackingResponse; collectTrackingJob()
+ *    checks it once without waiting
+ *
+ * Persisted jobs survive restarts; resumeTrackingJobs() finishes them.
+ */
+
+import type {
+  AdapterContext,
+  BatchTrackingRequest,
+  BatchTrackingResponse,
+  BatchTrackingResult,
+} from '@shopickup/core';
+import { CarrierError } from '@shopickup/core';
+import { trackPull500Start, trackPull500Check } from './track.js';
+import { mapMPLTrackingHistoryToCanonical, type MPLTrackingRecord } from '../mappers/tracking.js';
+import type { MPLTrackingJob, MPLTrackingJobStore } from '../utils/trackingJobStore.js';
+import type { ResolveTrackingUrl } from '../utils/resolveBaseUrl.js';
+import type { MPLCredentials, Pull500StartRequest } from '../validation.js';
+
+/** Pull-500 accepts at most this many tracking numbers per batch */
+export const PULL500_MAX_BATCH = 500;
+
+/**
+ * How a Pull-500 job is polled
+ * MPL recommends waiting a minute before the first check, then checking every 30-60 seconds
+ */
+export interface Pull500PollingOptions {
+  /** Wait before the first check of a new job (default: 60000) */
+  initialDelayMs?: number;
+
+  /** Wait between checks, before backoff (default: 30000) */
+  intervalMs?: number;
+
+  /** Upper bound for the wait between checks (default: 120000) */
+  maxIntervalMs?: number;
+
+  /** Multiplier applied to the wait after each pending check (default: 1.5) */
+  backoffFactor?: number;
+
+  /** Give up after this many checks; the job stays persisted for resuming (default: 30) */
+  maxChecks?: number;
+
+  /** Sleep implementation (override in tests) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Credentials and options for check calls
+ * Supplied by the caller on every wait/resume, since jobs do not persist credentials
+ */
+export interface Pull500JobAccess {
+  credentials: MPLCredentials;
+  options?: { useTestApi?: boolean };
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Parse a READY Pull-500 report into C-code tracking records
+ *
+ * `report_fields` is the CSV header (e.g. "C1;C9;C11;..."), `report` holds one
+ * row per event. The delimiter (`;`, tab or `,`) is taken from the header.
+ *
+ * @param report CSV rows from the check response
+ * @param reportFields CSV header from the check response
+ * @returns Records keyed by lower-case C-codes (c1, c9, ...)
+ */
+export function parsePull500Report(report: string, reportFields: string): MPLTrackingRecord[] {
+  const delimiter = [';', '\t', ','].find((d) => reportFields.includes(d)) ?? ';';
+  const header = splitCsvLine(reportFields.trim(), delimiter).map((field) => field.trim().toLowerCase());
+
+  return report
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const values = splitCsvLine(line, delimiter);
+      const record: MPLTrackingRecord = {};
+      header.forEach((field, idx) => {
+        const value = values[idx]?.trim();
+        if (field && value) {
+          record[field] = value;
+        }
+      });
+      return record;
+    });
+}
+
+/**
+ * Map report records onto the job's tracking numbers
+ * Tracking numbers without a record are reported as not_found
+ */
+export function buildPull500BatchResponse(
+  trackingNumbers: string[],
+  records: MPLTrackingRecord[],
+  raw?: unknown
+): BatchTrackingResponse {
+  const byConsignment = new Map<string, MPLTrackingRecord[]>();
+  for (const record of records) {
+    if (!record.c1) continue;
+    const group = byConsignment.get(record.c1) ?? [];
+    group.push(record);
+    byConsignment.set(record.c1, group);
+  }
+
+  const results: BatchTrackingResult[] = trackingNumbers.map((trackingNumber) => {
+    const group = byConsignment.get(trackingNumber);
+    if (!group) {
+      return { trackingNumber, status: 'not_found' as const };
+    }
+    try {
+      return {
+        trackingNumber,
+        status: 'found' as const,
+        update: mapMPLTrackingHistoryToCanonical(group),
+        raw: group,
+      };
+    } catch (error) {
+      return {
+        trackingNumber,
+        status: 'failed' as const,
+        error: { code: 'MAPPING_FAILED', message: error instanceof Error ? error.message : String(error) },
+        raw: group,
+      };
+    }
+  });
+
+  return summarizeResults(results, raw);
+}
+
+function summarizeResults(results: BatchTrackingResult[], raw?: unknown): BatchTrackingResponse {
+  const successCount = results.filter((r) => r.status === 'found').length;
+  const failureCount = results.filter((r) => r.status === 'failed').length;
+  const totalCount = results.length;
+
+  let summary: string;
+  if (failureCount === 0) {
+    summary = `All ${totalCount} parcels tracked successfully`;
+  } else if (successCount === 0) {
+    summary = `All ${totalCount} parcels failed tracking`;
+  } else {
+    summary = `Mixed results: ${successCount} tracked, ${failureCount} failed`;
+  }
+
+  return {
+    results,
+    successCount,
+    failureCount,
+    totalCount,
+    allSucceeded: failureCount === 0 && totalCount > 0,
+    allFailed: successCount === 0 && totalCount > 0,
+    someFailed: successCount > 0 && failureCount > 0,
+    summary,
+    rawCarrierResponse: raw,
+  };
+}
+
+/**
+ * Submit a Pull-500 batch and persist it as a job
+ *
+ * @param request Pull-500 start request (1-500 tracking numbers)
+ * @param ctx Adapter context with HTTP client
+ * @param resolveTrackingUrl Tracking API base URL resolver
+ * @param store Job store the GUID is persisted in
+ * @returns The persisted job
+ */
+export async function startTrackingJob(
+  request: Pull500StartRequest,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore
+): Promise<MPLTrackingJob> {
+  const started = await trackPull500Start(request, ctx, resolveTrackingUrl);
+
+  const job: MPLTrackingJob = {
+    trackingGUID: started.trackingGUID,
+    trackingNumbers: [...request.trackingNumbers],
+    language: request.language,
+    useTestApi: request.options?.useTestApi,
+    status: 'NEW',
+    checks: 0,
+    createdAt: new Date(),
+  };
+  await store.save(job);
+
+  ctx.logger?.info('MPL: Pull-500 job persisted', {
+    trackingGUID: job.trackingGUID,
+    count: job.trackingNumbers.length,
+  });
+
+  return job;
+}
+
+/**
+ * Check a job once and settle it when MPL is done with it
+ * Returns null (and saves the job) while the report is not ready
+ */
+async function checkTrackingJob(
+  job: MPLTrackingJob,
+  access: Pull500JobAccess,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore
+): Promise<BatchTrackingResponse | null> {
+  const { trackingGUID } = job;
+  const checked = await trackPull500Check(
+    {
+      trackingGUID,
+      credentials: access.credentials,
+      options: { useTestApi: access.options?.useTestApi ?? job.useTestApi },
+    },
+    ctx,
+    resolveTrackingUrl
+  );
+
+  job.status = checked.status;
+  job.checks += 1;
+  job.lastCheckedAt = new Date();
+
+  if (checked.status === 'READY') {
+    await store.delete(trackingGUID);
+    const records = checked.report && checked.report_fields
+      ? parsePull500Report(checked.report, checked.report_fields)
+      : [];
+    const response = buildPull500BatchResponse(job.trackingNumbers, records, checked);
+
+    ctx.logger?.info('MPL: Pull-500 job finished', {
+      trackingGUID,
+      checks: job.checks,
+      summary: response.summary,
+    });
+    return response;
+  }
+
+  if (checked.status === 'ERROR') {
+    await store.delete(trackingGUID);
+    const reason = checked.errors?.map((e) => e.text ?? e.code).join('; ');
+    throw new CarrierError(
+      `Pull-500 job ${trackingGUID} failed${reason ? `: ${reason}` : ''}`,
+      'Transient',
+      { raw: checked }
+    );
+  }
+
+  await store.save(job);
+  return null;
+}
+
+async function getTrackingJob(trackingGUID: string, store: MPLTrackingJobStore): Promise<MPLTrackingJob> {
+  const job = await store.get(trackingGUID);
+  if (!job) {
+    throw new CarrierError(`Unknown Pull-500 job: ${trackingGUID}`, 'NotFound');
+  }
+  return job;
+}
+
+/**
+ * Check a persisted Pull-500 job once, without waiting
+ *
+ * The job is deleted from the store once it is READY or ERROR.
+ *
+ * @returns Batch tracking response, or null while MPL is still preparing the report
+ * @throws CarrierError("NotFound") for an unknown GUID, CarrierError("Transient") on ERROR
+ */
+export async function collectTrackingJob(
+  trackingGUID: string,
+  access: Pull500JobAccess,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore
+): Promise<BatchTrackingResponse | null> {
+  const job = await getTrackingJob(trackingGUID, store);
+  return checkTrackingJob(job, access, ctx, resolveTrackingUrl, store);
+}
+
+/**
+ * Poll a persisted Pull-500 job until its report is ready
+ *
+ * The job is deleted from the store once it is READY or ERROR. When
+ * `maxChecks` is exhausted (or a check call throws) the job stays persisted
+ * so it can be resumed later.
+ *
+ * @param trackingGUID GUID of a job in the store
+ * @param access Credentials and options for the check calls
+ * @param ctx Adapter context with HTTP client
+ * @param resolveTrackingUrl Tracking API base URL resolver
+ * @param store Job store
+ * @param polling Backoff settings
+ * @returns Batch tracking response for the job's tracking numbers
+ * @throws CarrierError("NotFound") for an unknown GUID, CarrierError("Transient") on ERROR,
+ *   CarrierError("Permanent", PULL500_PENDING) on timeout
+ */
+export async function waitForTrackingJob(
+  trackingGUID: string,
+  access: Pull500JobAccess,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore,
+  polling: Pull500PollingOptions = {}
+): Promise<BatchTrackingResponse> {
+  const job = await getTrackingJob(trackingGUID, store);
+
+  const sleep = polling.sleep ?? defaultSleep;
+  const maxChecks = polling.maxChecks ?? 30;
+  const maxIntervalMs = polling.maxIntervalMs ?? 120_000;
+  const backoffFactor = polling.backoffFactor ?? 1.5;
+  let intervalMs = polling.intervalMs ?? 30_000;
+
+  // Only a job that was never checked waits for MPL to start processing
+  if (job.checks === 0) {
+    await sleep(polling.initialDelayMs ?? 60_000);
+  }
+
+  for (let attempt = 0; attempt < maxChecks; attempt++) {
+    const response = await checkTrackingJob(job, access, ctx, resolveTrackingUrl, store);
+    if (response) {
+      return response;
+    }
+
+    if (attempt < maxChecks - 1) {
+      ctx.logger?.debug('MPL: Pull-500 job pending', { trackingGUID, status: job.status, nextCheckMs: intervalMs });
+      await sleep(intervalMs);
+      intervalMs = Math.min(Math.round(intervalMs * backoffFactor), maxIntervalMs);
+    }
+  }
+
+  // Not retryable: retrying would submit the batch again; resume the persisted job instead
+  throw new CarrierError(
+    `Pull-500 job ${trackingGUID} not ready after ${maxChecks} checks; resume it later`,
+    'Permanent',
+    { carrierCode: 'PULL500_PENDING', raw: { trackingGUID, status: job.status } }
+  );
+}
+
+/**
+ * Report language requested via `options.mpl.language`
+ * Pull-500 reports come in Hungarian or English only
+ */
+export function getPull500Language(req: Pick<BatchTrackingRequest, 'options'>): 'hu' | 'en' | undefined {
+  const requested = (req.options?.mpl as { language?: string } | undefined)?.language?.toLowerCase();
+  return requested === 'hu' || requested === 'en' ? requested : undefined;
+}
+
+/**
+ * Report every tracking number of a batch that produced no report as failed
+ */
+function failBatch(trackingNumbers: string[], error: unknown, raw?: unknown): BatchTrackingResult[] {
+  const carrierError = error instanceof CarrierError ? error : undefined;
+  return trackingNumbers.map((trackingNumber) => ({
+    trackingNumber,
+    status: 'failed' as const,
+    error: {
+      code: carrierError?.carrierCode ?? 'PULL500_FAILED',
+      message: error instanceof Error ? error.message : String(error),
+    },
+    raw,
+  }));
+}
+
+/**
+ * Track parcels through Pull-500 jobs (BATCH_TRACK)
+ *
+ * Splits the request into batches of 500, starts a job per batch and waits
+ * for all of them. Calls take minutes; use startTrackingJob/collectTrackingJob
+ * directly when the caller should not block.
+ *
+ * A batch that fails to start or finish is reported per tracking number
+ * (status 'failed', with the GUID in `raw` when the job is still persisted)
+ * without discarding the other batches. The call only throws when no batch
+ * could be started, so a retry never submits a batch twice.
+ */
+export async function batchTrack(
+  req: BatchTrackingRequest,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore,
+  polling: Pull500PollingOptions = {}
+): Promise<BatchTrackingResponse> {
+  if (!req.trackingNumbers || req.trackingNumbers.length === 0) {
+    return buildPull500BatchResponse([], []);
+  }
+
+  const credentials = (req.credentials || {}) as MPLCredentials;
+  const options = { useTestApi: req.options?.useTestApi };
+  const language = getPull500Language(req);
+
+  const batches: string[][] = [];
+  for (let i = 0; i < req.trackingNumbers.length; i += PULL500_MAX_BATCH) {
+    batches.push(req.trackingNumbers.slice(i, i + PULL500_MAX_BATCH));
+  }
+
+  const started: Array<PromiseSettledResult<MPLTrackingJob>> = [];
+  for (const trackingNumbers of batches) {
+    started.push(await startTrackingJob(
+      { trackingNumbers, credentials, language, options },
+      ctx,
+      resolveTrackingUrl,
+      store
+    ).then(
+      (job) => ({ status: 'fulfilled' as const, value: job }),
+      (reason) => ({ status: 'rejected' as const, reason })
+    ));
+  }
+
+  const firstFailure = started.find((s): s is PromiseRejectedResult => s.status === 'rejected');
+  if (firstFailure && started.every((s) => s.status === 'rejected')) {
+    throw firstFailure.reason;
+  }
+
+  const settled = await Promise.allSettled(
+    started.map((s) => s.status === 'fulfilled'
+      ? waitForTrackingJob(s.value.trackingGUID, { credentials, options }, ctx, resolveTrackingUrl, store, polling)
+      : Promise.reject(s.reason))
+  );
+
+  const responses = settled.map((outcome, idx): BatchTrackingResponse => {
+    if (outcome.status === 'fulfilled') {
+      return outcome.value;
+    }
+    const job = started[idx].status === 'fulfilled' ? started[idx].value : undefined;
+    ctx.logger?.warn('MPL: Pull-500 batch failed', {
+      trackingGUID: job?.trackingGUID,
+      error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+    });
+    const raw = job ? { trackingGUID: job.trackingGUID } : undefined;
+    return summarizeResults(failBatch(batches[idx], outcome.reason, raw), raw);
+  });
+
+  if (responses.length === 1) {
+    return responses[0];
+  }
+
+  // Batches are consecutive slices, so concatenated results keep request order
+  return summarizeResults(
+    responses.flatMap((r) => r.results),
+    responses.map((r) => r.rawCarrierResponse)
+  );
+}
+
+/**
+ * Finish every pending job in the store (e.g. after a restart)
+ *
+ * @returns One entry per job; a job that fails again carries the error and stays persisted unless MPL reported ERROR
+ */
+export async function resumeTrackingJobs(
+  access: Pull500JobAccess,
+  ctx: AdapterContext,
+  resolveTrackingUrl: ResolveTrackingUrl,
+  store: MPLTrackingJobStore,
+  polling: Pull500PollingOptions = {}
+): Promise<Array<{ job: MPLTrackingJob; response?: BatchTrackingResponse; error?: CarrierError }>> {
+  const pending = await store.listPending();
+
+  return Promise.all(pending.map(async (job) => {
+    try {
+      const response = await waitForTrackingJob(job.trackingGUID, access, ctx, resolveTrackingUrl, store, polling);
+      return { job, response };
+    } catch (error) {
+      return {
+        job,
+        error: error instanceof CarrierError ? error : new CarrierError(String(error), 'Transient'),
+      };
+    }
+  }));
+}
@@ -7,3 +7,6 @@ export { createLabel, createLabels } from './label.js';
 export { fetchPickupPoints } from './pickup-points.js';
 export { exchangeAuthToken } from './auth.js';
 export { closeShipments } from './close.js';
+export { getRates, MPL_DEFAULT_TARIFF } from './rates.js';
+export { parseWebhook } from './webhooks.js';
+export { batchTrack, startTrackingJob, waitForTrackingJob, resumeTrackingJobs } from './batch-track.js';
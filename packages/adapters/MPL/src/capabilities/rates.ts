@@ -0,0 +1,100 @@
+/**
+ * MPL Adapter: Rates Capability
+ * Handles RATES operation
+ *
+ * MPL has no price quote endpoint; rates are computed from a local
+ * weight-band tariff table (home delivery vs PostaPont/parcel locker) by the
+ * core tariff engine.
+ */
+
+import type {
+    AdapterContext,
+    RatesRequest,
+    RatesResponse,
+    TariffTable,
+} from "@shopickup/core";
+import { CarrierError, parseTariffTable, quoteFromTariff } from "@shopickup/core";
+
+/**
+ * Default MPL tariff (net HUF list prices in fillér, 27% VAT)
+ *
+ * Indicative only: override `MPLAdapter.tariffTable` with your contracted
+ * business price list.
+ */
+export const MPL_DEFAULT_TARIFF: TariffTable = parseTariffTable({
+    carrier: "hu-mpl",
+    currency: "HUF",
+    fuelSurchargePercent: 0,
+    vatPercent: 27,
+    services: [
+        {
+            service: "standard",
+            delivery: "HOME",
+            carrierServiceCode: "A_175_UZL",
+            estimatedDays: 2,
+            weightBands: [
+                { maxWeightGrams: 2000, price: 159000 },
+                { maxWeightGrams: 5000, price: 179000 },
+                { maxWeightGrams: 10000, price: 219000 },
+                { maxWeightGrams: 20000, price: 279000 },
+                { maxWeightGrams: 30000, price: 339000 },
+                { maxWeightGrams: 40000, price: 429000 },
+            ],
+            codSurcharge: { fixed: 25000, percent: 0.5 },
+        },
+        {
+            service: "express",
+            delivery: "HOME",
+            carrierServiceCode: "A_121_CSG",
+            estimatedDays: 1,
+            weightBands: [
+                { maxWeightGrams: 2000, price: 219000 },
+                { maxWeightGrams: 5000, price: 249000 },
+                { maxWeightGrams: 10000, price: 299000 },
+                { maxWeightGrams: 20000, price: 369000 },
+                { maxWeightGrams: 30000, price: 439000 },
+            ],
+            codSurcharge: { fixed: 25000, percent: 0.5 },
+        },
+        {
+            service: "standard",
+            delivery: "PICKUP_POINT",
+            carrierServiceCode: "A_175_UZL",
+            estimatedDays: 2,
+            weightBands: [
+                { maxWeightGrams: 2000, price: 119000 },
+                { maxWeightGrams: 5000, price: 139000 },
+                { maxWeightGrams: 10000, price: 169000 },
+                { maxWeightGrams: 20000, price: 219000 },
+            ],
+            codSurcharge: { fixed: 25000, percent: 0.5 },
+        },
+    ],
+});
+
+/**
+ * Quote MPL rates from a tariff table
+ *
+ * @param req RatesRequest with parcels to quote
+ * @param ctx Adapter context (used for logging)
+ * @param table Tariff table to quote from
+ * @returns RatesResponse with one rate per serviceable service and delivery type
+ */
+export async function getRates(
+    req: RatesRequest,
+    ctx: AdapterContext,
+    table: TariffTable,
+): Promise<RatesResponse> {
+    if (!Array.isArray(req?.parcels) || req.parcels.length === 0) {
+        throw new CarrierError("Invalid request: at least one parcel is required", "Validation");
+    }
+
+    const response = quoteFromTariff(table, req);
+
+    ctx.logger?.debug("MPL: Quoted rates from tariff", {
+        parcelCount: req.parcels.length,
+        rateCount: response.rates.length,
+    });
+
+    return response;
+}
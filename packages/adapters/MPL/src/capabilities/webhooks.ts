@@ -0,0 +1,71 @@
+/**
+ * MPL Adapter: Webhooks Capability
+ * Handles WEBHOOKS operation
+ *
+ * Parses "Push Tracking subscription" notifications. MPL pushes the same
+ * C-code records the pull tracking APIs return, wrapped in `trackAndTrace`
+ * (a bare array of records is accepted too). Records are grouped by
+ * consignment ID (c1) and mapped with the tracking mappers, so updates match
+ * what track() produces.
+ */
+
+import type {
+    AdapterContext,
+    TrackingUpdate,
+    WebhookRequest,
+} from "@shopickup/core";
+import { CarrierError, readWebhookJson } from "@shopickup/core";
+import { mapMPLTrackingHistoryToCanonical, type MPLTrackingRecord } from "../mappers/tracking.js";
+import { safeValidateTrackingResponse } from "../validation.js";
+
+/**
+ * Parse an MPL push tracking notification
+ *
+ * Verification (signature/shared secret) is done by the adapter before this
+ * is called.
+ *
+ * @param req Webhook request (raw or parsed JSON body)
+ * @param ctx Adapter context (logger)
+ * @returns One TrackingUpdate per consignment, in payload order
+ * @throws CarrierError("Validation") if the payload holds no valid tracking records
+ */
+export async function parseWebhook(
+    req: WebhookRequest,
+    ctx: AdapterContext
+): Promise<TrackingUpdate[]> {
+    const payload = readWebhookJson(req);
+    const wrapped = Array.isArray(payload) ? { trackAndTrace: payload } : payload;
+
+    const validation = safeValidateTrackingResponse(wrapped);
+    if (!validation.success) {
+        throw new CarrierError(
+            `Invalid MPL webhook payload: ${validation.error.message}`,
+            "Validation",
+            { raw: payload }
+        );
+    }
+
+    const records = (validation.data.trackAndTrace ?? []) as MPLTrackingRecord[];
+    if (records.length === 0) {
+        throw new CarrierError("MPL webhook payload contains no tracking records", "Validation", {
+            raw: payload,
+        });
+    }
+
+    // One consignment may carry several events in a single push
+    const byConsignment = new Map<string, MPLTrackingRecord[]>();
+    for (const record of records) {
+        const group = byConsignment.get(record.c1!) ?? [];
+        group.push(record);
+        byConsignment.set(record.c1!, group);
+    }
+
+    const updates = [...byConsignment.values()].map(group => mapMPLTrackingHistoryToCanonical(group));
+
+    ctx.logger?.info("MPL: Webhook parsed", {
+        records: records.length,
+        trackingNumbers: updates.map(u => u.trackingNumber),
+    });
+
+    return updates;
+}
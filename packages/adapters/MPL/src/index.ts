@@ -1,8 +1,10 @@
-import { AdapterContext, Capabilities, Capability, CarrierAdapter, CarrierError, CarrierResource, CreateLabelRequest, CreateLabelResponse, CreateLabelsRequest, CreateLabelsResponse, CreateParcelRequest, CreateParcelsRequest, CreateParcelsResponse, TrackingRequest, TrackingUpdate, ShipmentDetailsRequest, ShipmentDetailsResponse, FetchPickupPointsRequest, FetchPickupPointsResponse } from '@shopickup/core';
+import { AdapterContext, Capabilities, Capability, CarrierAdapter, CarrierError, CarrierResource, CreateLabelRequest, CreateLabelResponse, CreateLabelsRequest, CreateLabelsResponse, CreateParcelRequest, CreateParcelsRequest, CreateParcelsResponse, TrackingRequest, TrackingUpdate, ShipmentDetailsRequest, ShipmentDetailsResponse, FetchPickupPointsRequest, FetchPickupPointsResponse, RatesRequest, RatesResponse, TariffTable, WebhookRequest, WebhookVerifier, BatchTrackingRequest, BatchTrackingResponse, BatchTrackingJob, CollectBatchTrackingRequest } from '@shopickup/core';
 import { createResolveBaseUrl, createResolveOAuthUrl, createResolveTrackingUrl, ResolveBaseUrl, ResolveOAuthUrl, ResolveTrackingUrl } from './utils/resolveBaseUrl.js';
-import { fetchPickupPoints as fetchPickupPointsImpl } from './capabilities/index.js';
+import { fetchPickupPoints as fetchPickupPointsImpl, getRates as getRatesImpl, parseWebhook as parseWebhookImpl, MPL_DEFAULT_TARIFF } from './capabilities/index.js';
 import { getShipmentDetails as getShipmentDetailsImpl } from './capabilities/get-shipment-details.js';
 import { track as trackImpl } from './capabilities/track.js';
+import { batchTrack as batchTrackImpl, collectTrackingJob, getPull500Language, resumeTrackingJobs as resumeTrackingJobsImpl, startTrackingJob, type Pull500JobAccess, type Pull500PollingOptions } from './capabilities/batch-track.js';
+import { InMemoryMPLTrackingJobStore, type MPLTrackingJobStore } from './utils/trackingJobStore.js';
 import { exchangeAuthToken as exchangeAuthTokenImpl } from './capabilities/auth.js';
 import { createParcel as createParcelImpl, createParcels as createParcelsImpl } from './capabilities/parcels.js';
 import { createLabel as createLabelImpl, createLabels as createLabelsImpl } from './capabilities/label.js';
@@ -19,6 +21,11 @@ import type { CreateParcelMPLRequest, CreateParcelsMPLRequest, CreateLabelMPLReq
  * - CREATE_LABEL: Generate PDF labels for parcels
  * - CLOSE_SHIPMENTS: Closes shipments to finalize them before sendoff.
  * - TRACK: Track parcels by barcode
+ * - BATCH_TRACK: Track up to 500 parcels per Pull-500 job (asynchronous, persisted via `trackingJobStore`;
+ *   startBatchTrack/collectBatchTrack poll without blocking)
+ * - LIST_PICKUP_POINTS: Fetch post offices, parcel lockers and partner points
+ * - RATES: Quote prices from a local tariff table (no API call)
+ * - WEBHOOKS: Parse push tracking notifications (verified via `webhookVerifier`)
  * - EXCHANGE_AUTH_TOKEN: Exchange API credentials for OAuth2 Bearer token
  * - TEST_MODE_SUPPORTED: Can switch to test API for sandbox testing
  * 
@@ -54,10 +61,14 @@ export class MPLAdapter implements CarrierAdapter {
         Capabilities.CREATE_PARCELS,
         Capabilities.CREATE_LABEL,
         Capabilities.TRACK,
+        Capabilities.BATCH_TRACK,
         Capabilities.GET_SHIPMENT_DETAILS,
+        Capabilities.LIST_PICKUP_POINTS,
         Capabilities.CLOSE_SHIPMENT,
         Capabilities.TEST_MODE_SUPPORTED,
         Capabilities.EXCHANGE_AUTH_TOKEN,
+        Capabilities.RATES,
+        Capabilities.WEBHOOKS,
     ];
 
     // MPL requires close before label generation
@@ -65,6 +76,38 @@ export class MPLAdapter implements CarrierAdapter {
         createLabel: [Capabilities.CREATE_PARCEL, Capabilities.CLOSE_SHIPMENT],
     }
 
+    // PostaPont and parcel locker pickup points are served by MPL
+    readonly limits = {
+        maxWeightGrams: 40000,
+        acceptsCod: true,
+        pickupPointProviders: ["mpl", "posta"],
+    };
+
+    /**
+     * Tariff table used by getRates
+     * Defaults to indicative list prices; replace with your contracted prices
+     * (e.g., `adapter.tariffTable = parseTariffTable(json)`)
+     */
+    tariffTable: TariffTable = MPL_DEFAULT_TARIFF;
+
+    /**
+     * Verifier applied to every notification passed to parseWebhook
+     * Unset by default; configure one before exposing a public webhook endpoint
+     * (e.g., `adapter.webhookVerifier = createSharedSecretVerifier({ secret, header })`)
+     */
+    webhookVerifier?: WebhookVerifier;
+
+    /**
+     * Store for Pull-500 jobs started by batchTrack
+     * Replace the in-memory default with a persistent store so jobs survive restarts
+     */
+    trackingJobStore: MPLTrackingJobStore = new InMemoryMPLTrackingJobStore();
+
+    /**
+     * How batchTrack polls Pull-500 jobs (see Pull500PollingOptions for defaults)
+     */
+    pull500Polling: Pull500PollingOptions = {};
+
     private prodBaseUrl = "https://core.api.posta.hu/v2/mplapi";
     private testBaseUrl = "https://sandbox.api.posta.hu/v2/mplapi";
     private prodOAuthUrl = "https://core.api.posta.hu/oauth2/token";
@@ -168,6 +211,65 @@ export class MPLAdapter implements CarrierAdapter {
         return results[0];
     }
 
+    /**
+     * Track parcels in batches via Pull-500 jobs
+     * Blocks until every job's report is ready (typically a few minutes)
+     */
+    async batchTrack(
+        req: BatchTrackingRequest,
+        ctx: AdapterContext,
+    ): Promise<BatchTrackingResponse> {
+        return batchTrackImpl(req, ctx, this.resolveTrackingUrl, this.trackingJobStore, this.pull500Polling);
+    }
+
+    /**
+     * Start one Pull-500 job (up to 500 tracking numbers) without waiting for it
+     * The job is persisted in `trackingJobStore`; collect it with collectBatchTrack()
+     */
+    async startBatchTrack(
+        req: BatchTrackingRequest,
+        ctx: AdapterContext,
+    ): Promise<BatchTrackingJob> {
+        const job = await startTrackingJob(
+            {
+                trackingNumbers: req.trackingNumbers,
+                credentials: (req.credentials || {}) as any,
+                language: getPull500Language(req),
+                options: { useTestApi: req.options?.useTestApi },
+            },
+            ctx,
+            this.resolveTrackingUrl,
+            this.trackingJobStore,
+        );
+        return { jobId: job.trackingGUID, trackingNumbers: job.trackingNumbers };
+    }
+
+    /**
+     * Check a Pull-500 job once; null while the report is not ready
+     */
+    async collectBatchTrack(
+        req: CollectBatchTrackingRequest,
+        ctx: AdapterContext,
+    ): Promise<BatchTrackingResponse | null> {
+        return collectTrackingJob(
+            req.jobId,
+            { credentials: (req.credentials || {}) as any, options: { useTestApi: req.options?.useTestApi } },
+            ctx,
+            this.resolveTrackingUrl,
+            this.trackingJobStore,
+        );
+    }
+
+    /**
+     * Finish Pull-500 jobs left pending in `trackingJobStore` (e.g. after a restart)
+     */
+    async resumeTrackingJobs(
+        access: Pull500JobAccess,
+        ctx: AdapterContext,
+    ) {
+        return resumeTrackingJobsImpl(access, ctx, this.resolveTrackingUrl, this.trackingJobStore, this.pull500Polling);
+    }
+
     async getShipmentDetails(
         req: ShipmentDetailsRequest,
         ctx: AdapterContext
@@ -193,6 +295,29 @@ export class MPLAdapter implements CarrierAdapter {
         return fetchPickupPointsImpl(req, ctx, this.resolveBaseUrl);
     }
 
+    /**
+     * Quote rates from the adapter's tariff table
+     * MPL has no rates endpoint, so no API call is made
+     */
+    async getRates(
+        req: RatesRequest,
+        ctx: AdapterContext,
+    ): Promise<RatesResponse> {
+        return getRatesImpl(req, ctx, this.tariffTable);
+    }
+
+    /**
+     * Parse a push tracking notification
+     * Runs `webhookVerifier` first, then maps the records per consignment
+     */
+    async parseWebhook(
+        req: WebhookRequest,
+        ctx: AdapterContext,
+    ): Promise<TrackingUpdate[]> {
+        await this.webhookVerifier?.verify(req);
+        return parseWebhookImpl(req, ctx);
+    }
+
     /**
      * Close shipments (batch) - delegates to capability implementation
      */
@@ -215,5 +340,18 @@ export { withOAuthFallback } from './utils/oauthFallback.js';
 export { createResolveBaseUrl, createResolveOAuthUrl };
 export type { ResolveBaseUrl, ResolveOAuthUrl };
 export { track, trackPull500Start, trackPull500Check, trackRegistered } from './capabilities/track.js';
+export {
+    startTrackingJob,
+    collectTrackingJob,
+    waitForTrackingJob,
+    resumeTrackingJobs,
+    parsePull500Report,
+    buildPull500BatchResponse,
+    PULL500_MAX_BATCH,
+} from './capabilities/batch-track.js';
+export type { Pull500PollingOptions, Pull500JobAccess } from './capabilities/batch-track.js';
+export { InMemoryMPLTrackingJobStore } from './utils/trackingJobStore.js';
+export type { MPLTrackingJob, MPLTrackingJobStore } from './utils/trackingJobStore.js';
+export { MPL_DEFAULT_TARIFF } from './capabilities/rates.js';
 // Re-export validation helpers for consumers (dev-server uses these)
 export * from './validation.js';
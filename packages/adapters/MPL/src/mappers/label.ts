@@ -47,7 +47,8 @@ export function buildLabelQueryParams(req: CreateLabelsMPLRequestWithOptions): L
     trackingNumbers: req.parcelCarrierIds,
     // prefer canonical `size` (options.size) then carrier override under options.mpl.labelType
     labelType: (req.options.size ?? req.options.mpl.labelType) as LabelType | undefined,
-    labelFormat: req.options.mpl.labelFormat,
+    // carrier override under options.mpl.labelFormat, then the canonical preference
+    labelFormat: req.options.mpl.labelFormat ?? req.options.labelFormat,
     orderBy: req.options.mpl.orderBy,
     singleFile: req.options.mpl.singleFile,
   };
@@ -1,4 +1,5 @@
-import type { TrackingEvent, TrackingUpdate, TrackingStatus } from '@shopickup/core';
+import type { TrackingEvent, TrackingUpdate, TrackingStatus, TrackingSubStatus } from '@shopickup/core';
+import { summarizeTrackingEvents, trackingFlags } from '@shopickup/core';
 
 export interface MPLTrackingRecord {
   c0?: string;   // Backend system name (EÉRT, BPU) or parcel type (IKRL=letter, IKRCS=parcel)
@@ -69,11 +70,51 @@ function mapC43ToStatus(c43: string | undefined, c9: string | undefined): Tracki
   }
 }
 
+/**
+ * Sub-status from the event text (c9), failed delivery reason (c55) and
+ * delivery mode (c4); MPL has no finer code than the c43 category
+ */
+function mapMPLSubStatus(record: MPLTrackingRecord, status: TrackingStatus): TrackingSubStatus | undefined {
+  const c9Lower = (record.c9 || '').toLowerCase();
+  const c4Lower = (record.c4 || '').toLowerCase();
+  const atPickupPoint = ['automat', 'postapont', 'csomagpont'].some((term) => c9Lower.includes(term) || c4Lower.includes(term));
+
+  switch (status) {
+    case 'DELIVERED':
+      if (atPickupPoint) return 'DELIVERED_TO_PICKUP_POINT';
+      return c9Lower.includes('háznál') ? 'DELIVERED_TO_RECIPIENT' : undefined;
+    case 'RETURNED':
+      return c9Lower.includes('megtagadta') ? 'REFUSED' : 'RETURNING_TO_SENDER';
+    case 'EXCEPTION':
+      if (c9Lower.includes('sérülés')) return 'DAMAGED';
+      if (c9Lower.includes('ismeretlen') || c9Lower.includes('megszűnt')) return 'ADDRESS_PROBLEM';
+      return 'DELIVERY_ATTEMPT_FAILED';
+  }
+
+  if (c9Lower.includes('vám')) return 'HELD_AT_CUSTOMS';
+  if (c9Lower.includes('átvehető')) return 'READY_FOR_PICKUP';
+  if (record.c55) return 'DELIVERY_ATTEMPT_FAILED';
+  if (status === 'OUT_FOR_DELIVERY') return 'WITH_COURIER';
+
+  switch (record.c43) {
+    case '1':
+      return 'PICKED_UP';
+    case '2':
+      return 'AT_HUB';
+    default:
+      return undefined;
+  }
+}
+
 function parseTimestamp(dateStr: string | undefined, timeStr: string | undefined): Date | null {
   if (!dateStr || !timeStr) return null;
 
   try {
-    const combined = `${dateStr} ${timeStr}`;
+    // MPL sends dates as YYYYMMDD, which Date cannot parse without separators
+    const date = /^\d{8}$/.test(dateStr)
+      ? `${dateStr.slice(0, 4)}-${dateStr.slice(4, 6)}-${dateStr.slice(6, 8)}`
+      : dateStr;
+    const combined = `${date} ${timeStr}`;
     const parsed = new Date(combined);
     if (!isNaN(parsed.getTime())) {
       return parsed;
@@ -89,6 +130,11 @@ function buildTrackingEvent(record: MPLTrackingRecord): TrackingEvent {
   const timestamp = parseTimestamp(record.c11, record.c12) || new Date();
   const status = mapC43ToStatus(record.c43, record.c9);
 
+  const subStatus = mapMPLSubStatus(record, status);
+  const flags = trackingFlags(status, subStatus);
+  // c60 is the last day the parcel is held for collection
+  const pickupDeadline = !flags.isTerminal ? parseTimestamp(record.c60, '23:59:59') : null;
+
   const location = record.c13
     ? { facility: record.c13 }
     : undefined;
@@ -96,6 +142,9 @@ function buildTrackingEvent(record: MPLTrackingRecord): TrackingEvent {
   return {
     timestamp,
     status,
+    ...(subStatus ? { subStatus } : {}),
+    ...flags,
+    ...(pickupDeadline ? { pickupDeadline } : {}),
     location,
     description: record.c9 || 'No description',
     descriptionLocalLanguage: record.c10 || undefined,
@@ -117,6 +166,7 @@ export function mapMPLTrackingToCanonical(
   const trackingUpdate: TrackingUpdate = {
     trackingNumber: record.c1,
     status: mapC43ToStatus(record.c43, record.c9),
+    ...summarizeTrackingEvents(events, events[0].status),
     lastUpdate: events[0].timestamp,
     events,
     rawCarrierResponse: {
@@ -155,6 +205,8 @@ export function mapMPLTrackingHistoryToCanonical(
   const trackingUpdate: TrackingUpdate = {
     trackingNumber,
     status: latestStatus,
+    // Flags follow the record the status is taken from
+    ...summarizeTrackingEvents([events[0]], latestStatus),
     lastUpdate: events.length > 0 ? events[events.length - 1].timestamp : null,
     events,
     rawCarrierResponse: {
@@ -0,0 +1,230 @@
+/**
+ * MPL Adapter - Batch Tracking (Pull-500 jobs) Tests
+ *
+ * Drives startTrackingJob/waitForTrackingJob through a scripted HTTP client
+ * and checks that jobs are persisted until their report is ready.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AdapterContext, HttpResponse } from '@shopickup/core';
+import { MPLAdapter, InMemoryMPLTrackingJobStore, parsePull500Report, waitForTrackingJob } from '../../index.js';
+import { createResolveTrackingUrl } from '../../utils/resolveBaseUrl.js';
+
+const credentials = {
+  authType: 'apiKey' as const,
+  apiKey: 'test-key',
+  apiSecret: 'test-secret',
+  accountingCode: 'TEST001',
+};
+
+const REPORT_FIELDS = 'C1;C9;C10;C11;C12';
+const REPORT = [
+  'JJH30HU000012345;Feldolgozás;Budapest 1;20240611;08:00:00',
+  'JJH30HU000012345;Kézbesítés;"Budapest 114; Posta";20240612;13:42:10',
+].join('\n');
+
+/**
+ * Answers the start POST with a GUID and each check GET with the next scripted status
+ */
+class ScriptedHttpClient {
+  checks: Array<Record<string, unknown>> = [];
+  postedNumbers: string[][] = [];
+  getUrls: string[] = [];
+  private nextGuid = 1;
+
+  async post<T>(_url: string, data: any): Promise<HttpResponse<T>> {
+    this.postedNumbers.push(data.trackingNumbers);
+    return { status: 200, headers: {}, body: { trackingGUID: `guid-${this.nextGuid++}` } as T };
+  }
+
+  async get<T>(url: string): Promise<HttpResponse<T>> {
+    this.getUrls.push(url);
+    const body = this.checks.shift();
+    if (!body) {
+      throw new Error(`No scripted check response for ${url}`);
+    }
+    return { status: 200, headers: {}, body: body as T };
+  }
+
+  async put<T>(): Promise<HttpResponse<T>> {
+    throw new Error('PUT not implemented in mock');
+  }
+
+  async patch<T>(): Promise<HttpResponse<T>> {
+    throw new Error('PATCH not implemented in mock');
+  }
+
+  async delete<T>(): Promise<HttpResponse<T>> {
+    throw new Error('DELETE not implemented in mock');
+  }
+}
+
+describe('MPL Adapter - Batch tracking (BATCH_TRACK capability)', () => {
+  let adapter: MPLAdapter;
+  let http: ScriptedHttpClient;
+  let ctx: AdapterContext;
+  let sleep: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    http = new ScriptedHttpClient();
+    ctx = { http: http as any };
+    sleep = vi.fn(async () => {});
+    adapter = new MPLAdapter();
+    adapter.pull500Polling = { sleep, initialDelayMs: 60_000, intervalMs: 1_000, backoffFactor: 2, maxIntervalMs: 3_000 };
+  });
+
+  it('advertises the BATCH_TRACK capability', () => {
+    expect(adapter.capabilities).toContain('BATCH_TRACK');
+  });
+
+  it('parses semicolon-separated reports with quoted fields', () => {
+    const records = parsePull500Report(REPORT, REPORT_FIELDS);
+    expect(records).toHaveLength(2);
+    expect(records[1]).toEqual({
+      c1: 'JJH30HU000012345',
+      c9: 'Kézbesítés',
+      c10: 'Budapest 114; Posta',
+      c11: '20240612',
+      c12: '13:42:10',
+    });
+  });
+
+  it('waits for the report with backoff and maps it per tracking number', async () => {
+    http.checks = [
+      { status: 'NEW' },
+      { status: 'INPROGRESS' },
+      { status: 'INPROGRESS' },
+      { status: 'READY', report: REPORT, report_fields: REPORT_FIELDS },
+    ];
+
+    const response = await adapter.batchTrack(
+      { trackingNumbers: ['JJH30HU000012345', 'JJH30HU000099999'], credentials },
+      ctx
+    );
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([60_000, 1_000, 2_000, 3_000]);
+    expect(http.getUrls[0]).toContain('/v2/mplapi-tracking/tracking/guid-1');
+    expect(response.results.map((r) => [r.trackingNumber, r.status])).toEqual([
+      ['JJH30HU000012345', 'found'],
+      ['JJH30HU000099999', 'not_found'],
+    ]);
+    expect(response.results[0].update?.events).toHaveLength(2);
+    expect(response.results[0].update?.lastUpdate).toEqual(new Date('2024-06-12 13:42:10'));
+    expect(response.successCount).toBe(1);
+
+    // finished jobs are removed from the store
+    expect(await adapter.trackingJobStore.listPending()).toEqual([]);
+  });
+
+  it('splits requests into jobs of at most 500 tracking numbers', async () => {
+    const trackingNumbers = Array.from({ length: 501 }, (_, i) => `JJH30HU${String(i).padStart(9, '0')}`);
+    http.checks = [
+      { status: 'READY', report: '', report_fields: REPORT_FIELDS },
+      { status: 'READY', report: '', report_fields: REPORT_FIELDS },
+    ];
+
+    const response = await adapter.batchTrack({ trackingNumbers, credentials }, ctx);
+
+    expect(http.postedNumbers.map((n) => n.length)).toEqual([500, 1]);
+    expect(response.totalCount).toBe(501);
+    expect(response.results[500].trackingNumber).toBe(trackingNumbers[500]);
+  });
+
+  it('keeps the job persisted when checks run out, and resumes it later', async () => {
+    adapter.pull500Polling = { ...adapter.pull500Polling, maxChecks: 2 };
+    http.checks = [{ status: 'INPROGRESS' }, { status: 'INPROGRESS' }];
+
+    const response = await adapter.batchTrack({ trackingNumbers: ['JJH30HU000012345'], credentials }, ctx);
+    expect(response.results[0]).toMatchObject({
+      status: 'failed',
+      error: { code: 'PULL500_PENDING' },
+      raw: { trackingGUID: 'guid-1' },
+    });
+
+    const [pending] = await adapter.trackingJobStore.listPending();
+    expect(pending).toMatchObject({
+      trackingGUID: 'guid-1',
+      trackingNumbers: ['JJH30HU000012345'],
+      status: 'INPROGRESS',
+      checks: 2,
+    });
+    expect(pending).not.toHaveProperty('credentials');
+
+    // A restarted process hands the same store to a fresh adapter
+    const restarted = new MPLAdapter();
+    restarted.trackingJobStore = adapter.trackingJobStore;
+    restarted.pull500Polling = { sleep };
+    sleep.mockClear();
+    http.checks = [{ status: 'READY', report: REPORT, report_fields: REPORT_FIELDS }];
+
+    const [resumed] = await restarted.resumeTrackingJobs({ credentials }, ctx);
+
+    // already-checked jobs skip the initial delay
+    expect(sleep).not.toHaveBeenCalled();
+    expect(resumed.error).toBeUndefined();
+    expect(resumed.response?.results[0]).toMatchObject({ trackingNumber: 'JJH30HU000012345', status: 'found' });
+    expect(await restarted.trackingJobStore.listPending()).toEqual([]);
+  });
+
+  it('drops jobs that MPL reports as ERROR', async () => {
+    http.checks = [{ status: 'ERROR', errors: [{ code: 'E1', text: 'Report generation failed' }] }];
+
+    const response = await adapter.batchTrack({ trackingNumbers: ['JJH30HU000012345'], credentials }, ctx);
+    expect(response.allFailed).toBe(true);
+    expect(response.results[0].error?.message).toContain('Report generation failed');
+    expect(await adapter.trackingJobStore.listPending()).toEqual([]);
+  });
+
+  it('keeps finished batches when another batch times out', async () => {
+    adapter.pull500Polling = { ...adapter.pull500Polling, maxChecks: 1 };
+    const trackingNumbers = ['JJH30HU000012345', ...Array.from({ length: 500 }, (_, i) => `JJH30HU${String(i).padStart(9, '0')}`)];
+    http.checks = [
+      { status: 'READY', report: REPORT, report_fields: REPORT_FIELDS },
+      { status: 'INPROGRESS' },
+    ];
+
+    const response = await adapter.batchTrack({ trackingNumbers, credentials }, ctx);
+
+    expect(response.results[0]).toMatchObject({ trackingNumber: 'JJH30HU000012345', status: 'found' });
+    expect(response.results[500]).toMatchObject({ status: 'failed', error: { code: 'PULL500_PENDING' } });
+    expect(response.someFailed).toBe(true);
+    expect((await adapter.trackingJobStore.listPending()).map((job) => job.trackingGUID)).toEqual(['guid-2']);
+  });
+
+  it('reports PULL500_PENDING as non-retryable when waiting on a job directly', async () => {
+    adapter.pull500Polling = { ...adapter.pull500Polling, maxChecks: 1 };
+    http.checks = [{ status: 'INPROGRESS' }];
+
+    const job = await adapter.startBatchTrack({ trackingNumbers: ['JJH30HU000012345'], credentials }, ctx);
+    const resolveTrackingUrl = createResolveTrackingUrl('https://prod.example', 'https://test.example');
+
+    await expect(
+      waitForTrackingJob(job.jobId, { credentials }, ctx, resolveTrackingUrl, adapter.trackingJobStore, adapter.pull500Polling)
+    ).rejects.toMatchObject({ category: 'Permanent', carrierCode: 'PULL500_PENDING' });
+  });
+
+  it('starts and collects jobs without waiting', async () => {
+    const job = await adapter.startBatchTrack({ trackingNumbers: ['JJH30HU000012345'], credentials }, ctx);
+    expect(job).toEqual({ jobId: 'guid-1', trackingNumbers: ['JJH30HU000012345'] });
+
+    http.checks = [{ status: 'INPROGRESS' }, { status: 'READY', report: REPORT, report_fields: REPORT_FIELDS }];
+
+    expect(await adapter.collectBatchTrack({ jobId: job.jobId, credentials }, ctx)).toBeNull();
+    const response = await adapter.collectBatchTrack({ jobId: job.jobId, credentials }, ctx);
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect(response?.results[0]).toMatchObject({ trackingNumber: 'JJH30HU000012345', status: 'found' });
+    expect(await adapter.trackingJobStore.listPending()).toEqual([]);
+  });
+
+  it('supports a custom job store', async () => {
+    const store = new InMemoryMPLTrackingJobStore();
+    const save = vi.spyOn(store, 'save');
+    adapter.trackingJobStore = store;
+    http.checks = [{ status: 'READY', report: REPORT, report_fields: REPORT_FIELDS }];
+
+    await adapter.batchTrack({ trackingNumbers: ['JJH30HU000012345'], credentials }, ctx);
+
+    expect(save).toHaveBeenCalledWith(expect.objectContaining({ trackingGUID: 'guid-1', status: 'NEW', checks: 0 }));
+  });
+});
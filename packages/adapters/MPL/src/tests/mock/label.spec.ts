@@ -233,6 +233,45 @@ describe('MPLAdapter - Labels (CREATE_LABEL, CREATE_LABELS)', () => {
       expect(result.files).toHaveLength(1); // Single file (same base64)
     });
 
+    it('should request ZPL labels for the canonical labelFormat preference', async () => {
+      httpClient.setResponseMatcher(
+        (url) => url.includes('/v2/mplapi/shipments/label') && url.includes('labelFormat=ZPL'),
+        {
+          status: 200,
+          headers: {},
+          body: [
+            {
+              trackingNumber: 'MPL-001',
+              label: Buffer.from('^XA^FDMPL-001^FS^XZ').toString('base64'),
+              errors: null,
+              warnings: null,
+            },
+          ],
+        }
+      );
+
+      const request: CreateLabelsRequest = {
+        parcelCarrierIds: ['MPL-001'],
+        credentials: {
+          authType: 'apiKey',
+          apiKey: 'test-api-key',
+          apiSecret: 'test-api-secret',
+        },
+        options: {
+          useTestApi: true,
+          labelFormat: 'ZPL',
+          mpl: {
+            accountingCode: 'ACC-00001',
+          },
+        },
+      };
+
+      const result = await adapter.createLabels(request, context);
+
+      expect(result.successCount).toBe(1);
+      expect(result.files?.[0].labelFormat).toBe('ZPL');
+    });
+
     it('should handle missing accountingCode', async () => {
       const request: CreateLabelsRequest = {
         parcelCarrierIds: ['MPL-001'],
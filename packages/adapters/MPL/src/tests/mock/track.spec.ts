@@ -652,6 +652,79 @@ describe('MPL Adapter - Tracking (TRACK capability)', () => {
 
       const result = await adapter.track(request, ctx);
       expect(result.status).toBe('OUT_FOR_DELIVERY');
+      expect(result.subStatus).toBe('WITH_COURIER');
+    });
+
+    it('should flag parcels waiting for pickup with the retention deadline', async () => {
+      const trackingNumber = 'CLPP123456';
+      mockHttp.setResponseMatcher(
+        (url) => url.includes('/nyomkovetes/guest'),
+        {
+          status: 200,
+          headers: {},
+          body: {
+            trackAndTrace: [
+              {
+                c1: trackingNumber,
+                c4: 'Csomagautomatára kézbesítés',
+                c43: '3',
+                c9: 'A küldemény átvehető a csomagautomatában',
+                c11: '20250127',
+                c12: '09:15:00',
+                c60: '20250131',
+              },
+            ],
+          },
+        }
+      );
+
+      const result = await adapter.track({
+        trackingNumber,
+        credentials: { authType: 'apiKey', apiKey: 'test-key', apiSecret: 'test-secret', accountingCode: 'TEST001' },
+      }, ctx);
+
+      expect(result).toMatchObject({
+        status: 'IN_TRANSIT',
+        subStatus: 'READY_FOR_PICKUP',
+        requiresAction: true,
+        isTerminal: false,
+      });
+      expect(result.pickupDeadline).toEqual(new Date('2025-01-31 23:59:59'));
+    });
+
+    it('should map damage and refusal to sub-statuses', async () => {
+      const trackingNumber = 'CLEX123456';
+      mockHttp.setResponseMatcher(
+        (url) => url.includes('/nyomkovetes/guest'),
+        {
+          status: 200,
+          headers: {},
+          body: {
+            trackAndTrace: [
+              { c1: trackingNumber, c43: '3', c9: 'Sérülés miatt visszatartva', c11: '20250127', c12: '10:00:00' },
+            ],
+          },
+        }
+      );
+      const credentials = { authType: 'apiKey' as const, apiKey: 'test-key', apiSecret: 'test-secret', accountingCode: 'TEST001' };
+
+      const damaged = await adapter.track({ trackingNumber, credentials }, ctx);
+      expect(damaged).toMatchObject({ status: 'EXCEPTION', subStatus: 'DAMAGED', isTerminal: false });
+
+      mockHttp.setResponseMatcher(
+        (url) => url.includes('/nyomkovetes/guest'),
+        {
+          status: 200,
+          headers: {},
+          body: {
+            trackAndTrace: [
+              { c1: trackingNumber, c43: '3', c9: 'A címzett az átvételt megtagadta', c11: '20250128', c12: '10:00:00' },
+            ],
+          },
+        }
+      );
+      const refused = await adapter.track({ trackingNumber, credentials }, ctx);
+      expect(refused).toMatchObject({ status: 'RETURNED', subStatus: 'REFUSED', isTerminal: true });
     });
   });
 
@@ -0,0 +1,49 @@
+/**
+ * MPL Adapter - Rates Tests
+ *
+ * getRates is answered from the default (or overridden) tariff table.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Parcel } from '@shopickup/core';
+import { MPLAdapter, MPL_DEFAULT_TARIFF } from '../../index.js';
+
+function makeParcel(method: 'HOME' | 'PICKUP_POINT', weightGrams: number): Parcel {
+  const address = { name: 'Teszt Elek', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id: 'p-1',
+    shipper: { contact: { name: 'Shop' }, address },
+    recipient: {
+      contact: { name: 'Teszt Elek' },
+      delivery: method === 'HOME' ? { method, address } : { method, pickupPoint: { id: 'PP-1' } },
+    },
+    service: 'standard',
+    package: { weightGrams },
+  } as Parcel;
+}
+
+describe('MPLAdapter.getRates', () => {
+  it('quotes standard and express home delivery, cheapest first', async () => {
+    const { rates } = await new MPLAdapter().getRates({ parcels: [makeParcel('HOME', 1500)] }, {});
+
+    expect(rates.map((r) => r.service)).toEqual(['standard', 'express']);
+    expect(rates[0].price).toBe(Math.round(159000 * 1.27));
+    expect(rates[1].metadata).toMatchObject({ carrierServiceCode: 'A_121_CSG' });
+  });
+
+  it('filters by requested services', async () => {
+    const { rates } = await new MPLAdapter().getRates(
+      { parcels: [makeParcel('HOME', 1500)], services: ['express'] },
+      {}
+    );
+    expect(rates.map((r) => r.service)).toEqual(['express']);
+  });
+
+  it('uses an overridden tariff table', async () => {
+    const adapter = new MPLAdapter();
+    adapter.tariffTable = { ...MPL_DEFAULT_TARIFF, vatPercent: 0 };
+
+    const { rates } = await adapter.getRates({ parcels: [makeParcel('PICKUP_POINT', 1000)] }, {});
+    expect(rates[0].price).toBe(119000);
+  });
+});
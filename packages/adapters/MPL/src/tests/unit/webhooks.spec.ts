@@ -0,0 +1,68 @@
+/**
+ * MPL Adapter - Webhook Tests
+ *
+ * Replays recorded push tracking notifications through parseWebhook.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { createSharedSecretVerifier, type AdapterContext } from '@shopickup/core';
+import { MPLAdapter } from '../../index.js';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/webhooks/${name}`, import.meta.url));
+
+const ctx: AdapterContext = {};
+
+describe('MPLAdapter.parseWebhook', () => {
+  it('advertises the WEBHOOKS capability', () => {
+    expect(new MPLAdapter().capabilities).toContain('WEBHOOKS');
+  });
+
+  it('groups pushed records by consignment', async () => {
+    const updates = await new MPLAdapter().parseWebhook(
+      { headers: { 'content-type': 'application/json' }, body: fixture('push-tracking.json') },
+      ctx
+    );
+
+    expect(updates.map((u) => [u.trackingNumber, u.status])).toEqual([
+      ['JJH30HU000012345', 'DELIVERED'],
+      ['JJH30HU000067890', 'RETURNED'],
+    ]);
+    expect(updates[0].events.map((e) => e.status)).toEqual(['DELIVERED', 'OUT_FOR_DELIVERY']);
+    expect(updates[0].events[0]).toMatchObject({
+      description: 'Sikeresen kézbesítve háznál',
+      descriptionLocalLanguage: 'Kézbesítés',
+      location: { facility: 'Budapest 114 Posta' },
+    });
+    // c11 is YYYYMMDD, c12 is HH:MM:SS (local time)
+    expect(updates[0].events[0].timestamp).toEqual(new Date('2024-06-12 13:42:10'));
+  });
+
+  it('accepts a bare array of records', async () => {
+    const [update] = await new MPLAdapter().parseWebhook(
+      { headers: {}, body: fixture('push-tracking-array.json').toString('utf8') },
+      ctx
+    );
+    expect(update).toMatchObject({ trackingNumber: 'JJH30HU000054321', status: 'PENDING' });
+  });
+
+  it('rejects payloads without tracking records', async () => {
+    const adapter = new MPLAdapter();
+    await expect(adapter.parseWebhook({ headers: {}, body: { trackAndTrace: [] } }, ctx))
+      .rejects.toMatchObject({ category: 'Validation' });
+    await expect(adapter.parseWebhook({ headers: {}, body: [{ c9: 'no consignment id' }] }, ctx))
+      .rejects.toMatchObject({ category: 'Validation' });
+  });
+
+  it('runs the configured verifier before parsing', async () => {
+    const adapter = new MPLAdapter();
+    adapter.webhookVerifier = createSharedSecretVerifier({ secret: 'mpl-token', header: 'x-mpl-token' });
+    const body = fixture('push-tracking.json');
+
+    await expect(adapter.parseWebhook({ headers: { 'x-mpl-token': 'mpl-token' }, body }, ctx))
+      .resolves.toHaveLength(2);
+    await expect(adapter.parseWebhook({ headers: {}, body }, ctx))
+      .rejects.toMatchObject({ category: 'Auth' });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Pull-500 tracking job persistence
+ *
+ * A Pull-500 batch is answered asynchronously: MPL returns a trackingGUID that
+ * must be polled for minutes before the report is ready. Persisting the GUID
+ * together with its tracking numbers lets a restarted process pick the job up
+ * again instead of submitting the batch twice.
+ *
+ * Credentials are never persisted; the caller supplies them when resuming.
+ */
+
+import type { Pull500Status } from '../validation.js';
+
+/**
+ * A submitted Pull-500 batch
+ */
+export interface MPLTrackingJob {
+  /** GUID returned by the Pull-500 start call */
+  trackingGUID: string;
+
+  /** Tracking numbers submitted with the batch, in request order */
+  trackingNumbers: string[];
+
+  /** Report language requested at start */
+  language?: string;
+
+  /** Whether the batch was submitted to the sandbox API */
+  useTestApi?: boolean;
+
+  /** Last status reported by MPL */
+  status: Pull500Status;
+
+  /** Number of check calls made so far */
+  checks: number;
+
+  createdAt: Date;
+
+  lastCheckedAt?: Date;
+}
+
+/**
+ * Pluggable store for Pull-500 jobs
+ * Implement this over your database to survive restarts; the adapter defaults
+ * to InMemoryMPLTrackingJobStore
+ */
+export interface MPLTrackingJobStore {
+  save(job: MPLTrackingJob): Promise<void>;
+  get(trackingGUID: string): Promise<MPLTrackingJob | null>;
+
+  /** Jobs not yet completed (status NEW or INPROGRESS) */
+  listPending(): Promise<MPLTrackingJob[]>;
+
+  delete(trackingGUID: string): Promise<void>;
+}
+
+/**
+ * In-memory job store (development and tests; does not survive restarts)
+ */
+export class InMemoryMPLTrackingJobStore implements MPLTrackingJobStore {
+  private jobs = new Map<string, MPLTrackingJob>();
+
+  async save(job: MPLTrackingJob): Promise<void> {
+    this.jobs.set(job.trackingGUID, { ...job, trackingNumbers: [...job.trackingNumbers] });
+  }
+
+  async get(trackingGUID: string): Promise<MPLTrackingJob | null> {
+    const job = this.jobs.get(trackingGUID);
+    return job ? { ...job, trackingNumbers: [...job.trackingNumbers] } : null;
+  }
+
+  async listPending(): Promise<MPLTrackingJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) => job.status === 'NEW' || job.status === 'INPROGRESS')
+      .map((job) => ({ ...job, trackingNumbers: [...job.trackingNumbers] }));
+  }
+
+  async delete(trackingGUID: string): Promise<void> {
+    this.jobs.delete(trackingGUID);
+  }
+}
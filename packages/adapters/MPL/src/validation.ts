@@ -703,6 +703,8 @@ export const CreateLabelsMPLOptionsSchema = z.object({
      useTestApi: z.boolean(),
      // canonical cross-cutting size field (maps to MPL labelType)
      size: LabelTypeSchema.optional(),
+     // canonical format preference (LabelRequestOptions.labelFormat)
+     labelFormat: LabelFormatSchema.optional(),
      mpl: CreateLabelsMPLCarrierOptionsSchema,
 }).catchall(z.unknown());
 export type CreateLabelsMPLOptions = z.infer<typeof CreateLabelsMPLOptionsSchema>;
@@ -13,7 +13,7 @@ import type {
   BatchTrackingResponse,
   BatchTrackingResult,
 } from "@shopickup/core";
-import { CarrierError, errorToLog, serializeForLog } from "@shopickup/core";
+import { CarrierError, errorToLog, serializeForLog, summarizeTrackingEvents } from "@shopickup/core";
 import { mapFoxpostTraceToCanonical } from '../mappers/index.js';
 import { translateFoxpostError, sanitizeResponseForLog } from '../errors.js';
 import { buildFoxpostHeaders } from '../utils/httpUtils.js';
@@ -141,6 +141,7 @@ export async function batchTrack(
           trackingNumber: barcode,
           events,
           status: latestEvent.status,
+          ...summarizeTrackingEvents(events, latestEvent.status),
           lastUpdate: latestEvent.timestamp,
           rawCarrierResponse: item,
         },
@@ -0,0 +1,89 @@
+/**
+ * Foxpost Adapter: Rates Capability
+ * Handles RATES operation
+ *
+ * Foxpost has no rates endpoint; quotes come from a local tariff table
+ * (size class based, APM vs home delivery) via the core tariff engine.
+ */
+
+import type {
+  AdapterContext,
+  RatesRequest,
+  RatesResponse,
+  TariffTable,
+} from "@shopickup/core";
+import { CarrierError, parseTariffTable, quoteFromTariff } from "@shopickup/core";
+import { determineFoxpostSize } from '../mappers/index.js';
+
+/**
+ * Default Foxpost tariff (net HUF list prices in fillér, 27% VAT)
+ *
+ * Indicative public prices only: override `FoxpostAdapter.tariffTable` with
+ * your contracted price list.
+ */
+export const FOXPOST_DEFAULT_TARIFF: TariffTable = parseTariffTable({
+  carrier: "hu-foxpost",
+  currency: "HUF",
+  fuelSurchargePercent: 0,
+  vatPercent: 27,
+  services: [
+    {
+      service: "standard",
+      delivery: "PICKUP_POINT",
+      carrierServiceCode: "APM",
+      estimatedDays: 2,
+      sizeClasses: [
+        { size: "xs", maxWeightGrams: 5000, price: 89900 },
+        { size: "s", maxWeightGrams: 15000, price: 99900 },
+        { size: "m", maxWeightGrams: 25000, price: 119900 },
+        { size: "l", maxWeightGrams: 25000, price: 139900 },
+        { size: "xl", maxWeightGrams: 25000, price: 169900 },
+      ],
+      codSurcharge: { fixed: 29000 },
+    },
+    {
+      service: "standard",
+      delivery: "HOME",
+      carrierServiceCode: "HD",
+      estimatedDays: 1,
+      sizeClasses: [
+        { size: "xs", maxWeightGrams: 5000, price: 179900 },
+        { size: "s", maxWeightGrams: 15000, price: 189900 },
+        { size: "m", maxWeightGrams: 25000, price: 209900 },
+        { size: "l", maxWeightGrams: 25000, price: 229900 },
+        { size: "xl", maxWeightGrams: 25000, price: 249900 },
+      ],
+      codSurcharge: { fixed: 29000 },
+    },
+  ],
+});
+
+/**
+ * Quote Foxpost rates from a tariff table
+ *
+ * Size classes are resolved with the same rules used when creating parcels
+ * (determineFoxpostSize), so the quoted size matches the submitted one.
+ *
+ * @param req RatesRequest with parcels to quote
+ * @param ctx Adapter context (used for logging)
+ * @param table Tariff table to quote from
+ * @returns RatesResponse with one rate per serviceable delivery type
+ */
+export async function getRates(
+  req: RatesRequest,
+  ctx: AdapterContext,
+  table: TariffTable,
+): Promise<RatesResponse> {
+  if (!Array.isArray(req?.parcels) || req.parcels.length === 0) {
+    throw new CarrierError("Invalid request: at least one parcel is required", "Validation");
+  }
+
+  const response = quoteFromTariff(table, req, { resolveSize: determineFoxpostSize });
+
+  ctx.logger?.debug("Foxpost: Quoted rates from tariff", {
+    parcelCount: req.parcels.length,
+    rateCount: response.rates.length,
+  });
+
+  return response;
+}
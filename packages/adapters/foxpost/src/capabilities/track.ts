@@ -8,7 +8,7 @@ import type {
   TrackingRequest,
   TrackingUpdate,
 } from "@shopickup/core";
-import { CarrierError, serializeForLog, errorToLog } from "@shopickup/core";
+import { CarrierError, serializeForLog, errorToLog, summarizeTrackingEvents } from "@shopickup/core";
 import {
   mapFoxpostTraceToCanonical,
 } from '../mappers/index.js';
@@ -133,6 +133,7 @@ export async function track(
       trackingNumber,
       events,
       status: currentStatus,
+      ...summarizeTrackingEvents(events, currentStatus),
       lastUpdate: events.length > 0 ? events[events.length - 1].timestamp : null,
       estimatedDelivery: validatedResponse.estimatedDelivery ?? null,
       relatedTrackingNumber: validatedResponse.relatedParcel ?? null,
@@ -11,6 +11,8 @@ import type {
   CreateParcelsRequest,
   TrackingRequest,
   RatesRequest,
+  RatesResponse,
+  TariffTable,
   CreateParcelsResponse,
   CreateLabelRequest,
   CreateLabelResponse,
@@ -20,6 +22,8 @@ import type {
   TrackingUpdate,
   FetchPickupPointsRequest,
   FetchPickupPointsResponse,
+  PickupRequest,
+  PickupResponse,
   DeleteParcelRequest,
   DeleteParcelResult,
   CreateReturnRequest,
@@ -39,6 +43,8 @@ import {
   createReturn as createReturnImpl,
   createReturns as createReturnsImpl,
   batchTrack as batchTrackImpl,
+  getRates as getRatesImpl,
+  FOXPOST_DEFAULT_TARIFF,
 } from './capabilities/index.js';
 import { createResolveBaseUrl, type ResolveBaseUrl } from './utils/resolveBaseUrl.js';
 import type {
@@ -62,6 +68,7 @@ import type {
  * - CREATE_PARCELS: Batch create multiple parcels
  * - CREATE_LABEL: Generate PDF labels for parcels
  * - TRACK: Track parcels by barcode
+ * - RATES: Quote prices from a local tariff table (no Foxpost API call)
  * - TEST_MODE_SUPPORTED: Can switch to test API for sandbox testing
  * 
  * Test API:
@@ -91,6 +98,7 @@ export class FoxpostAdapter implements CarrierAdapter {
     Capabilities.CREATE_RETURN,
     Capabilities.CREATE_RETURNS,
     Capabilities.BATCH_TRACK,
+    Capabilities.RATES,
   ];
 
   // Foxpost doesn't require close before label
@@ -98,6 +106,20 @@ export class FoxpostAdapter implements CarrierAdapter {
     createLabel: [Capabilities.CREATE_PARCEL],
   };
 
+  // Foxpost parcels are capped at 25 kg (largest APM size tiers)
+  readonly limits = {
+    maxWeightGrams: 25000,
+    acceptsCod: true,
+    pickupPointProviders: ["foxpost"],
+  };
+
+  /**
+   * Tariff table used by getRates
+   * Defaults to indicative list prices; replace with your contracted prices
+   * (e.g., `adapter.tariffTable = parseTariffTable(json)`)
+   */
+  tariffTable: TariffTable = FOXPOST_DEFAULT_TARIFF;
+
   private prodBaseUrl = "https://webapi.foxpost.hu";
   private testBaseUrl = "https://webapi-test.foxpost.hu";
   private resolveBaseUrl: ResolveBaseUrl;
@@ -311,20 +333,21 @@ export class FoxpostAdapter implements CarrierAdapter {
    * NOT IMPLEMENTED: Foxpost doesn't support pickup requests
    */
   async requestPickup(
-    _req: any,
+    _req: PickupRequest,
     _ctx: AdapterContext
-  ): Promise<CarrierResource> {
+  ): Promise<PickupResponse> {
     throw new NotImplementedError("PICKUP", this.id);
   }
 
   /**
-   * NOT IMPLEMENTED: Foxpost doesn't expose rate quotes
+   * Quote rates from the adapter's tariff table
+   * Foxpost doesn't expose rate quotes, so no API call is made
    */
   async getRates(
-    _req: RatesRequest,
-    _ctx: AdapterContext
-  ): Promise<any> {
-    throw new NotImplementedError("RATES", this.id);
+    req: RatesRequest,
+    ctx: AdapterContext
+  ): Promise<RatesResponse> {
+    return getRatesImpl(req, ctx, this.tariffTable);
   }
 }
 
@@ -341,3 +364,6 @@ export {
   type FoxpostTrace,
   type FoxpostTrackDTO,
 } from './validation.js';
+
+// Default tariff table, e.g. as a base for contracted price overrides
+export { FOXPOST_DEFAULT_TARIFF } from './capabilities/rates.js';
@@ -4,6 +4,7 @@
  */
 
 import type { Parcel, TrackingEvent, Delivery } from "@shopickup/core";
+import { trackingFlags } from "@shopickup/core";
 import type {
   CreateParcelRequest as FoxpostParcelRequest,
   TrackDTO as FoxpostTrackDTO,
@@ -291,9 +292,12 @@ export function mapFoxpostStatusToCanonical(
 export function mapFoxpostTrackToCanonical(
   track: FoxpostTrackDTO
 ): TrackingEvent {
+  const mapping = mapFoxpostStatusCode(track.status || "PENDING");
   return {
     timestamp: new Date(track.statusDate || new Date()),
-    status: mapFoxpostStatusToCanonical(track.status || "PENDING"),
+    status: mapping.canonical,
+    ...(mapping.subStatus ? { subStatus: mapping.subStatus } : {}),
+    ...trackingFlags(mapping.canonical, mapping.subStatus),
     carrierStatusCode: track.status || undefined,
     description: track.longName || track.status || "Unknown status",
     location: track.location ? { facility: track.location } : undefined,
@@ -308,7 +312,8 @@ export function mapFoxpostTrackToCanonical(
  * Normalizes the Foxpost status code to a canonical TrackingStatus while preserving
  * the original carrier-specific code in `carrierStatusCode`.
  * 
- * Includes both English and Hungarian human-readable descriptions from the status map.
+ * Includes both English and Hungarian human-readable descriptions from the status map,
+ * plus the sub-status and isTerminal / requiresAction flags.
  * 
  * Accepts both string and Date types for statusDate to support both raw API responses
  * and validated Zod-parsed responses (which transform to Date).
@@ -338,7 +343,9 @@ export function mapFoxpostTraceToCanonical(
 
   return {
     timestamp: statusDate || new Date(),
-    status: mapFoxpostStatusToCanonical(statusCode),
+    status: statusMapping.canonical,
+    ...(statusMapping.subStatus ? { subStatus: statusMapping.subStatus } : {}),
+    ...trackingFlags(statusMapping.canonical, statusMapping.subStatus),
     carrierStatusCode: statusCode || undefined,
     location: stationId ? { facility: stationId } : undefined,
     description: humanDescription,
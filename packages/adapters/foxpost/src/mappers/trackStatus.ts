@@ -3,7 +3,8 @@
  * 
  * Comprehensive mapping of Foxpost status codes to:
  * 1. Canonical tracking status (for normalized processing)
- * 2. Human-readable descriptions in English and Hungarian
+ * 2. Sub-status (e.g. READY_FOR_PICKUP for OPERIN) where the code says more
+ * 3. Human-readable descriptions in English and Hungarian
  * 
  * The canonical status is used for generic processing, filtering, and integrator logic,
  * while the human descriptions provide detailed information about the shipment state.
@@ -11,11 +12,13 @@
  * Source: Foxpost OpenAPI tracking documentation and operational codes
  */
 
-import type { TrackingStatus } from "@shopickup/core";
+import type { TrackingStatus, TrackingSubStatus } from "@shopickup/core";
 
 export interface FoxpostStatusMapping {
   /** Canonical status across all carriers */
   canonical: TrackingStatus;
+  /** Finer-grained status, where the code says more than the canonical status */
+  subStatus?: TrackingSubStatus;
   /** Human-readable description in English */
   human_en?: string;
   /** Human-readable description in Hungarian */
@@ -37,12 +40,14 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Locker/APM Operations ===
   CREATE: {
     canonical: "PENDING",
+    subStatus: "INFO_RECEIVED",
     human_en: "Order created",
     human_hu: "Rendelés létrehozva",
     type: "locker",
   },
   OPERIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "READY_FOR_PICKUP",
     human_en: "Arrived at locker",
     human_hu: "Automatában megérkezett",
     type: "locker",
@@ -55,6 +60,7 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   },
   RECEIVE: {
     canonical: "DELIVERED",
+    subStatus: "DELIVERED_TO_PICKUP_POINT",
     human_en: "Delivered to recipient",
     human_hu: "Átvéve",
     type: "locker",
@@ -63,24 +69,28 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Return Operations ===
   RETURN: {
     canonical: "RETURNED",
+    subStatus: "RETURNING_TO_SENDER",
     human_en: "Returned to sender",
     human_hu: "Visszaküldésre került",
     type: "facility",
   },
   REDIRECT: {
     canonical: "IN_TRANSIT",
+    subStatus: "REDIRECTED",
     human_en: "Redirected to new destination",
     human_hu: "Átirányítva új célhelyre",
     type: "facility",
   },
   BACKTOSENDER: {
     canonical: "RETURNED",
+    subStatus: "RETURNING_TO_SENDER",
     human_en: "Returned to sender",
     human_hu: "Szállító felé visszaküldve",
     type: "facility",
   },
   RESENT: {
     canonical: "IN_TRANSIT",
+    subStatus: "REDIRECTED",
     human_en: "Resent to new destination",
     human_hu: "Újra küldve új célhelyre",
     type: "facility",
@@ -89,36 +99,42 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Facility Sorting Operations ===
   SORTIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "Arrived at sorting facility",
     human_hu: "Rendezőközpontba megérkezett",
     type: "facility",
   },
   SORTOUT: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "Left sorting facility",
     human_hu: "Rendezőközpontból elküldve",
     type: "facility",
   },
   MPSIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "Arrived at parcel hub",
     human_hu: "Csomagközpontba megérkezett",
     type: "facility",
   },
   C2CIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "PICKED_UP",
     human_en: "Arrived at customer collection point",
     human_hu: "Ügyfél felvevőpontba megérkezett",
     type: "facility",
   },
   C2BIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "PICKED_UP",
     human_en: "Arrived at business collection point",
     human_hu: "Üzleti felvevőpontba megérkezett",
     type: "facility",
   },
   INWAREHOUSE: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "In warehouse",
     human_hu: "Raktárban van",
     type: "facility",
@@ -127,48 +143,56 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Home Delivery Operations ===
   HDSENT: {
     canonical: "OUT_FOR_DELIVERY",
+    subStatus: "WITH_COURIER",
     human_en: "Home delivery sent",
     human_hu: "Házhozszállítás küldve",
     type: "courier",
   },
   HDINTRANSIT: {
     canonical: "OUT_FOR_DELIVERY",
+    subStatus: "WITH_COURIER",
     human_en: "Out for home delivery",
     human_hu: "Házhoz szállítás alatt",
     type: "courier",
   },
   HDDEPO: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "At home delivery depot",
     human_hu: "Kiszállítási depoban",
     type: "facility",
   },
   HDCOURIER: {
     canonical: "OUT_FOR_DELIVERY",
+    subStatus: "WITH_COURIER",
     human_en: "With courier for delivery",
     human_hu: "Futárnál szállításra",
     type: "courier",
   },
   HDHUBIN: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "Arrived at delivery hub",
     human_hu: "Szállítási csomópontra megérkezett",
     type: "facility",
   },
   HDHUBOUT: {
     canonical: "OUT_FOR_DELIVERY",
+    subStatus: "WITH_COURIER",
     human_en: "Left delivery hub",
     human_hu: "Szállítási csomópontból elküldve",
     type: "facility",
   },
   HDRECEIVE: {
     canonical: "DELIVERED",
+    subStatus: "DELIVERED_TO_RECIPIENT",
     human_en: "Delivered by home delivery",
     human_hu: "Házhoz szállítva",
     type: "courier",
   },
   HDRETURN: {
     canonical: "RETURNED",
+    subStatus: "RETURNING_TO_SENDER",
     human_en: "Returned from home delivery",
     human_hu: "Házhoz szállítás visszatérült",
     type: "courier",
@@ -177,42 +201,49 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Exception States ===
   OVERTIMEOUT: {
     canonical: "EXCEPTION",
+    subStatus: "PICKUP_EXPIRED",
     human_en: "Overtime out (delivery exceeded time limit)",
     human_hu: "Túlóra lejárt",
     type: "technical",
   },
   OVERTIMED: {
     canonical: "EXCEPTION",
+    subStatus: "DELAYED",
     human_en: "Overtime (delivery delayed)",
     human_hu: "Túlóra (késedelem)",
     type: "technical",
   },
   HDUNDELIVERABLE: {
     canonical: "EXCEPTION",
+    subStatus: "DELIVERY_ATTEMPT_FAILED",
     human_en: "Undeliverable (home delivery failed)",
     human_hu: "Nem szállítható (házhoz szállítás sikertelen)",
     type: "courier",
   },
   MISSORT: {
     canonical: "EXCEPTION",
+    subStatus: "DELAYED",
     human_en: "Missorted - rerouted",
     human_hu: "Hibásan rendezett - átirányított",
     type: "technical",
   },
   EMPTYSLOT: {
     canonical: "EXCEPTION",
+    subStatus: "DELAYED",
     human_en: "No locker slot available",
     human_hu: "Nincs szabad automatahely",
     type: "locker",
   },
   BACKLOGINFULL: {
     canonical: "EXCEPTION",
+    subStatus: "DELAYED",
     human_en: "Backlog - facility at capacity",
     human_hu: "Feldolgozási várakozási sor teljes",
     type: "facility",
   },
   BACKLOGINFAIL: {
     canonical: "EXCEPTION",
+    subStatus: "DELAYED",
     human_en: "Backlog failed - retry needed",
     human_hu: "Feldolgozási sor sikertelen",
     type: "technical",
@@ -241,12 +272,14 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   },
   WBXREDIRECT: {
     canonical: "IN_TRANSIT",
+    subStatus: "REDIRECTED",
     human_en: "Redirected via WBX",
     human_hu: "WBX-en keresztül átirányított",
     type: "facility",
   },
   PREREDIRECT: {
     canonical: "IN_TRANSIT",
+    subStatus: "REDIRECTED",
     human_en: "Pre-redirect (staged for redirection)",
     human_hu: "Előátirányítás (átirányításra előkészítve)",
     type: "technical",
@@ -263,6 +296,7 @@ export const FOXPOST_STATUS_MAP: Record<string, FoxpostStatusMapping> = {
   // === Preparation/Technical ===
   PREPAREDFORPD: {
     canonical: "IN_TRANSIT",
+    subStatus: "AT_HUB",
     human_en: "Prepared for home delivery",
     human_hu: "Házhoz szállításra előkészítve",
     type: "technical",
@@ -379,6 +379,7 @@ describe("FoxpostAdapter Integration", () => {
       expect(adapter.capabilities).toContain("CREATE_PARCELS");
       expect(adapter.capabilities).toContain("TRACK");
       expect(adapter.capabilities).toContain("CREATE_LABEL");
+      expect(adapter.capabilities).toContain("RATES");
     });
 
     it("does not declare unsupported capabilities", () => {
@@ -386,7 +387,6 @@ describe("FoxpostAdapter Integration", () => {
       expect(adapter.capabilities).not.toContain("CLOSE_SHIPMENT");
       expect(adapter.capabilities).not.toContain("VOID_LABEL");
       expect(adapter.capabilities).not.toContain("PICKUP");
-      expect(adapter.capabilities).not.toContain("RATES");
     });
 
     it("declares createLabel requires CREATE_PARCEL", () => {
@@ -126,6 +126,23 @@ describe('FoxpostAdapter track', () => {
     expect(result.status).toBe('DELIVERED');
   });
 
+  it('fills sub-statuses and terminal flags', async () => {
+    const req: TrackingRequest = {
+      trackingNumber: 'CLFOX0000000001',
+      credentials: { apiKey: 'test-key', basicUsername: 'user', basicPassword: 'pass' },
+    };
+    const result = await adapter.track!(req, ctx);
+
+    expect(result.events.map((e) => e.subStatus)).toEqual([
+      'INFO_RECEIVED',
+      'WITH_COURIER',
+      'WITH_COURIER',
+      'DELIVERED_TO_PICKUP_POINT',
+    ]);
+    expect(result.events[0]).toMatchObject({ isTerminal: false, requiresAction: false });
+    expect(result).toMatchObject({ subStatus: 'DELIVERED_TO_PICKUP_POINT', isTerminal: true, requiresAction: false });
+  });
+
   it('includes raw carrier response', async () => {
     const req: TrackingRequest = {
       trackingNumber: 'CLFOX0000000001',
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for rates capability (tariff-table based)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTariffTable, type Parcel } from '@shopickup/core';
+import { FoxpostAdapter } from '../../index.js';
+
+function makeParcel(method: 'HOME' | 'PICKUP_POINT', pkg: Parcel['package'], cod = false): Parcel {
+  const address = { name: 'Teszt Elek', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id: 'p-1',
+    shipper: { contact: { name: 'Shop' }, address },
+    recipient: {
+      contact: { name: 'Teszt Elek' },
+      delivery: method === 'HOME' ? { method, address } : { method, pickupPoint: { id: 'hu5844' } },
+    },
+    service: 'standard',
+    package: pkg,
+    ...(cod ? { cod: { amount: { amount: 1000000, currency: 'HUF' } } } : {}),
+  } as Parcel;
+}
+
+describe('FoxpostAdapter.getRates', () => {
+  it('quotes APM parcels by Foxpost size class', async () => {
+    const adapter = new FoxpostAdapter();
+    const parcel = makeParcel('PICKUP_POINT', { weightGrams: 2000, dimensionsCm: { length: 30, width: 20, height: 5 } });
+
+    const { rates } = await adapter.getRates({ parcels: [parcel] }, {});
+
+    expect(rates).toHaveLength(1);
+    expect(rates[0]).toMatchObject({ carrier: 'hu-foxpost', service: 'standard', currency: 'HUF' });
+    expect((rates[0].metadata as any).parcels[0].size).toBe('s');
+    // 999 Ft net + 27% VAT
+    expect(rates[0].price).toBe(126873);
+  });
+
+  it('adds the COD fee for home delivery', async () => {
+    const adapter = new FoxpostAdapter();
+    const { rates } = await adapter.getRates({ parcels: [makeParcel('HOME', { weightGrams: 1000 }, true)] }, {});
+    expect((rates[0].metadata as any).parcels[0]).toMatchObject({ size: 's', codSurcharge: 29000 });
+  });
+
+  it('uses an overridden tariff table', async () => {
+    const adapter = new FoxpostAdapter();
+    adapter.tariffTable = parseTariffTable({
+      carrier: 'hu-foxpost',
+      currency: 'HUF',
+      services: [{ service: 'standard', sizeClasses: [{ size: 's', price: 50000 }] }],
+    });
+
+    const { rates } = await adapter.getRates({ parcels: [makeParcel('HOME', { weightGrams: 1000 })] }, {});
+    expect(rates.map((r) => r.price)).toEqual([50000]);
+  });
+
+  it('rejects empty requests', async () => {
+    await expect(new FoxpostAdapter().getRates({ parcels: [] }, {})).rejects.toThrow(/at least one parcel/);
+  });
+});
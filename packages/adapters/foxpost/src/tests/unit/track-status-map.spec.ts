@@ -94,6 +94,26 @@ describe('Foxpost Status Mapping', () => {
 
   // === getFoxpostStatusDescription Tests ===
 
+  describe('mapFoxpostStatusCode - sub-statuses', () => {
+    it('should mark OPERIN as ready for pickup in the locker', () => {
+      expect(mapFoxpostStatusCode('OPERIN')).toMatchObject({ canonical: 'IN_TRANSIT', subStatus: 'READY_FOR_PICKUP' });
+    });
+
+    it('should tell failed home delivery and expired pickup apart', () => {
+      expect(mapFoxpostStatusCode('HDUNDELIVERABLE').subStatus).toBe('DELIVERY_ATTEMPT_FAILED');
+      expect(mapFoxpostStatusCode('OVERTIMEOUT').subStatus).toBe('PICKUP_EXPIRED');
+    });
+
+    it('should tell locker pickup and home delivery apart', () => {
+      expect(mapFoxpostStatusCode('RECEIVE').subStatus).toBe('DELIVERED_TO_PICKUP_POINT');
+      expect(mapFoxpostStatusCode('HDRECEIVE').subStatus).toBe('DELIVERED_TO_RECIPIENT');
+    });
+
+    it('should leave unknown codes without a sub-status', () => {
+      expect(mapFoxpostStatusCode('FOOBAR').subStatus).toBeUndefined();
+    });
+  });
+
   describe('getFoxpostStatusDescription', () => {
     it('should return English description by default', () => {
       const desc = getFoxpostStatusDescription('OPERIN');
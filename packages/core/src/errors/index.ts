@@ -87,3 +87,43 @@ export class ValidationError extends Error {
     this.name = "ValidationError";
   }
 }
+
+/**
+ * IdempotencyConflictError
+ * Thrown when an idempotency key is reused with a different request payload
+ */
+export class IdempotencyConflictError extends ValidationError {
+  constructor(
+    readonly carrierId: string,
+    readonly key: string,
+    details?: Record<string, unknown>
+  ) {
+    super(
+      `Idempotency key '${key}' was already used for carrier '${carrierId}' with a different payload`,
+      { carrierId, key, ...details }
+    );
+    Object.setPrototypeOf(this, IdempotencyConflictError.prototype);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+/**
+ * ParcelTransitionError
+ * Thrown when a lifecycle event would move a parcel to a status it cannot reach
+ * from its current one (e.g. labelling a cancelled parcel)
+ */
+export class ParcelTransitionError extends ValidationError {
+  constructor(
+    readonly parcelId: string,
+    readonly from: string,
+    readonly to: string,
+    readonly event: string
+  ) {
+    super(
+      `Parcel '${parcelId}' cannot go from '${from}' to '${to}' (${event})`,
+      { parcelId, from, to, event }
+    );
+    Object.setPrototypeOf(this, ParcelTransitionError.prototype);
+    this.name = "ParcelTransitionError";
+  }
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus, type DeadLetter } from '../event-bus.js';
+import { OutboxRelay } from '../outbox-relay.js';
+import { ValidationError } from '../../errors/index.js';
+import { InMemoryStore } from '../../stores/in-memory.js';
+import type { DomainEvent, Store } from '../../interfaces/index.js';
+
+const sleep = vi.fn(async () => {});
+
+function makeBus(maxAttempts = 3) {
+  return new EventBus({ delivery: { maxAttempts, baseDelayMs: 100 }, sleep, now: () => new Date('2026-01-10T08:00:00Z') });
+}
+
+const labelEvent: DomainEvent = { id: 'e1', type: 'LABEL_GENERATED', internalId: 'p-1', carrierId: 'hu-gls' };
+
+describe('EventBus', () => {
+  it('delivers events to subscribers whose types match', async () => {
+    const bus = makeBus();
+    const all = vi.fn();
+    const labels = vi.fn();
+    const tracking = vi.fn();
+    bus.subscribe('all', all);
+    bus.subscribe('labels', labels, { types: ['LABEL_GENERATED'] });
+    bus.subscribe('tracking', tracking, { types: ['TRACKING_UPDATED'] });
+
+    const result = await bus.publish(labelEvent);
+
+    expect(result).toEqual({ delivered: ['all', 'labels'], deadLettered: [] });
+    expect(all).toHaveBeenCalledWith(labelEvent);
+    expect(labels).toHaveBeenCalledWith(labelEvent);
+    expect(tracking).not.toHaveBeenCalled();
+  });
+
+  it('rejects duplicate subscriber names and unsubscribes', async () => {
+    const bus = makeBus();
+    const handler = vi.fn();
+    const unsubscribe = bus.subscribe('erp', handler);
+
+    expect(() => bus.subscribe('erp', vi.fn())).toThrow(ValidationError);
+
+    unsubscribe();
+    await bus.publish(labelEvent);
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.list()).toEqual([]);
+  });
+
+  it('retries failing deliveries with backoff without holding up other subscribers', async () => {
+    sleep.mockClear();
+    const bus = makeBus(4);
+    const flaky = vi.fn()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue(undefined);
+    const healthy = vi.fn();
+    bus.subscribe('flaky', flaky);
+    bus.subscribe('healthy', healthy);
+
+    const result = await bus.publish(labelEvent);
+
+    expect(flaky).toHaveBeenCalledTimes(3);
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(result.delivered.sort()).toEqual(['flaky', 'healthy']);
+    expect(bus.deadLetters()).toEqual([]);
+  });
+
+  it('dead-letters deliveries that run out of attempts and redelivers them', async () => {
+    const bus = makeBus(2);
+    const handler = vi.fn().mockRejectedValue(new Error('ERP down'));
+    bus.subscribe('erp', handler);
+
+    const result = await bus.publish(labelEvent);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(result.delivered).toEqual([]);
+    expect(bus.deadLetters()).toEqual([
+      { subscriber: 'erp', event: labelEvent, attempts: 2, error: new Error('ERP down'), failedAt: new Date('2026-01-10T08:00:00Z') },
+    ]);
+
+    handler.mockResolvedValue(undefined);
+    const retried = await bus.redeliver();
+
+    expect(retried).toEqual({ delivered: ['erp'], deadLettered: [] });
+    expect(bus.deadLetters()).toEqual([]);
+  });
+});
+
+describe('OutboxRelay', () => {
+  const at = (minute: number) => new Date(Date.UTC(2026, 0, 10, 8, minute));
+
+  it('publishes events appended after its position, once', async () => {
+    const store = new InMemoryStore();
+    const bus = makeBus();
+    const seen: string[] = [];
+    bus.subscribe('audit', (event) => {
+      seen.push(event.id!);
+    });
+    await store.appendEvent('p-1', { id: 'old', type: 'PARCEL_CREATED', internalId: 'p-1', timestamp: at(0) });
+    const relay = new OutboxRelay({ store, bus, from: at(1), batchSize: 2 });
+
+    await store.appendEvent('p-1', { id: 'e1', type: 'PARCEL_CREATED', internalId: 'p-1', timestamp: at(1) });
+    await store.appendEvent('p-2', { id: 'e2', type: 'PARCEL_CREATED', internalId: 'p-2', timestamp: at(1) });
+    await store.appendEvent('p-1', { id: 'e3', type: 'LABEL_GENERATED', internalId: 'p-1', timestamp: at(2) });
+
+    expect(await relay.drain()).toEqual({ published: 3, deadLettered: [] });
+    expect(await relay.drain()).toEqual({ published: 0, deadLettered: [] });
+
+    await store.appendEvent('p-2', { id: 'e4', type: 'LABEL_GENERATED', internalId: 'p-2', timestamp: at(2) });
+    await relay.drain();
+
+    expect(seen).toEqual(['e1', 'e2', 'e3', 'e4']);
+    expect(relay.position).toEqual({ seq: 5 });
+  });
+
+  it('publishes events appended with an earlier timestamp than the last one', async () => {
+    const store = new InMemoryStore();
+    const bus = makeBus();
+    const handler = vi.fn();
+    bus.subscribe('audit', handler);
+    const relay = new OutboxRelay({ store, bus, from: at(0) });
+
+    await store.appendEvent('p-1', { id: 'e1', type: 'PARCEL_CREATED', internalId: 'p-1', timestamp: at(5) });
+    await relay.drain();
+    // e.g. a second writer whose clock is behind
+    await store.appendEvent('p-2', { id: 'e2', type: 'PARCEL_CREATED', internalId: 'p-2', timestamp: at(3) });
+    await relay.drain();
+
+    expect(handler.mock.calls.map(([event]) => event.id)).toEqual(['e1', 'e2']);
+  });
+
+  it('requires a store that can read the event log', () => {
+    const store: Store = Object.assign(new InMemoryStore(), { readEventLog: undefined });
+    expect(() => new OutboxRelay({ store, bus: makeBus() })).toThrow(TypeError);
+  });
+
+  it('resumes from a checkpoint after a restart', async () => {
+    const store = new InMemoryStore();
+    const checkpoints: unknown[] = [];
+    const first = makeBus();
+    first.subscribe('audit', vi.fn());
+    await store.appendEvent('p-1', { id: 'e1', type: 'PARCEL_CREATED', internalId: 'p-1', timestamp: at(1) });
+    await new OutboxRelay({ store, bus: first, from: at(0), onCheckpoint: (p) => { checkpoints.push(p); } }).drain();
+
+    await store.appendEvent('p-1', { id: 'e2', type: 'LABEL_GENERATED', internalId: 'p-1', timestamp: at(1) });
+    const second = makeBus();
+    const handler = vi.fn();
+    second.subscribe('audit', handler);
+    await new OutboxRelay({ store, bus: second, position: checkpoints[0] as any }).drain();
+
+    expect(checkpoints).toEqual([{ seq: 1 }]);
+    expect(handler.mock.calls.map(([event]) => event.id)).toEqual(['e2']);
+  });
+
+  it('keeps delivering to other subscribers while one is being retried', async () => {
+    const store = new InMemoryStore();
+    let release!: () => void;
+    const bus = new EventBus({ delivery: { maxAttempts: 2 }, sleep: () => new Promise<void>((resolve) => { release = resolve; }) });
+    const erp = vi.fn().mockRejectedValueOnce(new Error('ERP down')).mockResolvedValue(undefined);
+    const audit = vi.fn();
+    bus.subscribe('erp', erp);
+    bus.subscribe('audit', audit);
+    const relay = new OutboxRelay({ store, bus, from: at(0) });
+
+    await store.appendEvent('p-1', { id: 'e1', type: 'PARCEL_CREATED', internalId: 'p-1', timestamp: at(1) });
+    await relay.poll();
+    await store.appendEvent('p-1', { id: 'e2', type: 'LABEL_GENERATED', internalId: 'p-1', timestamp: at(2) });
+    await relay.poll();
+    await vi.waitFor(() => expect(audit).toHaveBeenCalledTimes(2));
+
+    // e1 is still being retried for the ERP, so neither event is settled
+    expect(erp).toHaveBeenCalledTimes(1);
+    expect(relay.position).toEqual({ seq: 0 });
+
+    release();
+    await relay.drain();
+
+    expect(erp.mock.calls.map(([event]) => event.id)).toEqual(['e1', 'e1', 'e2']);
+    expect(relay.position).toEqual({ seq: 2 });
+  });
+
+  it('moves past dead-lettered events once the dead letter is persisted', async () => {
+    const store = new InMemoryStore();
+    const persisted: DeadLetter[] = [];
+    const onDeadLetter = vi.fn(async (letter: DeadLetter) => {
+      persisted.push(letter);
+    });
+    const bus = new EventBus({ delivery: { maxAttempts: 1 }, onDeadLetter });
+    bus.subscribe('erp', () => {
+      throw new Error('ERP down');
+    });
+    const relay = new OutboxRelay({ store, bus, from: at(0) });
+    await store.appendEvent('p-1', { id: 'e1', type: 'LABEL_GENERATED', internalId: 'p-1', timestamp: at(1) });
+
+    const result = await relay.drain();
+
+    expect(result.published).toBe(1);
+    expect(result.deadLettered.map((d) => d.event.id)).toEqual(['e1']);
+    expect(persisted).toEqual(result.deadLettered);
+    expect(relay.position).toEqual({ seq: 1 });
+
+    // A new process restores the persisted dead letters and can retry them
+    const restarted = new EventBus({ deadLetters: persisted });
+    const erp = vi.fn();
+    restarted.subscribe('erp', erp);
+    expect(await restarted.redeliver()).toEqual({ delivered: ['erp'], deadLettered: [] });
+    expect(erp).toHaveBeenCalledWith(expect.objectContaining({ id: 'e1' }));
+  });
+
+  it('publishes an event again when its dead letter cannot be persisted', async () => {
+    const store = new InMemoryStore();
+    const onDeadLetter = vi.fn()
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockResolvedValue(undefined);
+    const bus = new EventBus({ delivery: { maxAttempts: 1 }, onDeadLetter });
+    const erp = vi.fn().mockRejectedValue(new Error('ERP down'));
+    bus.subscribe('erp', erp);
+    const relay = new OutboxRelay({ store, bus, from: at(0) });
+    await store.appendEvent('p-1', { id: 'e1', type: 'LABEL_GENERATED', internalId: 'p-1', timestamp: at(1) });
+
+    await expect(relay.drain()).rejects.toThrow('disk full');
+    expect(relay.position).toEqual({ seq: 0 });
+
+    const result = await relay.drain();
+
+    expect(result.deadLettered.map((d) => d.event.id)).toEqual(['e1']);
+    expect(erp).toHaveBeenCalledTimes(2);
+    expect(relay.position).toEqual({ seq: 1 });
+  });
+});
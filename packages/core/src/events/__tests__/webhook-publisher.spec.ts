@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createWebhookPublisher } from '../webhook-publisher.js';
+import { createHmacVerifier } from '../../webhooks/index.js';
+import type { DomainEvent, HttpClient } from '../../interfaces/index.js';
+
+const event: DomainEvent = {
+  id: 'e1',
+  type: 'TRACKING_UPDATED',
+  internalId: 'p-1',
+  carrierId: 'hu-foxpost',
+  timestamp: new Date('2026-01-10T08:00:00Z'),
+  details: { trackingNumber: 'CLFOX0000000001', status: 'DELIVERED' },
+};
+
+function makeHttp(status = 200) {
+  const post = vi.fn(async () => ({ status, headers: {}, body: undefined }));
+  return { http: { post } as unknown as HttpClient, post };
+}
+
+describe('createWebhookPublisher', () => {
+  it('posts the event as signed JSON that createHmacVerifier accepts', async () => {
+    const { http, post } = makeHttp();
+    const publish = createWebhookPublisher({
+      url: 'https://notify.example.com/hook',
+      http,
+      secret: 's3cret',
+      headers: { 'x-api-key': 'k' },
+    });
+
+    await publish(event);
+
+    const [url, body, config] = post.mock.calls[0] as unknown as [string, string, { headers: Record<string, string> }];
+    expect(url).toBe('https://notify.example.com/hook');
+    expect(JSON.parse(body)).toEqual({ ...event, timestamp: '2026-01-10T08:00:00.000Z' });
+    expect(config.headers).toMatchObject({
+      'content-type': 'application/json',
+      'x-api-key': 'k',
+      'x-shopickup-event': 'TRACKING_UPDATED',
+      'x-shopickup-event-id': 'e1',
+    });
+
+    const verifier = createHmacVerifier({ secret: 's3cret', header: 'x-shopickup-signature', prefix: 'sha256=' });
+    expect(() => verifier.verify({ headers: config.headers, body })).not.toThrow();
+  });
+
+  it('omits the signature without a secret and throws on non-2xx responses', async () => {
+    const { http, post } = makeHttp(500);
+    const publish = createWebhookPublisher({ url: 'https://notify.example.com/hook', http });
+
+    await expect(publish(event)).rejects.toThrow('responded with HTTP 500');
+    const config = (post.mock.calls[0] as unknown[])[2] as { headers: Record<string, string> };
+    expect(config.headers['x-shopickup-signature']).toBeUndefined();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Event bus
+ * Hands domain events to in-process subscribers, with retries and a
+ * dead-letter list for deliveries that keep failing
+ */
+
+import { ValidationError } from '../errors/index.js';
+import type { DomainEvent, Logger } from '../interfaces/index.js';
+
+export type DomainEventType = DomainEvent['type'];
+
+/**
+ * Receives published events
+ * Throwing (or rejecting) marks the delivery as failed; it is retried
+ */
+export type EventHandler = (event: DomainEvent) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  /** Event types delivered to the handler (default: all) */
+  types?: DomainEventType[];
+}
+
+/**
+ * Retry policy for a single delivery to a single subscriber
+ */
+export interface EventDeliveryPolicy {
+  /** Total attempts including the first one (1 = no retries) */
+  maxAttempts: number;
+
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number;
+
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+}
+
+export interface EventBusOptions {
+  /** Overrides for the delivery policy (default: 5 attempts, 500ms doubling to 30s) */
+  delivery?: Partial<EventDeliveryPolicy>;
+
+  /**
+   * Called with each dead letter before it is added to deadLetters(), e.g. to
+   * persist it. When it throws, publish() rejects and OutboxRelay publishes
+   * the event again.
+   */
+  onDeadLetter?: (letter: DeadLetter) => void | Promise<void>;
+
+  /** Dead letters persisted by an earlier process, so redeliver() can retry them */
+  deadLetters?: DeadLetter[];
+
+  logger?: Logger;
+
+  /** Injected for tests */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => Date;
+}
+
+/**
+ * A delivery that failed on every attempt
+ */
+export interface DeadLetter {
+  /** Name the subscriber was registered under */
+  subscriber: string;
+  event: DomainEvent;
+  attempts: number;
+  error: Error;
+  failedAt: Date;
+}
+
+export interface PublishResult {
+  /** Subscribers that received the event */
+  delivered: string[];
+
+  /** Deliveries that ran out of attempts (also kept in deadLetters()) */
+  deadLettered: DeadLetter[];
+}
+
+interface Subscription {
+  handler: EventHandler;
+  types?: DomainEventType[];
+
+  /** Tail of the subscriber's delivery queue */
+  queue: Promise<unknown>;
+}
+
+const DEFAULT_DELIVERY: EventDeliveryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * EventBus
+ * In-process publish/subscribe for DomainEvents
+ *
+ * Each event goes to every subscriber whose `types` match, in parallel. Each
+ * subscriber receives its events one at a time, in publish order. A failing
+ * subscriber is retried with exponential backoff and, once out of attempts,
+ * the delivery is moved to the dead-letter list; other subscribers are not
+ * affected. publish() only rejects when onDeadLetter does. Handlers may see
+ * an event more than once (retries, relay restarts), so they should be
+ * idempotent on `event.id`.
+ *
+ * Usage:
+ * ```typescript
+ * const bus = new EventBus();
+ * bus.subscribe('erp', async (event) => erp.pushLabel(event), { types: ['LABEL_GENERATED'] });
+ *
+ * new OutboxRelay({ store, bus }).start(5_000);
+ * ```
+ */
+export class EventBus {
+  private readonly subscribers = new Map<string, Subscription>();
+  private readonly dead: DeadLetter[];
+  private readonly policy: EventDeliveryPolicy;
+
+  constructor(private readonly options: EventBusOptions = {}) {
+    this.policy = { ...DEFAULT_DELIVERY, ...options.delivery };
+    this.dead = [...(options.deadLetters ?? [])];
+  }
+
+  /**
+   * Register a handler under a unique name
+   * @returns A function that removes the subscription
+   * @throws ValidationError when the name is already taken
+   */
+  subscribe(name: string, handler: EventHandler, options: SubscribeOptions = {}): () => void {
+    if (this.subscribers.has(name)) {
+      throw new ValidationError(`Subscriber '${name}' is already registered`, { subscriber: name });
+    }
+    const subscription: Subscription = { handler, types: options.types, queue: Promise.resolve() };
+    this.subscribers.set(name, subscription);
+    return () => {
+      if (this.subscribers.get(name) === subscription) {
+        this.subscribers.delete(name);
+      }
+    };
+  }
+
+  /**
+   * Names of the registered subscribers
+   */
+  list(): string[] {
+    return [...this.subscribers.keys()];
+  }
+
+  /**
+   * Deliver an event to every matching subscriber
+   * Resolves once each delivery has succeeded or been dead-lettered
+   */
+  async publish(event: DomainEvent): Promise<PublishResult> {
+    const targets = [...this.subscribers].filter(([, sub]) => !sub.types || sub.types.includes(event.type));
+    return this.deliverAll(targets.map(([name, subscription]) => ({ name, subscription, event })));
+  }
+
+  /**
+   * Deliveries that ran out of attempts, oldest first
+   */
+  deadLetters(): DeadLetter[] {
+    return [...this.dead];
+  }
+
+  /**
+   * Retry dead-lettered deliveries whose subscriber is still registered
+   * Deliveries that fail again go back on the list (and to onDeadLetter).
+   *
+   * @param filter Selects the dead letters to retry (default: all)
+   */
+  async redeliver(filter: (letter: DeadLetter) => boolean = () => true): Promise<PublishResult> {
+    const selected = this.dead.filter((letter) => this.subscribers.has(letter.subscriber) && filter(letter));
+    for (const letter of selected) {
+      this.dead.splice(this.dead.indexOf(letter), 1);
+    }
+    return this.deliverAll(
+      selected.map((letter) => ({
+        name: letter.subscriber,
+        subscription: this.subscribers.get(letter.subscriber)!,
+        event: letter.event,
+      }))
+    );
+  }
+
+  private async deliverAll(
+    deliveries: Array<{ name: string; subscription: Subscription; event: DomainEvent }>
+  ): Promise<PublishResult> {
+    const result: PublishResult = { delivered: [], deadLettered: [] };
+    await Promise.all(
+      deliveries.map(async ({ name, subscription, event }) => {
+        const letter = await this.enqueue(subscription, () => this.deliver(name, subscription.handler, event));
+        if (letter) {
+          await this.options.onDeadLetter?.(letter);
+          this.dead.push(letter);
+          result.deadLettered.push(letter);
+        } else {
+          result.delivered.push(name);
+        }
+      })
+    );
+    return result;
+  }
+
+  // Deliveries to one subscriber run one at a time, in the order they were queued
+  private enqueue<T>(subscription: Subscription, run: () => Promise<T>): Promise<T> {
+    const next = subscription.queue.then(run);
+    subscription.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Returns the dead letter when every attempt failed
+  private async deliver(name: string, handler: EventHandler, event: DomainEvent): Promise<DeadLetter | undefined> {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.policy;
+    const sleep = this.options.sleep ?? defaultSleep;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await handler(event);
+        return undefined;
+      } catch (error) {
+        const err = toError(error);
+        if (attempt >= maxAttempts) {
+          this.options.logger?.error('EventBus: delivery dead-lettered', {
+            subscriber: name,
+            eventId: event.id,
+            eventType: event.type,
+            attempts: attempt,
+            error: err.message,
+          });
+          return { subscriber: name, event, attempts: attempt, error: err, failedAt: this.options.now?.() ?? new Date() };
+        }
+        this.options.logger?.warn('EventBus: delivery failed, retrying', {
+          subscriber: name,
+          eventId: event.id,
+          attempt,
+          error: err.message,
+        });
+        await sleep(Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs));
+      }
+    }
+  }
+}
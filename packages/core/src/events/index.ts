@@ -0,0 +1,19 @@
+export { EventBus } from './event-bus.js';
+export type {
+  DomainEventType,
+  EventHandler,
+  SubscribeOptions,
+  EventDeliveryPolicy,
+  EventBusOptions,
+  DeadLetter,
+  PublishResult,
+} from './event-bus.js';
+export { OutboxRelay } from './outbox-relay.js';
+export type { OutboxPosition, OutboxRelayOptions, OutboxDrainResult } from './outbox-relay.js';
+export {
+  createWebhookPublisher,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_EVENT_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhook-publisher.js';
+export type { WebhookPublisherOptions } from './webhook-publisher.js';
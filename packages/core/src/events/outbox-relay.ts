@@ -0,0 +1,293 @@
+/**
+ * Outbox relay
+ * Publishes the events appended to a Store, so the store's event log doubles
+ * as the outbox
+ */
+
+import type { DomainEvent, Logger, Store } from '../interfaces/index.js';
+import type { DeadLetter, EventBus, PublishResult } from './event-bus.js';
+
+/**
+ * How far the relay has published the event log
+ * Save it from onCheckpoint and pass it back after a restart.
+ */
+export interface OutboxPosition {
+  /** Log sequence number up to which every event has been delivered or dead-lettered */
+  seq: number;
+}
+
+export interface OutboxRelayOptions {
+  store: Store;
+  bus: EventBus;
+
+  /** Position saved by an earlier relay; takes precedence over `from` */
+  position?: OutboxPosition;
+
+  /**
+   * Without a saved position, events timestamped before this are skipped on
+   * the first read of the log (default: when the relay is created)
+   */
+  from?: Date;
+
+  /** Events read from the store per page (default: 100) */
+  batchSize?: number;
+
+  /** Events handed to the bus but not yet settled before the relay stops reading (default: 1000) */
+  maxInFlight?: number;
+
+  /** Called when the position moves, e.g. to persist it */
+  onCheckpoint?: (position: OutboxPosition) => void | Promise<void>;
+
+  logger?: Logger;
+}
+
+export interface OutboxDrainResult {
+  /** Events handed to the bus */
+  published: number;
+
+  /** Deliveries that were dead-lettered while draining */
+  deadLettered: DeadLetter[];
+}
+
+// An event read from the log whose deliveries have not all settled yet
+interface PendingEvent {
+  seq: number;
+  settled: boolean;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * OutboxRelay
+ * Reads new events from `store.readEventLog` and publishes them on an EventBus
+ *
+ * The log is read by store-assigned sequence number, so events appended with
+ * an earlier timestamp (a second writer, a clock step) are not skipped.
+ * Delivery is at-least-once: the position only moves past an event after the
+ * bus has delivered it to every subscriber or dead-lettered it (persist dead
+ * letters with the bus's onDeadLetter), and a relay restarted from an older
+ * checkpoint publishes the events after it again.
+ *
+ * Events are handed to the bus without waiting for earlier ones to settle, so
+ * a subscriber that is being retried only holds up its own deliveries; the
+ * relay stops reading once maxInFlight events are unsettled.
+ *
+ * Usage:
+ * ```typescript
+ * const relay = new OutboxRelay({
+ *   store,
+ *   bus,
+ *   position: await loadCheckpoint(),
+ *   onCheckpoint: saveCheckpoint,
+ * });
+ * relay.start(5_000);
+ * ```
+ */
+export class OutboxRelay {
+  // Position: every event up to here has settled
+  private committed: number;
+  // Last sequence number handed to the bus
+  private readSeq: number;
+  private from?: Date;
+  private pending: PendingEvent[] = [];
+  private deliveries = new Set<Promise<PublishResult>>();
+  // Bumped when publishing fails, so deliveries started before are ignored
+  private generation = 0;
+  private checkpointing: Promise<void> = Promise.resolve();
+  private checkpointQueued = false;
+  private polling?: Promise<number>;
+  private draining?: Promise<OutboxDrainResult>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  /**
+   * @throws TypeError when the store does not implement readEventLog
+   */
+  constructor(private readonly opts: OutboxRelayOptions) {
+    if (typeof opts.store.readEventLog !== 'function') {
+      throw new TypeError('OutboxRelay requires a Store implementing readEventLog');
+    }
+    this.committed = opts.position?.seq ?? 0;
+    this.readSeq = this.committed;
+    this.from = opts.position ? undefined : (opts.from ?? new Date());
+  }
+
+  /**
+   * Current position in the event log
+   */
+  get position(): OutboxPosition {
+    return { seq: this.committed };
+  }
+
+  /**
+   * Hand the events appended since the last read to the bus, without waiting
+   * for their deliveries
+   * Concurrent calls share the read in progress.
+   *
+   * @returns Number of events handed to the bus
+   */
+  poll(): Promise<number> {
+    this.polling ??= this.pollOnce().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  /**
+   * Publish every event appended since the last drain and wait until all
+   * deliveries have settled
+   * Concurrent calls share the drain in progress.
+   */
+  drain(): Promise<OutboxDrainResult> {
+    this.draining ??= this.drainOnce().finally(() => {
+      this.draining = undefined;
+    });
+    return this.draining;
+  }
+
+  /**
+   * Poll every intervalMs until stop() is called
+   * The next poll is scheduled after the previous one finishes
+   */
+  start(intervalMs: number): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.opts.logger?.error('OutboxRelay: poll failed', { error: toError(error).message });
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async drainOnce(): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { published: 0, deadLettered: [] };
+    for (;;) {
+      result.published += await this.poll();
+      if (this.deliveries.size === 0) {
+        break;
+      }
+      for (const published of await Promise.all(this.deliveries)) {
+        result.deadLettered.push(...published.deadLettered);
+      }
+    }
+    await this.checkpointing;
+    return result;
+  }
+
+  private async pollOnce(): Promise<number> {
+    const { store, batchSize = 100, maxInFlight = 1000 } = this.opts;
+    let published = 0;
+
+    while (this.pending.length < maxInFlight) {
+      const generation = this.generation;
+      const limit = Math.min(batchSize, maxInFlight - this.pending.length);
+      const entries = await store.readEventLog!(this.readSeq, limit);
+      if (generation !== this.generation) {
+        // Publishing failed while reading; read again from the position
+        continue;
+      }
+
+      for (const { seq, event } of entries) {
+        const pending: PendingEvent = { seq, settled: false };
+        this.pending.push(pending);
+        this.readSeq = seq;
+        if (this.from && event.timestamp && event.timestamp < this.from) {
+          pending.settled = true;
+        } else {
+          this.publish(pending, event);
+          published++;
+        }
+      }
+      this.advance();
+
+      if (entries.length < limit) {
+        this.from = undefined;
+        break;
+      }
+    }
+    return published;
+  }
+
+  private publish(pending: PendingEvent, event: DomainEvent): void {
+    const generation = this.generation;
+    const delivery: Promise<PublishResult> = this.opts.bus.publish(event).then(
+      (result) => {
+        this.deliveries.delete(delivery);
+        if (generation === this.generation) {
+          pending.settled = true;
+          this.advance();
+        }
+        return result;
+      },
+      (error) => {
+        this.deliveries.delete(delivery);
+        if (generation === this.generation) {
+          this.rewind(error);
+        }
+        throw error;
+      }
+    );
+    this.deliveries.add(delivery);
+    // drain() reports the failure; start() relies on the rewind alone
+    delivery.catch(() => undefined);
+  }
+
+  // Move the position past the settled events at the head of the queue
+  private advance(): void {
+    let moved = false;
+    while (this.pending[0]?.settled) {
+      this.committed = this.pending.shift()!.seq;
+      moved = true;
+    }
+    if (moved) {
+      this.scheduleCheckpoint();
+    }
+  }
+
+  // Forget the unsettled events and read them again from the position
+  private rewind(error: unknown): void {
+    this.opts.logger?.error('OutboxRelay: publish failed, reading again from the last position', {
+      seq: this.committed,
+      error: toError(error).message,
+    });
+    this.generation++;
+    this.pending = [];
+    this.readSeq = this.committed;
+  }
+
+  // Checkpoints run one at a time; positions reached meanwhile are coalesced
+  private scheduleCheckpoint(): void {
+    const { onCheckpoint, logger } = this.opts;
+    if (!onCheckpoint || this.checkpointQueued) {
+      return;
+    }
+    this.checkpointQueued = true;
+    this.checkpointing = this.checkpointing
+      .then(() => {
+        this.checkpointQueued = false;
+        return onCheckpoint(this.position);
+      })
+      .catch((error) => {
+        logger?.error('OutboxRelay: checkpoint failed', { error: toError(error).message });
+      });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Webhook publisher
+ * EventBus subscriber that POSTs each event to an HTTP endpoint
+ */
+
+import { createHmac } from 'node:crypto';
+import type { HttpClient } from '../interfaces/index.js';
+import type { EventHandler } from './event-bus.js';
+
+/** Header carrying the event type */
+export const WEBHOOK_EVENT_HEADER = 'x-shopickup-event';
+
+/** Header carrying the event ID, for deduplicating redeliveries */
+export const WEBHOOK_EVENT_ID_HEADER = 'x-shopickup-event-id';
+
+/** Header carrying `sha256=<hex HMAC of the body>` when a secret is set */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-shopickup-signature';
+
+export interface WebhookPublisherOptions {
+  /** Endpoint the events are POSTed to */
+  url: string;
+
+  http: HttpClient;
+
+  /** Signing secret shared with the receiver */
+  secret?: string;
+
+  /** Extra request headers (e.g., an API key) */
+  headers?: Record<string, string>;
+
+  /** Request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Create an event handler that delivers events to a webhook
+ *
+ * The body is the event as JSON (dates as ISO strings). Non-2xx responses
+ * and network errors throw, so the EventBus retries and eventually
+ * dead-letters the delivery. Receivers can check the signature with
+ * `createHmacVerifier({ secret, header: 'x-shopickup-signature', prefix: 'sha256=' })`.
+ *
+ * Usage:
+ * ```typescript
+ * bus.subscribe('notifications', createWebhookPublisher({
+ *   url: 'https://notify.example.com/shopickup',
+ *   http: createFetchHttpClient(),
+ *   secret: process.env.SHOPICKUP_WEBHOOK_SECRET,
+ * }), { types: ['TRACKING_UPDATED'] });
+ * ```
+ */
+export function createWebhookPublisher(opts: WebhookPublisherOptions): EventHandler {
+  return async (event) => {
+    const body = JSON.stringify(event);
+    const headers: Record<string, string> = {
+      ...opts.headers,
+      'content-type': 'application/json',
+      [WEBHOOK_EVENT_HEADER]: event.type,
+      ...(event.id ? { [WEBHOOK_EVENT_ID_HEADER]: event.id } : {}),
+    };
+    if (opts.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${createHmac('sha256', opts.secret).update(body).digest('hex')}`;
+    }
+
+    const res = await opts.http.post(opts.url, body, { headers, timeout: opts.timeoutMs ?? 10_000 });
+    // Clients normally throw on non-2xx; custom ones may not
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`Webhook ${opts.url} responded with HTTP ${res.status}`);
+    }
+  };
+}
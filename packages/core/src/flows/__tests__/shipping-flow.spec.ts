@@ -0,0 +1,436 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeShippingFlow, planShippingFlow } from '../shipping-flow.js';
+import { executeCreateLabelFlow } from '../create-label.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import { CarrierError, ParcelTransitionError } from '../../errors/index.js';
+import { ParcelLifecycle } from '../../lifecycle/index.js';
+import { InMemoryStore } from '../../stores/in-memory.js';
+import type { CarrierAdapter, AdapterContext, Store } from '../../interfaces/index.js';
+import type { Parcel } from '../../types/index.js';
+
+const ctx: AdapterContext = {};
+
+function makeParcel(id: string): Parcel {
+  const contact = { name: 'Test Sender' };
+  const address = { name: 'Test', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id,
+    shipper: { contact, address },
+    recipient: { contact, delivery: { method: 'HOME', address } },
+    service: 'standard',
+    package: { weightGrams: 1000 },
+  } as Parcel;
+}
+
+function batchSummary<T>(results: T[], failed = 0) {
+  return {
+    results,
+    successCount: results.length - failed,
+    failureCount: failed,
+    totalCount: results.length,
+    allSucceeded: failed === 0,
+    allFailed: failed === results.length,
+    someFailed: failed > 0 && failed < results.length,
+    summary: `${results.length - failed} of ${results.length} succeeded`,
+  };
+}
+
+function makeMplLikeAdapter(overrides: Partial<CarrierAdapter> = {}): CarrierAdapter {
+  return {
+    id: 'hu-mpl',
+    capabilities: [
+      Capabilities.CREATE_PARCEL,
+      Capabilities.CREATE_PARCELS,
+      Capabilities.CLOSE_SHIPMENT,
+      Capabilities.CREATE_LABEL,
+      Capabilities.TRACK,
+    ],
+    requires: { createLabel: [Capabilities.CREATE_PARCEL, Capabilities.CLOSE_SHIPMENT] },
+    createParcel: vi.fn(),
+    createParcels: vi.fn(async (req) =>
+      batchSummary(req.parcels.map((p) => ({ carrierId: `MPL-${p.id}`, status: 'created' })))
+    ),
+    closeShipments: vi.fn(async (req) => batchSummary((req.trackingNumbers ?? []).map(() => ({ manifestId: 'M1' })))),
+    createLabel: vi.fn(),
+    createLabels: vi.fn(async (req) => ({
+      ...batchSummary(
+        req.parcelCarrierIds.map((id, idx) => ({
+          inputId: id,
+          status: 'created' as const,
+          fileId: 'file-1',
+          pageRange: { start: idx + 1, end: idx + 1 },
+        }))
+      ),
+      files: [{ id: 'file-1', contentType: 'application/pdf', byteLength: 10, pages: 2, orientation: 'portrait' as const }],
+    })),
+    track: vi.fn(async (req) => ({
+      trackingNumber: req.trackingNumber,
+      events: [],
+      status: 'PENDING' as const,
+      lastUpdate: null,
+    })),
+    ...overrides,
+  };
+}
+
+describe('planShippingFlow', () => {
+  it('inserts the close step required by the adapter before labels', () => {
+    const plan = planShippingFlow(makeMplLikeAdapter());
+    expect(plan).toEqual([
+      { step: 'createParcels', dependsOn: [] },
+      { step: 'closeShipments', dependsOn: ['createParcels'] },
+      { step: 'createLabels', dependsOn: ['createParcels', 'closeShipments'] },
+    ]);
+  });
+
+  it('omits the close step when nothing requires it and adds tracking on request', () => {
+    const adapter: CarrierAdapter = {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.CREATE_PARCEL, Capabilities.CREATE_LABEL, Capabilities.CLOSE_SHIPMENT],
+    };
+    expect(planShippingFlow(adapter, { track: true }).map((s) => s.step)).toEqual([
+      'createParcels',
+      'createLabels',
+      'track',
+    ]);
+  });
+});
+
+describe('executeShippingFlow', () => {
+  it('runs batch parcels, close and labels in dependency order', async () => {
+    const adapter = makeMplLikeAdapter();
+    const store = new InMemoryStore();
+    const parcels = [makeParcel('p-1'), makeParcel('p-2')];
+
+    const result = await executeShippingFlow({ adapter, parcels, credentials: {}, context: ctx, store });
+
+    expect(result.steps.map((s) => [s.step, s.status, s.operation])).toEqual([
+      ['createParcels', 'completed', 'createParcels'],
+      ['closeShipments', 'completed', 'closeShipments'],
+      ['createLabels', 'completed', 'createLabels'],
+    ]);
+    expect(adapter.createParcel).not.toHaveBeenCalled();
+    expect(adapter.closeShipments).toHaveBeenCalledWith(
+      expect.objectContaining({ trackingNumbers: ['MPL-p-1', 'MPL-p-2'] }),
+      ctx
+    );
+    expect(result.labelResults.map((r) => r.pageRange?.start)).toEqual([1, 2]);
+    expect(result.labelFiles).toHaveLength(1);
+    expect(result.errors).toEqual([]);
+
+    const events = (await store.getEvents('p-1')).map((e) => e.type);
+    expect(events).toEqual(['PARCEL_CREATED', 'SHIPMENT_CLOSED', 'LABEL_GENERATED']);
+    expect((await store.findByCarrierResourceId('hu-mpl', 'MPL-p-2'))?.internalId).toBe('p-2');
+    expect((await store.findByCarrierResourceId('hu-mpl', 'MPL-p-2', 'label'))?.internalId).toBe('p-2');
+  });
+
+  it('works with a store that does not implement the optional lookup methods', async () => {
+    const store: Store = Object.assign(new InMemoryStore(), { indexCarrierResource: undefined, findByCarrierResourceId: undefined });
+
+    const result = await executeShippingFlow({
+      adapter: makeMplLikeAdapter(),
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+      store,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect((await store.getEvents('p-1')).map((e) => e.type)).toEqual(['PARCEL_CREATED', 'SHIPMENT_CLOSED', 'LABEL_GENERATED']);
+  });
+
+  it('falls back to singular methods and drops failed parcels from later steps', async () => {
+    const adapter: CarrierAdapter = {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.CREATE_PARCEL, Capabilities.CREATE_LABEL],
+      createParcel: vi.fn(async (req) => {
+        if (req.parcel.id === 'p-2') {
+          throw new CarrierError('Invalid recipient', 'Validation');
+        }
+        return { carrierId: `CLFOX-${req.parcel.id}`, status: 'created' };
+      }),
+      createLabel: vi.fn(async (req) => ({ inputId: req.parcelCarrierId, status: 'created' as const })),
+    };
+    const store = new InMemoryStore();
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1'), makeParcel('p-2')],
+      credentials: {},
+      context: ctx,
+      store,
+    });
+
+    expect(result.steps.map((s) => [s.step, s.status, s.operation])).toEqual([
+      ['createParcels', 'partial', 'createParcel'],
+      ['createLabels', 'completed', 'createLabel'],
+    ]);
+    expect(adapter.createLabel).toHaveBeenCalledTimes(1);
+    expect(result.parcelResources[1]).toMatchObject({ status: 'failed' });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ step: 'createParcels', parcelId: 'p-2' });
+
+    const [errorEvent] = await store.getEvents('p-2');
+    expect(errorEvent.type).toBe('ERROR_OCCURRED');
+    expect(errorEvent.details).toMatchObject({ step: 'createParcels', errorCategory: 'Validation' });
+  });
+
+  it('skips labels when the required close step fails', async () => {
+    const adapter = makeMplLikeAdapter({
+      closeShipments: vi.fn(async () => {
+        throw new CarrierError('Service unavailable', 'Transient');
+      }),
+    });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+      track: true,
+    });
+
+    expect(result.steps.map((s) => [s.step, s.status])).toEqual([
+      ['createParcels', 'completed'],
+      ['closeShipments', 'failed'],
+      ['createLabels', 'skipped'],
+      ['track', 'skipped'],
+    ]);
+    expect(result.steps[2].reason).toBe("Dependency 'closeShipments' did not complete");
+    expect(result.errors).toEqual([
+      expect.objectContaining({ step: 'closeShipments', parcelId: 'p-1' }),
+    ]);
+    expect(adapter.createLabels).not.toHaveBeenCalled();
+  });
+
+  it('drops only the parcels whose close result carries errors', async () => {
+    const adapter = makeMplLikeAdapter({
+      closeShipments: vi.fn(async () =>
+        batchSummary([{ manifestId: 'M1' }, { errors: [{ code: 'E12', message: 'Already closed' }] }], 1)
+      ),
+    });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1'), makeParcel('p-2')],
+      credentials: {},
+      context: ctx,
+    });
+
+    expect(result.steps[1]).toMatchObject({ step: 'closeShipments', status: 'partial', failedParcelIds: ['p-2'] });
+    expect(result.errors).toEqual([
+      {
+        step: 'closeShipments',
+        parcelId: 'p-2',
+        error: expect.objectContaining({ carrierId: 'MPL-p-2', status: 'failed', errors: [{ code: 'E12', message: 'Already closed' }] }),
+      },
+    ]);
+    expect(adapter.createLabels).toHaveBeenCalledWith(expect.objectContaining({ parcelCarrierIds: ['MPL-p-1'] }), ctx);
+  });
+
+  it('fails every parcel when close results cannot be attributed to parcels', async () => {
+    // One result per manifest, not per parcel
+    const adapter = makeMplLikeAdapter({
+      closeShipments: vi.fn(async () =>
+        batchSummary([{ manifestId: 'M1' }, { errors: [{ message: 'Manifest rejected' }] }], 1)
+      ),
+    });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1'), makeParcel('p-2'), makeParcel('p-3')],
+      credentials: {},
+      context: ctx,
+    });
+
+    expect(result.steps[1]).toMatchObject({ status: 'failed', failedParcelIds: ['p-1', 'p-2', 'p-3'] });
+    expect(result.steps[2].status).toBe('skipped');
+    expect(adapter.createLabels).not.toHaveBeenCalled();
+  });
+
+  it('fails the close step when the adapter requires it but cannot close', async () => {
+    const adapter = makeMplLikeAdapter({ closeShipments: undefined });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+    });
+
+    expect(result.steps[1]).toMatchObject({ step: 'closeShipments', status: 'failed' });
+    expect(result.steps[1].error?.message).toContain('CLOSE_SHIPMENT');
+  });
+
+  it('tracks created parcels when requested', async () => {
+    const adapter = makeMplLikeAdapter();
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+      track: true,
+    });
+
+    expect(result.steps.at(-1)).toMatchObject({ step: 'track', status: 'completed', operation: 'track' });
+    expect(result.trackingUpdates.map((u) => u.trackingNumber)).toEqual(['MPL-p-1']);
+  });
+
+  it('tracks per parcel instead of blocking on asynchronous batch tracking', async () => {
+    const base = makeMplLikeAdapter();
+    const adapter = makeMplLikeAdapter({
+      capabilities: [...base.capabilities, Capabilities.BATCH_TRACK],
+      batchTrack: vi.fn(),
+      startBatchTrack: vi.fn(),
+      collectBatchTrack: vi.fn(),
+    });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+      track: true,
+    });
+
+    expect(result.steps.at(-1)).toMatchObject({ step: 'track', status: 'completed', operation: 'track' });
+    expect(adapter.batchTrack).not.toHaveBeenCalled();
+  });
+
+  it('moves parcel status through the lifecycle and keeps cancelled parcels away from the carrier', async () => {
+    const adapter = makeMplLikeAdapter();
+    const store = new InMemoryStore();
+    const lifecycle = new ParcelLifecycle(store);
+    await store.saveParcel({ ...makeParcel('p-2'), status: 'cancelled' });
+
+    const result = await executeShippingFlow({
+      adapter,
+      parcels: [makeParcel('p-1'), makeParcel('p-2')],
+      credentials: {},
+      context: ctx,
+      store,
+      lifecycle,
+    });
+
+    expect(adapter.createParcels).toHaveBeenCalledWith(
+      expect.objectContaining({ parcels: [expect.objectContaining({ id: 'p-1' })] }),
+      ctx
+    );
+    expect(result.steps[0]).toMatchObject({ step: 'createParcels', status: 'partial', failedParcelIds: ['p-2'] });
+    expect(result.errors).toEqual([expect.objectContaining({ step: 'createParcels', parcelId: 'p-2' })]);
+    expect(result.errors[0].error).toBeInstanceOf(ParcelTransitionError);
+    expect(result.parcelResources.map((r) => r.status)).toEqual(['created', 'failed']);
+
+    expect((await lifecycle.history('p-1')).map((t) => t.to)).toEqual(['created', 'closed', 'label_generated']);
+    expect(await lifecycle.status('p-2')).toBe('cancelled');
+  });
+});
+
+describe('executeCreateLabelFlow', () => {
+  it('honours adapter.requires and rethrows adapter errors after recording them', async () => {
+    const adapter = makeMplLikeAdapter();
+    const result = await executeCreateLabelFlow({
+      adapter,
+      parcels: [makeParcel('p-1')],
+      credentials: {},
+      context: ctx,
+    });
+    expect(adapter.closeShipments).toHaveBeenCalled();
+    expect(result.labelResults).toHaveLength(1);
+
+    const failing = makeMplLikeAdapter({
+      createParcels: vi.fn(async () => {
+        throw new CarrierError('Unauthorized', 'Auth');
+      }),
+    });
+    await expect(
+      executeCreateLabelFlow({ adapter: failing, parcels: [makeParcel('p-1')], credentials: {}, context: ctx })
+    ).rejects.toThrow('Unauthorized');
+  });
+
+  it('stops at the first parcel the adapter throws on, without creating labels', async () => {
+    const store = new InMemoryStore();
+    const adapter: CarrierAdapter = {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.CREATE_PARCEL, Capabilities.CREATE_LABEL],
+      createParcel: vi.fn(async (req) => {
+        if (req.parcel.id === 'p-1') {
+          throw new CarrierError('Unauthorized', 'Auth');
+        }
+        return { carrierId: `CLFOX-${req.parcel.id}`, status: 'created' };
+      }),
+      createLabel: vi.fn(async (req) => ({ inputId: req.parcelCarrierId, status: 'created' as const })),
+    };
+
+    await expect(
+      executeCreateLabelFlow({
+        adapter,
+        parcels: [makeParcel('p-1'), makeParcel('p-2'), makeParcel('p-3')],
+        credentials: {},
+        context: ctx,
+        store,
+      })
+    ).rejects.toThrow('Unauthorized');
+
+    expect(adapter.createParcel).toHaveBeenCalledTimes(1);
+    expect(adapter.createLabel).not.toHaveBeenCalled();
+    expect((await store.getEvents('p-1')).map((e) => e.type)).toEqual(['ERROR_OCCURRED']);
+    expect(await store.getEvents('p-2')).toEqual([]);
+  });
+
+  it('returns failures the flow detects itself instead of throwing them', async () => {
+    const adapter = makeMplLikeAdapter({
+      // Result for the first parcel only
+      createParcels: vi.fn(async () => batchSummary([{ carrierId: 'MPL-p-1', status: 'created' }])),
+      closeShipments: vi.fn(async () => batchSummary([{ errors: [{ message: 'Already closed' }] }], 1)),
+    });
+
+    const result = await executeCreateLabelFlow({
+      adapter,
+      parcels: [makeParcel('p-1'), makeParcel('p-2')],
+      credentials: {},
+      context: ctx,
+    });
+
+    expect(result.parcelResources[1]).toEqual({
+      status: 'failed',
+      errors: [{ message: 'Carrier returned no result for this parcel' }],
+    });
+    expect(result.errors.map((e) => e.step)).toEqual(['createParcels', 'closeShipments']);
+    expect(result.labelResults).toEqual([]);
+  });
+
+  it('returns parcels and labels the carrier reports as failed instead of throwing', async () => {
+    const adapter = makeMplLikeAdapter({
+      createParcels: vi.fn(async () =>
+        batchSummary([{ status: 'failed', errors: [{ message: 'Invalid postal code' }] }], 1)
+      ),
+    });
+
+    const result = await executeCreateLabelFlow({ adapter, parcels: [makeParcel('p-1')], credentials: {}, context: ctx });
+
+    expect(result.parcelResources).toEqual([{ status: 'failed', errors: [{ message: 'Invalid postal code' }] }]);
+    expect(result.errors).toEqual([{ step: 'createParcels', error: result.parcelResources[0] }]);
+    expect(result.labelResults).toEqual([]);
+  });
+
+  it('skips adapters that cannot create parcels', async () => {
+    const adapter = makeMplLikeAdapter({ capabilities: [Capabilities.CREATE_LABEL, Capabilities.TRACK] });
+
+    const result = await executeCreateLabelFlow({ adapter, parcels: [makeParcel('p-1')], credentials: {}, context: ctx });
+
+    expect(result).toEqual({ parcelResources: [], labelResults: [], errors: [] });
+    expect(adapter.createParcels).not.toHaveBeenCalled();
+  });
+
+  it('only creates labels for adapters advertising CREATE_LABEL', async () => {
+    const adapter = makeMplLikeAdapter({ capabilities: [Capabilities.CREATE_PARCELS], requires: {} });
+
+    const result = await executeCreateLabelFlow({ adapter, parcels: [makeParcel('p-1')], credentials: {}, context: ctx });
+
+    expect(result.parcelResources).toHaveLength(1);
+    expect(adapter.createLabels).not.toHaveBeenCalled();
+    expect(result.labelResults).toEqual([]);
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TrackingPoller } from '../tracking-poller.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import { CarrierError } from '../../errors/index.js';
+import { CarrierRegistry } from '../../registry/carrier-registry.js';
+import { InMemoryStore } from '../../stores/in-memory.js';
+import { ParcelLifecycle } from '../../lifecycle/index.js';
+import type { CarrierAdapter, AdapterContext, Store } from '../../interfaces/index.js';
+import type { Parcel, TrackingEvent, TrackingStatus, TrackingUpdate } from '../../types/index.js';
+
+const ctx: AdapterContext = {};
+
+function event(status: TrackingStatus, iso: string, code = status): TrackingEvent {
+  return { timestamp: new Date(iso), status, carrierStatusCode: code, description: code, raw: { code } };
+}
+
+function update(trackingNumber: string, events: TrackingEvent[]): TrackingUpdate {
+  const last = events[events.length - 1];
+  return { trackingNumber, events, status: last?.status ?? 'PENDING', lastUpdate: last?.timestamp ?? null };
+}
+
+function batchResponse(updates: TrackingUpdate[]) {
+  return {
+    results: updates.map((u) => ({ trackingNumber: u.trackingNumber, status: 'found' as const, update: u })),
+    successCount: updates.length,
+    failureCount: 0,
+    totalCount: updates.length,
+    allSucceeded: true,
+    allFailed: false,
+    someFailed: false,
+    summary: 'ok',
+  };
+}
+
+const created = event('PENDING', '2024-06-10T08:00:00Z', 'CREATE');
+const inTransit = event('IN_TRANSIT', '2024-06-11T08:00:00Z', 'HDINTRANSIT');
+const delivered = event('DELIVERED', '2024-06-12T08:00:00Z', 'RECEIVE');
+
+describe('TrackingPoller', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses batchTrack when advertised, in chunks of batchSize', async () => {
+    const batchTrack = vi.fn(async (req: { trackingNumbers: string[] }) =>
+      batchResponse(req.trackingNumbers.map((n) => update(n, [created])))
+    );
+    const track = vi.fn();
+    const adapter = {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.TRACK, Capabilities.BATCH_TRACK],
+      batchTrack,
+      track,
+    } as unknown as CarrierAdapter;
+
+    const poller = new TrackingPoller({
+      carriers: [adapter],
+      store: new InMemoryStore(),
+      context: ctx,
+      credentials: { 'hu-foxpost': { apiKey: 'k' } },
+      batchSize: 2,
+    });
+    poller.add('hu-foxpost', ['A', 'B', 'C']);
+
+    const result = await poller.poll();
+
+    expect(batchTrack).toHaveBeenCalledTimes(2);
+    expect(batchTrack.mock.calls[0][0]).toMatchObject({ trackingNumbers: ['A', 'B'], credentials: { apiKey: 'k' } });
+    expect(batchTrack.mock.calls[1][0]).toMatchObject({ trackingNumbers: ['C'] });
+    expect(track).not.toHaveBeenCalled();
+    expect(result.changes.map((c) => c.trackingNumber)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('polls asynchronous batch tracking through jobs without waiting on them', async () => {
+    let nextJob = 1;
+    const ready = new Set<string>();
+    const jobs: Record<string, string[]> = {};
+    const batchTrack = vi.fn();
+    const startBatchTrack = vi.fn(async (req: { trackingNumbers: string[] }) => {
+      const job = { jobId: `job-${nextJob++}`, trackingNumbers: req.trackingNumbers };
+      jobs[job.jobId] = job.trackingNumbers;
+      return job;
+    });
+    const collectBatchTrack = vi.fn(async (req: { jobId: string }) =>
+      ready.has(req.jobId) ? batchResponse(jobs[req.jobId].map((n) => update(n, [created]))) : null
+    );
+    const adapter = {
+      id: 'hu-mpl',
+      capabilities: [Capabilities.TRACK, Capabilities.BATCH_TRACK],
+      batchTrack,
+      startBatchTrack,
+      collectBatchTrack,
+    } as unknown as CarrierAdapter;
+
+    const poller = new TrackingPoller({ carriers: [adapter], store: new InMemoryStore(), context: ctx });
+    poller.add('hu-mpl', ['A']);
+
+    // first poll only submits the job
+    expect((await poller.poll()).changes).toEqual([]);
+    expect(startBatchTrack).toHaveBeenCalledTimes(1);
+
+    // a new parcel gets its own job while the first one is still pending
+    poller.add('hu-mpl', ['B']);
+    await poller.poll();
+    expect(startBatchTrack.mock.calls.map(([req]) => req.trackingNumbers)).toEqual([['A'], ['B']]);
+
+    ready.add('job-1');
+    const result = await poller.poll();
+
+    expect(result.changes.map((c) => c.trackingNumber)).toEqual(['A']);
+    expect(startBatchTrack.mock.calls.map(([req]) => req.trackingNumbers)).toEqual([['A'], ['B'], ['A']]);
+    expect(batchTrack).not.toHaveBeenCalled();
+  });
+
+  it('falls back to track per parcel without BATCH_TRACK', async () => {
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, [created]));
+    const registry = new CarrierRegistry().register({
+      id: 'hu-gls',
+      capabilities: [Capabilities.TRACK],
+      track,
+    } as unknown as CarrierAdapter);
+
+    const poller = new TrackingPoller({ carriers: registry, store: new InMemoryStore(), context: ctx });
+    poller.add('hu-gls', ['1001', '1002']);
+
+    const result = await poller.poll();
+
+    expect(track).toHaveBeenCalledTimes(2);
+    expect(result.changes).toHaveLength(2);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('emits TRACKING_UPDATED only for events not seen before', async () => {
+    const responses = [[created], [created, inTransit], [created, inTransit]];
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, responses.shift()!));
+    const store = new InMemoryStore();
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store,
+      context: ctx,
+    });
+    poller.add('hu-gls', [{ trackingNumber: '1001', internalId: 'parcel-1' }]);
+
+    const first = await poller.poll();
+    const second = await poller.poll();
+    const third = await poller.poll();
+
+    expect(first.changes[0].newEvents).toEqual([created]);
+    expect(second.changes[0]).toMatchObject({ internalId: 'parcel-1', status: 'IN_TRANSIT', newEvents: [inTransit] });
+    expect(third.changes).toEqual([]);
+
+    const events = await store.getEvents('parcel-1');
+    expect(events.map((e) => e.type)).toEqual(['TRACKING_UPDATED', 'TRACKING_UPDATED']);
+    expect(events[1]).toMatchObject({
+      carrierId: 'hu-gls',
+      details: { trackingNumber: '1001', status: 'IN_TRANSIT' },
+    });
+    // raw carrier payloads are not persisted
+    expect((events[1].details as any).events[0].raw).toBeUndefined();
+  });
+
+  it('moves the stored parcel status with the lifecycle option', async () => {
+    const responses = [[created], [created, inTransit], [created, inTransit, delivered]];
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, responses.shift()!));
+    const store = new InMemoryStore();
+    await store.saveParcel({ id: 'parcel-1', status: 'label_generated' } as Parcel);
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store,
+      context: ctx,
+      lifecycle: new ParcelLifecycle(store),
+    });
+    poller.add('hu-gls', [{ trackingNumber: '1001', internalId: 'parcel-1' }]);
+
+    const first = await poller.poll();
+    const second = await poller.poll();
+    const third = await poller.poll();
+
+    expect(first.changes[0].transition).toBeUndefined();
+    expect(second.changes[0].transition).toMatchObject({ from: 'label_generated', to: 'shipped', carrierId: 'hu-gls' });
+    expect(third.changes[0].transition).toMatchObject({ from: 'shipped', to: 'delivered' });
+    expect((await store.getParcel('parcel-1'))?.status).toBe('delivered');
+  });
+
+  it('records events under the parcel ID the store indexed for the tracking number', async () => {
+    const store = new InMemoryStore();
+    await store.indexCarrierResource({ carrierId: 'hu-gls', carrierResourceId: '1001', internalId: 'parcel-1', resourceType: 'parcel' });
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, [created]));
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store,
+      context: ctx,
+    });
+    poller.add('hu-gls', ['1001', '1002']);
+
+    const { changes } = await poller.poll();
+
+    expect(changes.map((c) => [c.trackingNumber, c.internalId])).toEqual([['1001', 'parcel-1'], ['1002', '1002']]);
+    expect((await store.getEvents('parcel-1')).map((e) => e.type)).toEqual(['TRACKING_UPDATED']);
+  });
+
+  it('records events under the tracking number with a store without a carrier resource index', async () => {
+    const store: Store = Object.assign(new InMemoryStore(), { findByCarrierResourceId: undefined });
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, [created]));
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store,
+      context: ctx,
+    });
+    poller.add('hu-gls', ['1001']);
+
+    const { changes, errors } = await poller.poll();
+
+    expect(errors).toEqual([]);
+    expect(changes.map((c) => c.internalId)).toEqual(['1001']);
+  });
+
+  it('recognises events already recorded in the store, e.g. after a restart', async () => {
+    const store = new InMemoryStore();
+    await store.appendEvent('1001', {
+      type: 'TRACKING_UPDATED',
+      internalId: '1001',
+      details: {
+        trackingNumber: '1001',
+        status: 'PENDING',
+        events: [{ ...created, timestamp: created.timestamp.toISOString() }],
+      },
+    });
+    const track = vi.fn(async () => update('1001', [created, inTransit]));
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store,
+      context: ctx,
+    });
+    poller.add('hu-gls', ['1001']);
+
+    const { changes } = await poller.poll();
+
+    expect(changes[0].newEvents).toEqual([inTransit]);
+  });
+
+  it('stops polling parcels that reach a terminal status', async () => {
+    const track = vi.fn(async (req: { trackingNumber: string }) =>
+      update(req.trackingNumber, req.trackingNumber === 'done' ? [created, delivered] : [created])
+    );
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store: new InMemoryStore(),
+      context: ctx,
+    });
+    poller.add('hu-gls', ['done', 'open']);
+
+    const first = await poller.poll();
+    expect(first.completed).toEqual([{ carrierId: 'hu-gls', trackingNumber: 'done' }]);
+    expect(first.changes.find((c) => c.trackingNumber === 'done')?.terminal).toBe(true);
+    expect(poller.list()).toEqual({ 'hu-gls': [{ trackingNumber: 'open' }] });
+
+    track.mockClear();
+    await poller.poll();
+    expect(track.mock.calls.map(([req]) => req.trackingNumber)).toEqual(['open']);
+  });
+
+  it('reports per-parcel and per-carrier failures without stopping other parcels', async () => {
+    const track = vi.fn(async (req: { trackingNumber: string }) => {
+      if (req.trackingNumber === 'bad') throw new CarrierError('Not found', 'NotFound');
+      return update(req.trackingNumber, [created]);
+    });
+    const poller = new TrackingPoller({
+      carriers: [
+        { id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter,
+        { id: 'no-track', capabilities: [] } as unknown as CarrierAdapter,
+      ],
+      store: new InMemoryStore(),
+      context: ctx,
+    });
+    poller.add('hu-gls', ['bad', 'good']).add('no-track', ['X']).add('unknown', ['Y']);
+
+    const result = await poller.poll();
+
+    expect(result.changes.map((c) => c.trackingNumber)).toEqual(['good']);
+    // carriers are polled in parallel, so errors arrive in completion order
+    const errors = result.errors.map((e) => [e.carrierId, e.trackingNumber, e.error.message]);
+    expect(errors).toHaveLength(3);
+    expect(errors).toEqual(expect.arrayContaining([
+      ['hu-gls', 'bad', 'Not found'],
+      ['no-track', undefined, "Carrier 'no-track' does not support tracking"],
+      ['unknown', undefined, "Unknown carrier 'unknown'"],
+    ]));
+    // failed parcels stay active for the next poll
+    expect(poller.list()['hu-gls']).toHaveLength(2);
+  });
+
+  it('polls on an interval until stopped', async () => {
+    vi.useFakeTimers();
+    const track = vi.fn(async (req: { trackingNumber: string }) => update(req.trackingNumber, [created]));
+    const poller = new TrackingPoller({
+      carriers: [{ id: 'hu-gls', capabilities: [Capabilities.TRACK], track } as unknown as CarrierAdapter],
+      store: new InMemoryStore(),
+      context: ctx,
+    });
+    poller.add('hu-gls', ['1001']);
+
+    poller.start(1000);
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(track).toHaveBeenCalledTimes(2);
+
+    poller.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(track).toHaveBeenCalledTimes(2);
+  });
+});
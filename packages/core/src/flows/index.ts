@@ -1,2 +1,19 @@
 export { executeCreateLabelFlow } from './create-label.js';
 export type { CreateLabelFlowResult } from './create-label.js';
+export { executeShippingFlow, planShippingFlow } from './shipping-flow.js';
+export type {
+  ShippingFlowStep,
+  ShippingFlowPlanStep,
+  ShippingFlowStepResult,
+  ShippingFlowError,
+  ShippingFlowResult,
+  ShippingFlowOptions,
+} from './shipping-flow.js';
+export { TrackingPoller, TERMINAL_TRACKING_STATUSES } from './tracking-poller.js';
+export type {
+  TrackedParcel,
+  TrackingChange,
+  TrackingPollError,
+  TrackingPollResult,
+  TrackingPollerOptions,
+} from './tracking-poller.js';
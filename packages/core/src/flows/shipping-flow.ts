@@ -0,0 +1,711 @@
+import type {
+  CarrierAdapter,
+  AdapterContext,
+  CarrierResource,
+  LabelCarrierResource,
+  Store,
+  Capability,
+  RequestOptions,
+  LabelRequestOptions,
+} from '../interfaces/index.js';
+import type {
+  Parcel,
+  LabelResult,
+  LabelFileResource,
+  CloseShipmentsResponse,
+  TrackingUpdate,
+} from '../types/index.js';
+import { Capabilities } from '../interfaces/capabilities.js';
+import { CarrierError, NotImplementedError } from '../errors/index.js';
+import type { ParcelLifecycle, ParcelLifecycleEvent } from '../lifecycle/index.js';
+
+/**
+ * Steps the shipping flow knows how to run, in their natural order
+ */
+export type ShippingFlowStep = 'createParcels' | 'closeShipments' | 'createLabels' | 'track';
+
+const STEP_ORDER: ShippingFlowStep[] = ['createParcels', 'closeShipments', 'createLabels', 'track'];
+
+/**
+ * Which flow step satisfies a capability listed in `CarrierAdapter.requires`
+ */
+const CAPABILITY_STEPS: Partial<Record<Capability, ShippingFlowStep>> = {
+  [Capabilities.CREATE_PARCEL]: 'createParcels',
+  [Capabilities.CREATE_PARCELS]: 'createParcels',
+  [Capabilities.CLOSE_SHIPMENT]: 'closeShipments',
+  [Capabilities.CREATE_LABEL]: 'createLabels',
+  [Capabilities.TRACK]: 'track',
+  [Capabilities.BATCH_TRACK]: 'track',
+};
+
+/**
+ * A node in the flow's step graph
+ */
+export interface ShippingFlowPlanStep {
+  step: ShippingFlowStep;
+
+  /** Steps that must complete (fully or partially) before this one runs */
+  dependsOn: ShippingFlowStep[];
+}
+
+/**
+ * Outcome of a single flow step
+ */
+export interface ShippingFlowStepResult {
+  step: ShippingFlowStep;
+
+  /**
+   * - 'completed': every eligible parcel went through the step
+   * - 'partial': some parcels failed, the rest continue
+   * - 'failed': the step threw or every parcel failed
+   * - 'skipped': a dependency failed or no parcels were left to process
+   */
+  status: 'completed' | 'partial' | 'failed' | 'skipped';
+
+  /** Adapter method used for the step (e.g. "createParcels" or "createParcel") */
+  operation?: string;
+
+  /** Internal parcel IDs processed by this step */
+  parcelIds: string[];
+
+  /** Internal parcel IDs that failed in this step */
+  failedParcelIds: string[];
+
+  /** Why the step was skipped */
+  reason?: string;
+
+  /** Step-level error (thrown by the adapter or missing implementation) */
+  error?: Error;
+
+  /** Duration in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Error recorded by the flow, attributed to a step and (when known) a parcel
+ */
+export interface ShippingFlowError {
+  step: ShippingFlowStep;
+  parcelId?: string;
+  error: Error | CarrierResource;
+
+  /**
+   * Set when an adapter call threw the error; failures the carrier reported
+   * and errors the flow raised itself (missing results, lifecycle checks)
+   * leave it unset
+   */
+  thrown?: true;
+}
+
+/**
+ * Result of executeShippingFlow
+ */
+export interface ShippingFlowResult {
+  /** Planned steps in execution order */
+  plan: ShippingFlowPlanStep[];
+
+  /** Per-step outcomes in execution order */
+  steps: ShippingFlowStepResult[];
+
+  /** Parcel resources, one per input parcel in the same order */
+  parcelResources: CarrierResource[];
+
+  /** Close responses returned by the carrier */
+  closeResponses: CloseShipmentsResponse[];
+
+  /** Label results for parcels that reached the label step */
+  labelResults: LabelResult[];
+
+  /** Label files referenced by labelResults */
+  labelFiles: LabelFileResource[];
+
+  /** Tracking updates for parcels that reached the track step */
+  trackingUpdates: TrackingUpdate[];
+
+  /** Every error encountered, attributed to its step */
+  errors: ShippingFlowError[];
+}
+
+export interface ShippingFlowOptions {
+  adapter: CarrierAdapter;
+  parcels: Parcel[];
+  credentials: Record<string, unknown>;
+  context: AdapterContext;
+  store?: Store;
+
+  /** Options passed to parcel, close and track calls */
+  options?: RequestOptions;
+
+  /** Options passed to label calls */
+  labelOptions?: LabelRequestOptions;
+
+  /** Add a final tracking step (default: false) */
+  track?: boolean;
+
+  /**
+   * Keeps Parcel.status in step with the flow: parcels whose status does not
+   * allow a step (e.g. a cancelled parcel reaching createLabels) fail it
+   * without reaching the carrier, and every completed step moves the status on
+   */
+  lifecycle?: ParcelLifecycle;
+
+  /**
+   * Stop at the first error an adapter call throws (default: false): parcels
+   * after it are not sent to the carrier and later steps are skipped
+   */
+  stopOnAdapterError?: boolean;
+}
+
+function has(adapter: CarrierAdapter, capability: Capability): boolean {
+  return adapter.capabilities.includes(capability);
+}
+
+/**
+ * Build the step graph for an adapter
+ *
+ * Starts from the steps the caller wants (parcels, labels when the adapter
+ * can label, tracking on request) and pulls in every step named by the
+ * adapter's `requires` map, e.g. MPL's `createLabel: [CREATE_PARCEL, CLOSE_SHIPMENT]`
+ * adds a close step between parcel and label creation.
+ *
+ * @returns Steps in a valid execution order
+ */
+export function planShippingFlow(
+  adapter: CarrierAdapter,
+  opts: { track?: boolean } = {}
+): ShippingFlowPlanStep[] {
+  const graph = new Map<ShippingFlowStep, Set<ShippingFlowStep>>();
+
+  const requiredSteps = (caps?: Capability[]): ShippingFlowStep[] =>
+    (caps ?? [])
+      .map((cap) => CAPABILITY_STEPS[cap])
+      .filter((step): step is ShippingFlowStep => step !== undefined);
+
+  const add = (step: ShippingFlowStep, deps: ShippingFlowStep[]) => {
+    const existing = graph.get(step) ?? new Set<ShippingFlowStep>();
+    graph.set(step, existing);
+    for (const dep of deps) {
+      if (dep === step) continue;
+      existing.add(dep);
+      if (!graph.has(dep)) {
+        // Every pulled-in step needs the parcels to exist first
+        add(dep, dep === 'createParcels' ? [] : ['createParcels']);
+      }
+    }
+  };
+
+  add('createParcels', []);
+
+  if (has(adapter, Capabilities.CREATE_LABEL)) {
+    add('createLabels', ['createParcels', ...requiredSteps(adapter.requires?.createLabel)]);
+  }
+
+  if (opts.track) {
+    add('track', [
+      'createParcels',
+      ...(graph.has('createLabels') ? ['createLabels' as const] : []),
+      ...requiredSteps(adapter.requires?.track),
+    ]);
+  }
+
+  // Kahn's algorithm, using STEP_ORDER as a deterministic tie-breaker
+  const plan: ShippingFlowPlanStep[] = [];
+  const done = new Set<ShippingFlowStep>();
+  while (done.size < graph.size) {
+    const next = STEP_ORDER.find(
+      (step) => graph.has(step) && !done.has(step) && [...graph.get(step)!].every((dep) => done.has(dep))
+    );
+    if (!next) {
+      throw new Error(`Cyclic step dependencies in adapter '${adapter.id}' requires map`);
+    }
+    done.add(next);
+    plan.push({ step: next, dependsOn: STEP_ORDER.filter((s) => graph.get(next)!.has(s)) });
+  }
+
+  return plan;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Lifecycle event each step's parcels must be allowed to take before the step runs
+ */
+const STEP_EVENTS: Partial<Record<ShippingFlowStep, ParcelLifecycleEvent>> = {
+  createParcels: { type: 'PARCEL_CREATED' },
+  closeShipments: { type: 'SHIPMENT_CLOSED' },
+  createLabels: { type: 'LABEL_GENERATED' },
+};
+
+/**
+ * Orchestration helper: run the full shipping flow for a batch of parcels
+ *
+ * Reads `adapter.requires` to build the step graph (create parcels → close
+ * shipments → create labels → optional track) and runs it. Batch methods
+ * (`createParcels`, `createLabels`, `batchTrack`) are used when the adapter
+ * provides them, with the singular methods as a fallback. Adapters whose
+ * batch tracking is asynchronous (`startBatchTrack`) are tracked per parcel.
+ *
+ * Failures never abort the whole flow: each step records its own status and
+ * errors, parcels that fail a step drop out of later steps, and steps whose
+ * dependencies failed are marked 'skipped'. With `stopOnAdapterError`, an
+ * error thrown by the adapter ends the flow instead.
+ *
+ * @param opts Options for the flow
+ * @returns Per-step results, created resources and attributed errors
+ */
+export async function executeShippingFlow(opts: ShippingFlowOptions): Promise<ShippingFlowResult> {
+  const { adapter, parcels, credentials, context, store, options, labelOptions, lifecycle, stopOnAdapterError } = opts;
+
+  const plan = planShippingFlow(adapter, { track: opts.track });
+  const result: ShippingFlowResult = {
+    plan,
+    steps: [],
+    parcelResources: [],
+    closeResponses: [],
+    labelResults: [],
+    labelFiles: [],
+    trackingUpdates: [],
+    errors: [],
+  };
+
+  // Parcels still eligible for the next step, keyed by internal ID
+  const resources = new Map<string, CarrierResource>();
+  let active: Parcel[] = [...parcels];
+
+  // Errors thrown by adapter calls, as opposed to errors the flow raises itself
+  const adapterErrors = new WeakSet<Error>();
+  let stopped = false;
+
+  const callAdapter = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await call();
+    } catch (error) {
+      const typedError = toError(error);
+      adapterErrors.add(typedError);
+      throw typedError;
+    }
+  };
+
+  // One adapter call per parcel; with stopOnAdapterError, parcels after a throw are not attempted
+  const callPerParcel = async <T>(call: (parcel: Parcel) => Promise<T>): Promise<Array<T | Error>> => {
+    const outcomes: Array<T | Error> = [];
+    for (const parcel of active) {
+      try {
+        outcomes.push(await callAdapter(() => call(parcel)));
+      } catch (error) {
+        outcomes.push(error as Error);
+        if (stopOnAdapterError) {
+          stopped = true;
+          break;
+        }
+      }
+    }
+    return outcomes;
+  };
+
+  const recordFailure = async (step: ShippingFlowStep, parcel: Parcel | undefined, error: Error | CarrierResource) => {
+    const thrown = error instanceof Error && adapterErrors.has(error);
+    result.errors.push({ step, parcelId: parcel?.id, error, ...(thrown ? { thrown } : {}) });
+    const message = error instanceof Error
+      ? error.message
+      : error.errors?.map((e) => e.message).join('; ') || `${step} failed`;
+
+    context.logger?.error('Flow: Step error', { step, parcelId: parcel?.id, error: message });
+
+    if (store) {
+      const internalId = parcel?.id ?? 'unknown';
+      await store.appendEvent(internalId, {
+        type: 'ERROR_OCCURRED',
+        internalId,
+        carrierId: adapter.id,
+        details: {
+          errorMessage: message,
+          step,
+          ...(error instanceof CarrierError
+            ? { carrierCode: error.carrierCode, errorCategory: error.category }
+            : {}),
+        },
+      });
+    }
+  };
+
+  const advance = async (parcel: Parcel, event: ParcelLifecycleEvent) => {
+    await lifecycle?.apply(parcel, event, { carrierId: adapter.id, resource: resources.get(parcel.id) });
+  };
+
+  // One resource per input parcel; parcels that never reached the carrier get their error
+  const parcelResourcesFor = (outcomes: Map<string, CarrierResource | Error>, fallback: string): CarrierResource[] =>
+    parcels.map((parcel) => {
+      const recorded = result.errors.find((e) => e.step === 'createParcels' && e.parcelId === parcel.id)?.error;
+      const outcome = outcomes.get(parcel.id) ?? (recorded instanceof Error ? recorded : new Error(fallback));
+      return outcome instanceof Error ? { status: 'failed', errors: [{ message: outcome.message }] } : outcome;
+    });
+
+  const steps: Record<ShippingFlowStep, (stepResult: ShippingFlowStepResult) => Promise<void>> = {
+    async createParcels(stepResult) {
+      const useBatch = has(adapter, Capabilities.CREATE_PARCELS) && typeof adapter.createParcels === 'function';
+      const useSingle = has(adapter, Capabilities.CREATE_PARCEL) && typeof adapter.createParcel === 'function';
+      if (!useBatch && !useSingle) {
+        throw new NotImplementedError(Capabilities.CREATE_PARCEL, adapter.id);
+      }
+
+      const created: Array<CarrierResource | Error> = [];
+      if (useBatch) {
+        stepResult.operation = 'createParcels';
+        context.logger?.debug('Flow: Creating parcels', { count: active.length });
+        const response = await callAdapter(() => adapter.createParcels!({ parcels: active, credentials, options }, context));
+        active.forEach((_, idx) => {
+          created.push(response.results[idx] ?? new Error('Carrier returned no result for this parcel'));
+        });
+      } else {
+        stepResult.operation = 'createParcel';
+        created.push(...await callPerParcel((parcel) => {
+          context.logger?.debug('Flow: Creating parcel', {
+            parcelId: parcel.id,
+            weight: parcel.package.weightGrams,
+          });
+          return adapter.createParcel!({ parcel, credentials, options }, context);
+        }));
+      }
+
+      const survivors: Parcel[] = [];
+      for (let i = 0; i < created.length; i++) {
+        const parcel = active[i];
+        const outcome = created[i];
+
+        if (outcome instanceof Error || !outcome.carrierId || outcome.status === 'failed') {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure('createParcels', parcel, outcome);
+          continue;
+        }
+
+        resources.set(parcel.id, outcome);
+        survivors.push(parcel);
+
+        if (store) {
+          await store.saveCarrierResource(parcel.id, 'parcel', outcome);
+          await store.indexCarrierResource?.({
+            carrierId: adapter.id,
+            carrierResourceId: outcome.carrierId,
+            internalId: parcel.id,
+            resourceType: 'parcel',
+          });
+          await store.appendEvent(parcel.id, {
+            type: 'PARCEL_CREATED',
+            internalId: parcel.id,
+            carrierId: adapter.id,
+            resource: outcome,
+          });
+        }
+        await advance(parcel, { type: 'PARCEL_CREATED' });
+
+        context.logger?.info('Flow: Parcel created', { carrierId: outcome.carrierId });
+      }
+
+      result.parcelResources = parcelResourcesFor(
+        new Map(active.map((parcel, idx) => [parcel.id, created[idx]])),
+        'Parcel was not created'
+      );
+      active = survivors;
+    },
+
+    async closeShipments(stepResult) {
+      const carrierIds = active.map((parcel) => resources.get(parcel.id)!.carrierId!);
+
+      if (has(adapter, Capabilities.CLOSE_SHIPMENT) && typeof adapter.closeShipments === 'function') {
+        stepResult.operation = 'closeShipments';
+        context.logger?.debug('Flow: Closing shipments', { count: carrierIds.length });
+        const response = await callAdapter(() => adapter.closeShipments!(
+          { trackingNumbers: carrierIds, credentials, options },
+          context
+        ));
+        result.closeResponses.push(response);
+
+        // Results line up with the parcels only when there is one per parcel (carriers
+        // may return one per manifest); otherwise any failure fails every parcel
+        const perParcel = response.results.length === active.length;
+        const failed = response.allFailed || (!perParcel && response.failureCount > 0);
+        const survivors: Parcel[] = [];
+        for (let i = 0; i < active.length; i++) {
+          const parcel = active[i];
+          const itemErrors = perParcel ? response.results[i].errors ?? [] : [];
+          if (itemErrors.length > 0) {
+            stepResult.failedParcelIds.push(parcel.id);
+            await recordFailure('closeShipments', parcel, {
+              carrierId: carrierIds[i],
+              status: 'failed',
+              errors: itemErrors.map((e) => ({ code: e.code, message: e.message ?? 'Shipment was not closed' })),
+              raw: response.results[i].raw,
+            });
+          } else if (failed) {
+            stepResult.failedParcelIds.push(parcel.id);
+            await recordFailure('closeShipments', parcel, new Error(response.summary));
+          } else {
+            survivors.push(parcel);
+          }
+        }
+        active = survivors;
+      } else if (has(adapter, Capabilities.CLOSE_SHIPMENT) && typeof adapter.closeShipment === 'function') {
+        stepResult.operation = 'closeShipment';
+        const closed = await callPerParcel((parcel) => adapter.closeShipment!(resources.get(parcel.id)!.carrierId!, context));
+        const survivors: Parcel[] = [];
+        for (let i = 0; i < closed.length; i++) {
+          const outcome = closed[i];
+          if (outcome instanceof Error) {
+            stepResult.failedParcelIds.push(active[i].id);
+            await recordFailure('closeShipments', active[i], outcome);
+          } else {
+            survivors.push(active[i]);
+          }
+        }
+        active = survivors;
+      } else {
+        throw new NotImplementedError(Capabilities.CLOSE_SHIPMENT, adapter.id);
+      }
+
+      for (const parcel of active) {
+        if (store) {
+          await store.appendEvent(parcel.id, {
+            type: 'SHIPMENT_CLOSED',
+            internalId: parcel.id,
+            carrierId: adapter.id,
+            resource: resources.get(parcel.id),
+          });
+        }
+        await advance(parcel, { type: 'SHIPMENT_CLOSED' });
+      }
+    },
+
+    async createLabels(stepResult) {
+      const outcomes: Array<LabelResult | Error> = [];
+
+      // createLabels is the batch form of CREATE_LABEL; core has no separate capability for it
+      if (!has(adapter, Capabilities.CREATE_LABEL)) {
+        throw new NotImplementedError(Capabilities.CREATE_LABEL, adapter.id);
+      }
+
+      if (typeof adapter.createLabels === 'function') {
+        stepResult.operation = 'createLabels';
+        const parcelCarrierIds = active.map((parcel) => resources.get(parcel.id)!.carrierId!);
+        context.logger?.debug('Flow: Creating labels', { count: parcelCarrierIds.length });
+        const response = await callAdapter(() => adapter.createLabels!(
+          { parcelCarrierIds, credentials, options: labelOptions },
+          context
+        ));
+        result.labelFiles.push(...(response.files ?? []));
+        active.forEach((_, idx) => {
+          outcomes.push(response.results[idx] ?? new Error('Carrier returned no label result for this parcel'));
+        });
+      } else if (typeof adapter.createLabel === 'function') {
+        stepResult.operation = 'createLabel';
+        outcomes.push(...await callPerParcel(async (parcel) => {
+          const parcelCarrierId = resources.get(parcel.id)!.carrierId!;
+          context.logger?.debug('Flow: Creating label', { parcelId: parcelCarrierId });
+          const response = await adapter.createLabel!(
+            { parcelCarrierId, credentials, options: labelOptions },
+            context
+          );
+          if (response.file) {
+            result.labelFiles.push(response.file);
+          }
+          return response;
+        }));
+      } else {
+        throw new NotImplementedError(Capabilities.CREATE_LABEL, adapter.id);
+      }
+
+      const survivors: Parcel[] = [];
+      for (let i = 0; i < outcomes.length; i++) {
+        const parcel = active[i];
+        const outcome = outcomes[i];
+
+        if (outcome instanceof Error) {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure('createLabels', parcel, outcome);
+          continue;
+        }
+
+        result.labelResults.push(outcome);
+
+        if (outcome.status !== 'created') {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure('createLabels', parcel, {
+            carrierId: outcome.inputId,
+            status: outcome.status,
+            errors: outcome.errors,
+            raw: outcome.raw,
+          });
+          continue;
+        }
+
+        survivors.push(parcel);
+
+        if (store && outcome.fileId) {
+          const labelResource: LabelCarrierResource = {
+            carrierId: outcome.inputId,
+            status: outcome.status,
+            fileId: outcome.fileId,
+            pageRange: outcome.pageRange,
+            raw: outcome.raw,
+          };
+          await store.saveCarrierResource(parcel.id, 'label', labelResource);
+          await store.indexCarrierResource?.({
+            carrierId: adapter.id,
+            carrierResourceId: outcome.inputId,
+            internalId: parcel.id,
+            resourceType: 'label',
+          });
+          await store.appendEvent(parcel.id, {
+            type: 'LABEL_GENERATED',
+            internalId: parcel.id,
+            carrierId: adapter.id,
+            resource: labelResource,
+          });
+        }
+        await advance(parcel, { type: 'LABEL_GENERATED' });
+
+        context.logger?.info('Flow: Label created', {
+          inputId: outcome.inputId,
+          status: outcome.status,
+          fileId: outcome.fileId,
+        });
+      }
+      active = survivors;
+    },
+
+    async track(stepResult) {
+      const trackingNumbers = active.map((parcel) => resources.get(parcel.id)!.carrierId!);
+      const updates: Array<TrackingUpdate | Error> = [];
+
+      // Asynchronous batch tracking takes minutes; track per parcel instead when possible
+      const canTrack = has(adapter, Capabilities.TRACK) && typeof adapter.track === 'function';
+      const batchIsAsync = typeof adapter.startBatchTrack === 'function';
+
+      if (has(adapter, Capabilities.BATCH_TRACK) && typeof adapter.batchTrack === 'function' && !(batchIsAsync && canTrack)) {
+        stepResult.operation = 'batchTrack';
+        const response = await callAdapter(() => adapter.batchTrack!({ trackingNumbers, credentials, options }, context));
+        trackingNumbers.forEach((trackingNumber) => {
+          const item = response.results.find((r) => r.trackingNumber === trackingNumber);
+          updates.push(
+            item?.update ?? new Error(item?.error?.message ?? `No tracking data for ${trackingNumber}`)
+          );
+        });
+      } else if (canTrack) {
+        stepResult.operation = 'track';
+        updates.push(...await callPerParcel((parcel) =>
+          adapter.track!({ trackingNumber: resources.get(parcel.id)!.carrierId!, credentials, options }, context)
+        ));
+      } else {
+        throw new NotImplementedError(Capabilities.TRACK, adapter.id);
+      }
+
+      for (let i = 0; i < updates.length; i++) {
+        const parcel = active[i];
+        const update = updates[i];
+
+        if (update instanceof Error) {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure('track', parcel, update);
+          continue;
+        }
+
+        result.trackingUpdates.push(update);
+
+        if (store) {
+          await store.appendEvent(parcel.id, {
+            type: 'TRACKING_UPDATED',
+            internalId: parcel.id,
+            carrierId: adapter.id,
+            details: { trackingNumber: update.trackingNumber, status: update.status },
+          });
+        }
+        try {
+          await advance(parcel, { type: 'TRACKING_UPDATED', status: update.status });
+        } catch (error) {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure('track', parcel, toError(error));
+        }
+      }
+    },
+  };
+
+  for (const { step, dependsOn } of plan) {
+    const startedAt = Date.now();
+    const stepResult: ShippingFlowStepResult = {
+      step,
+      status: 'completed',
+      parcelIds: active.map((parcel) => parcel.id),
+      failedParcelIds: [],
+      durationMs: 0,
+    };
+    result.steps.push(stepResult);
+
+    const blockedBy = dependsOn.find((dep) => {
+      const depResult = result.steps.find((s) => s.step === dep);
+      return !depResult || depResult.status === 'failed' || depResult.status === 'skipped';
+    });
+
+    if (stopped || blockedBy || active.length === 0) {
+      stepResult.status = 'skipped';
+      stepResult.parcelIds = [];
+      stepResult.reason = stopped
+        ? 'Flow stopped at an adapter error'
+        : blockedBy
+          ? `Dependency '${blockedBy}' did not complete`
+          : 'No parcels left to process';
+      context.logger?.warn('Flow: Skipping step', { step, reason: stepResult.reason });
+      continue;
+    }
+
+    const event = STEP_EVENTS[step];
+    if (lifecycle && event) {
+      const admitted: Parcel[] = [];
+      for (const parcel of active) {
+        try {
+          await lifecycle.check(parcel, event);
+          admitted.push(parcel);
+        } catch (error) {
+          stepResult.failedParcelIds.push(parcel.id);
+          await recordFailure(step, parcel, toError(error));
+        }
+      }
+      active = admitted;
+      if (active.length === 0) {
+        stepResult.status = 'failed';
+        stepResult.durationMs = Date.now() - startedAt;
+        if (step === 'createParcels') {
+          result.parcelResources = parcelResourcesFor(new Map(), 'Parcel was not created');
+        }
+        continue;
+      }
+    }
+
+    try {
+      await steps[step](stepResult);
+      const failed = stepResult.failedParcelIds.length;
+      stepResult.status = failed === 0
+        ? 'completed'
+        : failed >= stepResult.parcelIds.length ? 'failed' : 'partial';
+      if (stopped) {
+        stepResult.reason = 'Stopped at an adapter error; later parcels were not attempted';
+      }
+    } catch (error) {
+      const typedError = toError(error);
+      stepResult.status = 'failed';
+      stepResult.error = typedError;
+      stepResult.failedParcelIds = [...stepResult.parcelIds];
+      if (step === 'createParcels' && result.parcelResources.length === 0) {
+        result.parcelResources = parcelResourcesFor(new Map(), typedError.message);
+      }
+      await recordFailure(step, active.length === 1 ? active[0] : undefined, typedError);
+      stopped = Boolean(stopOnAdapterError) && adapterErrors.has(typedError);
+      active = [];
+    } finally {
+      stepResult.durationMs = Date.now() - startedAt;
+    }
+  }
+
+  return result;
+}
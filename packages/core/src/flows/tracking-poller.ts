@@ -0,0 +1,437 @@
+/**
+ * Tracking poller
+ * Periodically tracks active parcels, detects new tracking events and records
+ * them as TRACKING_UPDATED domain events
+ */
+
+import type {
+  AdapterContext,
+  CarrierAdapter,
+  DomainEvent,
+  RequestOptions,
+  Store,
+} from '../interfaces/index.js';
+import type {
+  BatchTrackingJob,
+  BatchTrackingResponse,
+  TrackingEvent,
+  TrackingStatus,
+  TrackingUpdate,
+} from '../types/index.js';
+import { TERMINAL_TRACKING_STATUSES } from '../types/index.js';
+import { Capabilities } from '../interfaces/capabilities.js';
+import { CarrierRegistry } from '../registry/carrier-registry.js';
+import type { ParcelLifecycle, ParcelTransition } from '../lifecycle/index.js';
+
+// Statuses after which a parcel is no longer polled
+export { TERMINAL_TRACKING_STATUSES };
+
+/**
+ * A parcel the poller keeps tracking
+ */
+export interface TrackedParcel {
+  trackingNumber: string;
+
+  /**
+   * Internal entity ID events are recorded under (default: the parcel ID the
+   * store's carrier resource index has for the tracking number, else the
+   * tracking number itself)
+   */
+  internalId?: string;
+}
+
+/**
+ * New events found for a parcel in one poll
+ */
+export interface TrackingChange {
+  carrierId: string;
+  trackingNumber: string;
+  internalId: string;
+  status: TrackingStatus;
+
+  /** Events not seen in any earlier poll, in carrier order */
+  newEvents: TrackingEvent[];
+
+  /** Whether the parcel reached a terminal status and was removed from polling */
+  terminal: boolean;
+
+  /** Parcel status change caused by the update (with the `lifecycle` option) */
+  transition?: ParcelTransition;
+}
+
+/**
+ * Tracking failure for a parcel, or for a whole batch call (no trackingNumber)
+ */
+export interface TrackingPollError {
+  carrierId: string;
+  trackingNumber?: string;
+  error: Error;
+}
+
+export interface TrackingPollResult {
+  /** Parcels with new events (parcels without changes are left out) */
+  changes: TrackingChange[];
+
+  errors: TrackingPollError[];
+
+  /** Tracking numbers that reached a terminal status in this poll, per carrier */
+  completed: Array<{ carrierId: string; trackingNumber: string }>;
+}
+
+export interface TrackingPollerOptions {
+  /** Adapters to track with, or a registry */
+  carriers: CarrierRegistry | CarrierAdapter[];
+
+  /** Holds the last known events (TRACKING_UPDATED) and receives new ones */
+  store: Store;
+
+  context: AdapterContext;
+
+  /** Credentials per carrier ID, passed to every track/batchTrack call */
+  credentials?: Record<string, Record<string, unknown>>;
+
+  /** Per-call options passed to every track/batchTrack call */
+  options?: RequestOptions;
+
+  /** Max tracking numbers per batchTrack call (default: 500) */
+  batchSize?: number;
+
+  /**
+   * Moves Parcel.status (parcel ID = TrackedParcel.internalId) along with new
+   * tracking events; illegal moves are reported in `errors`
+   */
+  lifecycle?: ParcelLifecycle;
+}
+
+// Details stored with TRACKING_UPDATED; events drop `raw` to keep the log small
+interface TrackingUpdatedDetails {
+  trackingNumber: string;
+  status: TrackingStatus;
+  events: Array<Omit<TrackingEvent, 'raw'>>;
+}
+
+/**
+ * Identity of a tracking event across polls
+ * Timestamps may come back from a store as strings, so they are normalised
+ */
+function eventKey(event: Pick<TrackingEvent, 'timestamp' | 'status' | 'carrierStatusCode' | 'description'>): string {
+  const ts = new Date(event.timestamp).toISOString();
+  return `${ts}|${event.carrierStatusCode ?? event.status}|${event.description}`;
+}
+
+function isTerminal(status: TrackingStatus): boolean {
+  return TERMINAL_TRACKING_STATUSES.includes(status);
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Split a batch tracking response into updates and per-parcel errors
+ */
+function collectBatchResults(
+  carrierId: string,
+  response: BatchTrackingResponse,
+  updates: TrackingUpdate[],
+  result: TrackingPollResult
+): void {
+  for (const item of response.results) {
+    if (item.status === 'found' && item.update) {
+      updates.push(item.update);
+    } else if (item.status === 'failed') {
+      result.errors.push({
+        carrierId,
+        trackingNumber: item.trackingNumber,
+        error: new Error(item.error?.message ?? 'Tracking failed'),
+      });
+    }
+  }
+}
+
+/**
+ * TrackingPoller
+ * Replaces the per-integrator tracking cron job
+ *
+ * Each poll groups the active tracking numbers per carrier into batchTrack
+ * calls (when the adapter advertises BATCH_TRACK) or falls back to one track
+ * call per parcel. Adapters with asynchronous batch tracking
+ * (startBatchTrack/collectBatchTrack) are never waited on: a poll collects
+ * the jobs that finished since the previous one and starts new ones. Returned events are diffed against the events already
+ * recorded in the store; only genuinely new ones produce a TRACKING_UPDATED
+ * event. Parcels that reach DELIVERED, RETURNED or CANCELLED are dropped.
+ *
+ * Usage:
+ * ```typescript
+ * const poller = new TrackingPoller({ carriers: registry, store, context: ctx, credentials });
+ * poller.add('hu-foxpost', ['CLFOX0000000001', 'CLFOX0000000002']);
+ *
+ * const { changes } = await poller.poll();
+ * // or: poller.start(15 * 60_000);
+ * ```
+ */
+export class TrackingPoller {
+  private readonly active = new Map<string, Map<string, TrackedParcel>>();
+  private readonly jobs = new Map<string, BatchTrackingJob[]>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(private readonly opts: TrackingPollerOptions) {}
+
+  /**
+   * Start tracking parcels with a carrier
+   * Re-adding a tracking number replaces its entry
+   */
+  add(carrierId: string, parcels: Array<string | TrackedParcel>): this {
+    const tracked = this.active.get(carrierId) ?? new Map<string, TrackedParcel>();
+    for (const parcel of parcels) {
+      const entry = typeof parcel === 'string' ? { trackingNumber: parcel } : parcel;
+      tracked.set(entry.trackingNumber, entry);
+    }
+    this.active.set(carrierId, tracked);
+    return this;
+  }
+
+  /**
+   * Stop tracking a parcel
+   * @returns true if the parcel was being tracked
+   */
+  remove(carrierId: string, trackingNumber: string): boolean {
+    const tracked = this.active.get(carrierId);
+    const removed = tracked?.delete(trackingNumber) ?? false;
+    if (tracked && tracked.size === 0) {
+      this.active.delete(carrierId);
+    }
+    return removed;
+  }
+
+  /**
+   * Parcels still being tracked, per carrier ID
+   */
+  list(): Record<string, TrackedParcel[]> {
+    return Object.fromEntries(
+      [...this.active].map(([carrierId, tracked]) => [carrierId, [...tracked.values()]])
+    );
+  }
+
+  /**
+   * Track every active parcel once
+   * Carriers are polled in parallel; a failing carrier does not affect the others
+   */
+  async poll(): Promise<TrackingPollResult> {
+    const result: TrackingPollResult = { changes: [], errors: [], completed: [] };
+
+    await Promise.all(
+      [...this.active.keys()].map((carrierId) => this.pollCarrier(carrierId, result))
+    );
+
+    return result;
+  }
+
+  /**
+   * Poll every intervalMs until stop() is called
+   * The next poll is scheduled after the previous one finishes, so polls never overlap
+   */
+  start(intervalMs: number): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.opts.context.logger?.error('TrackingPoller: poll failed', { error: toError(error).message });
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private resolveAdapter(carrierId: string): CarrierAdapter | undefined {
+    const { carriers } = this.opts;
+    if (carriers instanceof CarrierRegistry) {
+      return carriers.has(carrierId) ? carriers.get(carrierId) : undefined;
+    }
+    return carriers.find((adapter) => adapter.id === carrierId);
+  }
+
+  private async pollCarrier(carrierId: string, result: TrackingPollResult): Promise<void> {
+    const tracked = this.active.get(carrierId);
+    if (!tracked || tracked.size === 0) {
+      return;
+    }
+
+    const adapter = this.resolveAdapter(carrierId);
+    if (!adapter) {
+      result.errors.push({ carrierId, error: new Error(`Unknown carrier '${carrierId}'`) });
+      return;
+    }
+
+    const credentials = this.opts.credentials?.[carrierId];
+    const options = this.opts.options;
+    const trackingNumbers = [...tracked.keys()];
+    const updates: TrackingUpdate[] = [];
+
+    const batchTrack = adapter.capabilities.includes(Capabilities.BATCH_TRACK);
+
+    if (batchTrack && typeof adapter.startBatchTrack === 'function' && typeof adapter.collectBatchTrack === 'function') {
+      await this.pollJobs(adapter, carrierId, trackingNumbers, updates, result);
+    } else if (batchTrack && typeof adapter.batchTrack === 'function') {
+      const batchSize = this.opts.batchSize ?? 500;
+      for (let i = 0; i < trackingNumbers.length; i += batchSize) {
+        const chunk = trackingNumbers.slice(i, i + batchSize);
+        try {
+          const response = await adapter.batchTrack({ trackingNumbers: chunk, credentials, options }, this.opts.context);
+          collectBatchResults(carrierId, response, updates, result);
+        } catch (error) {
+          result.errors.push({ carrierId, error: toError(error) });
+        }
+      }
+    } else if (adapter.capabilities.includes(Capabilities.TRACK) && typeof adapter.track === 'function') {
+      for (const trackingNumber of trackingNumbers) {
+        try {
+          updates.push(await adapter.track({ trackingNumber, credentials, options }, this.opts.context));
+        } catch (error) {
+          result.errors.push({ carrierId, trackingNumber, error: toError(error) });
+        }
+      }
+    } else {
+      result.errors.push({ carrierId, error: new Error(`Carrier '${carrierId}' does not support tracking`) });
+      return;
+    }
+
+    for (const update of updates) {
+      const parcel = tracked.get(update.trackingNumber);
+      if (!parcel) {
+        continue;
+      }
+      try {
+        await this.recordUpdate(carrierId, parcel, update, result);
+      } catch (error) {
+        result.errors.push({ carrierId, trackingNumber: update.trackingNumber, error: toError(error) });
+      }
+    }
+  }
+
+  /**
+   * Track through carrier-side batch jobs without blocking on them
+   *
+   * Finished jobs from earlier polls are collected first; parcels not covered
+   * by a job still pending are submitted in new jobs, whose results a later
+   * poll picks up. A job that fails to collect is dropped and its parcels
+   * are submitted again.
+   */
+  private async pollJobs(
+    adapter: CarrierAdapter,
+    carrierId: string,
+    trackingNumbers: string[],
+    updates: TrackingUpdate[],
+    result: TrackingPollResult
+  ): Promise<void> {
+    const credentials = this.opts.credentials?.[carrierId];
+    const options = this.opts.options;
+    const pending: BatchTrackingJob[] = [];
+
+    for (const job of this.jobs.get(carrierId) ?? []) {
+      try {
+        const response = await adapter.collectBatchTrack!({ jobId: job.jobId, credentials, options }, this.opts.context);
+        if (response) {
+          collectBatchResults(carrierId, response, updates, result);
+        } else {
+          pending.push(job);
+        }
+      } catch (error) {
+        result.errors.push({ carrierId, error: toError(error) });
+      }
+    }
+
+    const covered = new Set(pending.flatMap((job) => job.trackingNumbers));
+    const unsubmitted = trackingNumbers.filter((trackingNumber) => !covered.has(trackingNumber));
+    const batchSize = this.opts.batchSize ?? 500;
+    for (let i = 0; i < unsubmitted.length; i += batchSize) {
+      const chunk = unsubmitted.slice(i, i + batchSize);
+      try {
+        pending.push(await adapter.startBatchTrack!({ trackingNumbers: chunk, credentials, options }, this.opts.context));
+      } catch (error) {
+        result.errors.push({ carrierId, error: toError(error) });
+      }
+    }
+
+    if (pending.length > 0) {
+      this.jobs.set(carrierId, pending);
+    } else {
+      this.jobs.delete(carrierId);
+    }
+  }
+
+  private async recordUpdate(
+    carrierId: string,
+    parcel: TrackedParcel,
+    update: TrackingUpdate,
+    result: TrackingPollResult
+  ): Promise<void> {
+    const { store } = this.opts;
+    const internalId = parcel.internalId
+      ?? (await store.findByCarrierResourceId?.(carrierId, parcel.trackingNumber))?.internalId
+      ?? parcel.trackingNumber;
+
+    const seen = new Set<string>();
+    for (const event of await store.getEvents(internalId)) {
+      if (event.type !== 'TRACKING_UPDATED') continue;
+      const details = event.details as Partial<TrackingUpdatedDetails> | undefined;
+      for (const known of details?.events ?? []) {
+        seen.add(eventKey(known));
+      }
+    }
+
+    const newEvents = update.events.filter((event) => !seen.has(eventKey(event)));
+    const terminal = update.isTerminal ?? isTerminal(update.status);
+
+    if (newEvents.length > 0) {
+      const details: TrackingUpdatedDetails = {
+        trackingNumber: update.trackingNumber,
+        status: update.status,
+        events: newEvents.map(({ raw: _raw, ...event }) => event),
+      };
+      const domainEvent: DomainEvent = {
+        type: 'TRACKING_UPDATED',
+        internalId,
+        carrierId,
+        details: details as unknown as Record<string, unknown>,
+      };
+      await store.appendEvent(internalId, domainEvent);
+
+      const change: TrackingChange = {
+        carrierId,
+        trackingNumber: update.trackingNumber,
+        internalId,
+        status: update.status,
+        newEvents,
+        terminal,
+      };
+      result.changes.push(change);
+
+      const transition = await this.opts.lifecycle?.apply(internalId, { type: 'TRACKING_UPDATED', status: update.status }, { carrierId });
+      if (transition) {
+        change.transition = transition;
+      }
+    }
+
+    if (terminal) {
+      this.remove(carrierId, parcel.trackingNumber);
+      result.completed.push({ carrierId, trackingNumber: parcel.trackingNumber });
+    }
+  }
+}
@@ -10,14 +10,40 @@ export {
   CarrierErrorCategory,
   NotImplementedError,
   ValidationError,
+  IdempotencyConflictError,
+  ParcelTransitionError,
 } from './errors/index.js';
 
 // Persistence
 export * from './stores/index.js';
 
+// Parcel lifecycle
+export * from './lifecycle/index.js';
+
+// Event publishing
+export * from './events/index.js';
+
 // Orchestration
 export * from './flows/index.js';
 
+// Carrier registry
+export * from './registry/index.js';
+
+// Rate quoting
+export * from './rates/index.js';
+
+// Pickup scheduling
+export * from './pickup/index.js';
+
+// Webhook ingestion
+export * from './webhooks/index.js';
+
+// Label file storage
+export * from './labels/index.js';
+
+// Label printing
+export * from './printing/index.js';
+
 // Http clients (convenience exports)
 export { createAxiosHttpClient } from './http/axios-client.js';
 export { createFetchHttpClient } from './http/fetch-client.js';
@@ -37,3 +63,6 @@ export {
   withCallTracing,
   composeAdapterWrappers,
 } from './utils/adapter-wrapper.js';
+export { withRetry, CircuitBreaker } from './utils/retry.js';
+export type { RetryPolicy, RetryOptions, CircuitBreakerOptions, CircuitState } from './utils/retry.js';
+export { withIdempotency, fingerprintRequest } from './utils/idempotency.js';
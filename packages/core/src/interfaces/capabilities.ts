@@ -18,6 +18,8 @@ export const Capabilities = {
   LIST_PICKUP_POINTS: "LIST_PICKUP_POINTS",
   EXCHANGE_AUTH_TOKEN: "EXCHANGE_AUTH_TOKEN",
   DELETE_PARCEL: "DELETE_PARCEL",
+  MODIFY_PARCEL: "MODIFY_PARCEL",
+  LIST_PARCELS: "LIST_PARCELS",
   CREATE_RETURN: "CREATE_RETURN",
   CREATE_RETURNS: "CREATE_RETURNS",
   BATCH_TRACK: "BATCH_TRACK",
@@ -1,7 +1,7 @@
 import type { Capability } from './capabilities.js';
 import type { AdapterContext } from './adapter-context.js';
-import type { CarrierResource } from './carrier-resource.js';
-import type { Parcel, RatesResponse, TrackingUpdate, CreateParcelsResponse, CreateLabelResponse, CreateLabelsResponse, FetchPickupPointsRequest, FetchPickupPointsResponse, ShipmentDetailsResponse, DeleteParcelRequest, DeleteParcelResult, CreateReturnRequest, CreateReturnsRequest, BatchTrackingRequest, BatchTrackingResponse } from '../types/index.js';
+import type { CarrierResource, ListedParcelResource } from './carrier-resource.js';
+import type { Money, Parcel, RatesResponse, TrackingUpdate, CreateParcelsResponse, CreateLabelResponse, CreateLabelsResponse, FetchPickupPointsRequest, FetchPickupPointsResponse, ShipmentDetailsResponse, DeleteParcelRequest, DeleteParcelResult, CreateReturnRequest, CreateReturnsRequest, BatchTrackingRequest, BatchTrackingResponse, BatchTrackingJob, CollectBatchTrackingRequest, PickupRequest, PickupResponse } from '../types/index.js';
 
 /**
  * Request options
@@ -15,6 +15,13 @@ export interface RequestOptions {
    */
   useTestApi?: boolean;
 
+  /**
+   * Caller-supplied key identifying this logical request
+   * Marks non-idempotent calls (e.g., createParcel) as safe to retry,
+   * since a replay carries the same key (see withRetry)
+   */
+  idempotencyKey?: string;
+
   /**
    * Custom options for future extensibility
    */
@@ -88,6 +95,43 @@ export interface CreateParcelsRequest {
   options?: RequestOptions;
 }
 
+/**
+ * Changes to apply to an existing parcel
+ * Only the fields present are changed; adapters reject changes their carrier cannot make
+ */
+export interface ParcelUpdate {
+  /**
+   * New cash on delivery amount and reference
+   * An amount of 0 removes COD from the parcel
+   */
+  cod?: {
+    amount: Money;
+    reference?: string;
+  };
+}
+
+export interface UpdateParcelRequest {
+  /**
+   * Carrier-specific parcel ID to update
+   */
+  parcelCarrierId: string;
+  /**
+   * Changes to apply
+   */
+  changes: ParcelUpdate;
+  /**
+   * Credentials for the carrier API
+   *
+   * Structure varies by carrier - see CreateParcelRequest.credentials for details.
+   * Adapters validate at runtime and throw CarrierError("Auth") if invalid.
+   */
+  credentials: Record<string, unknown>;
+  /**
+   * Per-call options (e.g., useTestApi)
+   */
+  options?: RequestOptions;
+}
+
 /**
  * Label request options shared by CREATE_LABEL and CREATE_LABELS.
  *
@@ -100,6 +144,18 @@ export type LabelRequestOptions = RequestOptions & {
    * Examples: "A6", "A7", "4x6", "85x85"
    */
   size?: string;
+
+  /**
+   * Preferred label file format
+   * Adapters that print ZPL natively (GLS ThermoZPL, MPL) switch to it;
+   * wrap the others with `withLabelFormat` to convert their PDFs.
+   */
+  labelFormat?: 'PDF' | 'ZPL';
+
+  /**
+   * Printer resolution for ZPL labels in dots per inch (default: 203)
+   */
+  labelDpi?: 203 | 300;
 };
 
 export interface CreateLabelRequest {
@@ -148,6 +204,26 @@ export interface CreateLabelsRequest {
   options?: LabelRequestOptions;
 }
 
+/**
+ * Request to void a label
+ * Carriers that authenticate every call need credentials alongside the ID
+ */
+export interface VoidLabelRequest {
+  /**
+   * Carrier-specific label ID (for carriers that print one label per parcel,
+   * the parcel's carrier ID)
+   */
+  labelId: string;
+  /**
+   * Credentials for the carrier API
+   */
+  credentials: Record<string, unknown>;
+  /**
+   * Per-call options
+   */
+  options?: RequestOptions;
+}
+
 export interface TrackingRequest {
   /**
    * Tracking number of the parcel to track
@@ -184,6 +260,84 @@ export interface ShipmentDetailsRequest {
   options?: RequestOptions;
 }
 
+/**
+ * Inclusive date range
+ */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Request to list the parcels the carrier holds for the account
+ * Used to reconcile the integrator's records with the carrier's
+ */
+export interface ListParcelsRequest {
+  /**
+   * Only parcels with a pickup date in this range
+   */
+  pickupDate?: DateRange;
+  /**
+   * Only parcels whose labels were printed in this range
+   */
+  printDate?: DateRange;
+  /**
+   * Credentials for the carrier API
+   *
+   * Structure varies by carrier - see CreateParcelRequest.credentials for details.
+   */
+  credentials: Record<string, unknown>;
+  /**
+   * Per-call options (e.g., useTestApi)
+   */
+  options?: RequestOptions;
+}
+
+export interface ListParcelsResponse {
+  /**
+   * Parcels matching the filters, including ones created outside the integrator's system
+   */
+  parcels: ListedParcelResource[];
+  /**
+   * Raw carrier response for debugging
+   */
+  rawCarrierResponse?: unknown;
+}
+
+/**
+ * Inbound carrier push notification, as received by the integrator's HTTP endpoint
+ */
+export interface WebhookRequest {
+  /**
+   * Request headers (lookups are case-insensitive, see getWebhookHeader)
+   */
+  headers: Record<string, string | string[] | undefined>;
+  /**
+   * Request body
+   * Pass the raw body (string or bytes) when a WebhookVerifier checks a
+   * signature over it; an already-parsed JSON value is accepted otherwise.
+   */
+  body: unknown;
+}
+
+/**
+ * Service limits a carrier declares up front
+ * Used by selectCarrier to rule a carrier out before asking for rates
+ */
+export interface CarrierLimits {
+  /** Heaviest parcel the carrier accepts, in grams */
+  maxWeightGrams?: number;
+
+  /** Whether the carrier can collect cash on delivery */
+  acceptsCod?: boolean;
+
+  /**
+   * PickupPointDelivery.pickupPoint.provider values this carrier delivers to
+   * (e.g., ["foxpost"]); a pickup point from any other provider is rejected
+   */
+  pickupPointProviders?: string[];
+}
+
 /**
  * CarrierAdapter interface
  * The single contract all carriers must implement
@@ -218,6 +372,11 @@ export interface CarrierAdapter {
     track?: Capability[];
   };
 
+  /**
+   * Optional: service limits (max weight, COD, pickup point providers)
+   */
+  readonly limits?: CarrierLimits;
+
   /**
    * Optional: called once at adapter instantiation to configure
    * base URL, timeouts, or other settings
@@ -316,9 +475,11 @@ export interface CarrierAdapter {
   /**
    * Void/cancel a label
    * Capability: VOID_LABEL
+   *
+   * A bare label ID is accepted for carriers that need no per-call credentials
    */
   voidLabel?(
-    labelId: string,
+    req: VoidLabelRequest | string,
     ctx: AdapterContext
   ): Promise<CarrierResource>;
 
@@ -340,6 +501,26 @@ export interface CarrierAdapter {
     ctx: AdapterContext
   ): Promise<DeleteParcelResult>;
 
+  /**
+   * Change an existing parcel after creation (e.g., its COD amount)
+   * Capability: MODIFY_PARCEL
+   *
+   * Throws CarrierError if the carrier refuses the change.
+   */
+  updateParcel?(
+    req: UpdateParcelRequest,
+    ctx: AdapterContext
+  ): Promise<CarrierResource>;
+
+  /**
+   * List the parcels the carrier holds, filtered by date ranges
+   * Capability: LIST_PARCELS
+   */
+  listParcels?(
+    req: ListParcelsRequest,
+    ctx: AdapterContext
+  ): Promise<ListParcelsResponse>;
+
   /**
    * Create a return parcel for an existing shipment
    * Capability: CREATE_RETURN
@@ -358,6 +539,18 @@ export interface CarrierAdapter {
     ctx: AdapterContext
   ): Promise<CreateParcelsResponse>;
 
+  /**
+   * Book a courier collection at an address within a time window
+   * Capability: PICKUP
+   *
+   * Throws CarrierError("Validation") for windows the carrier cannot serve
+   * (in the past, on non-working days).
+   */
+  requestPickup?(
+    req: PickupRequest,
+    ctx: AdapterContext
+  ): Promise<PickupResponse>;
+
   /**
    * Track multiple parcels in a single batch
    * Capability: BATCH_TRACK
@@ -367,6 +560,41 @@ export interface CarrierAdapter {
     ctx: AdapterContext
   ): Promise<BatchTrackingResponse>;
 
+  /**
+   * Start a batch tracking job without waiting for its results
+   * Capability: BATCH_TRACK (carriers whose batch results take minutes)
+   *
+   * Adapters that implement it together with collectBatchTrack() are polled
+   * through the job instead of the blocking batchTrack() call.
+   */
+  startBatchTrack?(
+    req: BatchTrackingRequest,
+    ctx: AdapterContext
+  ): Promise<BatchTrackingJob>;
+
+  /**
+   * Check a job started with startBatchTrack() once
+   * Capability: BATCH_TRACK
+   *
+   * Returns null while the carrier is still preparing the results.
+   */
+  collectBatchTrack?(
+    req: CollectBatchTrackingRequest,
+    ctx: AdapterContext
+  ): Promise<BatchTrackingResponse | null>;
+
+  /**
+   * Parse an inbound carrier push notification into tracking updates
+   * Capability: WEBHOOKS
+   *
+   * Returns one TrackingUpdate per parcel in the payload, in the same shape
+   * track() produces. Throws CarrierError("Auth") if verification fails.
+   */
+  parseWebhook?(
+    req: WebhookRequest,
+    ctx: AdapterContext
+  ): Promise<TrackingUpdate[]>;
+
   /**
    * Get shipment details/metadata by tracking number
    * Capability: GET_SHIPMENT_DETAILS
@@ -69,6 +69,24 @@ export interface LabelCarrierResource extends CarrierResource {
   };
 }
 
+/**
+ * ListedParcelResource
+ * Extended CarrierResource for a parcel as the carrier reports it (LIST_PARCELS)
+ * carrierId is the carrier's parcel ID, as returned by createParcels
+ */
+export interface ListedParcelResource extends CarrierResource {
+  /**
+   * Tracking number, once the carrier has assigned one
+   */
+  trackingNumber?: string;
+
+  /**
+   * Reference the parcel was created with (e.g., the canonical Parcel.id)
+   * Parcels created outside the integrator's system may carry none
+   */
+  reference?: string;
+}
+
 /**
  * FailedCarrierResource
  * A CarrierResource that explicitly represents a failed operation
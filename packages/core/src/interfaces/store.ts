@@ -1,4 +1,4 @@
-import type { Shipment, Parcel } from '../types/index.js';
+import type { Shipment, Parcel, ParcelStatus } from '../types/index.js';
 import type { CarrierResource } from '../interfaces/index.js';
 
 /**
@@ -26,6 +26,7 @@ export interface DomainEvent {
     | "LABEL_GENERATED"
     | "LABEL_VOIDED"
     | "TRACKING_UPDATED"
+    | "PARCEL_STATUS_CHANGED"
     | "ERROR_OCCURRED";
 
   /** When the event occurred */
@@ -44,6 +45,98 @@ export interface DomainEvent {
   details?: DomainEventDetails;
 }
 
+/**
+ * IdempotencyRecord
+ * Remembers the outcome of a create call so a replay can be answered without
+ * reaching the carrier again (see withIdempotency)
+ */
+export interface IdempotencyRecord {
+  /** Adapter ID the call was made against (e.g., "hu-gls") */
+  carrierId: string;
+
+  /** Idempotency key, unique per carrier (Parcel.id for parcels) */
+  key: string;
+
+  /** Operation that produced the resource */
+  operation: "createParcel" | "createReturn";
+
+  /** Fingerprint of the request payload the key was first used with */
+  fingerprint: string;
+
+  /** Resource returned by the carrier */
+  resource: CarrierResource;
+
+  /** When the record was written */
+  createdAt?: Date;
+}
+
+/**
+ * CarrierResourceRef
+ * Reverse-index entry: the internal record a carrier-assigned ID belongs to
+ */
+export interface CarrierResourceRef {
+  /** Adapter ID (e.g., "hu-gls") */
+  carrierId: string;
+
+  /** ID the carrier assigned (CarrierResource.carrierId: parcel number, barcode, ...) */
+  carrierResourceId: string;
+
+  /** Internal entity ID */
+  internalId: string;
+
+  resourceType: "shipment" | "parcel" | "label";
+}
+
+/**
+ * Paging options for Store list methods
+ */
+export interface StorePageOptions {
+  /** Max items per page (default: 100) */
+  limit?: number;
+
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+/**
+ * One page of a Store list method
+ */
+export interface StorePage<T> {
+  items: T[];
+
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Filter for Store.queryEvents
+ * Events are returned oldest first (by timestamp, then append order)
+ */
+export interface EventQuery extends StorePageOptions {
+  /** Only events of this entity */
+  internalId?: string;
+
+  /** Only events at or after this time */
+  from?: Date;
+
+  /** Only events before this time */
+  to?: Date;
+}
+
+/**
+ * An event with its position in the store's event log
+ */
+export interface EventLogEntry {
+  /**
+   * Log sequence number, assigned by the store on append
+   * Increases with every append; an event never becomes visible after one
+   * with a higher seq.
+   */
+  seq: number;
+
+  event: DomainEvent;
+}
+
 /**
  * Store interface
  * Pluggable persistence layer
@@ -100,4 +193,61 @@ export interface Store {
    * Retrieve events for an entity (useful for debugging and compliance)
    */
   getEvents(internalId: string): Promise<DomainEvent[]>;
+
+  /**
+   * Page through events across entities by time range
+   * Optional: not used by core itself
+   */
+  queryEvents?(query: EventQuery): Promise<StorePage<DomainEvent>>;
+
+  /**
+   * Read the event log in append order, starting after a sequence number
+   * Optional: required by OutboxRelay
+   *
+   * @param afterSeq Sequence number of the last entry already read (0 for the start of the log)
+   * @param limit Maximum number of entries to return
+   */
+  readEventLog?(afterSeq: number, limit: number): Promise<EventLogEntry[]>;
+
+  /**
+   * Record which internal entity a carrier-assigned ID belongs to,
+   * replacing any earlier entry for the same (carrierId, carrierResourceId, resourceType)
+   * Flows call this next to saveCarrierResource.
+   * Optional: without it, reverse lookups are not recorded
+   */
+  indexCarrierResource?(ref: CarrierResourceRef): Promise<void>;
+
+  /**
+   * Reverse lookup: internal entity for a carrier-assigned ID
+   * (e.g., the parcel behind a tracking number in a webhook)
+   *
+   * @param carrierId Adapter ID (e.g., "hu-gls")
+   * @param carrierResourceId ID the carrier assigned
+   * @param resourceType Resource type to look up (default: "parcel")
+   *
+   * Optional: TrackingPoller falls back to the tracking number as internal ID
+   */
+  findByCarrierResourceId?(
+    carrierId: string,
+    carrierResourceId: string,
+    resourceType?: "shipment" | "parcel" | "label"
+  ): Promise<CarrierResourceRef | null>;
+
+  /**
+   * Page through parcels with the given status, ordered by parcel ID
+   * Optional: not used by core itself
+   */
+  listParcelsByStatus?(status: ParcelStatus, options?: StorePageOptions): Promise<StorePage<Parcel>>;
+
+  /**
+   * Save the outcome of an idempotent create call, keyed by (carrierId, key)
+   * Optional: only required by withIdempotency
+   */
+  saveIdempotencyRecord?(record: IdempotencyRecord): Promise<void>;
+
+  /**
+   * Retrieve an idempotency record by carrier and key
+   * Optional: only required by withIdempotency
+   */
+  getIdempotencyRecord?(carrierId: string, key: string): Promise<IdempotencyRecord | null>;
 }
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { composeLabelSheet } from '../compose.js';
+import { splitZplLabels } from '../zpl.js';
+import { openPdf, readPdfRect } from '../pdf/pages.js';
+import { PdfDict, PdfStream } from '../pdf/objects.js';
+import { decodePdfStream, type PdfReader } from '../pdf/reader.js';
+import { ValidationError } from '../../errors/index.js';
+import type { LabelFileResource } from '../../types/index.js';
+import { compressedLabelPdf, labelPdf } from './pdf-fixtures.js';
+
+function pdfFile(id: string, labels: string[], build = labelPdf): LabelFileResource {
+  return { id, contentType: 'application/pdf', labelFormat: 'PDF', rawBytes: build(labels) };
+}
+
+function zplFile(id: string, zpl: string): LabelFileResource {
+  return { id, contentType: 'application/x-zpl', labelFormat: 'ZPL', rawBytes: Buffer.from(zpl, 'latin1') };
+}
+
+function contentOf(reader: PdfReader, page: PdfDict | PdfStream): string {
+  const dict = page instanceof PdfStream ? page : reader.resolve(page.get('Contents') ?? null);
+  return dict instanceof PdfStream ? decodePdfStream(dict).toString('latin1') : '';
+}
+
+/** Text drawn on each page, looking through tiled form XObjects */
+function pageTexts(bytes: Uint8Array): string[][] {
+  const reader = openPdf(bytes);
+  return reader.pages().map(({ dict }) => {
+    const xobjects = reader.resolve((reader.resolve(dict.get('Resources') ?? null) as PdfDict).get('XObject') ?? null);
+    const sources = xobjects instanceof PdfDict
+      ? [...xobjects.entries.values()].map((ref) => contentOf(reader, reader.resolve(ref) as PdfStream))
+      : [contentOf(reader, dict)];
+    return sources.flatMap((text) =>
+      [...text.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map((m) => m[1].replace(/\\(.)/g, '$1'))
+    );
+  });
+}
+
+/** [a b c d e f] of every "cm" operator on a page */
+function placements(bytes: Uint8Array, page: number): number[][] {
+  const reader = openPdf(bytes);
+  const text = contentOf(reader, reader.pages()[page].dict);
+  return [...text.matchAll(/q ([-\d. ]+) cm/g)].map((m) => m[1].split(' ').map(Number));
+}
+
+describe('composeLabelSheet', () => {
+  it('merges PDF labels from several carriers in packing order', () => {
+    const sheet = composeLabelSheet([
+      { file: pdfFile('foxpost', ['FOX1', 'FOX2']), carrierId: 'hu-foxpost', sequence: 2 },
+      { file: pdfFile('gls', ['GLS1'], compressedLabelPdf), carrierId: 'hu-gls', sequence: 1 },
+      { file: pdfFile('mpl', ['MPL1', 'MPL2', 'MPL3']), carrierId: 'hu-mpl', pages: [3, 1] },
+    ]);
+
+    expect(pageTexts(sheet.rawBytes!)).toEqual([['GLS1'], ['FOX1'], ['FOX2'], ['MPL3'], ['MPL1']]);
+    expect(sheet).toMatchObject({
+      contentType: 'application/pdf',
+      labelFormat: 'PDF',
+      pages: 5,
+      byteLength: sheet.rawBytes!.byteLength,
+      metadata: { combined: true, labelCount: 5, sourceFileIds: ['gls', 'foxpost', 'mpl'], cover: false },
+    });
+  });
+
+  it('tiles A6 labels onto A4 sheets from the start position', () => {
+    const sheet = composeLabelSheet([pdfFile('f', ['1', '2', '3', '4', '5'])], { layout: '2x2', startPosition: 2 });
+    const reader = openPdf(sheet.rawBytes!);
+
+    expect(sheet.pages).toBe(2);
+    expect(readPdfRect(reader, reader.pages()[0].dict.get('MediaBox'))).toEqual([0, 0, 595.28, 841.89]);
+    expect(pageTexts(sheet.rawBytes!)).toEqual([['1', '2', '3'], ['4', '5']]);
+
+    // Label 1 sits unscaled in the top-right cell, centred vertically
+    const [first] = placements(sheet.rawBytes!, 0);
+    expect(first.slice(0, 4)).toEqual([1, 0, 0, 1]);
+    expect(first[4]).toBeCloseTo(297.64, 2);
+    expect(first[5]).toBeCloseTo(420.945 + (420.945 - 419.53) / 2, 2);
+  });
+
+  it('turns labels a quarter when that fits a 4x1 strip better', () => {
+    const sheet = composeLabelSheet([pdfFile('f', ['1', '2'])], { layout: '4x1' });
+    const [a, b, c, d] = placements(sheet.rawBytes!, 0)[0];
+
+    expect([a, d]).toEqual([0, 0]);
+    expect(c).toBeCloseTo(-b, 6);
+    // 419.53pt of label height along the 595pt strip, 297.64pt width into 210pt: scaled down
+    expect(Math.abs(b)).toBeCloseTo(210.4725 / 297.64, 4);
+  });
+
+  it('puts a summary cover page in front', () => {
+    const sheet = composeLabelSheet(
+      [
+        { file: pdfFile('a', ['A1', 'A2']), carrierId: 'hu-gls', reference: 'ORDER-1' },
+        { file: pdfFile('b', ['B1']), carrierId: 'hu-foxpost', reference: 'ORDER-2' },
+      ],
+      { layout: '2x2', cover: true }
+    );
+    const [cover, labels] = pageTexts(sheet.rawBytes!);
+
+    expect(sheet.pages).toBe(2);
+    expect(cover).toEqual(['Label sheet', '3 labels from 2 files', 'hu-gls: 2', 'hu-foxpost: 1', '', '1. ORDER-1 (hu-gls)', '2. ORDER-2 (hu-foxpost)']);
+    expect(labels).toEqual(['A1', 'A2', 'B1']);
+  });
+
+  it('produces one ZPL stream when every input is ZPL', () => {
+    const sheet = composeLabelSheet(
+      [zplFile('z1', '~DGR:LOGO.GRF,4,1,FF\n^XA^FDone^FS^XZ\n^XA^FDtwo^FS^XZ'), zplFile('z2', '^XA^FDthree^FS^XZ')],
+      { cover: { title: 'Run 42', lines: ['Station 3'] } }
+    );
+    const labels = splitZplLabels(sheet.rawBytes!).map((label) => label.toString('latin1'));
+
+    expect(sheet).toMatchObject({ contentType: 'application/x-zpl', labelFormat: 'ZPL', pages: 4, metadata: { labelCount: 3 } });
+    expect(labels[0]).toContain('^FDRun 42^FS');
+    expect(labels[0]).toContain('^FDStation 3^FS');
+    expect(labels.slice(1)).toEqual(['~DGR:LOGO.GRF,4,1,FF\n^XA^FDone^FS^XZ', '^XA^FDtwo^FS^XZ', '^XA^FDthree^FS^XZ']);
+  });
+
+  it('rejects inputs it cannot compose', () => {
+    const pdf = pdfFile('p', ['1']);
+    const compose = (...args: Parameters<typeof composeLabelSheet>) => () => composeLabelSheet(...args);
+
+    expect(compose([pdf, zplFile('z', '^XA^XZ')])).toThrow('ZPL labels cannot be merged into a PDF sheet');
+    expect(compose([{ ...pdf, rawBytes: undefined }])).toThrow(ValidationError);
+    expect(compose([pdf], { layout: '2x2', startPosition: 5 })).toThrow('startPosition must be between 1 and 4');
+    expect(compose([{ file: pdf, pages: [2] }])).toThrow(ValidationError);
+    expect(compose([])).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { chmod, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inflateSync, deflateSync } from 'node:zlib';
+import {
+  convertLabelFile,
+  createPdftoppmRasterizer,
+  pdfToZpl,
+  renderZplPreview,
+  type PdfRasterizer,
+} from '../convert.js';
+import { withLabelFormat } from '../with-label-format.js';
+import { bitmapToZpl, renderZplGraphics, splitZplLabels } from '../zpl.js';
+import { createBitmap, encodePng, parsePgm, thresholdImage, type GrayImage, type MonochromeBitmap } from '../raster.js';
+import { countPdfPages, openPdf, readPdfRect } from '../pdf/pages.js';
+import { ValidationError } from '../../errors/index.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import type { CarrierAdapter } from '../../interfaces/index.js';
+import type { LabelFileResource } from '../../types/index.js';
+import { labelPdf } from './pdf-fixtures.js';
+
+/** Bitmap with a mix of runs, repeated rows and all-white / all-black tails */
+function sampleBitmap(): MonochromeBitmap {
+  const bitmap = createBitmap(100, 40);
+  for (let y = 0; y < 40; y++) {
+    for (let x = 0; x < 100; x++) {
+      const black = y < 10 ? x < 60 : y < 20 ? (x * 7 + y) % 5 === 0 : y < 30 ? x >= 30 : false;
+      if (black) bitmap.data[y * 13 + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+  return bitmap;
+}
+
+/** Gray image of `width` x `height` with a black square in the top-left quarter */
+function grayLabel(width: number, height: number): GrayImage {
+  const data = new Uint8Array(width * height).fill(255);
+  for (let y = 0; y < height / 2; y++) data.fill(0, y * width, y * width + Math.floor(width / 2));
+  return { width, height, data };
+}
+
+const fakeRasterizer = (): PdfRasterizer & { rasterize: ReturnType<typeof vi.fn> } => ({
+  rasterize: vi.fn(async (_pdf: Uint8Array, _page: number, dpi: number) => grayLabel(dpi === 300 ? 48 : 32, 40)),
+});
+
+describe('ZPL graphic fields', () => {
+  it('round-trips bitmaps through compressed ^GFA data', () => {
+    const bitmap = sampleBitmap();
+    const zpl = bitmapToZpl(bitmap).toString('latin1');
+
+    expect(zpl).toMatch(/^\^XA\^PW100\^LL40\^FO0,0\^GFA,520,520,13,/);
+    // repeated rows collapse to ':' and white tails to ','
+    expect(zpl).toContain(':');
+    expect(zpl).toContain(',');
+    expect(zpl.length).toBeLessThan(520 * 2);
+
+    const { labels, unsupported } = renderZplGraphics(zpl);
+    expect(unsupported).toEqual([]);
+    expect(labels[0]).toEqual({ width: 100, height: 40, data: bitmap.data });
+  });
+
+  it('decodes hand-written compressed, Z64 and positioned fields', () => {
+    const z64 = deflateSync(Buffer.from([0xff, 0x00]));
+    const { labels } = renderZplGraphics(
+      '^XA^PW32^LL6^FO0,0^GFA,6,6,2,!:H0F,^FS^FO16,4^GFA,2,2,1,:Z64:' + z64.toString('base64') + ':1234^FS^XZ'
+    );
+    const rows = Array.from({ length: 6 }, (_, y) => Buffer.from(labels[0].data.subarray(y * 4, y * 4 + 4)).toString('hex'));
+
+    expect(rows).toEqual(['ffff0000', 'ffff0000', '00f00000', '00000000', '0000ff00', '00000000']);
+  });
+
+  it('draws ^GB boxes and reports text and barcodes it cannot draw', () => {
+    const { labels, unsupported } = renderZplGraphics('^XA^PW16^LL4^FO0,0^GB16,4,4^FS^FO0,0^A0N,20,20^FDHello^FS^BCN^FD123^FS^XZ');
+
+    expect(Buffer.from(labels[0].data).toString('hex')).toBe('ffffffffffffffff');
+    expect(unsupported.sort()).toEqual(['A0', 'BC', 'FD']);
+  });
+});
+
+describe('raster helpers', () => {
+  it('reads PGM images and thresholds them', () => {
+    const pgm = Buffer.concat([Buffer.from('P5\n# pdftoppm\n3 2\n255\n', 'latin1'), Buffer.from([0, 200, 100, 255, 0, 127])]);
+    const image = parsePgm(pgm);
+
+    expect(image).toMatchObject({ width: 3, height: 2 });
+    expect(Array.from(thresholdImage(image).data)).toEqual([0b10100000, 0b01100000]);
+    expect(() => parsePgm(Buffer.from('P6\n1 1\n255\n\0\0\0'))).toThrow(ValidationError);
+  });
+
+  it('encodes 1-bit PNGs with black as 0', () => {
+    const png = encodePng(sampleBitmap(), 203);
+    const ihdr = png.subarray(16, 29);
+
+    expect(png.subarray(0, 8).toString('hex')).toBe('89504e470d0a1a0a');
+    expect([ihdr.readUInt32BE(0), ihdr.readUInt32BE(4), ihdr[8], ihdr[9]]).toEqual([100, 40, 1, 0]);
+
+    const idatAt = png.indexOf('IDAT');
+    const raw = inflateSync(png.subarray(idatAt + 4, idatAt + 4 + png.readUInt32BE(idatAt - 4)));
+    expect(raw.length).toBe(40 * 14);
+    expect([raw[0], raw[1]]).toEqual([0, 0x00]); // filter byte, then 8 black pixels
+  });
+});
+
+describe('PDF -> ZPL conversion', () => {
+  it('rasterises every page into its own ZPL label', async () => {
+    const rasterizer = fakeRasterizer();
+    const zpl = await pdfToZpl(labelPdf(['A', 'B']), { rasterizer, dpi: 300 });
+    const labels = splitZplLabels(zpl);
+
+    expect(labels).toHaveLength(2);
+    expect(rasterizer.rasterize.mock.calls.map((call) => [call[1], call[2]])).toEqual([[1, 300], [2, 300]]);
+    expect(renderZplGraphics(labels[0]).labels[0]).toEqual(thresholdImage(grayLabel(48, 40)));
+  });
+
+  it('converts label files, keeping the id results point at', async () => {
+    const file: LabelFileResource = {
+      id: 'f1',
+      contentType: 'application/pdf',
+      labelFormat: 'PDF',
+      checksum: 'abc',
+      metadata: { size: 'A7' },
+      rawBytes: labelPdf(['A', 'B', 'C']),
+    };
+    const zpl = await convertLabelFile(file, 'ZPL', { rasterizer: fakeRasterizer() });
+
+    expect(zpl).toMatchObject({
+      id: 'f1',
+      contentType: 'application/x-zpl',
+      labelFormat: 'ZPL',
+      pages: 3,
+      metadata: { size: 'A7', convertedFrom: 'PDF', dpi: 203 },
+    });
+    expect(zpl.checksum).toBeUndefined();
+
+    // ... and back to a PDF page of the same physical size (32 x 40 dots at 203 dpi)
+    const pdf = await convertLabelFile(zpl, 'PDF');
+    const reader = openPdf(pdf.rawBytes!);
+    expect(countPdfPages(pdf.rawBytes!)).toBe(3);
+    expect(readPdfRect(reader, reader.pages()[0].dict.get('MediaBox'))!.map((n) => Math.round(n * 100) / 100)).toEqual([
+      0, 0, 11.35, 14.19,
+    ]);
+  });
+
+  it('needs a rasterizer for PDF input and graphic-only ZPL for PDF output', async () => {
+    const pdf: LabelFileResource = { id: 'p', contentType: 'application/pdf', rawBytes: labelPdf(['A']) };
+    const zpl: LabelFileResource = { id: 'z', contentType: 'application/x-zpl', rawBytes: Buffer.from('^XA^FDHello^FS^XZ') };
+
+    await expect(convertLabelFile(pdf, 'ZPL')).rejects.toThrow('needs a rasterizer');
+    await expect(convertLabelFile(zpl, 'PDF')).rejects.toThrow('cannot be converted to PDF: FD');
+    await expect(convertLabelFile({ ...pdf, rawBytes: undefined }, 'ZPL')).rejects.toThrow(ValidationError);
+    expect(await convertLabelFile(pdf, 'PDF')).toBe(pdf);
+  });
+});
+
+describe('renderZplPreview', () => {
+  const zpl = Buffer.concat([bitmapToZpl(sampleBitmap()), bitmapToZpl(createBitmap(8, 8))]);
+
+  it('renders one label as PNG or all labels as PDF', () => {
+    const png = renderZplPreview(zpl, { label: 2 });
+    const pdf = renderZplPreview(zpl, { format: 'pdf' });
+
+    expect(png).toMatchObject({ contentType: 'image/png', labelCount: 2, unsupported: [] });
+    expect(png.bytes.readUInt32BE(16)).toBe(8);
+    expect(pdf.contentType).toBe('application/pdf');
+    expect(countPdfPages(pdf.bytes)).toBe(2);
+  });
+
+  it('rejects streams without labels and out-of-range labels', () => {
+    expect(() => renderZplPreview('nothing here')).toThrow(ValidationError);
+    expect(() => renderZplPreview(zpl, { label: 3 })).toThrow('Label 3 is out of range');
+  });
+
+  it('refuses text and barcodes unless a partial preview is allowed', () => {
+    const carrierZpl = '^XA^PW16^LL4^FO0,0^GB16,4,4^FS^FO0,0^A0N,20,20^FDHello^FS^XZ';
+
+    expect(() => renderZplPreview(carrierZpl)).toThrow(ValidationError);
+    expect(renderZplPreview(carrierZpl, { allowPartial: true }).unsupported).toEqual(['A0', 'FD']);
+  });
+});
+
+describe('withLabelFormat', () => {
+  function makeAdapter(): CarrierAdapter {
+    return {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.CREATE_LABEL, Capabilities.CREATE_LABELS],
+      createLabels: vi.fn(async () => ({
+        results: [{ inputId: 'CLFOX1', status: 'created', fileId: 'f1', pageRange: { start: 1, end: 1 } }],
+        files: [{ id: 'f1', contentType: 'application/pdf', labelFormat: 'PDF', pages: 1, rawBytes: labelPdf(['A']) }],
+        successCount: 1,
+        failureCount: 0,
+        totalCount: 1,
+        allSucceeded: true,
+        allFailed: false,
+        someFailed: false,
+        summary: 'ok',
+      })),
+      createLabel: vi.fn(async () => ({
+        inputId: 'CLFOX1',
+        status: 'created',
+        fileId: 'f2',
+        file: { id: 'f2', contentType: 'application/pdf', labelFormat: 'PDF', rawBytes: labelPdf(['B']) },
+      })),
+    } as unknown as CarrierAdapter;
+  }
+
+  it('converts PDF labels when the request asks for ZPL', async () => {
+    const rasterizer = fakeRasterizer();
+    const adapter = withLabelFormat(makeAdapter(), { rasterizer });
+
+    const batch = await adapter.createLabels!(
+      { parcelCarrierIds: ['CLFOX1'], credentials: {}, options: { labelFormat: 'ZPL', labelDpi: 300 } },
+      {}
+    );
+    const single = await adapter.createLabel!({ parcelCarrierId: 'CLFOX1', credentials: {}, options: { labelFormat: 'ZPL' } }, {});
+
+    expect(batch.files![0]).toMatchObject({ id: 'f1', labelFormat: 'ZPL', metadata: { dpi: 300 } });
+    expect(batch.results[0]).toMatchObject({ fileId: 'f1', pageRange: { start: 1, end: 1 } });
+    expect(single.file).toMatchObject({ id: 'f2', labelFormat: 'ZPL', metadata: { dpi: 203 } });
+  });
+
+  it('leaves responses alone without a preference', async () => {
+    const rasterizer = fakeRasterizer();
+    const adapter = withLabelFormat(makeAdapter(), { rasterizer });
+
+    const batch = await adapter.createLabels!({ parcelCarrierIds: ['CLFOX1'], credentials: {} }, {});
+
+    expect(batch.files![0].labelFormat).toBe('PDF');
+    expect(rasterizer.rasterize).not.toHaveBeenCalled();
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('createPdftoppmRasterizer', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'shopickup-raster-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function script(name: string, body: string): Promise<string> {
+    const path = join(directory, name);
+    await writeFile(path, `#!/bin/sh\n${body}\n`);
+    await chmod(path, 0o755);
+    return path;
+  }
+
+  it('pipes the PDF in and reads a PGM back', async () => {
+    // Echo the arguments into the PGM comment, then a 2x1 black/white image
+    const command = await script('ok.sh', 'cat > /dev/null; printf "P5\\n# $*\\n2 1\\n255\\n\\000\\377"');
+    const image = await createPdftoppmRasterizer({ command }).rasterize(labelPdf(['A']), 1, 203);
+
+    expect(image).toEqual({ width: 2, height: 1, data: new Uint8Array([0, 255]) });
+  });
+
+  it('rejects when the command fails or is missing', async () => {
+    const command = await script('fail.sh', 'echo "Syntax Error" >&2; exit 1');
+
+    await expect(createPdftoppmRasterizer({ command }).rasterize(labelPdf(['A']), 1, 203)).rejects.toThrow(
+      'failed (exit code 1): Syntax Error'
+    );
+    await expect(createPdftoppmRasterizer({ command: join(directory, 'missing') }).rasterize(labelPdf(['A']), 1, 203)).rejects.toThrow(
+      'Could not run'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Minimal label PDFs built in memory for the PDF utility specs
+ */
+
+import { deflateSync } from 'node:zlib';
+
+const A6 = '[0 0 297.64 419.53]';
+const A4 = '[0 0 595.28 841.89]';
+
+function content(label: string): string {
+  return `BT /F1 12 Tf 20 20 Td (${label}) Tj ET`;
+}
+
+/**
+ * Assemble "n 0 obj" bodies into a PDF with a classic xref table
+ * MediaBox and Resources live on the page tree root and are inherited
+ */
+function assemble(bodies: string[]): Buffer {
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  bodies.forEach((body, idx) => {
+    offsets.push(out.length);
+    out += `${idx + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefAt = out.length;
+  out += `xref\n0 ${bodies.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${bodies.length + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return Buffer.from(out, 'latin1');
+}
+
+/**
+ * One page per label, e.g. Foxpost/GLS "Thermo" output
+ * Objects: 1 catalog, 2 pages, 3 font, then (page, content) per label
+ */
+export function labelPdf(labels: string[], options: { a4?: boolean } = {}): Buffer {
+  const bodies = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const kids: string[] = [];
+  labels.forEach((label) => {
+    const pageNum = bodies.length + 1;
+    const stream = content(label);
+    bodies.push(`<< /Type /Page /Parent 2 0 R /Contents ${pageNum + 1} 0 R >>`);
+    bodies.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    kids.push(`${pageNum} 0 R`);
+  });
+  bodies[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} `
+    + `/MediaBox ${options.a4 ? A4 : A6} /Resources << /Font << /F1 3 0 R >> >> >>`;
+  return assemble(bodies);
+}
+
+/**
+ * Same document shape, but with objects packed into an object stream and a
+ * compressed cross-reference stream using the PNG Up predictor (PDF 1.5 style)
+ */
+export function compressedLabelPdf(labels: string[]): Buffer {
+  const packed: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const kids: string[] = [];
+  const streams: string[] = [];
+  labels.forEach((label, idx) => {
+    const pageNum = 4 + idx;
+    kids.push(`${pageNum} 0 R`);
+    packed.push(`<< /Type /Page /Parent 2 0 R /Contents ${4 + labels.length + idx} 0 R >>`);
+    streams.push(content(label));
+  });
+  packed[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} /MediaBox ${A6} `
+    + '/Resources << /Font << /F1 3 0 R >> >> >>';
+
+  // Object stream holding objects 1..(3 + labels)
+  let header = '';
+  let body = '';
+  packed.forEach((obj, idx) => {
+    header += `${idx + 1} ${body.length} `;
+    body += `${obj}\n`;
+  });
+  const objStmData = deflateSync(Buffer.from(header + body, 'latin1'));
+  const objStmNum = 4 + labels.length * 2;
+
+  let out = Buffer.from('%PDF-1.5\n', 'latin1');
+  const direct = new Map<number, number>();
+  const append = (num: number, text: string, data?: Buffer) => {
+    direct.set(num, out.length);
+    const parts: Buffer[] = [Buffer.from(`${num} 0 obj\n${text}`, 'latin1')];
+    if (data) parts.push(Buffer.from('\nstream\n', 'latin1'), data, Buffer.from('\nendstream', 'latin1'));
+    parts.push(Buffer.from('\nendobj\n', 'latin1'));
+    out = Buffer.concat([out, ...parts]);
+  };
+  streams.forEach((stream, idx) => {
+    append(4 + labels.length + idx, `<< /Length ${stream.length} >>`, Buffer.from(stream, 'latin1'));
+  });
+  append(
+    objStmNum,
+    `<< /Type /ObjStm /N ${packed.length} /First ${header.length} /Filter /FlateDecode /Length ${objStmData.length} >>`,
+    objStmData
+  );
+
+  // Rows of [type, field2 (2 bytes), field3 (1 byte)], each prefixed with PNG filter 2 (Up)
+  const xrefNum = objStmNum + 1;
+  const size = xrefNum + 1;
+  const rows: number[][] = [];
+  for (let num = 0; num < size; num++) {
+    if (num === 0) rows.push([0, 0, 0, 255]);
+    else if (num <= packed.length) rows.push([2, 0, objStmNum, num - 1]);
+    else if (num === xrefNum) rows.push([1, (out.length >> 8) & 0xff, out.length & 0xff, 0]);
+    else rows.push([1, (direct.get(num)! >> 8) & 0xff, direct.get(num)! & 0xff, 0]);
+  }
+  const encoded: number[] = [];
+  let prev = [0, 0, 0, 0];
+  for (const row of rows) {
+    encoded.push(2, ...row.map((b, i) => (b - prev[i] + 256) & 0xff));
+    prev = row;
+  }
+  const xrefData = deflateSync(Buffer.from(encoded));
+  const xrefAt = out.length;
+  append(
+    xrefNum,
+    `<< /Type /XRef /Size ${size} /W [1 2 1] /Root 1 0 R /Filter /FlateDecode `
+      + `/DecodeParms << /Columns 4 /Predictor 12 >> /Length ${xrefData.length} >>`,
+    xrefData
+  );
+  return Buffer.concat([out, Buffer.from(`startxref\n${xrefAt}\n%%EOF\n`, 'latin1')]);
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { countPdfPages, extractPdfPages, openPdf, readPdfRect } from '../pdf/pages.js';
+import { PdfStream } from '../pdf/objects.js';
+import { decodePdfStream, type PdfReader } from '../pdf/reader.js';
+import { splitLabelFiles } from '../split.js';
+import { ValidationError } from '../../errors/index.js';
+import type { CreateLabelsResponse, LabelFileResource, LabelResult } from '../../types/index.js';
+import { compressedLabelPdf, labelPdf } from './pdf-fixtures.js';
+
+function pageTexts(bytes: Uint8Array): string[] {
+  const reader = openPdf(bytes);
+  return reader.pages().map(({ dict }) => {
+    const contents = reader.resolve(dict.get('Contents') ?? null);
+    return contents instanceof PdfStream ? decodePdfStream(contents).toString('latin1').match(/\((.*)\)/)![1] : '';
+  });
+}
+
+function mediaBox(reader: PdfReader, page = 0) {
+  return readPdfRect(reader, reader.pages()[page].dict.get('MediaBox'));
+}
+
+function response(file: LabelFileResource, results: LabelResult[]): CreateLabelsResponse {
+  return {
+    results,
+    files: [file],
+    successCount: results.length,
+    failureCount: 0,
+    totalCount: results.length,
+    allSucceeded: true,
+    allFailed: false,
+    someFailed: false,
+    summary: 'ok',
+  };
+}
+
+const created = (inputId: string, fileId: string, pageRange?: { start: number; end: number }): LabelResult => ({
+  inputId,
+  status: 'created',
+  fileId,
+  pageRange,
+});
+
+describe('PDF page utilities', () => {
+  it.each([
+    ['classic xref table', labelPdf],
+    ['xref and object streams', compressedLabelPdf],
+  ])('counts and extracts pages (%s)', (_name, build) => {
+    const pdf = build(['A', 'B', 'C']);
+
+    expect(countPdfPages(pdf)).toBe(3);
+
+    const extracted = extractPdfPages(pdf, [3, 1]);
+    expect(countPdfPages(extracted)).toBe(2);
+    expect(pageTexts(extracted)).toEqual(['C', 'A']);
+
+    // inherited attributes are copied onto the extracted pages
+    const reader = openPdf(extracted);
+    expect(mediaBox(reader)).toEqual([0, 0, 297.64, 419.53]);
+    const font = reader.resolve(reader.pages()[0].dict.get('Resources') ?? null);
+    expect(font).toBeTruthy();
+  });
+
+  it('rebuilds the cross-reference table when offsets are wrong', () => {
+    const pdf = labelPdf(['A', 'B']);
+    const text = pdf.toString('latin1').replace(/startxref\n\d+/, 'startxref\n12');
+    expect(countPdfPages(Buffer.from(text, 'latin1'))).toBe(2);
+  });
+
+  it('rejects page numbers outside the document', () => {
+    expect(() => extractPdfPages(labelPdf(['A']), [2])).toThrow(ValidationError);
+  });
+
+  it('rejects data that is not a PDF, and encrypted PDFs', () => {
+    expect(() => countPdfPages(Buffer.from('not a pdf'))).toThrow(ValidationError);
+
+    const encrypted = labelPdf(['A']).toString('latin1').replace('/Root 1 0 R', '/Root 1 0 R /Encrypt << /Filter /Standard >>');
+    expect(() => countPdfPages(Buffer.from(encrypted, 'latin1'))).toThrow('Encrypted PDFs are not supported');
+  });
+});
+
+describe('splitLabelFiles', () => {
+  it('splits one combined PDF into a file per parcel using pageRange', () => {
+    const combined: LabelFileResource = {
+      id: 'combined',
+      contentType: 'application/pdf',
+      labelFormat: 'PDF',
+      orientation: 'portrait',
+      metadata: { size: 'A7', combined: true },
+      rawBytes: labelPdf(['CLFOX1', 'CLFOX2', 'CLFOX3']),
+    };
+    const split = splitLabelFiles(response(combined, [
+      created('CLFOX1', 'combined', { start: 1, end: 1 }),
+      created('CLFOX2', 'combined', { start: 2, end: 2 }),
+      created('CLFOX3', 'combined', { start: 3, end: 3 }),
+    ]));
+
+    expect(split.files).toHaveLength(3);
+    split.results.forEach((result, idx) => {
+      const file = split.files!.find((f) => f.id === result.fileId)!;
+      expect(result.pageRange).toEqual({ start: 1, end: 1 });
+      expect(file).toMatchObject({
+        pages: 1,
+        byteLength: file.rawBytes!.byteLength,
+        metadata: { size: 'A7', combined: false, sourceFileId: 'combined', sourcePageRange: { start: idx + 1, end: idx + 1 } },
+      });
+      expect(pageTexts(file.rawBytes!)).toEqual([`CLFOX${idx + 1}`]);
+    });
+  });
+
+  it('splits evenly when results carry no pageRange', () => {
+    const file: LabelFileResource = { id: 'f', contentType: 'application/pdf', rawBytes: labelPdf(['1a', '1b', '2a', '2b']) };
+    const split = splitLabelFiles(response(file, [created('P1', 'f'), created('P2', 'f')]));
+
+    expect(split.results.map((r) => r.pageRange)).toEqual([{ start: 1, end: 2 }, { start: 1, end: 2 }]);
+    expect(pageTexts(split.files!.find((f) => f.id === split.results[1].fileId)!.rawBytes!)).toEqual(['2a', '2b']);
+  });
+
+  it('crops labels out of tiled sheets, honouring the start position', () => {
+    const file: LabelFileResource = {
+      id: 'sheet',
+      contentType: 'application/pdf',
+      labelFormat: 'PDF',
+      layout: { columns: 2, rows: 2, startPosition: 2 },
+      rawBytes: labelPdf(['sheet 1', 'sheet 2'], { a4: true }),
+    };
+    const split = splitLabelFiles(response(file, ['A', 'B', 'C', 'D'].map((id) => created(id, 'sheet'))));
+    const box = (idx: number) => {
+      const part = split.files!.find((f) => f.id === split.results[idx].fileId)!;
+      return { page: part.metadata!.sourcePageRange, box: mediaBox(openPdf(part.rawBytes!))!.map((n) => Math.round(n)) };
+    };
+
+    // start position 2 = top-right cell; the fourth label wraps to page 2
+    expect(box(0)).toEqual({ page: { start: 1, end: 1 }, box: [298, 421, 595, 842] });
+    expect(box(1)).toEqual({ page: { start: 1, end: 1 }, box: [0, 0, 298, 421] });
+    expect(box(2)).toEqual({ page: { start: 1, end: 1 }, box: [298, 0, 595, 421] });
+    expect(box(3)).toEqual({ page: { start: 2, end: 2 }, box: [0, 421, 298, 842] });
+    expect(split.files!.every((f) => f.layout === undefined && f.orientation === 'portrait')).toBe(true);
+  });
+
+  it('keeps the combined file when asked to', () => {
+    const file: LabelFileResource = { id: 'f', contentType: 'application/pdf', rawBytes: labelPdf(['1', '2']) };
+    const split = splitLabelFiles(response(file, [created('P1', 'f'), created('P2', 'f')]), { keepCombined: true });
+
+    expect(split.files!.map((f) => f.id)[0]).toBe('f');
+    expect(split.files).toHaveLength(3);
+  });
+
+  it('leaves files it cannot map, ZPL files and single-label files as they are', () => {
+    const odd: LabelFileResource = { id: 'odd', contentType: 'application/pdf', rawBytes: labelPdf(['1', '2', '3']) };
+    const zpl: LabelFileResource = { id: 'zpl', contentType: 'text/plain', labelFormat: 'ZPL', rawBytes: Buffer.from('^XA^XZ') };
+    const single: LabelFileResource = { id: 'one', contentType: 'application/pdf', rawBytes: labelPdf(['1']) };
+
+    const split = splitLabelFiles({
+      ...response(odd, [created('P1', 'odd'), created('P2', 'odd'), created('P3', 'zpl'), created('P4', 'one')]),
+      files: [odd, zpl, single],
+    });
+
+    expect(split.files!.map((f) => [f.id, f.pages])).toEqual([['odd', 3], ['zpl', undefined], ['one', 1]]);
+    expect(split.results.map((r) => r.fileId)).toEqual(['odd', 'odd', 'zpl', 'one']);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createHash } from 'node:crypto';
+import { InMemoryLabelStorage } from '../in-memory-storage.js';
+import { FilesystemLabelStorage } from '../filesystem-storage.js';
+import { withLabelStorage } from '../with-label-storage.js';
+import { verifyLabelUrlSignature, type LabelStorage } from '../storage.js';
+import { ValidationError } from '../../errors/index.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import type { CarrierAdapter } from '../../interfaces/index.js';
+
+const PDF = Buffer.from('%PDF-1.4\n% fake label\n%%EOF');
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+describe('LabelStorage backends', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'shopickup-labels-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => LabelStorage]> = [
+    ['InMemoryLabelStorage', () => new InMemoryLabelStorage()],
+    ['FilesystemLabelStorage', () => new FilesystemLabelStorage({ directory })],
+  ];
+
+  describe.each(backends)('%s', (_name, create) => {
+    it('round-trips bytes and metadata', async () => {
+      const storage = create();
+      const stored = await storage.put('hu-foxpost/file-1.pdf', PDF, {
+        contentType: 'application/pdf',
+        metadata: { carrierId: 'hu-foxpost' },
+      });
+
+      expect(stored).toMatchObject({ key: 'hu-foxpost/file-1.pdf', byteLength: PDF.byteLength, checksum: sha256(PDF) });
+
+      const file = await storage.get('hu-foxpost/file-1.pdf');
+      expect(file?.bytes.equals(PDF)).toBe(true);
+      expect(file?.label).toMatchObject({ contentType: 'application/pdf', metadata: { carrierId: 'hu-foxpost' } });
+      expect(file?.label.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('deletes files', async () => {
+      const storage = create();
+      await storage.put('a.pdf', PDF, { contentType: 'application/pdf' });
+
+      expect(await storage.delete('a.pdf')).toBe(true);
+      expect(await storage.get('a.pdf')).toBeNull();
+      expect(await storage.delete('a.pdf')).toBe(false);
+    });
+
+    it('rejects keys that could escape the storage root', async () => {
+      const storage = create();
+      for (const key of ['../etc/passwd', '/abs.pdf', 'a/../../b', '.meta/x', '']) {
+        await expect(storage.put(key, PDF, { contentType: 'application/pdf' })).rejects.toBeInstanceOf(ValidationError);
+        await expect(storage.get(key)).rejects.toBeInstanceOf(ValidationError);
+        await expect(storage.delete(key)).rejects.toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it('refuses URLs for unknown keys', async () => {
+      await expect(create().getSignedUrl('missing.pdf')).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  it('returns file:// URLs from the filesystem backend without a baseUrl', async () => {
+    const storage = new FilesystemLabelStorage({ directory });
+    await storage.put('hu-gls/1.pdf', PDF, { contentType: 'application/pdf' });
+
+    const { url, expiresAt } = await storage.getSignedUrl('hu-gls/1.pdf');
+
+    expect(url.startsWith('file://')).toBe(true);
+    expect(expiresAt).toBeUndefined();
+    expect((await readFile(fileURLToPath(url))).equals(PDF)).toBe(true);
+  });
+
+  it('signs URLs under baseUrl when a signing secret is set', async () => {
+    vi.useFakeTimers({ now: new Date('2024-06-12T10:00:00Z') });
+    try {
+      const storage = new InMemoryLabelStorage({ baseUrl: 'https://api.example.com/labels/', signingSecret: 's3cret' });
+      await storage.put('hu-mpl/1.pdf', PDF, { contentType: 'application/pdf' });
+
+      const signed = await storage.getSignedUrl('hu-mpl/1.pdf', { expiresInSeconds: 60 });
+      const url = new URL(signed.url);
+
+      expect(`${url.origin}${url.pathname}`).toBe('https://api.example.com/labels/hu-mpl/1.pdf');
+      expect(signed.expiresAt).toEqual(new Date('2024-06-12T10:01:00Z'));
+
+      const params = { expires: url.searchParams.get('expires')!, signature: url.searchParams.get('signature')! };
+      expect(verifyLabelUrlSignature('hu-mpl/1.pdf', params, 's3cret')).toBe(true);
+      expect(verifyLabelUrlSignature('hu-mpl/2.pdf', params, 's3cret')).toBe(false);
+      expect(verifyLabelUrlSignature('hu-mpl/1.pdf', params, 'other')).toBe(false);
+      expect(verifyLabelUrlSignature('hu-mpl/1.pdf', params, 's3cret', new Date('2024-06-12T10:02:00Z'))).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('withLabelStorage', () => {
+  function makeAdapter(): CarrierAdapter {
+    return {
+      id: 'hu-foxpost',
+      capabilities: [Capabilities.CREATE_LABEL, Capabilities.CREATE_LABELS, Capabilities.TRACK],
+      createLabels: vi.fn(async () => ({
+        results: [
+          { inputId: 'CLFOX1', status: 'created', fileId: 'f1', pageRange: { start: 1, end: 1 } },
+          { inputId: 'CLFOX2', status: 'created', fileId: 'f1', pageRange: { start: 2, end: 2 } },
+        ],
+        files: [{ id: 'f1', contentType: 'application/pdf', labelFormat: 'PDF', pages: 2, rawBytes: PDF }],
+        successCount: 2,
+        failureCount: 0,
+        totalCount: 2,
+        allSucceeded: true,
+        allFailed: false,
+        someFailed: false,
+        summary: 'ok',
+      })),
+      createLabel: vi.fn(async () => ({
+        inputId: 'CLFOX1',
+        status: 'created',
+        fileId: 'f2',
+        file: { id: 'f2', contentType: 'application/x-zpl', labelFormat: 'ZPL', rawBytes: Buffer.from('^XA^XZ') },
+      })),
+      track: vi.fn(async () => ({ trackingNumber: 'CLFOX1', events: [], status: 'PENDING', lastUpdate: null })),
+    } as unknown as CarrierAdapter;
+  }
+
+  it('moves rawBytes into storage and fills url, byteLength and checksum', async () => {
+    const storage = new InMemoryLabelStorage();
+    const adapter = withLabelStorage(makeAdapter(), storage, { keyPrefix: 'labels/' });
+
+    const response = await adapter.createLabels!({ parcelCarrierIds: ['CLFOX1', 'CLFOX2'], credentials: {} }, {});
+
+    const [file] = response.files!;
+    expect(file).not.toHaveProperty('rawBytes');
+    expect(file).toMatchObject({
+      id: 'f1',
+      url: 'memory://labels/labels/hu-foxpost/f1.pdf',
+      byteLength: PDF.byteLength,
+      checksum: sha256(PDF),
+      pages: 2,
+    });
+    expect(response.results[1].pageRange).toEqual({ start: 2, end: 2 });
+    expect((await storage.get('labels/hu-foxpost/f1.pdf'))?.bytes.equals(PDF)).toBe(true);
+  });
+
+  it('handles single-label responses and uses .zpl keys for ZPL', async () => {
+    const storage = new InMemoryLabelStorage();
+    const adapter = withLabelStorage(makeAdapter(), storage);
+
+    const response = await adapter.createLabel!({ parcelCarrierId: 'CLFOX1', credentials: {} }, {});
+
+    expect(response.file).toMatchObject({ url: 'memory://labels/hu-foxpost/f2.zpl', byteLength: 6 });
+    expect(response.file).not.toHaveProperty('rawBytes');
+  });
+
+  it('stores the files of print-label methods such as GLS printLabels', async () => {
+    const storage = new InMemoryLabelStorage();
+    const base = makeAdapter();
+    const adapter = withLabelStorage(
+      { ...base, printLabels: base.createLabels } as CarrierAdapter & { printLabels: CarrierAdapter['createLabels'] },
+      storage
+    );
+
+    const response = await adapter.printLabels!({ parcelCarrierIds: ['CLFOX1', 'CLFOX2'], credentials: {} }, {});
+
+    expect(response.files![0]).toMatchObject({ url: 'memory://labels/hu-foxpost/f1.pdf' });
+    expect(response.files![0]).not.toHaveProperty('rawBytes');
+  });
+
+  it('leaves other methods untouched', async () => {
+    const base = makeAdapter();
+    const adapter = withLabelStorage(base, new InMemoryLabelStorage());
+
+    await adapter.track!({ trackingNumber: 'CLFOX1' }, {});
+
+    expect(base.track).toHaveBeenCalledOnce();
+  });
+});
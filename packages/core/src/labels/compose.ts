@@ -0,0 +1,209 @@
+/**
+ * Label sheet composition
+ * Merges label files from any carriers into one print job
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ValidationError } from '../errors/index.js';
+import type { LabelFileResource, LabelSheetLayout } from '../types/index.js';
+import { labelFileFormat } from './convert.js';
+import { A4_RECT, openPdf, type PdfRect } from './pdf/pages.js';
+import { composePdfSheet, type PdfSheetLabel } from './pdf/sheet.js';
+import { splitZplLabels, zplTextLabel } from './zpl.js';
+
+export interface LabelSheetEntry {
+  file: LabelFileResource;
+
+  /** Carrier the file came from (e.g. "hu-gls"); counted on the cover page */
+  carrierId?: string;
+
+  /** Shown on the cover page, e.g. an order number */
+  reference?: string;
+
+  /** Position in the packing sequence; entries are sorted by it, ties keep input order */
+  sequence?: number;
+
+  /** 1-based pages (PDF) or labels (ZPL) to take from the file (default: all) */
+  pages?: number[];
+}
+
+/**
+ * A4 presets: '2x2' holds four A6 labels, '4x1' four labels in one column
+ */
+export type LabelSheetPreset = '2x2' | '4x1';
+
+export interface LabelSheetCover {
+  /** Default: "Label sheet" */
+  title?: string;
+
+  /** Replaces the default summary (label count per carrier and the references) */
+  lines?: string[];
+}
+
+export interface ComposeLabelSheetOptions {
+  /** Tile labels onto sheets (PDF output only); omit to print one label per page */
+  layout?: LabelSheetPreset | LabelSheetLayout;
+
+  /** 1-based cell of the first label on the first sheet, like Foxpost `startPos` (default: 1) */
+  startPosition?: number;
+
+  /** Sheet size in PDF points (default: A4 portrait) */
+  sheetSize?: PdfRect;
+
+  /** Put a cover page (PDF) or cover label (ZPL) in front of the labels */
+  cover?: boolean | LabelSheetCover;
+}
+
+const PRESETS: Record<LabelSheetPreset, LabelSheetLayout> = {
+  '2x2': { columns: 2, rows: 2 },
+  '4x1': { columns: 1, rows: 4 },
+};
+
+function resolveLayout(options: ComposeLabelSheetOptions): LabelSheetLayout | undefined {
+  if (!options.layout) {
+    return undefined;
+  }
+  const base = typeof options.layout === 'string' ? PRESETS[options.layout] : options.layout;
+  if (!base) {
+    throw new ValidationError(`Unknown label sheet layout: '${options.layout}'`, { layout: options.layout });
+  }
+  const layout = { ...base, startPosition: options.startPosition ?? base.startPosition };
+  const cells = layout.columns * layout.rows;
+  if (!Number.isInteger(layout.columns) || !Number.isInteger(layout.rows) || cells < 1) {
+    throw new ValidationError('Label sheet layout needs whole, positive columns and rows', { layout });
+  }
+  if (layout.startPosition !== undefined
+    && (!Number.isInteger(layout.startPosition) || layout.startPosition < 1 || layout.startPosition > cells)) {
+    throw new ValidationError(`startPosition must be between 1 and ${cells}`, { startPosition: layout.startPosition });
+  }
+  return layout;
+}
+
+/**
+ * Pick 1-based items out of a list, validating the numbers
+ */
+function select<T>(items: T[], pages: number[] | undefined, fileId: string): T[] {
+  if (!pages) {
+    return items;
+  }
+  return pages.map((page) => {
+    if (!Number.isInteger(page) || page < 1 || page > items.length) {
+      throw new ValidationError(`Page ${page} is out of range for label file '${fileId}' (${items.length} labels)`, {
+        fileId,
+        page,
+      });
+    }
+    return items[page - 1];
+  });
+}
+
+function coverLines(entries: LabelSheetEntry[], counts: number[], cover: LabelSheetCover): string[] {
+  const title = cover.title ?? 'Label sheet';
+  if (cover.lines) {
+    return [title, ...cover.lines];
+  }
+
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  const perCarrier = new Map<string, number>();
+  entries.forEach((entry, idx) => {
+    if (entry.carrierId) perCarrier.set(entry.carrierId, (perCarrier.get(entry.carrierId) ?? 0) + counts[idx]);
+  });
+  const references = entries
+    .map((entry, idx) => (entry.reference ? `${idx + 1}. ${entry.reference}${entry.carrierId ? ` (${entry.carrierId})` : ''}` : undefined))
+    .filter((line): line is string => !!line);
+
+  return [
+    title,
+    `${total} label${total === 1 ? '' : 's'} from ${entries.length} file${entries.length === 1 ? '' : 's'}`,
+    ...[...perCarrier].map(([carrierId, count]) => `${carrierId}: ${count}`),
+    ...(references.length ? ['', ...references] : []),
+  ];
+}
+
+/**
+ * Merge label files from any carriers into one print job
+ *
+ * Entries are sorted by `sequence` (packing order). PDF labels are merged into
+ * one PDF, optionally tiled onto A4 sheets; when every input is ZPL the output
+ * is one ZPL stream instead. Tiled sheets from a carrier (files with `layout`)
+ * should be split with splitLabelFiles first.
+ *
+ * @returns A combined LabelFileResource with `rawBytes`
+ * @throws ValidationError for files without rawBytes, unknown formats, ZPL mixed with PDF,
+ *   unreadable PDFs, out-of-range pages or an invalid layout
+ */
+export function composeLabelSheet(
+  files: Array<LabelFileResource | LabelSheetEntry>,
+  options: ComposeLabelSheetOptions = {}
+): LabelFileResource {
+  const entries = files
+    .map((item, idx) => ({ entry: 'file' in item ? item : { file: item }, idx }))
+    .sort((a, b) => (a.entry.sequence ?? Infinity) - (b.entry.sequence ?? Infinity) || a.idx - b.idx)
+    .map(({ entry }) => entry);
+  if (entries.length === 0) {
+    throw new ValidationError('No label files to compose');
+  }
+
+  const formats = entries.map(({ file }) => {
+    const format = labelFileFormat(file);
+    if (!format) {
+      throw new ValidationError(`Unsupported label file type '${file.contentType}' (file '${file.id}')`, { fileId: file.id });
+    }
+    if (!file.rawBytes) {
+      throw new ValidationError(`Label file '${file.id}' has no rawBytes`, { fileId: file.id });
+    }
+    return format;
+  });
+  const layout = resolveLayout(options);
+  const cover = options.cover === true ? {} : options.cover || undefined;
+  const metadata = {
+    combined: true,
+    sourceFileIds: entries.map(({ file }) => file.id),
+    cover: !!cover,
+  };
+
+  if (formats.every((format) => format === 'ZPL')) {
+    const perEntry = entries.map(({ file, pages }) => select(splitZplLabels(file.rawBytes!), pages, file.id));
+    const counts = perEntry.map((labels) => labels.length);
+    const labels = [...(cover ? [zplTextLabel(coverLines(entries, counts, cover))] : []), ...perEntry.flat()];
+    const rawBytes = Buffer.concat(labels.flatMap((label) => [label, Buffer.from('\n')]));
+    return {
+      id: randomUUID(),
+      contentType: 'application/x-zpl',
+      labelFormat: 'ZPL',
+      byteLength: rawBytes.byteLength,
+      pages: labels.length,
+      metadata: { ...metadata, labelCount: counts.reduce((sum, n) => sum + n, 0) },
+      rawBytes,
+    };
+  }
+
+  if (formats.includes('ZPL')) {
+    throw new ValidationError('ZPL labels cannot be merged into a PDF sheet', {
+      fileIds: entries.filter((_, idx) => formats[idx] === 'ZPL').map(({ file }) => file.id),
+    });
+  }
+
+  const perEntry = entries.map(({ file, pages }) => {
+    const reader = openPdf(file.rawBytes!);
+    return select(reader.pages(), pages, file.id).map((page): PdfSheetLabel => ({ reader, page }));
+  });
+  const counts = perEntry.map((labels) => labels.length);
+  const sheet = options.sheetSize ?? A4_RECT;
+  const { bytes, pages } = composePdfSheet(perEntry.flat(), {
+    layout,
+    sheet,
+    cover: cover ? coverLines(entries, counts, cover) : undefined,
+  });
+
+  return {
+    id: randomUUID(),
+    contentType: 'application/pdf',
+    labelFormat: 'PDF',
+    byteLength: bytes.byteLength,
+    pages,
+    orientation: layout ? (sheet[2] - sheet[0] > sheet[3] - sheet[1] ? 'landscape' : 'portrait') : undefined,
+    metadata: { ...metadata, labelCount: counts.reduce((sum, n) => sum + n, 0), layout },
+    rawBytes: bytes,
+  };
+}
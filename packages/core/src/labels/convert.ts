@@ -0,0 +1,229 @@
+/**
+ * Label format conversion
+ * PDF -> ZPL by rasterising pages into ^GF graphic fields, and ZPL -> PNG/PDF previews
+ */
+
+import { spawn } from 'node:child_process';
+import { ValidationError } from '../errors/index.js';
+import type { LabelFileResource } from '../types/index.js';
+import { bitmapPdf } from './pdf/image.js';
+import { countPdfPages } from './pdf/pages.js';
+import { encodePng, parsePgm, thresholdImage, type GrayImage } from './raster.js';
+import { bitmapToZpl, renderZplGraphics } from './zpl.js';
+
+/** Thermal printer resolutions in dots per inch */
+export type LabelDpi = 203 | 300;
+
+/**
+ * Renders PDF pages to pixels
+ * Core has no PDF renderer of its own; plug in pdftoppm, pdf.js, a rendering service...
+ */
+export interface PdfRasterizer {
+  /** Render one page (1-based) as 8-bit grayscale at `dpi` */
+  rasterize(pdf: Uint8Array, page: number, dpi: number): Promise<GrayImage>;
+}
+
+export interface PdftoppmRasterizerOptions {
+  /** Executable to run (default: "pdftoppm" from PATH) */
+  command?: string;
+
+  /** Kill the process after this long (default: 30000 ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * PdfRasterizer running poppler's `pdftoppm` (poppler-utils package)
+ * The PDF is piped in and a grayscale PGM read back; nothing touches the disk
+ */
+export function createPdftoppmRasterizer(options: PdftoppmRasterizerOptions = {}): PdfRasterizer {
+  const command = options.command ?? 'pdftoppm';
+  const timeoutMs = options.timeoutMs ?? 30_000;
+
+  return {
+    rasterize(pdf, page, dpi) {
+      const args = ['-r', String(dpi), '-f', String(page), '-l', String(page), '-gray', '-'];
+      return new Promise<GrayImage>((resolve, reject) => {
+        const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+        const timer = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+
+        child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+        child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+        child.on('error', (err) => {
+          clearTimeout(timer);
+          reject(new Error(`Could not run ${command}: ${err.message}`));
+        });
+        child.on('close', (code, signal) => {
+          clearTimeout(timer);
+          if (code !== 0) {
+            const reason = signal ? `killed by ${signal}` : `exit code ${code}`;
+            reject(new Error(`${command} failed (${reason}): ${Buffer.concat(stderr).toString('utf8').trim()}`));
+            return;
+          }
+          try {
+            resolve(parsePgm(Buffer.concat(stdout)));
+          } catch (err) {
+            reject(err);
+          }
+        });
+        // pdftoppm may exit before reading all input on bad PDFs; the close handler reports it
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(Buffer.from(pdf));
+      });
+    },
+  };
+}
+
+export interface LabelConversionOptions {
+  /** Needed to convert PDF labels to ZPL */
+  rasterizer?: PdfRasterizer;
+
+  /** Printer resolution (default: 203) */
+  dpi?: LabelDpi;
+
+  /** Gray level below which a pixel prints black, 0-255 (default: 128) */
+  threshold?: number;
+}
+
+/**
+ * PDF or ZPL, from `labelFormat` or else the content type
+ */
+export function labelFileFormat(file: LabelFileResource): 'PDF' | 'ZPL' | undefined {
+  if (file.labelFormat) return file.labelFormat;
+  if (file.contentType === 'application/pdf') return 'PDF';
+  return /zpl/i.test(file.contentType) ? 'ZPL' : undefined;
+}
+
+/**
+ * Rasterise every page of a PDF into a ZPL label
+ * Returns one ^XA ... ^XZ label per page, in page order
+ */
+export async function pdfToZpl(pdf: Uint8Array, options: LabelConversionOptions = {}): Promise<Buffer> {
+  if (!options.rasterizer) {
+    throw new ValidationError('Converting PDF labels to ZPL needs a rasterizer');
+  }
+  const dpi = options.dpi ?? 203;
+  const labels: Buffer[] = [];
+  for (let page = 1, count = countPdfPages(pdf); page <= count; page++) {
+    const image = await options.rasterizer.rasterize(pdf, page, dpi);
+    labels.push(bitmapToZpl(thresholdImage(image, options.threshold)), Buffer.from('\n'));
+  }
+  return Buffer.concat(labels);
+}
+
+export interface ZplPreviewOptions {
+  /** 'png' renders one label, 'pdf' all of them (default: 'png') */
+  format?: 'png' | 'pdf';
+
+  /** 1-based label for PNG previews (default: 1) */
+  label?: number;
+
+  /** Resolution the ZPL was written for (default: 203) */
+  dpi?: LabelDpi;
+
+  /**
+   * Render labels with text or barcode commands anyway, leaving those blank
+   * (default: false, such labels are refused)
+   */
+  allowPartial?: boolean;
+}
+
+export interface ZplPreview {
+  contentType: 'image/png' | 'application/pdf';
+  bytes: Buffer;
+  labelCount: number;
+
+  /** Commands that were not drawn (text, barcodes); see renderZplGraphics */
+  unsupported: string[];
+}
+
+/**
+ * Preview graphic-only ZPL labels as PNG or PDF
+ *
+ * Only graphic fields and boxes are drawn, so this previews labels made by
+ * pdfToZpl/withLabelFormat exactly. Text (^A/^FD) and barcode (^B*) commands
+ * are not drawn, so carrier-native ZPL (GLS, MPL) is refused unless
+ * `allowPartial` is set; it then previews with those fields left blank and
+ * lists them in `unsupported`.
+ *
+ * @throws ValidationError when the stream has no labels, `label` is out of
+ *   range, or it uses text or barcode commands without `allowPartial`
+ */
+export function renderZplPreview(zpl: Uint8Array | string, options: ZplPreviewOptions = {}): ZplPreview {
+  const { labels, unsupported } = renderZplGraphics(zpl);
+  const dpi = options.dpi ?? 203;
+  if (labels.length === 0) {
+    throw new ValidationError('No ZPL labels (^XA ... ^XZ) found');
+  }
+  if (unsupported.length > 0 && !options.allowPartial) {
+    throw new ValidationError(`ZPL uses commands the preview cannot draw: ${unsupported.join(', ')}`, { unsupported });
+  }
+  if (options.format === 'pdf') {
+    return { contentType: 'application/pdf', bytes: bitmapPdf(labels, dpi), labelCount: labels.length, unsupported };
+  }
+
+  const index = options.label ?? 1;
+  if (!Number.isInteger(index) || index < 1 || index > labels.length) {
+    throw new ValidationError(`Label ${index} is out of range (${labels.length} labels)`, { label: index });
+  }
+  return { contentType: 'image/png', bytes: encodePng(labels[index - 1], dpi), labelCount: labels.length, unsupported };
+}
+
+/**
+ * Convert a label file to PDF or ZPL
+ *
+ * The file keeps its id, so results pointing at it stay valid; one ZPL label
+ * stands for one PDF page, so `pageRange` keeps its meaning too. Split tiled
+ * sheets (files with `layout`) with splitLabelFiles before converting to ZPL.
+ * ZPL -> PDF only works for graphic-only ZPL, e.g. labels made by pdfToZpl.
+ *
+ * @throws ValidationError for files without rawBytes, unknown formats, a missing
+ *   rasterizer, or ZPL with text or barcodes
+ */
+export async function convertLabelFile(
+  file: LabelFileResource,
+  to: 'PDF' | 'ZPL',
+  options: LabelConversionOptions = {}
+): Promise<LabelFileResource> {
+  const from = labelFileFormat(file);
+  if (from === to) {
+    return file;
+  }
+  if (!from) {
+    throw new ValidationError(`Unsupported label file type '${file.contentType}' (file '${file.id}')`, { fileId: file.id });
+  }
+  if (!file.rawBytes) {
+    throw new ValidationError(`Label file '${file.id}' has no rawBytes`, { fileId: file.id });
+  }
+
+  const dpi = options.dpi ?? 203;
+  let rawBytes: Buffer;
+  let pages: number;
+  if (to === 'ZPL') {
+    rawBytes = await pdfToZpl(file.rawBytes, options);
+    pages = countPdfPages(file.rawBytes);
+  } else {
+    const { labels, unsupported } = renderZplGraphics(file.rawBytes);
+    if (unsupported.length > 0) {
+      throw new ValidationError(`ZPL label '${file.id}' uses commands that cannot be converted to PDF: ${unsupported.join(', ')}`, {
+        fileId: file.id,
+        unsupported,
+      });
+    }
+    rawBytes = bitmapPdf(labels, dpi);
+    pages = labels.length;
+  }
+
+  // Drop what described the original bytes
+  const { checksum: _checksum, url: _url, dataUrl: _dataUrl, expiresAt: _expiresAt, ...rest } = file;
+  return {
+    ...rest,
+    contentType: to === 'ZPL' ? 'application/x-zpl' : 'application/pdf',
+    labelFormat: to,
+    byteLength: rawBytes.byteLength,
+    pages,
+    metadata: { ...file.metadata, labelFormat: to, convertedFrom: from, dpi },
+    rawBytes,
+  };
+}
@@ -0,0 +1,118 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ValidationError } from '../errors/index.js';
+import {
+  assertValidLabelKey,
+  buildLabelUrl,
+  labelChecksum,
+  type LabelStorage,
+  type LabelUrlOptions,
+  type PutLabelOptions,
+  type SignedLabelUrl,
+  type SignedUrlOptions,
+  type StoredLabel,
+} from './storage.js';
+
+export interface FilesystemLabelStorageOptions extends LabelUrlOptions {
+  /** Root directory; created on first put */
+  directory: string;
+}
+
+// Metadata lives in a sidecar tree; keys cannot start with ".", so it never collides with a label
+const META_DIR = '.meta';
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * FilesystemLabelStorage
+ * Stores each label at `<directory>/<key>` with its metadata next to it
+ *
+ * Without a baseUrl, getSignedUrl returns a file:// URL (useful for local
+ * printing); with one, URLs point at your own download route, signed when
+ * signingSecret is set (see verifyLabelUrlSignature).
+ */
+export class FilesystemLabelStorage implements LabelStorage {
+  private readonly root: string;
+
+  constructor(private readonly opts: FilesystemLabelStorageOptions) {
+    this.root = resolve(opts.directory);
+  }
+
+  async put(key: string, bytes: Uint8Array, options: PutLabelOptions): Promise<StoredLabel> {
+    assertValidLabelKey(key);
+    const label: StoredLabel = {
+      key,
+      contentType: options.contentType,
+      byteLength: bytes.byteLength,
+      checksum: labelChecksum(bytes),
+      createdAt: new Date(),
+      expiresAt: options.expiresAt,
+      metadata: options.metadata,
+    };
+
+    const filePath = this.filePath(key);
+    const metaPath = this.metaPath(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await mkdir(dirname(metaPath), { recursive: true });
+    await writeFile(filePath, bytes);
+    await writeFile(metaPath, JSON.stringify(label));
+    return label;
+  }
+
+  async get(key: string): Promise<{ label: StoredLabel; bytes: Buffer } | null> {
+    const label = await this.readMeta(key);
+    if (!label) {
+      return null;
+    }
+    try {
+      return { label, bytes: await readFile(this.filePath(key)) };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, options?: SignedUrlOptions): Promise<SignedLabelUrl> {
+    if (!(await this.readMeta(key))) {
+      throw new ValidationError(`Label file not found: '${key}'`, { key });
+    }
+    if (!this.opts.baseUrl) {
+      return { url: pathToFileURL(this.filePath(key)).href };
+    }
+    return buildLabelUrl(key, { ...this.opts, baseUrl: this.opts.baseUrl }, options);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    assertValidLabelKey(key);
+    const existed = (await this.readMeta(key)) !== null;
+    await rm(this.filePath(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+    return existed;
+  }
+
+  private filePath(key: string): string {
+    return join(this.root, ...key.split('/'));
+  }
+
+  private metaPath(key: string): string {
+    return join(this.root, META_DIR, ...key.split('/')) + '.json';
+  }
+
+  private async readMeta(key: string): Promise<StoredLabel | null> {
+    assertValidLabelKey(key);
+    try {
+      const raw = JSON.parse(await readFile(this.metaPath(key), 'utf8'));
+      return {
+        ...raw,
+        createdAt: new Date(raw.createdAt),
+        expiresAt: raw.expiresAt ? new Date(raw.expiresAt) : undefined,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+}
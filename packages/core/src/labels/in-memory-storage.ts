@@ -0,0 +1,58 @@
+import { ValidationError } from '../errors/index.js';
+import {
+  assertValidLabelKey,
+  buildLabelUrl,
+  labelChecksum,
+  type LabelStorage,
+  type LabelUrlOptions,
+  type PutLabelOptions,
+  type SignedLabelUrl,
+  type SignedUrlOptions,
+  type StoredLabel,
+} from './storage.js';
+
+/**
+ * InMemoryLabelStorage
+ * Keeps label files in process memory for testing and local development
+ * Without a baseUrl, URLs use the non-fetchable `memory://labels/` scheme
+ */
+export class InMemoryLabelStorage implements LabelStorage {
+  private files = new Map<string, { label: StoredLabel; bytes: Buffer }>();
+
+  constructor(private readonly urls: LabelUrlOptions = {}) {}
+
+  async put(key: string, bytes: Uint8Array, options: PutLabelOptions): Promise<StoredLabel> {
+    assertValidLabelKey(key);
+    const copy = Buffer.from(bytes);
+    const label: StoredLabel = {
+      key,
+      contentType: options.contentType,
+      byteLength: copy.byteLength,
+      checksum: labelChecksum(copy),
+      createdAt: new Date(),
+      expiresAt: options.expiresAt,
+      metadata: options.metadata,
+    };
+    this.files.set(key, { label, bytes: copy });
+    return { ...label };
+  }
+
+  async get(key: string): Promise<{ label: StoredLabel; bytes: Buffer } | null> {
+    assertValidLabelKey(key);
+    const file = this.files.get(key);
+    return file ? { label: { ...file.label }, bytes: Buffer.from(file.bytes) } : null;
+  }
+
+  async getSignedUrl(key: string, options?: SignedUrlOptions): Promise<SignedLabelUrl> {
+    assertValidLabelKey(key);
+    if (!this.files.has(key)) {
+      throw new ValidationError(`Label file not found: '${key}'`, { key });
+    }
+    return buildLabelUrl(key, { ...this.urls, baseUrl: this.urls.baseUrl ?? 'memory://labels' }, options);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    assertValidLabelKey(key);
+    return this.files.delete(key);
+  }
+}
@@ -0,0 +1,46 @@
+export {
+  assertValidLabelKey,
+  labelChecksum,
+  buildLabelUrl,
+  verifyLabelUrlSignature,
+} from './storage.js';
+export type {
+  LabelStorage,
+  StoredLabel,
+  PutLabelOptions,
+  SignedUrlOptions,
+  SignedLabelUrl,
+  LabelUrlOptions,
+} from './storage.js';
+export { InMemoryLabelStorage } from './in-memory-storage.js';
+export { FilesystemLabelStorage } from './filesystem-storage.js';
+export type { FilesystemLabelStorageOptions } from './filesystem-storage.js';
+export { withLabelStorage, storeLabelFiles } from './with-label-storage.js';
+export type { LabelStorageOptions } from './with-label-storage.js';
+export { splitLabelFiles } from './split.js';
+export type { SplitLabelFilesOptions } from './split.js';
+export { countPdfPages, extractPdfPages } from './pdf/index.js';
+export type { ExtractedPage, PdfRect } from './pdf/index.js';
+export { composeLabelSheet } from './compose.js';
+export type { ComposeLabelSheetOptions, LabelSheetEntry, LabelSheetPreset, LabelSheetCover } from './compose.js';
+export { splitZplLabels, zplTextLabel } from './zpl.js';
+export {
+  convertLabelFile,
+  createPdftoppmRasterizer,
+  labelFileFormat,
+  pdfToZpl,
+  renderZplPreview,
+} from './convert.js';
+export type {
+  LabelConversionOptions,
+  LabelDpi,
+  PdfRasterizer,
+  PdftoppmRasterizerOptions,
+  ZplPreview,
+  ZplPreviewOptions,
+} from './convert.js';
+export { withLabelFormat, convertLabelFiles } from './with-label-format.js';
+export { bitmapToZpl, renderZplGraphics } from './zpl.js';
+export type { ZplGraphicsRender } from './zpl.js';
+export { encodePng, parsePgm, thresholdImage } from './raster.js';
+export type { GrayImage, MonochromeBitmap } from './raster.js';
@@ -0,0 +1,49 @@
+/**
+ * PDF pages from label bitmaps
+ */
+
+import { deflateSync } from 'node:zlib';
+import { bytesPerRow, type MonochromeBitmap } from '../raster.js';
+import { PdfDict, PdfStream, name, serializePdfValue } from './objects.js';
+import { PdfWriter } from './writer.js';
+
+/**
+ * One page per bitmap, sized so the label prints at its original resolution
+ *
+ * @param dpi Dots per inch the bitmaps were made for (e.g. 203 for most thermal printers)
+ */
+export function bitmapPdf(bitmaps: MonochromeBitmap[], dpi: number): Buffer {
+  const writer = new PdfWriter();
+  const pagesRef = writer.reserve();
+
+  const kids = bitmaps.map((bitmap) => {
+    // Rows may carry padding bits; /Width covers them so the data lines up
+    const width = bytesPerRow(bitmap.width) * 8;
+    // Image mask: set bits are painted in the fill colour (black)
+    const image = writer.add(new PdfStream(
+      new PdfDict({
+        Type: name('XObject'),
+        Subtype: name('Image'),
+        Width: width,
+        Height: bitmap.height,
+        ImageMask: true,
+        Decode: [1, 0],
+        Filter: name('FlateDecode'),
+      }),
+      deflateSync(bitmap.data)
+    ));
+    const w = (width * 72) / dpi;
+    const h = (bitmap.height * 72) / dpi;
+    const ops = `q ${serializePdfValue(w)} 0 0 ${serializePdfValue(h)} 0 0 cm /Im1 Do Q`;
+    const contents = writer.add(new PdfStream(new PdfDict(), Buffer.from(ops, 'latin1')));
+    return writer.add(new PdfDict({
+      Type: name('Page'),
+      Parent: pagesRef,
+      MediaBox: [0, 0, (bitmap.width * 72) / dpi, h],
+      Resources: new PdfDict({ XObject: new PdfDict({ Im1: image }) }),
+      Contents: contents,
+    }));
+  });
+
+  return writer.finish(pagesRef, kids);
+}
@@ -0,0 +1,10 @@
+export { PdfName, PdfRef, PdfString, PdfDict, PdfStream, serializePdfValue } from './objects.js';
+export type { PdfValue } from './objects.js';
+export { PdfParser, PdfReader, decodePdfStream } from './reader.js';
+export type { PdfPage } from './reader.js';
+export { PdfWriter, PdfImporter } from './writer.js';
+export { countPdfPages, extractPdfPages, extractPages, openPdf, readPdfRect, sheetCell, A4_RECT } from './pages.js';
+export type { PdfRect, ExtractedPage } from './pages.js';
+export { composePdfSheet } from './sheet.js';
+export type { PdfSheetLabel, PdfSheetOptions } from './sheet.js';
+export { bitmapPdf } from './image.js';
@@ -0,0 +1,134 @@
+/**
+ * PDF object model
+ * The subset of PDF syntax needed to split, merge and impose label documents
+ */
+
+export class PdfName {
+  constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number = 0
+  ) {}
+}
+
+export class PdfString {
+  constructor(
+    readonly bytes: Buffer,
+    readonly hex: boolean = false
+  ) {}
+
+  static of(text: string): PdfString {
+    return new PdfString(Buffer.from(text, 'latin1'));
+  }
+
+  toString(): string {
+    return this.bytes.toString('latin1');
+  }
+}
+
+export class PdfDict {
+  readonly entries: Map<string, PdfValue>;
+
+  constructor(entries?: Iterable<[string, PdfValue]> | Record<string, PdfValue>) {
+    this.entries = entries instanceof Map || Array.isArray(entries)
+      ? new Map(entries as Iterable<[string, PdfValue]>)
+      : new Map(Object.entries(entries ?? {}));
+  }
+
+  get(key: string): PdfValue | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: PdfValue): this {
+    this.entries.set(key, value);
+    return this;
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /** Value of a /Name entry, e.g. dict.name('Type') === 'Page' */
+  name(key: string): string | undefined {
+    const value = this.entries.get(key);
+    return value instanceof PdfName ? value.name : undefined;
+  }
+}
+
+/**
+ * Stream object; `data` is kept encoded exactly as found in the file
+ */
+export class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Buffer
+  ) {}
+}
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+export const name = (value: string) => new PdfName(value);
+
+// Characters that must be #-escaped in names (delimiters, whitespace, '#', non-printables)
+const NAME_ESCAPE = /[^!-~]|[#%()/<>[\]{}]/g;
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) {
+    return String(value);
+  }
+  const fixed = value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+  return fixed === '-0' ? '0' : fixed;
+}
+
+function formatString(value: PdfString): string {
+  if (value.hex) {
+    return `<${value.bytes.toString('hex')}>`;
+  }
+  let out = '(';
+  for (const byte of value.bytes) {
+    const char = String.fromCharCode(byte);
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (char === '\r') out += '\\r';
+    else if (char === '\n') out += '\\n';
+    else out += char;
+  }
+  return `${out})`;
+}
+
+/**
+ * Serialize a value (streams include their data)
+ * Returned as a latin1 string so binary stream data survives Buffer.from(..., 'latin1')
+ */
+export function serializePdfValue(value: PdfValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return formatNumber(value);
+  if (value instanceof PdfName) {
+    return `/${value.name.replace(NAME_ESCAPE, (c) => `#${c.charCodeAt(0).toString(16).padStart(2, '0')}`)}`;
+  }
+  if (value instanceof PdfString) return formatString(value);
+  if (value instanceof PdfRef) return `${value.num} ${value.gen} R`;
+  if (Array.isArray(value)) return `[${value.map(serializePdfValue).join(' ')}]`;
+  if (value instanceof PdfStream) {
+    const dict = new PdfDict(value.dict.entries).set('Length', value.data.length);
+    return `${serializePdfValue(dict)}\nstream\n${value.data.toString('latin1')}\nendstream`;
+  }
+  const parts = [...value.entries].map(([key, entry]) => `${serializePdfValue(name(key))} ${serializePdfValue(entry)}`);
+  return `<<${parts.join(' ')}>>`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Page-level PDF operations used by the label utilities
+ */
+
+import { ValidationError } from '../../errors/index.js';
+import type { LabelSheetLayout } from '../../types/index.js';
+import type { PdfValue } from './objects.js';
+import { PdfReader } from './reader.js';
+import { PdfWriter } from './writer.js';
+
+/** Page rectangle [llx, lly, urx, ury] in PDF points */
+export type PdfRect = [number, number, number, number];
+
+/** A4 portrait in points, the fallback when a page declares no MediaBox */
+export const A4_RECT: PdfRect = [0, 0, 595.28, 841.89];
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Read a rectangle value, normalising corner order
+ */
+export function readPdfRect(reader: PdfReader, value: PdfValue | undefined): PdfRect | undefined {
+  const resolved = value === undefined ? null : reader.resolve(value);
+  if (!Array.isArray(resolved) || resolved.length !== 4) return undefined;
+  const [a, b, c, d] = resolved.map((v) => Number(reader.resolve(v)));
+  if ([a, b, c, d].some((n) => !Number.isFinite(n))) return undefined;
+  return [Math.min(a, c), Math.min(b, d), Math.max(a, c), Math.max(b, d)];
+}
+
+/**
+ * Cell of the index-th label on sheets tiled with `layout`
+ * Cells fill each sheet row by row from the top-left, after `layout.startPosition`
+ *
+ * @returns 1-based sheet number and the cell rectangle on that sheet
+ */
+export function sheetCell(
+  index: number,
+  layout: LabelSheetLayout,
+  sheet: PdfRect | ((page: number) => PdfRect) = A4_RECT
+): { page: number; rect: PdfRect } {
+  const perPage = layout.columns * layout.rows;
+  const slot = Math.max(0, (layout.startPosition ?? 1) - 1) + index;
+  const page = Math.floor(slot / perPage) + 1;
+  const cell = slot % perPage;
+  const col = cell % layout.columns;
+  const row = Math.floor(cell / layout.columns);
+
+  const [x0, y0, x1, y1] = typeof sheet === 'function' ? sheet(page) : sheet;
+  const width = (x1 - x0) / layout.columns;
+  const height = (y1 - y0) / layout.rows;
+  const top = y1 - row * height;
+  return { page, rect: [x0 + col * width, top - height, x0 + (col + 1) * width, top] };
+}
+
+export function openPdf(bytes: Uint8Array): PdfReader {
+  return new PdfReader(toBuffer(bytes));
+}
+
+/**
+ * Number of pages in a PDF
+ * @throws ValidationError if the bytes are not a readable PDF
+ */
+export function countPdfPages(bytes: Uint8Array): number {
+  return openPdf(bytes).pages().length;
+}
+
+export interface ExtractedPage {
+  /** 1-based page number in the source document */
+  page: number;
+
+  /** Visible area to keep (sets MediaBox and CropBox); default: the whole page */
+  crop?: PdfRect;
+}
+
+/**
+ * Copy selected pages into a new PDF
+ * Resources shared between the pages are copied once
+ *
+ * @param bytes Source PDF
+ * @param pages 1-based page numbers (or pages with a crop box), in output order
+ * @throws ValidationError for unreadable PDFs or out-of-range pages
+ */
+export function extractPdfPages(bytes: Uint8Array, pages: Array<number | ExtractedPage>): Buffer {
+  return extractPages(openPdf(bytes), pages);
+}
+
+/**
+ * extractPdfPages over an already opened document
+ */
+export function extractPages(reader: PdfReader, pages: Array<number | ExtractedPage>): Buffer {
+  const source = reader.pages();
+  const writer = new PdfWriter();
+  const importer = writer.importer(reader);
+  const pagesRef = writer.reserve();
+
+  const kids = pages.map((entry) => {
+    const { page, crop } = typeof entry === 'number' ? { page: entry, crop: undefined } : entry;
+    if (!Number.isInteger(page) || page < 1 || page > source.length) {
+      throw new ValidationError(`Page ${page} is out of range (document has ${source.length} pages)`, {
+        page,
+        pageCount: source.length,
+      });
+    }
+    return importer.importPage(source[page - 1], pagesRef, crop ? { MediaBox: crop, CropBox: crop } : {});
+  });
+
+  return writer.finish(pagesRef, kids);
+}
@@ -0,0 +1,629 @@
+/**
+ * PDF reader
+ * Parses the object graph of a PDF (classic xref tables, xref streams and
+ * object streams) without rendering anything
+ */
+
+import { inflateSync, constants as zlibConstants } from 'node:zlib';
+import { ValidationError } from '../../errors/index.js';
+import { PdfDict, PdfName, PdfRef, PdfStream, PdfString, type PdfValue } from './objects.js';
+
+type XrefEntry =
+  | { type: 1; offset: number; gen: number }
+  | { type: 2; stream: number; index: number };
+
+/**
+ * A page with inheritable attributes (Resources, MediaBox, CropBox, Rotate) resolved
+ */
+export interface PdfPage {
+  ref: PdfRef;
+  dict: PdfDict;
+}
+
+const INHERITABLE = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+}
+
+function isDelimiter(byte: number): boolean {
+  // ( ) < > [ ] { } / %
+  return byte === 0x28 || byte === 0x29 || byte === 0x3c || byte === 0x3e || byte === 0x5b
+    || byte === 0x5d || byte === 0x7b || byte === 0x7d || byte === 0x2f || byte === 0x25;
+}
+
+function invalid(message: string): ValidationError {
+  return new ValidationError(`Invalid PDF: ${message}`);
+}
+
+/**
+ * Tokenizer/parser over a byte buffer
+ * Streams need the reader to resolve indirect /Length values
+ */
+export class PdfParser {
+  pos: number;
+
+  constructor(
+    private readonly buf: Buffer,
+    start = 0,
+    private readonly resolveLength?: (ref: PdfRef) => PdfValue
+  ) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    const { buf } = this;
+    while (this.pos < buf.length) {
+      const byte = buf[this.pos];
+      if (isWhitespace(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < buf.length && buf[this.pos] !== 0x0a && buf[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Read a run of regular characters (a number, keyword or operator) */
+  readToken(): string {
+    this.skipWhitespace();
+    const start = this.pos;
+    while (this.pos < this.buf.length && !isWhitespace(this.buf[this.pos]) && !isDelimiter(this.buf[this.pos])) {
+      this.pos++;
+    }
+    return this.buf.toString('latin1', start, this.pos);
+  }
+
+  /** Consume an expected keyword; returns false (without consuming) if it is not next */
+  expectKeyword(keyword: string): boolean {
+    const saved = this.pos;
+    if (this.readToken() === keyword) return true;
+    this.pos = saved;
+    return false;
+  }
+
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const { buf } = this;
+    if (this.pos >= buf.length) {
+      throw invalid('unexpected end of data');
+    }
+
+    const byte = buf[this.pos];
+    if (byte === 0x2f) return this.parseName();
+    if (byte === 0x28) return this.parseLiteralString();
+    if (byte === 0x5b) return this.parseArray();
+    if (byte === 0x3c) {
+      return buf[this.pos + 1] === 0x3c ? this.parseDictOrStream() : this.parseHexString();
+    }
+
+    const token = this.readToken();
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = Number(token);
+      // "num gen R" is an indirect reference
+      if (/^\d+$/.test(token)) {
+        const saved = this.pos;
+        const gen = this.readToken();
+        if (/^\d+$/.test(gen) && this.readToken() === 'R') {
+          return new PdfRef(value, Number(gen));
+        }
+        this.pos = saved;
+      }
+      return value;
+    }
+    throw invalid(`unexpected token '${token || String.fromCharCode(byte)}' at offset ${this.pos}`);
+  }
+
+  private parseName(): PdfName {
+    this.pos++; // '/'
+    const start = this.pos;
+    while (this.pos < this.buf.length && !isWhitespace(this.buf[this.pos]) && !isDelimiter(this.buf[this.pos])) {
+      this.pos++;
+    }
+    const raw = this.buf.toString('latin1', start, this.pos);
+    return new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private parseLiteralString(): PdfString {
+    const { buf } = this;
+    this.pos++; // '('
+    const out: number[] = [];
+    let depth = 1;
+    while (this.pos < buf.length) {
+      const byte = buf[this.pos++];
+      if (byte === 0x5c) {
+        const next = buf[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // n
+          case 0x72: out.push(0x0d); break; // r
+          case 0x74: out.push(0x09); break; // t
+          case 0x62: out.push(0x08); break; // b
+          case 0x66: out.push(0x0c); break; // f
+          case 0x0d:
+            if (buf[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2 && buf[this.pos] >= 0x30 && buf[this.pos] <= 0x37; i++) {
+                octal = octal * 8 + (buf[this.pos++] - 0x30);
+              }
+              out.push(octal & 0xff);
+            } else {
+              out.push(next);
+            }
+        }
+        continue;
+      }
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+      out.push(byte);
+    }
+    return new PdfString(Buffer.from(out));
+  }
+
+  private parseHexString(): PdfString {
+    const end = this.buf.indexOf(0x3e, this.pos);
+    if (end < 0) throw invalid('unterminated hex string');
+    let hex = this.buf.toString('latin1', this.pos + 1, end).replace(/[^0-9a-fA-F]/g, '');
+    if (hex.length % 2 === 1) hex += '0';
+    this.pos = end + 1;
+    return new PdfString(Buffer.from(hex, 'hex'), true);
+  }
+
+  private parseArray(): PdfValue[] {
+    this.pos++; // '['
+    const items: PdfValue[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.buf.length) throw invalid('unterminated array');
+      if (this.buf[this.pos] === 0x5d) {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+    }
+  }
+
+  private parseDictOrStream(): PdfDict | PdfStream {
+    this.pos += 2; // '<<'
+    const dict = new PdfDict();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.buf.length) throw invalid('unterminated dictionary');
+      if (this.buf[this.pos] === 0x3e && this.buf[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.parseValue();
+      if (!(key instanceof PdfName)) throw invalid(`dictionary key is not a name at offset ${this.pos}`);
+      dict.set(key.name, this.parseValue());
+    }
+
+    const saved = this.pos;
+    if (!this.expectKeyword('stream')) {
+      this.pos = saved;
+      return dict;
+    }
+    return new PdfStream(dict, this.readStreamData(dict));
+  }
+
+  private readStreamData(dict: PdfDict): Buffer {
+    const { buf } = this;
+    // The keyword is followed by CRLF or LF (a lone CR is tolerated)
+    if (buf[this.pos] === 0x0d) this.pos++;
+    if (buf[this.pos] === 0x0a) this.pos++;
+    const start = this.pos;
+
+    let length = dict.get('Length');
+    if (length instanceof PdfRef && this.resolveLength) {
+      length = this.resolveLength(length);
+    }
+
+    if (typeof length === 'number' && start + length <= buf.length) {
+      const after = new PdfParser(buf, start + length);
+      if (after.expectKeyword('endstream')) {
+        this.pos = after.pos;
+        return buf.subarray(start, start + length);
+      }
+    }
+
+    // Missing or wrong /Length: scan for the keyword instead
+    const end = buf.indexOf('endstream', start, 'latin1');
+    if (end < 0) throw invalid('unterminated stream');
+    let dataEnd = end;
+    if (buf[dataEnd - 1] === 0x0a) dataEnd--;
+    if (buf[dataEnd - 1] === 0x0d) dataEnd--;
+    this.pos = end + 'endstream'.length;
+    return buf.subarray(start, dataEnd);
+  }
+}
+
+function applyPngPredictor(data: Buffer, columns: number, colors: number, bitsPerComponent: number): Buffer {
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((columns * colors * bitsPerComponent) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+  let prev = Buffer.alloc(rowLength);
+
+  for (let r = 0; r < rows; r++) {
+    const filter = data[r * (rowLength + 1)];
+    const row = Buffer.from(data.subarray(r * (rowLength + 1) + 1, (r + 1) * (rowLength + 1)));
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const up = prev[i];
+      const upLeft = i >= bytesPerPixel ? prev[i - bytesPerPixel] : 0;
+      switch (filter) {
+        case 1: row[i] = (row[i] + left) & 0xff; break;
+        case 2: row[i] = (row[i] + up) & 0xff; break;
+        case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          row[i] = (row[i] + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft)) & 0xff;
+          break;
+        }
+        default: break;
+      }
+    }
+    row.copy(out, r * rowLength);
+    prev = row;
+  }
+  return out;
+}
+
+/**
+ * Decode a stream's data (FlateDecode with optional PNG predictors)
+ * Other filters are rejected; they never occur in xref/object streams
+ */
+export function decodePdfStream(stream: PdfStream, resolve: (value: PdfValue) => PdfValue = (v) => v): Buffer {
+  const filterValue = resolve(stream.dict.get('Filter') ?? null);
+  const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : []).map(resolve);
+  const parmsValue = resolve(stream.dict.get('DecodeParms') ?? null);
+  const parmsList = Array.isArray(parmsValue) ? parmsValue.map(resolve) : [parmsValue];
+
+  let data = stream.data;
+  filters.forEach((filter, idx) => {
+    const filterName = filter instanceof PdfName ? filter.name : String(filter);
+    if (filterName !== 'FlateDecode' && filterName !== 'Fl') {
+      throw new ValidationError(`Unsupported PDF stream filter: ${filterName}`);
+    }
+    try {
+      data = inflateSync(data);
+    } catch {
+      // Tolerate truncated streams produced by some label generators
+      data = inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+    }
+
+    const parms = parmsList[idx];
+    if (parms instanceof PdfDict) {
+      const predictor = Number(resolve(parms.get('Predictor') ?? 1));
+      if (predictor >= 10) {
+        data = applyPngPredictor(
+          data,
+          Number(resolve(parms.get('Columns') ?? 1)),
+          Number(resolve(parms.get('Colors') ?? 1)),
+          Number(resolve(parms.get('BitsPerComponent') ?? 8))
+        );
+      } else if (predictor !== 1) {
+        throw new ValidationError(`Unsupported PDF predictor: ${predictor}`);
+      }
+    }
+  });
+  return data;
+}
+
+/**
+ * PdfReader
+ * Random access to the objects of a PDF file
+ */
+export class PdfReader {
+  trailer = new PdfDict();
+  private xref = new Map<number, XrefEntry>();
+  private cache = new Map<number, PdfValue>();
+  private objectStreams = new Map<number, { parser: PdfParser; offsets: number[]; first: number }>();
+
+  constructor(readonly bytes: Buffer) {
+    if (bytes.indexOf('%PDF-', 0, 'latin1') < 0 || bytes.indexOf('%PDF-', 0, 'latin1') > 1024) {
+      throw invalid('missing %PDF header');
+    }
+
+    try {
+      this.readXrefChain();
+      if (!(this.resolve(this.trailer.get('Root') ?? null) instanceof PdfDict)) {
+        throw invalid('document catalog not found');
+      }
+    } catch {
+      this.reconstructXref();
+    }
+    if (this.trailer.has('Encrypt')) {
+      throw new ValidationError('Encrypted PDFs are not supported');
+    }
+  }
+
+  /** Object numbers present in the cross-reference table */
+  objectNumbers(): number[] {
+    return [...this.xref.keys()];
+  }
+
+  getObject(num: number): PdfValue {
+    if (this.cache.has(num)) {
+      return this.cache.get(num)!;
+    }
+    const entry = this.xref.get(num);
+    let value: PdfValue = null;
+    // Reserve the slot so reference cycles through /Length resolve to null instead of recursing
+    this.cache.set(num, null);
+    if (entry?.type === 1 && entry.offset >= 0) {
+      value = this.parseObjectAt(entry.offset, num);
+    } else if (entry?.type === 2) {
+      value = this.parseFromObjectStream(entry.stream, entry.index);
+    }
+    this.cache.set(num, value);
+    return value;
+  }
+
+  /** Follow references until a direct value */
+  resolve(value: PdfValue): PdfValue {
+    let current = value;
+    for (let depth = 0; current instanceof PdfRef && depth < 32; depth++) {
+      current = this.getObject(current.num);
+    }
+    return current instanceof PdfRef ? null : current;
+  }
+
+  /** Pages in document order with inherited attributes copied onto each page dict */
+  pages(): PdfPage[] {
+    const catalog = this.resolve(this.trailer.get('Root') ?? null);
+    if (!(catalog instanceof PdfDict)) throw invalid('missing document catalog');
+    const rootRef = catalog.get('Pages');
+
+    const pages: PdfPage[] = [];
+    const visited = new Set<number>();
+    const walk = (nodeValue: PdfValue, inherited: Map<string, PdfValue>) => {
+      if (!(nodeValue instanceof PdfRef) || visited.has(nodeValue.num)) return;
+      visited.add(nodeValue.num);
+      const node = this.getObject(nodeValue.num);
+      if (!(node instanceof PdfDict)) return;
+
+      const attrs = new Map(inherited);
+      for (const key of INHERITABLE) {
+        if (node.has(key)) attrs.set(key, node.get(key)!);
+      }
+
+      const kids = this.resolve(node.get('Kids') ?? null);
+      if (node.name('Type') === 'Pages' || Array.isArray(kids)) {
+        for (const kid of Array.isArray(kids) ? kids : []) walk(kid, attrs);
+        return;
+      }
+
+      const dict = new PdfDict(node.entries);
+      for (const [key, value] of attrs) {
+        if (!dict.has(key)) dict.set(key, value);
+      }
+      pages.push({ ref: nodeValue, dict });
+    };
+
+    if (rootRef instanceof PdfRef) {
+      walk(rootRef, new Map());
+    }
+    if (pages.length === 0) throw invalid('document has no pages');
+    return pages;
+  }
+
+  private parser(start: number): PdfParser {
+    return new PdfParser(this.bytes, start, (ref) => this.resolve(ref));
+  }
+
+  private parseObjectAt(offset: number, expected: number): PdfValue {
+    const parser = this.parser(offset);
+    const num = parser.readToken();
+    parser.readToken(); // generation
+    if (Number(num) !== expected || !parser.expectKeyword('obj')) {
+      throw invalid(`object ${expected} not found at offset ${offset}`);
+    }
+    return parser.parseValue();
+  }
+
+  private parseFromObjectStream(streamNum: number, index: number): PdfValue {
+    let objStm = this.objectStreams.get(streamNum);
+    if (!objStm) {
+      const stream = this.getObject(streamNum);
+      if (!(stream instanceof PdfStream)) throw invalid(`object stream ${streamNum} missing`);
+      const data = decodePdfStream(stream, (v) => this.resolve(v));
+      const count = Number(this.resolve(stream.dict.get('N') ?? 0));
+      const first = Number(this.resolve(stream.dict.get('First') ?? 0));
+      const header = new PdfParser(data);
+      const offsets: number[] = [];
+      for (let i = 0; i < count; i++) {
+        header.readToken(); // object number
+        offsets.push(Number(header.readToken()));
+      }
+      objStm = { parser: new PdfParser(data, 0, (ref) => this.resolve(ref)), offsets, first };
+      this.objectStreams.set(streamNum, objStm);
+    }
+    if (index >= objStm.offsets.length) return null;
+    objStm.parser.pos = objStm.first + objStm.offsets[index];
+    return objStm.parser.parseValue();
+  }
+
+  private readXrefChain(): void {
+    const tail = this.bytes.subarray(Math.max(0, this.bytes.length - 2048));
+    const marker = tail.lastIndexOf('startxref', undefined, 'latin1');
+    if (marker < 0) throw invalid('missing startxref');
+    let offset: number | undefined = Number(
+      new PdfParser(tail, marker + 'startxref'.length).readToken()
+    );
+
+    const seen = new Set<number>();
+    while (offset !== undefined && Number.isFinite(offset) && !seen.has(offset)) {
+      seen.add(offset);
+      const section = this.readXrefSection(offset);
+      // Newer sections come first; keep their entries and trailer keys
+      for (const [key, value] of section.trailer.entries) {
+        if (!this.trailer.has(key)) this.trailer.set(key, value);
+      }
+      const hybrid = section.trailer.get('XRefStm');
+      if (typeof hybrid === 'number' && !seen.has(hybrid)) {
+        seen.add(hybrid);
+        this.readXrefSection(hybrid);
+      }
+      const prev = section.trailer.get('Prev');
+      offset = typeof prev === 'number' ? prev : undefined;
+    }
+    this.trailer.delete('Prev');
+    this.trailer.delete('XRefStm');
+  }
+
+  private addEntry(num: number, entry: XrefEntry | null): void {
+    if (!this.xref.has(num)) {
+      // Free entries still shadow older sections
+      this.xref.set(num, entry ?? { type: 1, offset: -1, gen: 0 });
+    }
+  }
+
+  private readXrefSection(offset: number): { trailer: PdfDict } {
+    const parser = this.parser(offset);
+    if (parser.expectKeyword('xref')) {
+      for (;;) {
+        const saved = parser.pos;
+        const startToken = parser.readToken();
+        if (!/^\d+$/.test(startToken)) {
+          parser.pos = saved;
+          break;
+        }
+        const first = Number(startToken);
+        const count = Number(parser.readToken());
+        for (let i = 0; i < count; i++) {
+          const entryOffset = Number(parser.readToken());
+          const gen = Number(parser.readToken());
+          const kind = parser.readToken();
+          this.addEntry(first + i, kind === 'n' ? { type: 1, offset: entryOffset, gen } : null);
+        }
+      }
+      if (!parser.expectKeyword('trailer')) throw invalid('missing trailer');
+      const trailer = parser.parseValue();
+      if (!(trailer instanceof PdfDict)) throw invalid('trailer is not a dictionary');
+      return { trailer };
+    }
+
+    // Cross-reference stream (PDF 1.5+)
+    parser.readToken();
+    parser.readToken();
+    if (!parser.expectKeyword('obj')) throw invalid(`no xref at offset ${offset}`);
+    const stream = parser.parseValue();
+    if (!(stream instanceof PdfStream) || stream.dict.name('Type') !== 'XRef') {
+      throw invalid(`no xref stream at offset ${offset}`);
+    }
+
+    const widths = (stream.dict.get('W') as number[]) ?? [1, 2, 1];
+    const size = Number(stream.dict.get('Size') ?? 0);
+    const index = (stream.dict.get('Index') as number[] | undefined) ?? [0, size];
+    const data = decodePdfStream(stream);
+    const rowLength = widths.reduce((sum, w) => sum + w, 0);
+
+    const field = (row: number, col: number, fallback: number) => {
+      const width = widths[col];
+      if (!width) return fallback;
+      let start = row * rowLength;
+      for (let c = 0; c < col; c++) start += widths[c];
+      let value = 0;
+      for (let b = 0; b < width; b++) value = value * 256 + data[start + b];
+      return value;
+    };
+
+    let row = 0;
+    for (let i = 0; i + 1 < index.length; i += 2) {
+      for (let n = 0; n < index[i + 1]; n++, row++) {
+        if ((row + 1) * rowLength > data.length) break;
+        const type = field(row, 0, 1);
+        const num = index[i] + n;
+        if (type === 1) this.addEntry(num, { type: 1, offset: field(row, 1, 0), gen: field(row, 2, 0) });
+        else if (type === 2) this.addEntry(num, { type: 2, stream: field(row, 1, 0), index: field(row, 2, 0) });
+        else this.addEntry(num, null);
+      }
+    }
+    return { trailer: stream.dict };
+  }
+
+  /**
+   * Rebuild the cross-reference table by scanning for "n g obj" headers
+   * Used when the file's xref is missing or points to the wrong offsets
+   */
+  private reconstructXref(): void {
+    this.xref.clear();
+    this.cache.clear();
+    this.objectStreams.clear();
+    this.trailer = new PdfDict();
+
+    const text = this.bytes.toString('latin1');
+    const header = /(?:^|[\r\n\s])(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text))) {
+      const offset = match.index + match[0].indexOf(match[1]);
+      // Later definitions (incremental updates) win
+      this.xref.set(Number(match[1]), { type: 1, offset, gen: Number(match[2]) });
+    }
+
+    // Objects packed in object streams
+    for (const num of [...this.xref.keys()]) {
+      const value = this.safeGet(num);
+      if (value instanceof PdfStream && value.dict.name('Type') === 'ObjStm') {
+        const count = Number(value.dict.get('N') ?? 0);
+        try {
+          const headerParser = new PdfParser(decodePdfStream(value, (v) => this.resolve(v)));
+          for (let i = 0; i < count; i++) {
+            const objNum = Number(headerParser.readToken());
+            headerParser.readToken();
+            if (!this.xref.has(objNum)) this.xref.set(objNum, { type: 2, stream: num, index: i });
+          }
+        } catch {
+          // Unreadable object stream; its objects stay missing
+        }
+      }
+    }
+
+    const trailerAt = text.lastIndexOf('trailer');
+    if (trailerAt >= 0) {
+      try {
+        const trailer = new PdfParser(this.bytes, trailerAt + 'trailer'.length).parseValue();
+        if (trailer instanceof PdfDict) this.trailer = trailer;
+      } catch {
+        // fall through to the catalog search
+      }
+    }
+    if (!(this.resolve(this.trailer.get('Root') ?? null) instanceof PdfDict)) {
+      for (const num of this.xref.keys()) {
+        const value = this.safeGet(num);
+        if (value instanceof PdfDict && value.name('Type') === 'Catalog') {
+          this.trailer.set('Root', new PdfRef(num));
+        }
+        if (value instanceof PdfStream && value.dict.name('Type') === 'XRef' && value.dict.has('Root')) {
+          for (const [key, entry] of value.dict.entries) {
+            if (!this.trailer.has(key)) this.trailer.set(key, entry);
+          }
+        }
+      }
+    }
+    if (!(this.resolve(this.trailer.get('Root') ?? null) instanceof PdfDict)) {
+      throw invalid('document catalog not found');
+    }
+  }
+
+  private safeGet(num: number): PdfValue {
+    try {
+      return this.getObject(num);
+    } catch {
+      this.cache.set(num, null);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * PDF label sheets
+ * Merges label pages from several documents, optionally tiled onto larger sheets
+ */
+
+import type { LabelSheetLayout } from '../../types/index.js';
+import { PdfDict, PdfStream, PdfString, name, serializePdfValue, type PdfRef } from './objects.js';
+import type { PdfPage, PdfReader } from './reader.js';
+import { PdfWriter, type PdfImporter } from './writer.js';
+import { A4_RECT, readPdfRect, sheetCell, type PdfRect } from './pages.js';
+
+export interface PdfSheetLabel {
+  reader: PdfReader;
+  page: PdfPage;
+}
+
+export interface PdfSheetOptions {
+  /** Tile the labels onto `sheet`-sized pages; omit to copy each label page as is */
+  layout?: LabelSheetLayout;
+
+  /** Size of tiled sheets, and of the cover page when tiling (default: A4 portrait) */
+  sheet?: PdfRect;
+
+  /** Cover page in front of the labels; the first line is the title */
+  cover?: string[];
+}
+
+/** Visible area of a page */
+function pageBox({ reader, page }: PdfSheetLabel): PdfRect {
+  return readPdfRect(reader, page.dict.get('CropBox')) ?? readPdfRect(reader, page.dict.get('MediaBox')) ?? A4_RECT;
+}
+
+function pageRotation({ reader, page }: PdfSheetLabel): number {
+  const rotate = Math.round(Number(reader.resolve(page.dict.get('Rotate') ?? 0)) / 90) * 90;
+  return Number.isFinite(rotate) ? ((rotate % 360) + 360) % 360 : 0;
+}
+
+/**
+ * Transformation matrix that draws `box`, shown with `rotate` degrees clockwise,
+ * centred in `cell`. Labels are scaled down to fit but never enlarged, and turned
+ * a further quarter when that lets them print larger (e.g. A6 portrait on a 4x1 strip).
+ */
+function placement(box: PdfRect, rotate: number, cell: PdfRect): number[] {
+  const [x0, y0, x1, y1] = box;
+  const w = x1 - x0;
+  const h = y1 - y0;
+  const cw = cell[2] - cell[0];
+  const ch = cell[3] - cell[1];
+  const shown = (r: number) => (r % 180 ? [h, w] : [w, h]);
+  const fit = (r: number) => {
+    const [dw, dh] = shown(r);
+    return Math.min(1, cw / dw, ch / dh);
+  };
+
+  const turned = (rotate + 90) % 360;
+  const r = fit(turned) > fit(rotate) + 1e-6 ? turned : rotate;
+  const s = fit(r);
+  const [dw, dh] = shown(r);
+  const ox = cell[0] + (cw - s * dw) / 2;
+  const oy = cell[1] + (ch - s * dh) / 2;
+
+  switch (r) {
+    case 90:
+      return [0, -s, s, 0, ox - s * y0, oy + s * (w + x0)];
+    case 180:
+      return [-s, 0, 0, -s, ox + s * (w + x0), oy + s * (h + y0)];
+    case 270:
+      return [0, s, -s, 0, ox + s * (h + y0), oy - s * x0];
+    default:
+      return [s, 0, 0, s, ox - s * x0, oy - s * y0];
+  }
+}
+
+/**
+ * Text as a PdfString for the WinAnsi-encoded standard fonts
+ * Characters outside Latin-1 lose their accents (ő -> o) or become '?'
+ */
+function winAnsiString(text: string): PdfString {
+  const chars = [...text].map((ch) => {
+    if (ch.charCodeAt(0) <= 0xff) return ch;
+    const base = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return base.length === 1 && base.charCodeAt(0) <= 0xff ? base : '?';
+  });
+  return PdfString.of(chars.join(''));
+}
+
+function coverPage(writer: PdfWriter, parent: PdfRef, lines: string[], box: PdfRect): PdfRef {
+  const [x0, y0, x1, y1] = box;
+  const margin = Math.min(40, (x1 - x0) / 10);
+  const size = Math.max(6, Math.min(11, (x1 - x0) / 40));
+  const titleSize = size * 1.6;
+  const leading = size * 1.4;
+
+  const [title = '', ...body] = lines;
+  const capacity = Math.max(0, Math.floor((y1 - y0 - 2 * margin - titleSize * 2) / leading));
+  let shown = body;
+  if (body.length > capacity) {
+    shown = capacity > 0 ? [...body.slice(0, capacity - 1), `... and ${body.length - capacity + 1} more`] : [];
+  }
+
+  const ops = [
+    'BT',
+    `/F1 ${serializePdfValue(titleSize)} Tf`,
+    `${serializePdfValue(x0 + margin)} ${serializePdfValue(y1 - margin - titleSize)} Td`,
+    `${serializePdfValue(winAnsiString(title))} Tj`,
+    `/F1 ${serializePdfValue(size)} Tf`,
+    `${serializePdfValue(leading)} TL`,
+    `0 ${serializePdfValue(-titleSize)} Td`,
+    ...shown.map((line) => `T* ${serializePdfValue(winAnsiString(line))} Tj`),
+    'ET',
+  ];
+  const font = writer.add(new PdfDict({
+    Type: name('Font'),
+    Subtype: name('Type1'),
+    BaseFont: name('Helvetica'),
+    Encoding: name('WinAnsiEncoding'),
+  }));
+  const contents = writer.add(new PdfStream(new PdfDict(), Buffer.from(ops.join('\n'), 'latin1')));
+  return writer.add(new PdfDict({
+    Type: name('Page'),
+    Parent: parent,
+    MediaBox: box,
+    Resources: new PdfDict({ Font: new PdfDict({ F1: font }) }),
+    Contents: contents,
+  }));
+}
+
+/**
+ * Merge label pages into one PDF
+ *
+ * Without a layout every label page is copied as is. With a layout each label is
+ * drawn into its cell on the sheet (see sheetCell), starting at `layout.startPosition`.
+ *
+ * @returns The document and its page count, cover page included
+ */
+export function composePdfSheet(labels: PdfSheetLabel[], options: PdfSheetOptions = {}): { bytes: Buffer; pages: number } {
+  const writer = new PdfWriter();
+  const pagesRef = writer.reserve();
+  const importers = new Map<PdfReader, PdfImporter>();
+  const importerFor = (reader: PdfReader) => {
+    let importer = importers.get(reader);
+    if (!importer) {
+      importer = writer.importer(reader);
+      importers.set(reader, importer);
+    }
+    return importer;
+  };
+  const sheet = options.sheet ?? A4_RECT;
+  const kids: PdfRef[] = [];
+
+  if (options.cover) {
+    const box = options.layout || labels.length === 0 ? sheet : pageBox(labels[0]);
+    kids.push(coverPage(writer, pagesRef, options.cover, box));
+  }
+
+  if (!options.layout) {
+    for (const label of labels) {
+      kids.push(importerFor(label.reader).importPage(label.page, pagesRef));
+    }
+    return { bytes: writer.finish(pagesRef, kids), pages: kids.length };
+  }
+
+  const sheets: Array<{ ops: string[]; xobjects: PdfDict }> = [];
+  labels.forEach((label, idx) => {
+    const { page, rect } = sheetCell(idx, options.layout!, sheet);
+    const target = (sheets[page - 1] ??= { ops: [], xobjects: new PdfDict() });
+    const box = pageBox(label);
+    const key = `L${idx + 1}`;
+    target.xobjects.set(key, importerFor(label.reader).importPageAsForm(label.page, box));
+    const matrix = placement(box, pageRotation(label), rect).map(serializePdfValue).join(' ');
+    target.ops.push(`q ${matrix} cm /${key} Do Q`);
+  });
+
+  for (const { ops, xobjects } of sheets) {
+    const contents = writer.add(new PdfStream(new PdfDict(), Buffer.from(ops.join('\n'), 'latin1')));
+    kids.push(writer.add(new PdfDict({
+      Type: name('Page'),
+      Parent: pagesRef,
+      MediaBox: sheet,
+      Resources: new PdfDict({ XObject: xobjects }),
+      Contents: contents,
+    })));
+  }
+  return { bytes: writer.finish(pagesRef, kids), pages: kids.length };
+}
@@ -0,0 +1,177 @@
+/**
+ * PDF writer
+ * Builds a new PDF from objects copied out of one or more source documents
+ */
+
+import { deflateSync } from 'node:zlib';
+import { PdfDict, PdfRef, PdfStream, name, serializePdfValue, type PdfValue } from './objects.js';
+import { decodePdfStream, type PdfPage, type PdfReader } from './reader.js';
+
+// Page entries that point back into the source document's structure
+const DROPPED_PAGE_KEYS = ['Parent', 'Annots', 'B', 'StructParents', 'Thumb'];
+
+/**
+ * Copies objects from a PdfReader into a PdfWriter, renumbering references
+ * Each source object is copied once, however often it is referenced
+ */
+export class PdfImporter {
+  private readonly refs = new Map<number, PdfRef>();
+
+  constructor(
+    private readonly reader: PdfReader,
+    private readonly writer: PdfWriter
+  ) {}
+
+  import(value: PdfValue): PdfValue {
+    if (value instanceof PdfRef) {
+      const mapped = this.refs.get(value.num);
+      if (mapped) return mapped;
+
+      const ref = this.writer.reserve();
+      this.refs.set(value.num, ref);
+      const source = this.reader.getObject(value.num);
+      // Pages not imported explicitly (e.g. link targets) must not drag in the source page tree
+      const isPage = source instanceof PdfDict && source.name('Type') === 'Page';
+      this.writer.set(ref, isPage ? null : this.import(source));
+      return ref;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.import(item));
+    }
+    if (value instanceof PdfStream) {
+      // /Length is rewritten on output; importing an indirect one would leave an orphan
+      const dict = new PdfDict(value.dict.entries);
+      dict.delete('Length');
+      return new PdfStream(this.importDict(dict), value.data);
+    }
+    if (value instanceof PdfDict) {
+      return this.importDict(value);
+    }
+    return value;
+  }
+
+  /**
+   * Copy a page under a new parent /Pages node
+   * Annotations and structure-tree links are dropped; label pages do not need them
+   */
+  importPage(page: PdfPage, parent: PdfRef, overrides: Record<string, PdfValue> = {}): PdfRef {
+    const ref = this.writer.reserve();
+    this.refs.set(page.ref.num, ref);
+
+    const dict = new PdfDict();
+    for (const [key, value] of page.dict.entries) {
+      if (!DROPPED_PAGE_KEYS.includes(key)) dict.set(key, this.import(value));
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+      dict.set(key, value);
+    }
+    dict.set('Parent', parent);
+    this.writer.set(ref, dict);
+    return ref;
+  }
+
+  /**
+   * Copy a page as a form XObject, so it can be drawn scaled or rotated on another page
+   * `bbox` is the part of the page to keep, normally its CropBox or MediaBox
+   */
+  importPageAsForm(page: PdfPage, bbox: PdfValue[]): PdfRef {
+    const resolve = (value: PdfValue) => this.reader.resolve(value);
+    const contents = resolve(page.dict.get('Contents') ?? null);
+    const streams = (Array.isArray(contents) ? contents.map(resolve) : [contents]).filter(
+      (value): value is PdfStream => value instanceof PdfStream
+    );
+
+    const dict = new PdfDict({ Type: name('XObject'), Subtype: name('Form'), BBox: bbox });
+    let data: Buffer;
+    if (streams.length === 1) {
+      // Keep the encoded data as is; only the filter entries carry over
+      for (const key of ['Filter', 'DecodeParms']) {
+        const value = streams[0].dict.get(key);
+        if (value !== undefined) dict.set(key, this.import(resolve(value)));
+      }
+      data = streams[0].data;
+    } else {
+      // Content arrays are one logical stream; join them with a separator
+      data = deflateSync(Buffer.concat(streams.flatMap((stream) => [decodePdfStream(stream, resolve), Buffer.from('\n')])));
+      dict.set('Filter', name('FlateDecode'));
+    }
+    for (const key of ['Resources', 'Group']) {
+      const value = page.dict.get(key);
+      if (value !== undefined) dict.set(key, this.import(value));
+    }
+    return this.writer.add(new PdfStream(dict, data));
+  }
+
+  private importDict(dict: PdfDict): PdfDict {
+    const out = new PdfDict();
+    for (const [key, value] of dict.entries) {
+      out.set(key, this.import(value));
+    }
+    return out;
+  }
+}
+
+/**
+ * PdfWriter
+ * Holds numbered objects and serializes them with a classic xref table
+ */
+export class PdfWriter {
+  private readonly objects: PdfValue[] = [];
+
+  reserve(): PdfRef {
+    this.objects.push(null);
+    return new PdfRef(this.objects.length);
+  }
+
+  set(ref: PdfRef, value: PdfValue): void {
+    this.objects[ref.num - 1] = value;
+  }
+
+  add(value: PdfValue): PdfRef {
+    const ref = this.reserve();
+    this.set(ref, value);
+    return ref;
+  }
+
+  importer(reader: PdfReader): PdfImporter {
+    return new PdfImporter(reader, this);
+  }
+
+  /**
+   * Build a document from page refs created through this writer
+   * `pagesRef` must be the ref the pages were imported under
+   */
+  finish(pagesRef: PdfRef, kids: PdfRef[]): Buffer {
+    this.set(pagesRef, new PdfDict({ Type: name('Pages'), Kids: kids, Count: kids.length }));
+    const root = this.add(new PdfDict({ Type: name('Catalog'), Pages: pagesRef }));
+    return this.serialize(root);
+  }
+
+  private serialize(root: PdfRef): Buffer {
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+
+    this.objects.forEach((value, idx) => {
+      offsets.push(length);
+      const chunk = Buffer.from(`${idx + 1} 0 obj\n${serializePdfValue(value)}\nendobj\n`, 'latin1');
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${this.objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      serializePdfValue(new PdfDict({ Size: this.objects.length + 1, Root: root })),
+      'startxref',
+      String(length),
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Label bitmaps
+ * The pixel formats shared by the PDF <-> ZPL conversion helpers
+ */
+
+import { deflateSync } from 'node:zlib';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * 8-bit grayscale image, one byte per pixel (0 = black, 255 = white), rows top to bottom
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * 1-bit image as printers take it: rows padded to whole bytes, most significant
+ * bit first, a set bit is a black dot
+ */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export function bytesPerRow(width: number): number {
+  return Math.ceil(width / 8);
+}
+
+export function createBitmap(width: number, height: number): MonochromeBitmap {
+  return { width, height, data: new Uint8Array(bytesPerRow(width) * height) };
+}
+
+/**
+ * Convert to black and white; pixels darker than `threshold` become black
+ */
+export function thresholdImage(image: GrayImage, threshold = 128): MonochromeBitmap {
+  const bitmap = createBitmap(image.width, image.height);
+  const stride = bytesPerRow(image.width);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] < threshold) {
+        bitmap.data[y * stride + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return bitmap;
+}
+
+/**
+ * Read a binary PGM (P5), the format `pdftoppm -gray` writes
+ * @throws ValidationError for other formats or truncated data
+ */
+export function parsePgm(bytes: Uint8Array): GrayImage {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fields: number[] = [];
+  let pos = 2;
+  if (buf.toString('latin1', 0, 2) !== 'P5') {
+    throw new ValidationError('Not a binary PGM image');
+  }
+  while (fields.length < 3 && pos < buf.length) {
+    const char = buf[pos];
+    if (char === 0x23) {
+      // comment up to the end of the line
+      while (pos < buf.length && buf[pos] !== 0x0a) pos++;
+    } else if (char >= 0x30 && char <= 0x39) {
+      let value = 0;
+      while (pos < buf.length && buf[pos] >= 0x30 && buf[pos] <= 0x39) value = value * 10 + buf[pos++] - 0x30;
+      fields.push(value);
+      continue;
+    }
+    pos++;
+  }
+  const [width, height, maxValue] = fields;
+  // exactly one whitespace byte separates the header from the pixels
+  const start = pos + 1;
+  if (fields.length < 3 || maxValue > 255 || buf.length - start < width * height) {
+    throw new ValidationError('Truncated or unsupported PGM image', { width, height, maxValue });
+  }
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round((buf[start + i] * 255) / maxValue);
+  }
+  return { width, height, data };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(chunks: Buffer[]): number {
+  let crc = 0xffffffff;
+  for (const chunk of chunks) {
+    for (const byte of chunk) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32([head.subarray(4), data]), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+/**
+ * Encode a bitmap as a 1-bit grayscale PNG
+ *
+ * @param dpi Stored in the pHYs chunk so viewers show the label at its real size
+ */
+export function encodePng(bitmap: MonochromeBitmap, dpi?: number): Buffer {
+  const stride = bytesPerRow(bitmap.width);
+  // PNG gray: 0 is black, so the bits are inverted; every row starts with filter type 0
+  const raw = Buffer.alloc((stride + 1) * bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let i = 0; i < stride; i++) {
+      raw[y * (stride + 1) + 1 + i] = ~bitmap.data[y * stride + i] & 0xff;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(bitmap.width, 0);
+  header.writeUInt32BE(bitmap.height, 4);
+  header.set([1, 0, 0, 0, 0], 8); // bit depth 1, grayscale, deflate, no filter, no interlace
+
+  const chunks = [pngChunk('IHDR', header)];
+  if (dpi) {
+    const phys = Buffer.alloc(9);
+    const perMetre = Math.round(dpi / 0.0254);
+    phys.writeUInt32BE(perMetre, 0);
+    phys.writeUInt32BE(perMetre, 4);
+    phys[8] = 1;
+    chunks.push(pngChunk('pHYs', phys));
+  }
+  chunks.push(pngChunk('IDAT', deflateSync(raw)), pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ...chunks]);
+}
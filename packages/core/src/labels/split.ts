@@ -0,0 +1,149 @@
+/**
+ * Label PDF splitting
+ * Turns one combined label PDF into one file per parcel
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  CreateLabelsResponse,
+  LabelFileResource,
+  LabelResult,
+  LabelSheetLayout,
+} from '../types/index.js';
+import { labelFileFormat } from './convert.js';
+import {
+  A4_RECT,
+  extractPages,
+  openPdf,
+  readPdfRect,
+  sheetCell,
+  type ExtractedPage,
+  type PdfRect,
+} from './pdf/pages.js';
+
+export interface SplitLabelFilesOptions {
+  /** Keep the combined files in `files` next to the split ones (default: false) */
+  keepCombined?: boolean;
+}
+
+/**
+ * Cell of the i-th label on a tiled sheet
+ */
+function tileFor(index: number, layout: LabelSheetLayout, pageRects: PdfRect[]): ExtractedPage {
+  const { page, rect } = sheetCell(index, layout, (p) => pageRects[p - 1] ?? A4_RECT);
+  return { page, crop: rect };
+}
+
+/**
+ * Page selection per result, or undefined when the file cannot be mapped unambiguously
+ */
+function planSplit(
+  file: LabelFileResource,
+  results: LabelResult[],
+  pageRects: PdfRect[]
+): ExtractedPage[][] | undefined {
+  const pageCount = pageRects.length;
+
+  if (file.layout) {
+    const plan = results.map((_, idx) => [tileFor(idx, file.layout!, pageRects)]);
+    return plan.every(([tile]) => tile.page <= pageCount) ? plan : undefined;
+  }
+
+  const ranged = results.every(
+    (r) => r.pageRange && r.pageRange.start >= 1 && r.pageRange.end >= r.pageRange.start && r.pageRange.end <= pageCount
+  );
+  if (ranged) {
+    return results.map(({ pageRange }) => {
+      const pages: ExtractedPage[] = [];
+      for (let page = pageRange!.start; page <= pageRange!.end; page++) pages.push({ page });
+      return pages;
+    });
+  }
+
+  // No usable ranges: split evenly if the page count allows it
+  if (pageCount % results.length !== 0) {
+    return undefined;
+  }
+  const perResult = pageCount / results.length;
+  return results.map((_, idx) =>
+    Array.from({ length: perResult }, (_unused, p) => ({ page: idx * perResult + p + 1 }))
+  );
+}
+
+/**
+ * Split combined label PDFs into one file per parcel
+ *
+ * For every PDF file with `rawBytes` that several results point to, each
+ * result gets its own file holding only its pages, and `pageRange` then
+ * refers to that file. Page selection, in order of preference:
+ * - `file.layout` (tiled sheets such as GLS A4_2x2): the label's cell is cropped out
+ * - each result's `pageRange`
+ * - an even split of the pages across the results, in result order
+ *
+ * `pages` is filled in on every PDF file. Files that cannot be mapped
+ * unambiguously, ZPL files and files without `rawBytes` are left as they are.
+ *
+ * @throws ValidationError if a PDF cannot be read
+ */
+export function splitLabelFiles(
+  response: CreateLabelsResponse,
+  options: SplitLabelFilesOptions = {}
+): CreateLabelsResponse {
+  if (!response.files?.length) {
+    return response;
+  }
+
+  const results = response.results.map((result) => ({ ...result }));
+  const files: LabelFileResource[] = [];
+
+  for (const file of response.files) {
+    if (labelFileFormat(file) !== 'PDF' || !file.rawBytes) {
+      files.push(file);
+      continue;
+    }
+
+    const reader = openPdf(file.rawBytes);
+    const pageRects = reader.pages().map(({ dict }) =>
+      readPdfRect(reader, dict.get('CropBox')) ?? readPdfRect(reader, dict.get('MediaBox')) ?? A4_RECT
+    );
+    const combined: LabelFileResource = { ...file, pages: pageRects.length };
+    const owners = results.filter((r) => r.status === 'created' && r.fileId === file.id);
+    const splittable = owners.length > 1 || (owners.length === 1 && !!file.layout);
+    const plan = splittable ? planSplit(combined, owners, pageRects) : undefined;
+
+    if (!plan) {
+      files.push(combined);
+      continue;
+    }
+
+    if (options.keepCombined) {
+      files.push(combined);
+    }
+    owners.forEach((result, idx) => {
+      const pages = plan[idx];
+      const rawBytes = extractPages(reader, pages);
+      const crop = pages[0].crop;
+      // Drop what describes the combined file only
+      const { layout: _layout, checksum: _checksum, url: _url, dataUrl: _dataUrl, expiresAt: _expiresAt, ...rest } = combined;
+      const part: LabelFileResource = {
+        ...rest,
+        id: randomUUID(),
+        byteLength: rawBytes.byteLength,
+        pages: pages.length,
+        orientation: crop ? (crop[2] - crop[0] > crop[3] - crop[1] ? 'landscape' : 'portrait') : file.orientation,
+        metadata: {
+          ...file.metadata,
+          combined: false,
+          sourceFileId: file.id,
+          sourcePageRange: { start: pages[0].page, end: pages[pages.length - 1].page },
+        },
+        rawBytes,
+      };
+      files.push(part);
+      result.fileId = part.id;
+      result.pageRange = { start: 1, end: pages.length };
+    });
+  }
+
+  return { ...response, results, files };
+}
@@ -0,0 +1,145 @@
+/**
+ * Label file storage
+ * Where label bytes live once they leave the adapter, so responses can carry
+ * URLs instead of inlined PDFs/ZPL
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * Metadata of a stored label file
+ */
+export interface StoredLabel {
+  key: string;
+  contentType: string;
+  byteLength: number;
+
+  /** SHA-256 of the bytes, hex encoded */
+  checksum: string;
+
+  createdAt: Date;
+
+  /** When the file may be removed by the backend (if set on put) */
+  expiresAt?: Date;
+
+  metadata?: Record<string, unknown>;
+}
+
+export interface PutLabelOptions {
+  contentType: string;
+  expiresAt?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SignedUrlOptions {
+  /** Lifetime of the URL (default: the backend's default TTL) */
+  expiresInSeconds?: number;
+}
+
+export interface SignedLabelUrl {
+  url: string;
+
+  /** Absent for URLs that do not expire (unsigned backends) */
+  expiresAt?: Date;
+}
+
+/**
+ * Pluggable label file storage
+ * Implement this over S3, GCS, a database, etc.; core ships
+ * FilesystemLabelStorage and InMemoryLabelStorage
+ */
+export interface LabelStorage {
+  /** Store bytes under a key, replacing any existing file */
+  put(key: string, bytes: Uint8Array, options: PutLabelOptions): Promise<StoredLabel>;
+
+  get(key: string): Promise<{ label: StoredLabel; bytes: Buffer } | null>;
+
+  /**
+   * URL the file can be downloaded from
+   * Throws ValidationError if the key does not exist
+   */
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<SignedLabelUrl>;
+
+  /** @returns true if a file was deleted */
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * URL settings shared by the bundled backends
+ */
+export interface LabelUrlOptions {
+  /** Public base URL files are served from (e.g., "https://api.example.com/labels") */
+  baseUrl?: string;
+
+  /** Secret for HMAC-signing URLs; without it URLs are unsigned and do not expire */
+  signingSecret?: string;
+
+  /** Default URL lifetime in seconds (default: 3600) */
+  defaultTtlSeconds?: number;
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+
+/**
+ * Reject keys that could escape a storage root (absolute paths, "..", odd characters)
+ */
+export function assertValidLabelKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+    throw new ValidationError(`Invalid label storage key: '${key}'`, { key });
+  }
+}
+
+/**
+ * SHA-256 checksum (hex) as stored in StoredLabel and LabelFileResource
+ */
+export function labelChecksum(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function signature(key: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}\n${expires}`).digest('hex');
+}
+
+/**
+ * Build a download URL for a key under baseUrl
+ * Signed URLs carry `expires` (unix seconds) and `signature` query parameters
+ */
+export function buildLabelUrl(
+  key: string,
+  options: LabelUrlOptions & { baseUrl: string },
+  urlOptions: SignedUrlOptions = {}
+): SignedLabelUrl {
+  const path = key.split('/').map(encodeURIComponent).join('/');
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/${path}`;
+  if (!options.signingSecret) {
+    return { url };
+  }
+
+  const ttl = urlOptions.expiresInSeconds ?? options.defaultTtlSeconds ?? 3600;
+  const expires = Math.floor(Date.now() / 1000) + ttl;
+  const query = new URLSearchParams({
+    expires: String(expires),
+    signature: signature(key, expires, options.signingSecret),
+  });
+  return { url: `${url}?${query}`, expiresAt: new Date(expires * 1000) };
+}
+
+/**
+ * Check the `expires`/`signature` query parameters of a URL built by buildLabelUrl
+ * Use this in the route that serves files from storage
+ */
+export function verifyLabelUrlSignature(
+  key: string,
+  params: { expires?: string | number; signature?: string },
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const expires = Number(params.expires);
+  if (!Number.isFinite(expires) || !params.signature || expires * 1000 < now.getTime()) {
+    return false;
+  }
+  const expected = Buffer.from(signature(key, expires, secret));
+  const received = Buffer.from(params.signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,82 @@
+/**
+ * Label format wrapper
+ * Honours `options.labelFormat` for adapters that cannot produce the format themselves
+ */
+
+import type { AdapterContext, CarrierAdapter, LabelRequestOptions } from '../interfaces/index.js';
+import type { CreateLabelResponse, CreateLabelsResponse } from '../types/index.js';
+import { convertLabelFile, labelFileFormat, type LabelConversionOptions } from './convert.js';
+
+/**
+ * Convert the files of a createLabel(s) response to `format`
+ * Files already in that format and files without rawBytes are left as they are
+ */
+export async function convertLabelFiles<R extends CreateLabelsResponse | CreateLabelResponse>(
+  response: R,
+  format: 'PDF' | 'ZPL',
+  options: LabelConversionOptions = {}
+): Promise<R> {
+  const out: R = { ...response };
+  const convert = (file: NonNullable<CreateLabelResponse['file']>) =>
+    file.rawBytes && labelFileFormat(file) !== format ? convertLabelFile(file, format, options) : file;
+
+  if ('files' in response && response.files) {
+    (out as CreateLabelsResponse).files = await Promise.all(response.files.map(convert));
+  }
+  if ('file' in response && response.file) {
+    (out as CreateLabelResponse).file = await convert(response.file);
+  }
+  return out;
+}
+
+/**
+ * Create a wrapper that delivers labels in the format the caller asked for
+ *
+ * When a createLabel(s) request sets `options.labelFormat` and the adapter
+ * returns another format, the files are converted (see convertLabelFile).
+ * `options.labelDpi` on the request overrides the wrapper's `dpi`. Adapters
+ * that produce ZPL natively (GLS, MPL) already honour the preference, so
+ * nothing is converted for them.
+ *
+ * Usage:
+ * ```typescript
+ * const adapter = withLabelFormat(new FoxpostAdapter(), { rasterizer: createPdftoppmRasterizer() });
+ * await adapter.createLabels({ ...req, options: { labelFormat: 'ZPL', labelDpi: 300 } }, ctx);
+ * ```
+ *
+ * @param adapter The CarrierAdapter to wrap
+ * @param options Rasterizer and defaults for the conversion
+ * @returns A wrapped adapter whose label files match the requested format
+ */
+export function withLabelFormat<T extends CarrierAdapter>(adapter: T, options: LabelConversionOptions = {}): T {
+  const wrapped = new Set(['createLabel', 'createLabels']);
+
+  return new Proxy(adapter, {
+    get(target, methodName: string | symbol) {
+      const method = (target as any)[methodName];
+
+      if (typeof method !== 'function' || typeof methodName !== 'string' || !wrapped.has(methodName)) {
+        return method;
+      }
+
+      return async (req: { options?: LabelRequestOptions }, ctx: AdapterContext) => {
+        const response = await method.call(target, req, ctx);
+        const format = req?.options?.labelFormat;
+        if (!format) {
+          return response;
+        }
+
+        const converted = await convertLabelFiles(response, format, {
+          ...options,
+          dpi: req.options?.labelDpi ?? options.dpi,
+        });
+        ctx?.logger?.debug(`[${adapter.id}] ${methodName} label files delivered as ${format}`, {
+          files: (converted.files ?? (converted.file ? [converted.file] : [])).map(
+            (f: { id: string; metadata?: Record<string, unknown> }) => ({ id: f.id, convertedFrom: f.metadata?.convertedFrom })
+          ),
+        });
+        return converted;
+      };
+    },
+  }) as T;
+}
@@ -0,0 +1,132 @@
+/**
+ * Label storage wrapper
+ * Moves label bytes out of createLabel(s) and printLabel(s) responses into a LabelStorage
+ */
+
+import type { AdapterContext, CarrierAdapter } from '../interfaces/index.js';
+import type { CreateLabelResponse, CreateLabelsResponse, LabelFileResource } from '../types/index.js';
+import type { LabelStorage } from './storage.js';
+
+export interface LabelStorageOptions {
+  /** Prepended to every key (e.g., "labels/") */
+  keyPrefix?: string;
+
+  /** Lifetime of the URLs written to `file.url` (default: the storage's default TTL) */
+  expiresInSeconds?: number;
+
+  /** Custom key per file (default: `<keyPrefix><carrierId>/<file.id>.<pdf|zpl>`) */
+  key?: (file: LabelFileResource, carrierId: string) => string;
+}
+
+function defaultKey(file: LabelFileResource, carrierId: string): string {
+  const ext = file.labelFormat === 'ZPL' ? '.zpl' : file.labelFormat === 'PDF' ? '.pdf' : '';
+  return `${carrierId}/${file.id}${ext}`;
+}
+
+/**
+ * Store a file's rawBytes and replace them with a URL
+ * Files without rawBytes are returned unchanged
+ */
+async function storeFile(
+  file: LabelFileResource,
+  carrierId: string,
+  storage: LabelStorage,
+  options: LabelStorageOptions
+): Promise<LabelFileResource> {
+  if (!file.rawBytes) {
+    return file;
+  }
+
+  const key = (options.keyPrefix ?? '') + (options.key ?? defaultKey)(file, carrierId);
+  const stored = await storage.put(key, file.rawBytes, {
+    contentType: file.contentType,
+    metadata: { carrierId, fileId: file.id, labelFormat: file.labelFormat },
+  });
+  const signed = await storage.getSignedUrl(key, { expiresInSeconds: options.expiresInSeconds });
+
+  const { rawBytes: _rawBytes, ...rest } = file;
+  return {
+    ...rest,
+    url: signed.url,
+    expiresAt: signed.expiresAt?.toISOString(),
+    byteLength: stored.byteLength,
+    checksum: stored.checksum,
+  };
+}
+
+/**
+ * Store the label files of a createLabel(s) response
+ *
+ * Every file carrying `rawBytes` is put into the storage; the returned copy
+ * has `url`, `byteLength` and a SHA-256 `checksum` filled in and `rawBytes`
+ * removed. Use it directly when you call adapters without the wrapper.
+ */
+export async function storeLabelFiles<R extends CreateLabelsResponse | CreateLabelResponse>(
+  response: R,
+  carrierId: string,
+  storage: LabelStorage,
+  options: LabelStorageOptions = {}
+): Promise<R> {
+  const out: R = { ...response };
+  if ('files' in response && response.files) {
+    (out as CreateLabelsResponse).files = await Promise.all(
+      response.files.map((file) => storeFile(file, carrierId, storage, options))
+    );
+  }
+  if ('file' in response && response.file) {
+    (out as CreateLabelResponse).file = await storeFile(response.file, carrierId, storage, options);
+  }
+  return out;
+}
+
+/**
+ * Create a wrapper that stores generated labels instead of returning their bytes
+ *
+ * Wraps createLabel(s) and carrier-specific printLabel(s) methods that
+ * return label responses (e.g. GLS printLabels); see storeLabelFiles for what
+ * changes in the response. Large PDF batches then travel as URLs through your APIs.
+ *
+ * Usage:
+ * ```typescript
+ * const storage = new FilesystemLabelStorage({
+ *   directory: './labels',
+ *   baseUrl: 'https://api.example.com/labels',
+ *   signingSecret: process.env.LABEL_URL_SECRET,
+ * });
+ * const adapter = composeAdapterWrappers(new FoxpostAdapter(), [
+ *   (a) => withLabelStorage(a, storage, { keyPrefix: 'labels/' }),
+ *   (a) => withOperationName(a),
+ * ]);
+ * ```
+ *
+ * @param adapter The CarrierAdapter to wrap
+ * @param storage Where label bytes are put
+ * @param options Key and URL settings
+ * @returns A wrapped adapter whose label responses reference stored files
+ */
+export function withLabelStorage<T extends CarrierAdapter>(
+  adapter: T,
+  storage: LabelStorage,
+  options: LabelStorageOptions = {}
+): T {
+  const wrapped = new Set(['createLabel', 'createLabels', 'printLabel', 'printLabels']);
+
+  return new Proxy(adapter, {
+    get(target, methodName: string | symbol) {
+      const method = (target as any)[methodName];
+
+      if (typeof method !== 'function' || typeof methodName !== 'string' || !wrapped.has(methodName)) {
+        return method;
+      }
+
+      return async (req: unknown, ctx: AdapterContext) => {
+        const response = await method.call(target, req, ctx);
+        const stored = await storeLabelFiles(response, adapter.id, storage, options);
+        ctx?.logger?.debug(`[${adapter.id}] ${methodName} label files stored`, {
+          files: (stored.files ?? (stored.file ? [stored.file] : [])).map((f: LabelFileResource) => f.url),
+        });
+        return stored;
+      };
+    },
+  }) as T;
+}
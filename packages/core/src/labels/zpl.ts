@@ -0,0 +1,284 @@
+/**
+ * ZPL label streams
+ * ZPL is handled as latin1 text so downloaded graphics and fonts survive unchanged
+ */
+
+import { inflateSync } from 'node:zlib';
+import { bytesPerRow, createBitmap, type MonochromeBitmap } from './raster.js';
+
+/**
+ * Split a ZPL stream into its label formats (^XA ... ^XZ)
+ * Commands between two formats (e.g. ~DG graphics) stay with the label that follows them
+ */
+export function splitZplLabels(zpl: Uint8Array | string): Buffer[] {
+  const text = typeof zpl === 'string' ? zpl : Buffer.from(zpl).toString('latin1');
+  const labels: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/\^XZ/gi)) {
+    const end = match.index! + match[0].length;
+    labels.push(text.slice(start, end));
+    start = end;
+  }
+  const rest = text.slice(start);
+  if (rest.trim()) {
+    if (labels.length > 0) labels[labels.length - 1] += rest;
+    else labels.push(rest);
+  }
+  return labels.map((label) => Buffer.from(label.trim(), 'latin1'));
+}
+
+/**
+ * A label with plain text lines, e.g. a cover label in front of a print run
+ * The first line is printed larger as a title
+ *
+ * @param widthDots Print width in dots (default: 812, 4 inch at 203 dpi)
+ */
+export function zplTextLabel(lines: string[], widthDots = 812): Buffer {
+  // ^ and ~ start commands; they cannot appear in field data
+  const field = (text: string) => text.replace(/[\^~]/g, ' ');
+  const commands = lines.map((line, idx) => {
+    const size = idx === 0 ? 50 : 28;
+    const y = idx === 0 ? 40 : 70 + idx * 36;
+    return `^FO40,${y}^A0N,${size},${size}^FB${widthDots - 80},1^FD${field(line)}^FS`;
+  });
+  // ^CI28: field data is UTF-8
+  return Buffer.from(`^XA^CI28^PW${widthDots}${commands.join('')}^XZ`, 'utf8');
+}
+
+// ZPL compression scheme: a run of n hex digits is written as a count prefix and the digit.
+// G..Y stand for 1..19, g..z for 20..400 in steps of 20
+const REPEAT_LOW = 'GHIJKLMNOPQRSTUVWXY';
+const REPEAT_HIGH = 'ghijklmnopqrstuvwxyz';
+
+function repeatPrefix(count: number): string {
+  let out = '';
+  for (; count >= 400; count -= 400) out += 'z';
+  if (count >= 20) {
+    out += REPEAT_HIGH[Math.floor(count / 20) - 1];
+    count %= 20;
+  }
+  return count > 0 ? out + REPEAT_LOW[count - 1] : out;
+}
+
+/**
+ * One compressed row: ':' repeats the previous row, ',' / '!' fill the rest of
+ * the row with 0 / F, other runs get a count prefix
+ */
+function compressRow(hex: string, previous: string | undefined): string {
+  if (hex === previous) return ':';
+
+  const trailing = /(0+|F+)$/.exec(hex);
+  const body = trailing && trailing[0].length > 1 ? hex.slice(0, trailing.index) : hex;
+  let out = '';
+  for (let i = 0; i < body.length;) {
+    let run = 1;
+    while (i + run < body.length && body[i + run] === body[i]) run++;
+    out += (run > 1 ? repeatPrefix(run) : '') + body[i];
+    i += run;
+  }
+  if (body !== hex) out += trailing![0][0] === '0' ? ',' : '!';
+  return out;
+}
+
+/**
+ * A label holding one ^GF graphic field, e.g. a rasterised PDF page
+ * Rows are written with the ZPL compression scheme
+ */
+export function bitmapToZpl(bitmap: MonochromeBitmap): Buffer {
+  const stride = bytesPerRow(bitmap.width);
+  const total = stride * bitmap.height;
+  const rows: string[] = [];
+  let previous: string | undefined;
+  for (let y = 0; y < bitmap.height; y++) {
+    const hex = Buffer.from(bitmap.data.subarray(y * stride, (y + 1) * stride)).toString('hex').toUpperCase();
+    rows.push(compressRow(hex, previous));
+    previous = hex;
+  }
+  return Buffer.from(
+    `^XA^PW${bitmap.width}^LL${bitmap.height}^FO0,0^GFA,${total},${total},${stride},${rows.join('')}^FS^XZ`,
+    'latin1'
+  );
+}
+
+/**
+ * Decode ^GF data in ASCII hex (optionally compressed), :B64: or :Z64: form
+ */
+function decodeGraphicField(format: string, data: string, total: number, stride: number): Uint8Array {
+  const out = new Uint8Array(total);
+  const encoded = /^:(B64|Z64):([^:]*)/.exec(data);
+  if (format === 'B' || format === 'C') {
+    out.set(Buffer.from(data, 'latin1').subarray(0, total));
+    return out;
+  }
+  if (encoded) {
+    const bytes = Buffer.from(encoded[2], 'base64');
+    out.set((encoded[1] === 'Z64' ? inflateSync(bytes) : bytes).subarray(0, total));
+    return out;
+  }
+
+  const rowChars = stride * 2;
+  let previous = '0'.repeat(rowChars);
+  let current = '';
+  let count = 0;
+  let offset = 0;
+  const flush = (hex: string) => {
+    if (offset < total) out.set(Buffer.from(hex, 'hex').subarray(0, total - offset), offset);
+    offset += stride;
+    previous = hex;
+  };
+  for (const ch of data) {
+    const low = REPEAT_LOW.indexOf(ch);
+    const high = REPEAT_HIGH.indexOf(ch);
+    if (low >= 0) count += low + 1;
+    else if (high >= 0) count += (high + 1) * 20;
+    else if (ch === ',' || ch === '!') {
+      flush(current.padEnd(rowChars, ch === ',' ? '0' : 'F'));
+      current = '';
+    } else if (ch === ':') {
+      flush(previous);
+      current = '';
+    } else if (/[0-9A-Fa-f]/.test(ch)) {
+      current += ch.repeat(Math.max(1, count));
+      while (current.length >= rowChars) {
+        flush(current.slice(0, rowChars));
+        current = current.slice(rowChars);
+      }
+    }
+    if (low < 0 && high < 0) count = 0;
+  }
+  if (current) flush(current.padEnd(rowChars, '0'));
+  return out;
+}
+
+export interface ZplGraphicsRender {
+  /** One bitmap per ^XA ... ^XZ label */
+  labels: MonochromeBitmap[];
+
+  /** Commands that draw something this renderer skips (text, barcodes), e.g. ["FD", "BC"] */
+  unsupported: string[];
+}
+
+// Commands that put text, barcodes or stored images on a label
+const UNRENDERED = /^(A.|B.|FD|FV|GC|GD|GE|XG|IM)$/;
+
+type DrawOp = { x: number; y: number; bitmap: MonochromeBitmap } | { x: number; y: number; w: number; h: number; t: number; black: boolean };
+
+function paint(target: MonochromeBitmap, op: DrawOp): void {
+  const stride = bytesPerRow(target.width);
+  const set = (x: number, y: number, black: boolean) => {
+    if (x < 0 || y < 0 || x >= target.width || y >= target.height) return;
+    const mask = 0x80 >> (x & 7);
+    if (black) target.data[y * stride + (x >> 3)] |= mask;
+    else target.data[y * stride + (x >> 3)] &= ~mask;
+  };
+  if ('bitmap' in op) {
+    const src = op.bitmap;
+    const srcStride = bytesPerRow(src.width);
+    for (let y = 0; y < src.height; y++) {
+      for (let x = 0; x < src.width; x++) {
+        if (src.data[y * srcStride + (x >> 3)] & (0x80 >> (x & 7))) set(op.x + x, op.y + y, true);
+      }
+    }
+    return;
+  }
+  for (let y = 0; y < op.h; y++) {
+    for (let x = 0; x < op.w; x++) {
+      if (x < op.t || y < op.t || x >= op.w - op.t || y >= op.h - op.t) set(op.x + x, op.y + y, op.black);
+    }
+  }
+}
+
+/**
+ * Render the graphic content of a ZPL stream: ^GF fields and ^GB boxes
+ *
+ * This is enough to preview labels produced by bitmapToZpl. Text and barcodes
+ * are not drawn; their commands are listed in `unsupported`.
+ */
+export function renderZplGraphics(zpl: Uint8Array | string): ZplGraphicsRender {
+  const text = typeof zpl === 'string' ? zpl : Buffer.from(zpl).toString('latin1');
+  const labels: MonochromeBitmap[] = [];
+  const unsupported = new Set<string>();
+
+  let ops: DrawOp[] = [];
+  let size = { width: 0, height: 0 };
+  let home = { x: 0, y: 0 };
+  let origin = { x: 0, y: 0, bottom: false };
+
+  let pos = 0;
+  while (pos < text.length) {
+    const start = text.slice(pos).search(/[\^~]/);
+    if (start < 0) break;
+    pos += start + 1;
+    const command = text.slice(pos, pos + 2).toUpperCase();
+    pos += 2;
+    const next = text.slice(pos).search(/[\^~]/);
+    let params = next < 0 ? text.slice(pos) : text.slice(pos, pos + next);
+    const args = () => params.split(',').map((arg) => arg.trim());
+    const num = (value: string | undefined, fallback = 0) => (value && Number.isFinite(Number(value)) ? Number(value) : fallback);
+
+    switch (command) {
+      case 'XA':
+        ops = [];
+        size = { width: 0, height: 0 };
+        home = { x: 0, y: 0 };
+        origin = { x: 0, y: 0, bottom: false };
+        break;
+      case 'LH':
+        home = { x: num(args()[0]), y: num(args()[1]) };
+        break;
+      case 'FO':
+      case 'FT':
+        origin = { x: home.x + num(args()[0]), y: home.y + num(args()[1]), bottom: command === 'FT' };
+        break;
+      case 'PW':
+        size.width = num(args()[0]);
+        break;
+      case 'LL':
+        size.height = num(args()[0]);
+        break;
+      case 'GF': {
+        const [format = 'A', , fieldCount, rowBytes] = args();
+        const total = num(fieldCount);
+        const stride = num(rowBytes, 1);
+        const header = params.split(',', 4).join(',').length + 1;
+        if (format.toUpperCase() === 'B' || format.toUpperCase() === 'C') {
+          // binary data may contain ^ and ~, so take exactly `total` bytes
+          params = text.slice(pos, pos + header + total);
+        }
+        const data = decodeGraphicField(format.toUpperCase(), params.slice(header), total, stride);
+        const bitmap = { width: stride * 8, height: Math.floor(total / stride), data };
+        ops.push({ x: origin.x, y: origin.bottom ? origin.y - bitmap.height : origin.y, bitmap });
+        break;
+      }
+      case 'GB': {
+        const [w, h, t, color] = args();
+        const thickness = Math.max(1, num(t, 1));
+        const width = Math.max(num(w, thickness), thickness);
+        const height = Math.max(num(h, thickness), thickness);
+        ops.push({
+          x: origin.x,
+          y: origin.bottom ? origin.y - height : origin.y,
+          w: width,
+          h: height,
+          t: thickness,
+          black: (color ?? 'B').toUpperCase() !== 'W',
+        });
+        break;
+      }
+      case 'XZ': {
+        const width = size.width || Math.max(1, ...ops.map((op) => op.x + ('bitmap' in op ? op.bitmap.width : op.w)));
+        const height = size.height || Math.max(1, ...ops.map((op) => op.y + ('bitmap' in op ? op.bitmap.height : op.h)));
+        const label = createBitmap(width, height);
+        ops.forEach((op) => paint(label, op));
+        labels.push(label);
+        ops = [];
+        break;
+      }
+      default:
+        if (UNRENDERED.test(command)) unsupported.add(command);
+    }
+    pos += params.length;
+  }
+
+  return { labels, unsupported: [...unsupported] };
+}
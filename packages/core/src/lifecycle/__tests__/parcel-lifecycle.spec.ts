@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ParcelLifecycle,
+  PARCEL_TRANSITIONS,
+  TERMINAL_PARCEL_STATUSES,
+  canTransition,
+  nextParcelStatus,
+} from '../parcel-lifecycle.js';
+import { ParcelTransitionError, ValidationError } from '../../errors/index.js';
+import { InMemoryStore } from '../../stores/in-memory.js';
+import type { Parcel, ParcelStatus } from '../../types/index.js';
+
+function makeParcel(id: string, status?: ParcelStatus): Parcel {
+  const contact = { name: 'Test Sender' };
+  const address = { name: 'Test', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id,
+    shipper: { contact, address },
+    recipient: { contact, delivery: { method: 'HOME', address } },
+    service: 'standard',
+    package: { weightGrams: 1000 },
+    status,
+  } as Parcel;
+}
+
+describe('nextParcelStatus', () => {
+  it('walks the happy path from draft to delivered', () => {
+    let status: ParcelStatus = 'draft';
+    status = nextParcelStatus(status, { type: 'PARCEL_CREATED' });
+    status = nextParcelStatus(status, { type: 'SHIPMENT_CLOSED' });
+    status = nextParcelStatus(status, { type: 'LABEL_GENERATED' });
+    expect(status).toBe('label_generated');
+
+    status = nextParcelStatus(status, { type: 'TRACKING_UPDATED', status: 'PENDING' });
+    expect(status).toBe('label_generated');
+    status = nextParcelStatus(status, { type: 'TRACKING_UPDATED', status: 'IN_TRANSIT' });
+    status = nextParcelStatus(status, { type: 'TRACKING_UPDATED', status: 'OUT_FOR_DELIVERY' });
+    status = nextParcelStatus(status, { type: 'TRACKING_UPDATED', status: 'DELIVERED' });
+    expect(status).toBe('delivered');
+  });
+
+  it('rejects labelling a deleted parcel', () => {
+    const cancelled = nextParcelStatus('created', { type: 'PARCEL_DELETED' });
+
+    expect(cancelled).toBe('cancelled');
+    expect(() => nextParcelStatus(cancelled, { type: 'LABEL_GENERATED' }, 'p1')).toThrow(ParcelTransitionError);
+    expect(() => nextParcelStatus(cancelled, { type: 'LABEL_GENERATED' }, 'p1')).toThrow(
+      "Parcel 'p1' cannot go from 'cancelled' to 'label_generated' (LABEL_GENERATED)"
+    );
+  });
+
+  it('rejects going backwards and voiding labels that do not exist', () => {
+    expect(() => nextParcelStatus('shipped', { type: 'SHIPMENT_CLOSED' })).toThrow(ParcelTransitionError);
+    expect(() => nextParcelStatus('draft', { type: 'LABEL_GENERATED' })).toThrow(ParcelTransitionError);
+    expect(() => nextParcelStatus('closed', { type: 'LABEL_VOIDED' })).toThrow(ParcelTransitionError);
+    expect(nextParcelStatus('label_generated', { type: 'LABEL_VOIDED' })).toBe('created');
+  });
+
+  it('treats repeated events as no-ops and terminal statuses as final', () => {
+    expect(nextParcelStatus('shipped', { type: 'TRACKING_UPDATED', status: 'IN_TRANSIT' })).toBe('shipped');
+    expect(nextParcelStatus('label_generated', { type: 'LABEL_GENERATED' })).toBe('label_generated');
+    for (const status of TERMINAL_PARCEL_STATUSES) {
+      expect(PARCEL_TRANSITIONS[status]).toEqual([]);
+    }
+    expect(canTransition('exception', 'shipped')).toBe(true);
+    expect(canTransition('delivered', 'returned')).toBe(false);
+  });
+});
+
+describe('ParcelLifecycle', () => {
+  const at = new Date('2026-03-01T10:00:00Z');
+
+  it('persists status changes as PARCEL_STATUS_CHANGED events', async () => {
+    const store = new InMemoryStore();
+    const lifecycle = new ParcelLifecycle(store, { now: () => at });
+    const parcel = makeParcel('p1');
+
+    const created = await lifecycle.apply(parcel, { type: 'PARCEL_CREATED' }, { carrierId: 'hu-gls' });
+    await lifecycle.apply('p1', { type: 'LABEL_GENERATED' }, { carrierId: 'hu-gls' });
+    const repeated = await lifecycle.apply('p1', { type: 'TRACKING_UPDATED', status: 'PENDING' });
+    await lifecycle.apply('p1', { type: 'TRACKING_UPDATED', status: 'IN_TRANSIT' }, { carrierId: 'hu-gls' });
+
+    expect(created).toEqual({ parcelId: 'p1', from: 'draft', to: 'created', cause: 'PARCEL_CREATED', carrierId: 'hu-gls', at });
+    expect(repeated).toBeNull();
+    expect((await store.getParcel('p1'))?.status).toBe('shipped');
+    expect((await lifecycle.history('p1')).map(({ from, to, cause, trackingStatus }) => ({ from, to, cause, trackingStatus }))).toEqual([
+      { from: 'draft', to: 'created', cause: 'PARCEL_CREATED', trackingStatus: undefined },
+      { from: 'created', to: 'label_generated', cause: 'LABEL_GENERATED', trackingStatus: undefined },
+      { from: 'label_generated', to: 'shipped', cause: 'TRACKING_UPDATED', trackingStatus: 'IN_TRANSIT' },
+    ]);
+    const [event] = await store.getEvents('p1');
+    expect(event).toMatchObject({
+      type: 'PARCEL_STATUS_CHANGED',
+      internalId: 'p1',
+      carrierId: 'hu-gls',
+      timestamp: at,
+      details: { from: 'draft', to: 'created', cause: 'PARCEL_CREATED' },
+    });
+  });
+
+  it('leaves the parcel untouched when a move is rejected', async () => {
+    const store = new InMemoryStore();
+    const lifecycle = new ParcelLifecycle(store);
+    await store.saveParcel(makeParcel('p1', 'cancelled'));
+
+    await expect(lifecycle.check('p1', { type: 'LABEL_GENERATED' })).rejects.toThrow(ParcelTransitionError);
+    await expect(lifecycle.apply('p1', { type: 'LABEL_GENERATED' })).rejects.toThrow(ParcelTransitionError);
+
+    expect(await lifecycle.status('p1')).toBe('cancelled');
+    expect(await store.getEvents('p1')).toEqual([]);
+  });
+
+  it('needs the parcel itself when it is not stored yet', async () => {
+    const lifecycle = new ParcelLifecycle(new InMemoryStore());
+
+    await expect(lifecycle.apply('missing', { type: 'PARCEL_CREATED' })).rejects.toThrow(ValidationError);
+    expect(await lifecycle.status(makeParcel('new'))).toBe('draft');
+  });
+});
@@ -0,0 +1,13 @@
+export {
+  ParcelLifecycle,
+  PARCEL_TRANSITIONS,
+  TERMINAL_PARCEL_STATUSES,
+  canTransition,
+  nextParcelStatus,
+  parcelStatusForTracking,
+} from './parcel-lifecycle.js';
+export type {
+  ParcelLifecycleEvent,
+  ParcelLifecycleOptions,
+  ParcelTransition,
+} from './parcel-lifecycle.js';
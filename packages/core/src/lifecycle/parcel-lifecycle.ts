@@ -0,0 +1,251 @@
+/**
+ * Parcel lifecycle
+ * One authoritative ParcelStatus, moved only by flow steps and tracking updates
+ */
+
+import { ParcelTransitionError, ValidationError } from '../errors/index.js';
+import type { CarrierResource, DomainEvent, Store } from '../interfaces/index.js';
+import type { Parcel, ParcelStatus, TrackingStatus } from '../types/index.js';
+
+/**
+ * Something that happened to a parcel
+ * Flow steps and deleteParcel map to the first five; carrier tracking to TRACKING_UPDATED
+ */
+export type ParcelLifecycleEvent =
+  | { type: 'PARCEL_CREATED' }
+  | { type: 'SHIPMENT_CLOSED' }
+  | { type: 'LABEL_GENERATED' }
+  | { type: 'LABEL_VOIDED' }
+  | { type: 'PARCEL_DELETED' }
+  | { type: 'TRACKING_UPDATED'; status: TrackingStatus };
+
+/**
+ * Statuses each status may move to
+ * Tracking can start before a label is recorded here (e.g. labels printed
+ * elsewhere), so the carrier-side statuses are reachable from created and closed.
+ */
+export const PARCEL_TRANSITIONS: Readonly<Record<ParcelStatus, readonly ParcelStatus[]>> = {
+  draft: ['created', 'cancelled'],
+  created: ['closed', 'label_generated', 'shipped', 'out_for_delivery', 'delivered', 'exception', 'returned', 'cancelled'],
+  closed: ['label_generated', 'shipped', 'out_for_delivery', 'delivered', 'exception', 'returned', 'cancelled'],
+  label_generated: ['created', 'shipped', 'out_for_delivery', 'delivered', 'exception', 'returned', 'cancelled'],
+  shipped: ['out_for_delivery', 'delivered', 'exception', 'returned', 'cancelled'],
+  out_for_delivery: ['shipped', 'delivered', 'exception', 'returned', 'cancelled'],
+  exception: ['shipped', 'out_for_delivery', 'delivered', 'returned', 'cancelled'],
+  delivered: [],
+  returned: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses a parcel never leaves
+ */
+export const TERMINAL_PARCEL_STATUSES: readonly ParcelStatus[] = ['delivered', 'returned', 'cancelled'];
+
+const TRACKING_PARCEL_STATUS: Record<TrackingStatus, ParcelStatus | undefined> = {
+  PENDING: undefined,
+  IN_TRANSIT: 'shipped',
+  OUT_FOR_DELIVERY: 'out_for_delivery',
+  DELIVERED: 'delivered',
+  EXCEPTION: 'exception',
+  RETURNED: 'returned',
+  CANCELLED: 'cancelled',
+};
+
+/**
+ * Parcel status a tracking status stands for
+ * PENDING (awaiting pickup) returns undefined: it does not move the parcel
+ */
+export function parcelStatusForTracking(status: TrackingStatus): ParcelStatus | undefined {
+  return TRACKING_PARCEL_STATUS[status];
+}
+
+export function canTransition(from: ParcelStatus, to: ParcelStatus): boolean {
+  return PARCEL_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Status an event would move a parcel to
+ *
+ * Returns `current` when the event does not change the status (a repeated
+ * tracking status, a new label for an already labelled parcel, PENDING).
+ *
+ * @throws ParcelTransitionError when the move is not allowed
+ */
+export function nextParcelStatus(current: ParcelStatus, event: ParcelLifecycleEvent, parcelId = 'unknown'): ParcelStatus {
+  let target: ParcelStatus | undefined;
+  switch (event.type) {
+    case 'PARCEL_CREATED':
+      target = 'created';
+      break;
+    case 'SHIPMENT_CLOSED':
+      target = 'closed';
+      break;
+    case 'LABEL_GENERATED':
+      target = 'label_generated';
+      break;
+    case 'LABEL_VOIDED':
+      // Only a labelled parcel has a label to void
+      target = current === 'label_generated' ? 'created' : undefined;
+      if (!target) throw new ParcelTransitionError(parcelId, current, 'created', event.type);
+      break;
+    case 'PARCEL_DELETED':
+      target = 'cancelled';
+      break;
+    case 'TRACKING_UPDATED':
+      target = parcelStatusForTracking(event.status);
+      break;
+  }
+
+  if (!target || target === current) {
+    return current;
+  }
+  if (!canTransition(current, target)) {
+    throw new ParcelTransitionError(parcelId, current, target, event.type);
+  }
+  return target;
+}
+
+/**
+ * A recorded status change
+ */
+export interface ParcelTransition {
+  parcelId: string;
+  from: ParcelStatus;
+  to: ParcelStatus;
+
+  /** Lifecycle event that caused the change */
+  cause: ParcelLifecycleEvent['type'];
+
+  /** Tracking status, for TRACKING_UPDATED */
+  trackingStatus?: TrackingStatus;
+
+  carrierId?: string;
+  at: Date;
+}
+
+export interface ParcelLifecycleOptions {
+  /** Injected for tests */
+  now?: () => Date;
+}
+
+/**
+ * ParcelLifecycle
+ * Applies lifecycle events to parcels in a Store
+ *
+ * Each change updates `Parcel.status` and appends a PARCEL_STATUS_CHANGED
+ * domain event ({ from, to, cause }), so the event log holds the full
+ * history. Events that would make an illegal move are rejected with a
+ * ParcelTransitionError and leave the parcel untouched. Parcels without a
+ * status count as 'draft'.
+ *
+ * Usage:
+ * ```typescript
+ * const lifecycle = new ParcelLifecycle(store);
+ * await executeShippingFlow({ adapter, parcels, credentials, context, store, lifecycle });
+ *
+ * await adapter.deleteParcel(req, ctx);
+ * await lifecycle.apply(parcel.id, { type: 'PARCEL_DELETED' });
+ * ```
+ */
+export class ParcelLifecycle {
+  constructor(
+    private readonly store: Store,
+    private readonly options: ParcelLifecycleOptions = {}
+  ) {}
+
+  /**
+   * Stored parcel, or the given one when it has not been saved yet
+   */
+  private async load(parcel: Parcel | string): Promise<Parcel> {
+    const id = typeof parcel === 'string' ? parcel : parcel.id;
+    const stored = await this.store.getParcel(id);
+    if (stored) return stored;
+    if (typeof parcel === 'string') {
+      throw new ValidationError(`Parcel '${id}' not found`, { parcelId: id });
+    }
+    return parcel;
+  }
+
+  /**
+   * Current status of a parcel ('draft' when it has none)
+   */
+  async status(parcel: Parcel | string): Promise<ParcelStatus> {
+    return (await this.load(parcel)).status ?? 'draft';
+  }
+
+  /**
+   * Status the event would move the parcel to, without applying it
+   *
+   * @throws ParcelTransitionError when the move is not allowed
+   */
+  async check(parcel: Parcel | string, event: ParcelLifecycleEvent): Promise<ParcelStatus> {
+    const loaded = await this.load(parcel);
+    return nextParcelStatus(loaded.status ?? 'draft', event, loaded.id);
+  }
+
+  /**
+   * Apply an event to a parcel
+   *
+   * @param parcel Parcel ID, or the parcel itself (saved on its first transition)
+   * @returns The transition, or null when the status did not change
+   * @throws ParcelTransitionError when the move is not allowed
+   */
+  async apply(
+    parcel: Parcel | string,
+    event: ParcelLifecycleEvent,
+    meta: { carrierId?: string; resource?: CarrierResource } = {}
+  ): Promise<ParcelTransition | null> {
+    const loaded = await this.load(parcel);
+    const from = loaded.status ?? 'draft';
+    const to = nextParcelStatus(from, event, loaded.id);
+    if (to === from) {
+      return null;
+    }
+
+    const transition: ParcelTransition = {
+      parcelId: loaded.id,
+      from,
+      to,
+      cause: event.type,
+      ...(event.type === 'TRACKING_UPDATED' ? { trackingStatus: event.status } : {}),
+      ...(meta.carrierId ? { carrierId: meta.carrierId } : {}),
+      at: this.options.now?.() ?? new Date(),
+    };
+
+    await this.store.saveParcel({ ...loaded, status: to });
+    await this.store.appendEvent(loaded.id, {
+      type: 'PARCEL_STATUS_CHANGED',
+      internalId: loaded.id,
+      carrierId: meta.carrierId,
+      resource: meta.resource,
+      timestamp: transition.at,
+      details: {
+        from,
+        to,
+        cause: event.type,
+        ...(transition.trackingStatus ? { trackingStatus: transition.trackingStatus } : {}),
+      },
+    });
+    return transition;
+  }
+
+  /**
+   * Status changes recorded for a parcel, oldest first
+   */
+  async history(parcelId: string): Promise<ParcelTransition[]> {
+    const events = await this.store.getEvents(parcelId);
+    return events
+      .filter((event): event is DomainEvent & { details: Record<string, unknown> } =>
+        event.type === 'PARCEL_STATUS_CHANGED' && !!event.details)
+      .map((event) => ({
+        parcelId,
+        from: event.details.from as ParcelStatus,
+        to: event.details.to as ParcelStatus,
+        cause: event.details.cause as ParcelLifecycleEvent['type'],
+        ...(event.details.trackingStatus ? { trackingStatus: event.details.trackingStatus as TrackingStatus } : {}),
+        ...(event.carrierId ? { carrierId: event.carrierId } : {}),
+        at: new Date(event.timestamp ?? 0),
+      }));
+  }
+}
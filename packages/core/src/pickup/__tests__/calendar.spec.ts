@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addLocalDays,
+  getEasterSunday,
+  isPickupDay,
+  toLocalDate,
+  validatePickupWindow,
+  type PickupCalendar,
+} from '../calendar.js';
+import { ValidationError } from '../../errors/index.js';
+
+const CALENDAR: PickupCalendar = {
+  timeZone: 'Europe/Budapest',
+  holidays: (year) => [`${year}-12-25`, `${year}-12-26`],
+  extraHolidays: ['2026-12-24'],
+};
+
+// Monday 2026-10-19 10:00 in Budapest
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+function window(from: string, to: string) {
+  return { from: new Date(from), to: new Date(to) };
+}
+
+function reasonOf(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details?.reason;
+  }
+  return undefined;
+}
+
+describe('pickup calendar', () => {
+  it('computes Easter Sunday', () => {
+    expect(getEasterSunday(2024)).toBe('2024-03-31');
+    expect(getEasterSunday(2025)).toBe('2025-04-20');
+    expect(getEasterSunday(2026)).toBe('2026-04-05');
+    expect(addLocalDays(getEasterSunday(2026), 50)).toBe('2026-05-25');
+  });
+
+  it('uses the local date of the calendar time zone', () => {
+    // Friday 23:30 UTC is already Saturday in Budapest
+    const lateFriday = new Date('2026-10-23T23:30:00Z');
+    expect(toLocalDate(lateFriday, 'Europe/Budapest')).toBe('2026-10-24');
+    expect(isPickupDay(lateFriday, CALENDAR)).toBe(false);
+    expect(isPickupDay(new Date('2026-10-22T12:00:00Z'), CALENDAR)).toBe(true);
+  });
+
+  it('accepts a window later today or on a future working day', () => {
+    expect(() => validatePickupWindow(window('2026-10-19T08:00:00Z', '2026-10-19T14:00:00Z'), CALENDAR, NOW)).not.toThrow();
+    expect(() => validatePickupWindow(window('2026-10-20T07:00:00Z', '2026-10-20T15:00:00Z'), CALENDAR, NOW)).not.toThrow();
+  });
+
+  it('rejects invalid, empty and past windows', () => {
+    expect(reasonOf(() => validatePickupWindow(window('nope', '2026-10-20T15:00:00Z'), CALENDAR, NOW))).toBe('invalid');
+    expect(reasonOf(() => validatePickupWindow(window('2026-10-20T15:00:00Z', '2026-10-20T07:00:00Z'), CALENDAR, NOW))).toBe('empty');
+    expect(reasonOf(() => validatePickupWindow(window('2026-10-16T07:00:00Z', '2026-10-16T15:00:00Z'), CALENDAR, NOW))).toBe('past');
+    expect(reasonOf(() => validatePickupWindow(window('2026-10-16T07:00:00Z', '2026-10-20T15:00:00Z'), CALENDAR, NOW))).toBe('past');
+  });
+
+  it('rejects weekends, holidays and extra holidays', () => {
+    expect(reasonOf(() => validatePickupWindow(window('2026-10-24T07:00:00Z', '2026-10-24T15:00:00Z'), CALENDAR, NOW))).toBe('weekend');
+    expect(reasonOf(() => validatePickupWindow(window('2026-12-25T07:00:00Z', '2026-12-25T15:00:00Z'), CALENDAR, NOW))).toBe('holiday');
+    expect(reasonOf(() => validatePickupWindow(window('2026-12-24T07:00:00Z', '2026-12-24T15:00:00Z'), CALENDAR, NOW))).toBe('holiday');
+  });
+});
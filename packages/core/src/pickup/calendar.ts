@@ -0,0 +1,145 @@
+/**
+ * Pickup calendars
+ *
+ * Couriers only collect on the carrier's working days. A PickupCalendar
+ * describes those days for one country (time zone, working weekdays, public
+ * holidays) and validatePickupWindow() rejects pickup windows the carrier
+ * cannot serve before any API call is made.
+ *
+ * Days are compared as local calendar dates (YYYY-MM-DD) in the calendar's
+ * time zone, so a window starting at 23:30 UTC on a Friday is a Saturday
+ * pickup in Budapest.
+ */
+
+import type { PickupWindow } from '../types/index.js';
+import { ValidationError } from '../errors/index.js';
+
+export interface PickupCalendar {
+  /** IANA time zone the carrier works in (e.g., "Europe/Budapest") */
+  timeZone: string;
+  /** Weekdays the carrier collects on, 0 = Sunday (default Monday to Friday) */
+  workingWeekdays?: number[];
+  /** Public holidays of a year as local dates (YYYY-MM-DD) */
+  holidays?: (year: number) => string[];
+  /** Additional non-working dates (YYYY-MM-DD), e.g. bridge days or carrier closures */
+  extraHolidays?: string[];
+}
+
+const DEFAULT_WORKING_WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function toLocalDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Shift a local date (YYYY-MM-DD) by a number of days
+ */
+export function addLocalDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Easter Sunday of a year (Gregorian calendar) as YYYY-MM-DD
+ * Good Friday, Easter Monday and Whit Monday follow from it via addLocalDays().
+ */
+export function getEasterSunday(year: number): string {
+  // Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Why a local date is not a working day, or undefined if it is one
+ */
+export function getNonWorkingReason(localDate: string, calendar: PickupCalendar): 'weekend' | 'holiday' | undefined {
+  const weekday = new Date(`${localDate}T00:00:00Z`).getUTCDay();
+  if (!(calendar.workingWeekdays ?? DEFAULT_WORKING_WEEKDAYS).includes(weekday)) {
+    return 'weekend';
+  }
+
+  const year = Number(localDate.slice(0, 4));
+  const holidays = [...(calendar.holidays?.(year) ?? []), ...(calendar.extraHolidays ?? [])];
+  return holidays.includes(localDate) ? 'holiday' : undefined;
+}
+
+/**
+ * Whether the carrier collects on the local day of an instant
+ */
+export function isPickupDay(date: Date, calendar: PickupCalendar): boolean {
+  return getNonWorkingReason(toLocalDate(date, calendar.timeZone), calendar) === undefined;
+}
+
+/**
+ * Validate a pickup window against a carrier calendar
+ *
+ * Rejects windows that are not valid dates, end before they start, are
+ * already over or start on an earlier day, or start on a non-working day of
+ * the calendar.
+ *
+ * @param window Requested pickup window
+ * @param calendar Carrier calendar
+ * @param now Current time (injectable for tests)
+ * @throws ValidationError with details { field, reason } naming the failed check
+ */
+export function validatePickupWindow(
+  window: PickupWindow,
+  calendar: PickupCalendar,
+  now: Date = new Date()
+): void {
+  const from = window?.from;
+  const to = window?.to;
+  if (!(from instanceof Date) || Number.isNaN(from.getTime()) || !(to instanceof Date) || Number.isNaN(to.getTime())) {
+    throw new ValidationError('Pickup window must have valid from and to dates', {
+      field: 'window',
+      reason: 'invalid',
+    });
+  }
+
+  if (to.getTime() <= from.getTime()) {
+    throw new ValidationError('Pickup window must end after it starts', {
+      field: 'window.to',
+      reason: 'empty',
+    });
+  }
+
+  // A window still open today is fine; one starting on an earlier day is not
+  const localDate = toLocalDate(from, calendar.timeZone);
+  if (to.getTime() <= now.getTime() || localDate < toLocalDate(now, calendar.timeZone)) {
+    throw new ValidationError(`Pickup window starting ${from.toISOString()} is in the past`, {
+      field: 'window',
+      reason: 'past',
+    });
+  }
+
+  const reason = getNonWorkingReason(localDate, calendar);
+  if (reason) {
+    throw new ValidationError(
+      `Carrier does not collect on ${localDate} (${reason === 'holiday' ? 'public holiday' : 'non-working day'})`,
+      { field: 'window.from', reason, date: localDate }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  validatePickupWindow,
+  isPickupDay,
+  getNonWorkingReason,
+  getEasterSunday,
+  toLocalDate,
+  addLocalDays,
+} from './calendar.js';
+export type { PickupCalendar } from './calendar.js';
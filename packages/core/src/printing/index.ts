@@ -0,0 +1,5 @@
+export { printLabelFile, getPrintJobStatus } from './print.js';
+export type { PrintJob, PrintJobStatus, PrintLabelOptions } from './print.js';
+export { parsePrinterUri, printerId } from './printer.js';
+export type { PrinterConfig, RawPrinterConfig, IppPrinterConfig } from './printer.js';
+export { sendRaw } from './raw.js';
@@ -0,0 +1,387 @@
+/**
+ * IPP client (RFC 8010 / 8011)
+ * Just enough of the protocol to submit a document and ask about the job
+ */
+
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { CarrierError, ValidationError } from '../errors/index.js';
+import { printerConnectionError, printerId, type IppPrinterConfig } from './printer.js';
+
+/** Delimiter and value tags */
+export const IPP_TAG = {
+  OPERATION: 0x01,
+  JOB: 0x02,
+  END: 0x03,
+  PRINTER: 0x04,
+  UNSUPPORTED_GROUP: 0x05,
+  INTEGER: 0x21,
+  BOOLEAN: 0x22,
+  ENUM: 0x23,
+  TEXT: 0x41,
+  NAME: 0x42,
+  KEYWORD: 0x44,
+  URI: 0x45,
+  CHARSET: 0x47,
+  LANGUAGE: 0x48,
+  MIME_TYPE: 0x49,
+} as const;
+
+export const IPP_OPERATION = {
+  PRINT_JOB: 0x0002,
+  GET_JOB_ATTRIBUTES: 0x0009,
+} as const;
+
+export type IppValue = number | boolean | string | Buffer;
+
+export interface IppAttribute {
+  tag: number;
+  name: string;
+  values: IppValue[];
+}
+
+export interface IppGroup {
+  tag: number;
+  attributes: IppAttribute[];
+}
+
+/**
+ * Request or response; `code` is the operation id in requests and the status code in responses
+ */
+export interface IppMessage {
+  code: number;
+  requestId: number;
+  groups: IppGroup[];
+  data?: Uint8Array;
+}
+
+const INTEGER_TAGS = new Set<number>([IPP_TAG.INTEGER, IPP_TAG.ENUM]);
+const STRING_TAGS = new Set<number>([
+  IPP_TAG.TEXT,
+  IPP_TAG.NAME,
+  IPP_TAG.KEYWORD,
+  IPP_TAG.URI,
+  IPP_TAG.CHARSET,
+  IPP_TAG.LANGUAGE,
+  IPP_TAG.MIME_TYPE,
+]);
+
+function encodeValue(tag: number, value: IppValue): Buffer {
+  if (INTEGER_TAGS.has(tag)) {
+    const out = Buffer.alloc(4);
+    out.writeInt32BE(value as number);
+    return out;
+  }
+  if (tag === IPP_TAG.BOOLEAN) {
+    return Buffer.from([value ? 1 : 0]);
+  }
+  return Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'utf8');
+}
+
+/**
+ * Encode an IPP/1.1 message
+ */
+export function encodeIppMessage(message: IppMessage): Buffer {
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(8);
+  header.writeUInt8(1, 0);
+  header.writeUInt8(1, 1);
+  header.writeUInt16BE(message.code, 2);
+  header.writeUInt32BE(message.requestId, 4);
+  parts.push(header);
+
+  for (const group of message.groups) {
+    parts.push(Buffer.from([group.tag]));
+    for (const attribute of group.attributes) {
+      attribute.values.forEach((value, idx) => {
+        // Additional values of a multi-valued attribute have an empty name
+        const name = Buffer.from(idx === 0 ? attribute.name : '', 'utf8');
+        const encoded = encodeValue(attribute.tag, value);
+        const head = Buffer.alloc(3);
+        head.writeUInt8(attribute.tag, 0);
+        head.writeUInt16BE(name.length, 1);
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(encoded.length);
+        parts.push(head, name, length, encoded);
+      });
+    }
+  }
+  parts.push(Buffer.from([IPP_TAG.END]));
+  if (message.data) {
+    parts.push(Buffer.from(message.data));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Decode an IPP message; whatever follows the attributes is returned as `data`
+ *
+ * @throws ValidationError for truncated or malformed messages
+ */
+export function decodeIppMessage(bytes: Uint8Array): IppMessage {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const need = (pos: number, n: number) => {
+    if (pos + n > buf.length) {
+      throw new ValidationError('Truncated IPP message', { offset: pos });
+    }
+  };
+
+  need(0, 8);
+  const message: IppMessage = { code: buf.readUInt16BE(2), requestId: buf.readUInt32BE(4), groups: [] };
+  let pos = 8;
+  let group: IppGroup | undefined;
+  let attribute: IppAttribute | undefined;
+
+  for (;;) {
+    need(pos, 1);
+    const tag = buf[pos++];
+    if (tag === IPP_TAG.END) break;
+    if (tag < 0x10) {
+      group = { tag, attributes: [] };
+      message.groups.push(group);
+      attribute = undefined;
+      continue;
+    }
+    if (!group) {
+      throw new ValidationError('IPP attribute outside of an attribute group', { offset: pos - 1 });
+    }
+
+    need(pos, 2);
+    const nameLength = buf.readUInt16BE(pos);
+    need(pos + 2, nameLength + 2);
+    const name = buf.toString('utf8', pos + 2, pos + 2 + nameLength);
+    pos += 2 + nameLength;
+    const valueLength = buf.readUInt16BE(pos);
+    need(pos + 2, valueLength);
+    const raw = buf.subarray(pos + 2, pos + 2 + valueLength);
+    pos += 2 + valueLength;
+
+    const value: IppValue = INTEGER_TAGS.has(tag) && raw.length === 4
+      ? raw.readInt32BE(0)
+      : tag === IPP_TAG.BOOLEAN && raw.length === 1
+        ? raw[0] !== 0
+        : STRING_TAGS.has(tag)
+          ? raw.toString('utf8')
+          : Buffer.from(raw);
+
+    if (nameLength === 0 && attribute) {
+      attribute.values.push(value);
+    } else {
+      attribute = { tag, name, values: [value] };
+      group.attributes.push(attribute);
+    }
+  }
+
+  if (pos < buf.length) {
+    message.data = buf.subarray(pos);
+  }
+  return message;
+}
+
+/**
+ * Values of the first attribute called `name`, optionally only in groups tagged `groupTag`
+ */
+export function findIppAttribute(message: IppMessage, name: string, groupTag?: number): IppValue[] | undefined {
+  for (const group of message.groups) {
+    if (groupTag !== undefined && group.tag !== groupTag) continue;
+    const attribute = group.attributes.find((a) => a.name === name);
+    if (attribute) return attribute.values;
+  }
+  return undefined;
+}
+
+const STATUS_NAMES: Record<number, string> = {
+  0x0400: 'client-error-bad-request',
+  0x0401: 'client-error-forbidden',
+  0x0402: 'client-error-not-authenticated',
+  0x0403: 'client-error-not-authorized',
+  0x0404: 'client-error-not-possible',
+  0x0405: 'client-error-timeout',
+  0x0406: 'client-error-not-found',
+  0x0407: 'client-error-gone',
+  0x0408: 'client-error-request-entity-too-large',
+  0x040a: 'client-error-document-format-not-supported',
+  0x040b: 'client-error-attributes-or-values-not-supported',
+  0x0500: 'server-error-internal-error',
+  0x0501: 'server-error-operation-not-supported',
+  0x0502: 'server-error-service-unavailable',
+  0x0503: 'server-error-version-not-supported',
+  0x0504: 'server-error-device-error',
+  0x0505: 'server-error-temporary-error',
+  0x0506: 'server-error-not-accepting-jobs',
+  0x0507: 'server-error-busy',
+};
+
+/** Server errors that clear up by themselves (busy, paused, out of paper...) */
+const TRANSIENT_STATUS = new Set([0x0405, 0x0502, 0x0504, 0x0505, 0x0506, 0x0507]);
+
+function ippStatusError(printer: IppPrinterConfig, response: IppMessage): CarrierError {
+  const code = response.code;
+  const statusName = STATUS_NAMES[code] ?? `0x${code.toString(16).padStart(4, '0')}`;
+  const detail = findIppAttribute(response, 'status-message')?.[0];
+  const category = TRANSIENT_STATUS.has(code)
+    ? 'Transient'
+    : code >= 0x0401 && code <= 0x0403
+      ? 'Auth'
+      : code === 0x0406 || code === 0x0407
+        ? 'NotFound'
+        : code < 0x0500
+          ? 'Validation'
+          : 'Permanent';
+  return new CarrierError(`Printer ${printerId(printer)}: ${statusName}${detail ? ` (${detail})` : ''}`, category, {
+    carrierCode: statusName,
+    raw: { printer: printerId(printer), status: code },
+  });
+}
+
+let nextRequestId = 1;
+
+/**
+ * Operation attributes every request starts with
+ */
+function operationGroup(printer: IppPrinterConfig, extra: IppAttribute[] = []): IppGroup {
+  return {
+    tag: IPP_TAG.OPERATION,
+    attributes: [
+      { tag: IPP_TAG.CHARSET, name: 'attributes-charset', values: ['utf-8'] },
+      { tag: IPP_TAG.LANGUAGE, name: 'attributes-natural-language', values: ['en'] },
+      { tag: IPP_TAG.URI, name: 'printer-uri', values: [printer.uri] },
+      { tag: IPP_TAG.NAME, name: 'requesting-user-name', values: [printer.username ?? 'shopickup'] },
+      ...extra,
+    ],
+  };
+}
+
+/**
+ * POST an IPP request to the printer and decode the response
+ *
+ * @throws CarrierError for connection failures, HTTP errors and IPP error statuses
+ */
+export function sendIppRequest(printer: IppPrinterConfig, message: IppMessage): Promise<IppMessage> {
+  const target = new URL(printer.uri);
+  const secure = target.protocol === 'ipps:' || target.protocol === 'https:';
+  // ipp(s):// is HTTP(S) on port 631 by default
+  const url = target.protocol === 'ipp:' || target.protocol === 'ipps:'
+    ? new URL(`${secure ? 'https' : 'http'}://${target.hostname}:${target.port || 631}${target.pathname}${target.search}`)
+    : target;
+  const body = encodeIppMessage(message);
+  const headers: Record<string, string | number> = {
+    'content-type': 'application/ipp',
+    'content-length': body.length,
+  };
+  if (printer.username && printer.password !== undefined) {
+    headers.authorization = `Basic ${Buffer.from(`${printer.username}:${printer.password}`).toString('base64')}`;
+  }
+  const timeoutMs = printer.timeoutMs ?? 10_000;
+
+  return new Promise<IppMessage>((resolve, reject) => {
+    const req = (secure ? httpsRequest : httpRequest)(url, { method: 'POST', headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('error', (err) => reject(printerConnectionError(printer, err, 'send')));
+      res.on('end', () => {
+        const status = res.statusCode ?? 0;
+        if (status !== 200) {
+          const category = status === 401 || status === 403 ? 'Auth' : status >= 500 ? 'Transient' : 'Permanent';
+          reject(new CarrierError(`Printer ${printerId(printer)}: HTTP ${status}`, category, {
+            carrierCode: `HTTP_${status}`,
+            raw: { printer: printerId(printer), status },
+          }));
+          return;
+        }
+        let response: IppMessage;
+        try {
+          response = decodeIppMessage(Buffer.concat(chunks));
+        } catch (err) {
+          reject(new CarrierError(`Printer ${printerId(printer)}: ${(err as Error).message}`, 'Permanent', {
+            raw: { printer: printerId(printer) },
+          }));
+          return;
+        }
+        if (response.code >= 0x0100) {
+          reject(ippStatusError(printer, response));
+          return;
+        }
+        resolve(response);
+      });
+    });
+
+    let sent = false;
+    req.on('finish', () => {
+      sent = true;
+    });
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(Object.assign(new Error(`No response within ${timeoutMs} ms`), { code: 'ETIMEDOUT' }));
+    });
+    req.on('error', (err) => reject(printerConnectionError(printer, err, sent ? 'send' : 'connect')));
+    req.end(body);
+  });
+}
+
+export interface IppJobAttributes {
+  jobId: number;
+
+  /** IPP job-state enum: 3 pending ... 9 completed */
+  jobState?: number;
+  jobStateReasons: string[];
+}
+
+function jobAttributes(response: IppMessage, fallbackJobId?: number): IppJobAttributes {
+  const jobId = findIppAttribute(response, 'job-id', IPP_TAG.JOB)?.[0];
+  const jobState = findIppAttribute(response, 'job-state', IPP_TAG.JOB)?.[0];
+  return {
+    jobId: typeof jobId === 'number' ? jobId : fallbackJobId ?? 0,
+    jobState: typeof jobState === 'number' ? jobState : undefined,
+    jobStateReasons: (findIppAttribute(response, 'job-state-reasons', IPP_TAG.JOB) ?? []).map(String),
+  };
+}
+
+export interface IppPrintJobOptions {
+  documentFormat: string;
+  jobName?: string;
+  copies?: number;
+}
+
+/**
+ * Print-Job: submit one document
+ */
+export async function ippPrintJob(
+  printer: IppPrinterConfig,
+  document: Uint8Array,
+  options: IppPrintJobOptions
+): Promise<IppJobAttributes> {
+  const groups: IppGroup[] = [
+    operationGroup(printer, [
+      ...(options.jobName ? [{ tag: IPP_TAG.NAME, name: 'job-name', values: [options.jobName] }] : []),
+      { tag: IPP_TAG.MIME_TYPE, name: 'document-format', values: [options.documentFormat] },
+    ]),
+  ];
+  if (options.copies && options.copies > 1) {
+    groups.push({ tag: IPP_TAG.JOB, attributes: [{ tag: IPP_TAG.INTEGER, name: 'copies', values: [options.copies] }] });
+  }
+
+  const response = await sendIppRequest(printer, {
+    code: IPP_OPERATION.PRINT_JOB,
+    requestId: nextRequestId++,
+    groups,
+    data: document,
+  });
+  return jobAttributes(response);
+}
+
+/**
+ * Get-Job-Attributes: current state of a submitted job
+ */
+export async function ippGetJobAttributes(printer: IppPrinterConfig, jobId: number): Promise<IppJobAttributes> {
+  const response = await sendIppRequest(printer, {
+    code: IPP_OPERATION.GET_JOB_ATTRIBUTES,
+    requestId: nextRequestId++,
+    groups: [
+      operationGroup(printer, [
+        { tag: IPP_TAG.INTEGER, name: 'job-id', values: [jobId] },
+        { tag: IPP_TAG.KEYWORD, name: 'requested-attributes', values: ['job-id', 'job-state', 'job-state-reasons'] },
+      ]),
+    ],
+  });
+  return jobAttributes(response, jobId);
+}
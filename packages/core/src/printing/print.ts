@@ -0,0 +1,173 @@
+/**
+ * Label printing
+ * Sends label files to network printers, retrying transient failures
+ */
+
+import { CarrierError, ValidationError } from '../errors/index.js';
+import type { Logger } from '../interfaces/index.js';
+import { labelFileFormat } from '../labels/convert.js';
+import type { LabelFileResource } from '../types/index.js';
+import type { RetryPolicy } from '../utils/retry.js';
+import { ippGetJobAttributes, ippPrintJob, type IppJobAttributes } from './ipp.js';
+import { printerId, type PrinterConfig } from './printer.js';
+import { sendRaw } from './raw.js';
+
+/**
+ * 'sent' for raw printers, which report nothing back; IPP job states otherwise
+ */
+export type PrintJobStatus = 'sent' | 'pending' | 'held' | 'processing' | 'stopped' | 'canceled' | 'aborted' | 'completed';
+
+export interface PrintJob {
+  printerId: string;
+  protocol: PrinterConfig['protocol'];
+  fileId: string;
+  status: PrintJobStatus;
+
+  /** Attempts it took, including the successful one */
+  attempts: number;
+  bytesSent: number;
+
+  /** IPP job id, for getPrintJobStatus */
+  jobId?: number;
+
+  /** IPP job-state-reasons, e.g. "media-empty" */
+  jobStateReasons?: string[];
+}
+
+export interface PrintLabelOptions {
+  /** Default: 1 */
+  copies?: number;
+
+  /** IPP job name (default: the file id) */
+  jobName?: string;
+
+  /** Retries of Transient failures (default: 3 attempts, 500 ms doubling up to 5 s) */
+  retry?: Partial<Pick<RetryPolicy, 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs'>>;
+
+  logger?: Logger;
+
+  /** Injected for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_RETRY = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 5_000 };
+
+/** IPP job-state enum values */
+const IPP_JOB_STATES: Record<number, PrintJobStatus> = {
+  3: 'pending',
+  4: 'held',
+  5: 'processing',
+  6: 'stopped',
+  7: 'canceled',
+  8: 'aborted',
+  9: 'completed',
+};
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function ippStatus(attributes: IppJobAttributes): Pick<PrintJob, 'status' | 'jobId' | 'jobStateReasons'> {
+  return {
+    // A job the printer accepted without saying more is at least pending
+    status: (attributes.jobState !== undefined && IPP_JOB_STATES[attributes.jobState]) || 'pending',
+    jobId: attributes.jobId,
+    jobStateReasons: attributes.jobStateReasons,
+  };
+}
+
+/**
+ * Whether a failed job can be sent again without risking a duplicate label
+ * Raw printers print whatever bytes arrived, so only failures before the
+ * connection was made are resent; IPP printers reject incomplete jobs
+ */
+function canResend(printer: PrinterConfig, err: CarrierError): boolean {
+  return printer.protocol !== 'raw' || (err.raw as { phase?: string } | undefined)?.phase === 'connect';
+}
+
+/**
+ * Print a label file on a network printer
+ *
+ * - Raw (port 9100) printers take ZPL; convert PDF labels with convertLabelFile first
+ * - IPP printers take PDF; ZPL is sent as application/octet-stream for raw queues
+ * - Transient failures (refused connections, busy printer) are retried with
+ *   exponential backoff; anything else is thrown straight away. Raw jobs that
+ *   failed after connecting are not retried, since the printer may already
+ *   have printed part of them
+ *
+ * @returns The job, with its IPP state when the printer reports one
+ * @throws ValidationError for files without rawBytes or in a format the printer cannot take
+ * @throws CarrierError when the printer cannot be reached or rejects the job
+ */
+export async function printLabelFile(
+  file: LabelFileResource,
+  printer: PrinterConfig,
+  options: PrintLabelOptions = {}
+): Promise<PrintJob> {
+  if (!file.rawBytes) {
+    throw new ValidationError(`Label file '${file.id}' has no rawBytes`, { fileId: file.id });
+  }
+  const format = labelFileFormat(file);
+  if (!format) {
+    throw new ValidationError(`Unsupported label file type '${file.contentType}' (file '${file.id}')`, { fileId: file.id });
+  }
+  if (printer.protocol === 'raw' && format !== 'ZPL') {
+    throw new ValidationError(`Raw printers take ZPL; convert label file '${file.id}' or use an IPP printer`, {
+      fileId: file.id,
+      printer: printerId(printer),
+    });
+  }
+
+  const copies = options.copies ?? 1;
+  if (!Number.isInteger(copies) || copies < 1) {
+    throw new ValidationError('copies must be a positive whole number', { copies });
+  }
+  const retry = { ...DEFAULT_RETRY, ...options.retry };
+  const sleep = options.sleep ?? defaultSleep;
+  const id = printerId(printer);
+  const bytes = file.rawBytes;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      let job: PrintJob;
+      if (printer.protocol === 'raw') {
+        const payload = copies > 1 ? Buffer.concat(Array.from({ length: copies }, () => Buffer.from(bytes))) : bytes;
+        const bytesSent = await sendRaw(printer, payload);
+        job = { printerId: id, protocol: 'raw', fileId: file.id, status: 'sent', attempts: attempt, bytesSent };
+      } else {
+        const attributes = await ippPrintJob(printer, bytes, {
+          documentFormat: format === 'PDF' ? 'application/pdf' : 'application/octet-stream',
+          jobName: options.jobName ?? file.id,
+          copies,
+        });
+        job = { printerId: id, protocol: 'ipp', fileId: file.id, attempts: attempt, bytesSent: bytes.byteLength, ...ippStatus(attributes) };
+      }
+      options.logger?.info(`Printed label file ${file.id} on ${id}`, { status: job.status, attempts: attempt, jobId: job.jobId });
+      return job;
+    } catch (err) {
+      if (!(err instanceof CarrierError) || !err.isRetryable() || !canResend(printer, err) || attempt >= retry.maxAttempts) {
+        throw err;
+      }
+      const delay = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+      options.logger?.warn(`Printing label file ${file.id} on ${id} failed, retrying in ${delay} ms`, {
+        attempt,
+        error: err.message,
+        code: err.carrierCode,
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Current state of an IPP print job
+ *
+ * @throws ValidationError for raw printers, which do not report job status
+ */
+export async function getPrintJobStatus(
+  printer: PrinterConfig,
+  jobId: number
+): Promise<Pick<PrintJob, 'status' | 'jobId' | 'jobStateReasons'>> {
+  if (printer.protocol !== 'ipp') {
+    throw new ValidationError(`Raw printer ${printerId(printer)} does not report job status`, { printer: printerId(printer) });
+  }
+  return ippStatus(await ippGetJobAttributes(printer, jobId));
+}
@@ -0,0 +1,112 @@
+/**
+ * Network printer configuration
+ */
+
+import { CarrierError, ValidationError } from '../errors/index.js';
+
+interface PrinterConfigBase {
+  /** Name used in logs and job results (default: the printer address) */
+  id?: string;
+
+  /** Connect / response timeout per attempt (default: 10000 ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * Raw TCP printer ("JetDirect", port 9100); the bytes go to the printer as they are
+ * Thermal printers take ZPL this way
+ */
+export interface RawPrinterConfig extends PrinterConfigBase {
+  protocol: 'raw';
+  host: string;
+
+  /** Default: 9100 */
+  port?: number;
+}
+
+/**
+ * IPP printer or print server (CUPS), for PDF labels
+ */
+export interface IppPrinterConfig extends PrinterConfigBase {
+  protocol: 'ipp';
+
+  /** Printer URI, e.g. "ipp://192.168.1.20/ipp/print" or "ipps://cups.local/printers/labels" */
+  uri: string;
+
+  /** Sent as requesting-user-name, and with `password` as HTTP basic auth */
+  username?: string;
+  password?: string;
+}
+
+export type PrinterConfig = RawPrinterConfig | IppPrinterConfig;
+
+/**
+ * Parse a printer URI into a PrinterConfig
+ *
+ * - `raw://host[:port]` and `socket://host[:port]` (CUPS naming): raw TCP, port 9100
+ * - `ipp://`, `ipps://`, `http://`, `https://`: IPP
+ *
+ * @throws ValidationError for other schemes or URIs without a host
+ */
+export function parsePrinterUri(uri: string, options: PrinterConfigBase = {}): PrinterConfig {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new ValidationError(`Invalid printer URI: '${uri}'`, { uri });
+  }
+  if (!url.hostname) {
+    throw new ValidationError(`Printer URI has no host: '${uri}'`, { uri });
+  }
+
+  switch (url.protocol) {
+    case 'raw:':
+    case 'socket:':
+      return { ...options, protocol: 'raw', host: url.hostname, port: url.port ? Number(url.port) : undefined };
+    case 'ipp:':
+    case 'ipps:':
+    case 'http:':
+    case 'https:': {
+      const username = url.username ? decodeURIComponent(url.username) : undefined;
+      const password = url.password ? decodeURIComponent(url.password) : undefined;
+      url.username = '';
+      url.password = '';
+      return { ...options, protocol: 'ipp', uri: url.toString(), username, password };
+    }
+    default:
+      throw new ValidationError(`Unsupported printer URI scheme '${url.protocol}' (use raw://, socket://, ipp:// or ipps://)`, { uri });
+  }
+}
+
+/**
+ * Printer name for logs and job results
+ */
+export function printerId(printer: PrinterConfig): string {
+  if (printer.id) return printer.id;
+  return printer.protocol === 'raw' ? `${printer.host}:${printer.port ?? 9100}` : printer.uri;
+}
+
+/** Socket errors worth another attempt: the printer is busy, rebooting or briefly unreachable */
+const TRANSIENT_SOCKET_ERRORS = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'EAI_AGAIN',
+]);
+
+/**
+ * CarrierError for a failed printer connection
+ * Unknown hosts are Permanent; dropped, refused and timed-out connections Transient
+ */
+export function printerConnectionError(printer: PrinterConfig, err: Error & { code?: string }, phase: 'connect' | 'send'): CarrierError {
+  const category = err.code && !TRANSIENT_SOCKET_ERRORS.has(err.code) ? 'Permanent' : 'Transient';
+  return new CarrierError(`Printer ${printerId(printer)}: ${err.message}`, category, {
+    carrierCode: err.code,
+    raw: { printer: printerId(printer), phase },
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Raw TCP printing (port 9100)
+ */
+
+import { connect } from 'node:net';
+import type { CarrierError } from '../errors/index.js';
+import { printerConnectionError, type RawPrinterConfig } from './printer.js';
+
+/**
+ * Send bytes to a raw TCP printer
+ *
+ * Resolves once the data is flushed and the connection closed; a printer that
+ * keeps the connection open after receiving everything counts as done when
+ * the timeout expires.
+ *
+ * @returns Number of bytes sent
+ * @throws CarrierError (Transient for refused, reset and timed-out connections)
+ */
+export function sendRaw(printer: RawPrinterConfig, bytes: Uint8Array): Promise<number> {
+  const timeoutMs = printer.timeoutMs ?? 10_000;
+
+  return new Promise<number>((resolve, reject) => {
+    const socket = connect({ host: printer.host, port: printer.port ?? 9100 });
+    let connected = false;
+    let flushed = false;
+    let settled = false;
+
+    const settle = (error?: CarrierError) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(bytes.byteLength);
+    };
+
+    socket.setTimeout(timeoutMs, () => {
+      if (flushed) {
+        settle();
+        return;
+      }
+      const err = Object.assign(new Error(`No response within ${timeoutMs} ms`), { code: 'ETIMEDOUT' });
+      settle(printerConnectionError(printer, err, connected ? 'send' : 'connect'));
+    });
+    socket.on('connect', () => {
+      connected = true;
+      socket.end(bytes);
+    });
+    socket.on('finish', () => {
+      flushed = true;
+    });
+    // Printers may report status back; read and discard it so the close comes through
+    socket.on('data', () => undefined);
+    socket.on('error', (err) => settle(printerConnectionError(printer, err, connected ? 'send' : 'connect')));
+    socket.on('close', () => {
+      if (flushed) {
+        settle();
+        return;
+      }
+      const err = Object.assign(new Error('Connection closed before the label was sent'), { code: 'ECONNRESET' });
+      settle(printerConnectionError(printer, err, connected ? 'send' : 'connect'));
+    });
+  });
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import { selectCarrier } from '../select-carrier.js';
+import { parseTariffTable, quoteFromTariff } from '../tariff.js';
+import { CarrierRegistry } from '../../registry/carrier-registry.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import { CarrierError } from '../../errors/index.js';
+import type { CarrierAdapter, CarrierLimits } from '../../interfaces/index.js';
+import type { Parcel } from '../../types/index.js';
+
+const ctx = {};
+
+function tariffAdapter(id: string, price: number, estimatedDays: number, limits?: CarrierLimits): CarrierAdapter {
+  const table = parseTariffTable({
+    carrier: id,
+    currency: 'HUF',
+    services: [
+      {
+        service: 'standard',
+        estimatedDays,
+        weightBands: [{ maxWeightGrams: 20000, price }],
+        codSurcharge: { fixed: 10000 },
+      },
+    ],
+  });
+  return {
+    id,
+    capabilities: [Capabilities.RATES],
+    limits,
+    getRates: vi.fn(async (req) => quoteFromTariff(table, req)),
+  };
+}
+
+function makeParcel(overrides: Partial<Parcel> = {}, provider?: string): Parcel {
+  const address = { name: 'R', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id: 'p-1',
+    shipper: { contact: { name: 'S' }, address },
+    recipient: {
+      contact: { name: 'R' },
+      delivery: provider
+        ? { method: 'PICKUP_POINT', pickupPoint: { id: 'PP1', provider } }
+        : { method: 'HOME', address },
+    },
+    service: 'standard',
+    package: { weightGrams: 2000 },
+    ...overrides,
+  } as Parcel;
+}
+
+describe('selectCarrier', () => {
+  it('ranks carriers by price by default', async () => {
+    const carriers = [tariffAdapter('hu-gls', 150000, 1), tariffAdapter('hu-mpl', 120000, 2)];
+
+    const result = await selectCarrier({ parcel: makeParcel(), carriers, context: ctx });
+
+    expect(result.options.map((o) => o.carrierId)).toEqual(['hu-mpl', 'hu-gls']);
+    expect(result.best).toMatchObject({ carrierId: 'hu-mpl', rate: { price: 120000 } });
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('ranks by estimatedDays or a custom cost function', async () => {
+    const carriers = [tariffAdapter('hu-gls', 150000, 1), tariffAdapter('hu-mpl', 120000, 2)];
+
+    const fastest = await selectCarrier({ parcel: makeParcel(), carriers, context: ctx, rankBy: 'estimatedDays' });
+    expect(fastest.best?.carrierId).toBe('hu-gls');
+
+    const custom = await selectCarrier({
+      parcel: makeParcel(),
+      carriers,
+      context: ctx,
+      rankBy: (option) => option.rate.price + (option.rate.estimatedDays ?? 0) * 50000,
+    });
+    expect(custom.best?.carrierId).toBe('hu-gls');
+  });
+
+  it('rejects carriers by pickup point provider, weight and COD without calling them', async () => {
+    const foxpost = tariffAdapter('hu-foxpost', 90000, 2, { maxWeightGrams: 25000, pickupPointProviders: ['foxpost'] });
+    const gls = tariffAdapter('hu-gls', 150000, 1, { acceptsCod: false });
+    const mpl = tariffAdapter('hu-mpl', 120000, 2, { maxWeightGrams: 1000 });
+
+    const result = await selectCarrier({
+      parcel: makeParcel({ cod: { amount: { amount: 500000, currency: 'HUF' } } }, 'foxpost'),
+      carriers: [foxpost, gls, mpl],
+      context: ctx,
+    });
+
+    expect(result.best?.carrierId).toBe('hu-foxpost');
+    expect(result.rejected).toEqual([
+      { carrierId: 'hu-gls', reason: "Pickup point provider 'foxpost' is not served by this carrier" },
+      { carrierId: 'hu-mpl', reason: "Pickup point provider 'foxpost' is not served by this carrier" },
+    ]);
+    expect(gls.getRates).not.toHaveBeenCalled();
+
+    const home = await selectCarrier({
+      parcel: makeParcel({ cod: { amount: { amount: 500000, currency: 'HUF' } } }),
+      carriers: [gls, mpl],
+      context: ctx,
+    });
+    expect(home.rejected.map((r) => r.reason)).toEqual([
+      'Carrier does not accept cash on delivery',
+      'Parcel weight 2000g exceeds carrier maximum of 1000g',
+    ]);
+  });
+
+  it('reports carriers that fail or return no rates', async () => {
+    const failing: CarrierAdapter = {
+      id: 'hu-gls',
+      capabilities: [Capabilities.RATES],
+      getRates: vi.fn(async () => {
+        throw new CarrierError('Tariff service unavailable', 'Transient');
+      }),
+    };
+    const heavy = tariffAdapter('hu-mpl', 120000, 2);
+    const noRates: CarrierAdapter = { id: 'hu-dpd', capabilities: [Capabilities.TRACK] };
+
+    const result = await selectCarrier({
+      parcel: makeParcel({ package: { weightGrams: 30000 } }),
+      carriers: [failing, heavy, noRates],
+      context: ctx,
+    });
+
+    expect(result.best).toBeUndefined();
+    expect(result.rejected).toEqual([
+      { carrierId: 'hu-dpd', reason: 'Carrier does not provide rate quotes' },
+      expect.objectContaining({ carrierId: 'hu-gls', reason: 'Rate quote failed: Tariff service unavailable' }),
+      { carrierId: 'hu-mpl', reason: 'No rate for this parcel: weight 30000g exceeds the highest weight band' },
+    ]);
+  });
+
+  it('accepts a CarrierRegistry', async () => {
+    const registry = new CarrierRegistry()
+      .register(tariffAdapter('hu-gls', 150000, 1))
+      .register(tariffAdapter('hu-mpl', 120000, 2));
+
+    const result = await selectCarrier({ parcel: makeParcel(), carriers: registry, context: ctx });
+    expect(result.options).toHaveLength(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseTariffTable, quoteFromTariff } from '../tariff.js';
+import { ValidationError } from '../../errors/index.js';
+import type { Parcel } from '../../types/index.js';
+
+const TABLE = {
+  carrier: 'hu-test',
+  currency: 'HUF',
+  fuelSurchargePercent: 10,
+  vatPercent: 27,
+  services: [
+    {
+      service: 'standard',
+      delivery: 'HOME',
+      estimatedDays: 1,
+      weightBands: [
+        { maxWeightGrams: 2000, price: 100000 },
+        { maxWeightGrams: 10000, price: 150000 },
+      ],
+      codSurcharge: { fixed: 20000, percent: 1, max: 50000 },
+    },
+    {
+      service: 'locker',
+      delivery: 'PICKUP_POINT',
+      estimatedDays: 2,
+      sizeClasses: [
+        { size: 'xs', maxDimsCm: [5, 20, 40], maxWeightGrams: 5000, price: 80000 },
+        { size: 'm', maxDimsCm: [20, 40, 60], maxWeightGrams: 25000, price: 120000 },
+      ],
+    },
+  ],
+};
+
+function makeParcel(overrides: Partial<Parcel> = {}, method: 'HOME' | 'PICKUP_POINT' = 'HOME'): Parcel {
+  const address = { name: 'R', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id: 'p-1',
+    shipper: { contact: { name: 'S' }, address },
+    recipient: {
+      contact: { name: 'R' },
+      delivery: method === 'HOME' ? { method, address } : { method, pickupPoint: { id: 'PP1' } },
+    },
+    service: 'standard',
+    package: { weightGrams: 1500 },
+    ...overrides,
+  } as Parcel;
+}
+
+describe('parseTariffTable', () => {
+  it('parses JSON strings and applies defaults', () => {
+    const table = parseTariffTable(JSON.stringify({ ...TABLE, fuelSurchargePercent: undefined }));
+    expect(table.fuelSurchargePercent).toBe(0);
+    expect(table.pricesIncludeVat).toBe(false);
+    expect(table.services).toHaveLength(2);
+  });
+
+  it('rejects invalid tables with ValidationError', () => {
+    expect(() => parseTariffTable('{')).toThrow(ValidationError);
+    expect(() => parseTariffTable({ ...TABLE, services: [{ service: 'x' }] })).toThrow('Invalid tariff table');
+  });
+});
+
+describe('quoteFromTariff', () => {
+  const table = parseTariffTable(TABLE);
+
+  it('prices weight bands with fuel surcharge and VAT in minor units', () => {
+    const { rates } = quoteFromTariff(table, { parcels: [makeParcel()] });
+
+    expect(rates).toHaveLength(1);
+    // 1000 Ft base + 10% fuel = 1100 Ft net, +27% VAT = 1397 Ft
+    expect(rates[0]).toMatchObject({ service: 'standard', carrier: 'hu-test', price: 139700, currency: 'HUF', estimatedDays: 1 });
+    expect(rates[0].metadata).toMatchObject({ net: 110000, vat: 29700 });
+  });
+
+  it('adds the COD surcharge and caps it', () => {
+    const parcel = makeParcel({ cod: { amount: { amount: 10_000_000, currency: 'HUF' } } });
+    const { rates } = quoteFromTariff(table, { parcels: [parcel] });
+    const [breakdown] = (rates[0].metadata as any).parcels;
+
+    expect(breakdown.codSurcharge).toBe(50000);
+    expect(breakdown.net).toBe(160000);
+  });
+
+  it('uses size classes for pickup point services', () => {
+    const parcel = makeParcel({ package: { weightGrams: 3000, dimensionsCm: { length: 30, width: 15, height: 10 } } }, 'PICKUP_POINT');
+    const { rates } = quoteFromTariff(table, { parcels: [parcel] });
+
+    expect(rates.map((r) => r.service)).toEqual(['locker']);
+    expect((rates[0].metadata as any).parcels[0].size).toBe('m');
+  });
+
+  it('honours a custom size resolver', () => {
+    const parcel = makeParcel({}, 'PICKUP_POINT');
+    const { rates } = quoteFromTariff(table, { parcels: [parcel] }, { resolveSize: () => 'xs' });
+    expect((rates[0].metadata as any).parcels[0].size).toBe('xs');
+  });
+
+  it('leaves out services that cannot carry the parcel and explains why', () => {
+    const heavy = makeParcel({ package: { weightGrams: 12000 } });
+    const cod = makeParcel({ cod: { amount: { amount: 100000, currency: 'HUF' } } }, 'PICKUP_POINT');
+
+    expect(quoteFromTariff(table, { parcels: [heavy] }).raw).toMatchObject({
+      rejected: expect.arrayContaining([
+        { service: 'standard', parcelId: 'p-1', reason: 'weight 12000g exceeds the highest weight band' },
+      ]),
+    });
+    expect(quoteFromTariff(table, { parcels: [cod] }).rates).toEqual([]);
+  });
+
+  it('sums multi-parcel requests and filters by service', () => {
+    const parcels = [makeParcel(), makeParcel({ id: 'p-2', package: { weightGrams: 5000 } })];
+    const { rates } = quoteFromTariff(table, { parcels, services: ['standard'] });
+
+    expect(rates).toHaveLength(1);
+    expect(rates[0].price).toBe(139700 + 209550);
+  });
+
+  it('splits VAT out of gross tables', () => {
+    const gross = parseTariffTable({ ...TABLE, fuelSurchargePercent: 0, pricesIncludeVat: true });
+    const { rates } = quoteFromTariff(gross, { parcels: [makeParcel()] });
+    expect(rates[0].price).toBe(100000);
+    expect(rates[0].metadata).toMatchObject({ net: 78740, vat: 21260 });
+  });
+});
@@ -0,0 +1,18 @@
+export { parseTariffTable, quoteFromTariff } from './tariff.js';
+export type {
+  TariffTable,
+  TariffService,
+  TariffWeightBand,
+  TariffSizeClass,
+  TariffCodSurcharge,
+  TariffBreakdown,
+  TariffQuoteOptions,
+} from './tariff.js';
+export { selectCarrier } from './select-carrier.js';
+export type {
+  CarrierOption,
+  CarrierRejection,
+  CarrierRanking,
+  CarrierSelection,
+  SelectCarrierOptions,
+} from './select-carrier.js';
@@ -0,0 +1,200 @@
+/**
+ * Cross-carrier rate shopping
+ * Answers "which carrier should ship this parcel?" across several adapters
+ */
+
+import type { AdapterContext, CarrierAdapter, RequestOptions } from '../interfaces/index.js';
+import type { Parcel, Rate } from '../types/index.js';
+import { Capabilities } from '../interfaces/capabilities.js';
+import { CarrierRegistry } from '../registry/carrier-registry.js';
+
+/**
+ * A rate offered by one carrier for the parcel
+ */
+export interface CarrierOption {
+  carrierId: string;
+  rate: Rate;
+}
+
+/**
+ * Why a carrier offers no option for the parcel
+ */
+export interface CarrierRejection {
+  carrierId: string;
+  reason: string;
+
+  /** Error thrown by getRates, when that is the reason */
+  error?: Error;
+}
+
+/**
+ * Ranking strategy
+ * - 'price': cheapest first, faster first on ties (default)
+ * - 'estimatedDays': fastest first, cheaper first on ties; unknown durations rank last
+ * - function: custom cost per option; lower ranks first
+ */
+export type CarrierRanking =
+  | 'price'
+  | 'estimatedDays'
+  | ((option: CarrierOption, adapter: CarrierAdapter) => number);
+
+export interface SelectCarrierOptions {
+  parcel: Parcel;
+
+  /** Adapters to consider, or a registry (every registered adapter is considered) */
+  carriers: CarrierRegistry | CarrierAdapter[];
+
+  context: AdapterContext;
+
+  /** Restrict quotes to these services (passed to RatesRequest.services) */
+  services?: string[];
+
+  /** Ranking strategy (default: 'price') */
+  rankBy?: CarrierRanking;
+
+  /** Per-call options passed to every getRates call */
+  options?: RequestOptions;
+}
+
+export interface CarrierSelection {
+  /** Top-ranked option, if any carrier can ship the parcel */
+  best?: CarrierOption;
+
+  /** Every option from every carrier, ranked */
+  options: CarrierOption[];
+
+  /** One entry per carrier that offered no option */
+  rejected: CarrierRejection[];
+}
+
+/**
+ * Whether the carrier delivers to the parcel's pickup point provider
+ * Without declared providers, the provider must match the adapter ID or its
+ * suffix (e.g., "foxpost" matches "hu-foxpost")
+ */
+function servesProvider(adapter: CarrierAdapter, provider: string): boolean {
+  const wanted = provider.toLowerCase();
+  const declared = adapter.limits?.pickupPointProviders;
+  if (declared) {
+    return declared.some((p) => p.toLowerCase() === wanted);
+  }
+  const id = adapter.id.toLowerCase();
+  return id === wanted || id.endsWith(`-${wanted}`);
+}
+
+/**
+ * Check the parcel against the carrier's declared limits
+ * @returns The rejection reason, or undefined if the carrier may serve the parcel
+ */
+function checkEligibility(adapter: CarrierAdapter, parcel: Parcel): string | undefined {
+  if (!adapter.capabilities.includes(Capabilities.RATES) || typeof adapter.getRates !== 'function') {
+    return 'Carrier does not provide rate quotes';
+  }
+
+  const delivery = parcel.recipient.delivery;
+  if (delivery.method === 'PICKUP_POINT' && delivery.pickupPoint.provider) {
+    if (!servesProvider(adapter, delivery.pickupPoint.provider)) {
+      return `Pickup point provider '${delivery.pickupPoint.provider}' is not served by this carrier`;
+    }
+  }
+
+  const limits = adapter.limits;
+  if (limits?.maxWeightGrams !== undefined && parcel.package.weightGrams > limits.maxWeightGrams) {
+    return `Parcel weight ${parcel.package.weightGrams}g exceeds carrier maximum of ${limits.maxWeightGrams}g`;
+  }
+  if (parcel.cod && limits?.acceptsCod === false) {
+    return 'Carrier does not accept cash on delivery';
+  }
+
+  return undefined;
+}
+
+function comparator(
+  rankBy: CarrierRanking,
+  adapters: Map<string, CarrierAdapter>
+): (a: CarrierOption, b: CarrierOption) => number {
+  const days = (o: CarrierOption) => o.rate.estimatedDays ?? Number.POSITIVE_INFINITY;
+
+  if (rankBy === 'estimatedDays') {
+    return (a, b) => days(a) - days(b) || a.rate.price - b.rate.price;
+  }
+  if (typeof rankBy === 'function') {
+    return (a, b) => rankBy(a, adapters.get(a.carrierId)!) - rankBy(b, adapters.get(b.carrierId)!);
+  }
+  return (a, b) => a.rate.price - b.rate.price || days(a) - days(b);
+}
+
+/**
+ * Rate-shop a parcel across carriers
+ *
+ * Carriers whose declared limits rule the parcel out (pickup point provider,
+ * max weight, COD) are rejected without a call. The rest are asked for rates
+ * in parallel; a carrier that throws or returns no rate is rejected with the
+ * reason (tariff-based adapters report why in `raw.rejected`).
+ *
+ * Usage:
+ * ```typescript
+ * const { best, options, rejected } = await selectCarrier({
+ *   parcel,
+ *   carriers: registry,
+ *   context: ctx,
+ *   rankBy: 'estimatedDays',
+ * });
+ * ```
+ *
+ * @param opts Parcel, candidate carriers and ranking
+ * @returns Ranked options plus a rejection reason for every carrier without one
+ */
+export async function selectCarrier(opts: SelectCarrierOptions): Promise<CarrierSelection> {
+  const { parcel, context, services, options } = opts;
+  const candidates = opts.carriers instanceof CarrierRegistry ? opts.carriers.list() : opts.carriers;
+  const adapters = new Map(candidates.map((adapter) => [adapter.id, adapter]));
+
+  const rejected: CarrierRejection[] = [];
+  const eligible: CarrierAdapter[] = [];
+  for (const adapter of candidates) {
+    const reason = checkEligibility(adapter, parcel);
+    if (reason) {
+      rejected.push({ carrierId: adapter.id, reason });
+    } else {
+      eligible.push(adapter);
+    }
+  }
+
+  const quotes = await Promise.allSettled(
+    eligible.map((adapter) => adapter.getRates!({ parcels: [parcel], services, options }, context))
+  );
+
+  const found: CarrierOption[] = [];
+  quotes.forEach((quote, idx) => {
+    const carrierId = eligible[idx].id;
+
+    if (quote.status === 'rejected') {
+      const error = quote.reason instanceof Error ? quote.reason : new Error(String(quote.reason));
+      context.logger?.warn('selectCarrier: getRates failed', { carrierId, error: error.message });
+      rejected.push({ carrierId, reason: `Rate quote failed: ${error.message}`, error });
+      return;
+    }
+
+    const rates = quote.value.rates ?? [];
+    if (rates.length === 0) {
+      const details = (quote.value.raw as { rejected?: Array<{ reason: string }> } | undefined)?.rejected;
+      const reasons = [...new Set((details ?? []).map((d) => d.reason))];
+      rejected.push({
+        carrierId,
+        reason: reasons.length > 0 ? `No rate for this parcel: ${reasons.join('; ')}` : 'No rate for this parcel',
+      });
+      return;
+    }
+
+    found.push(...rates.map((rate) => ({ carrierId, rate })));
+  });
+
+  const ranked = found.sort(comparator(opts.rankBy ?? 'price', adapters));
+
+  return {
+    best: ranked[0],
+    options: ranked,
+    rejected,
+  };
+}
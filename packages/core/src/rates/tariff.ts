@@ -0,0 +1,291 @@
+/**
+ * Tariff-table rate engine
+ *
+ * Most Hungarian carriers publish contract price lists instead of a rates API.
+ * A TariffTable captures such a list (weight bands, size classes, delivery type,
+ * COD and fuel surcharges, VAT) and quoteFromTariff() answers a RatesRequest
+ * from it, entirely offline.
+ *
+ * All prices in a table are in the smallest currency unit (e.g., fillér for HUF),
+ * like every other amount in core.
+ */
+
+import { z } from 'zod';
+import type { RatesRequest } from '../interfaces/index.js';
+import type { Parcel, Rate, RatesResponse } from '../types/index.js';
+import { ValidationError } from '../errors/index.js';
+
+const WeightBandSchema = z.object({
+  /** Upper bound (inclusive) of the band in grams */
+  maxWeightGrams: z.number().positive(),
+  /** Price for parcels in this band */
+  price: z.number().int().nonnegative(),
+});
+
+const SizeClassSchema = z.object({
+  /** Carrier size code (e.g., Foxpost "xs".."xl") */
+  size: z.string().min(1),
+  /** Max dimensions in cm, compared in sorted order so parcels may be rotated */
+  maxDimsCm: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]).optional(),
+  /** Max weight in grams for this size */
+  maxWeightGrams: z.number().positive().optional(),
+  /** Price for parcels in this size class */
+  price: z.number().int().nonnegative(),
+});
+
+const CodSurchargeSchema = z.object({
+  /** Fixed fee per COD parcel */
+  fixed: z.number().int().nonnegative().optional(),
+  /** Percentage of the collected amount */
+  percent: z.number().nonnegative().optional(),
+  /** Lower bound for the surcharge */
+  min: z.number().int().nonnegative().optional(),
+  /** Upper bound for the surcharge */
+  max: z.number().int().nonnegative().optional(),
+});
+
+const TariffServiceSchema = z.object({
+  /** Service name reported in Rate.service (e.g., "standard") */
+  service: z.string().min(1),
+  /** Restrict the service to one delivery method; omit to serve both */
+  delivery: z.enum(['HOME', 'PICKUP_POINT']).optional(),
+  /** Carrier product code, passed through in Rate.metadata */
+  carrierServiceCode: z.string().optional(),
+  estimatedDays: z.number().int().positive().optional(),
+  /** Weight-based pricing, used when sizeClasses is absent */
+  weightBands: z.array(WeightBandSchema).min(1).optional(),
+  /** Size-based pricing, first matching class wins */
+  sizeClasses: z.array(SizeClassSchema).min(1).optional(),
+  /** COD surcharge; omit when the service does not accept COD */
+  codSurcharge: CodSurchargeSchema.optional(),
+}).refine((s) => s.weightBands || s.sizeClasses, {
+  message: 'Service needs weightBands or sizeClasses',
+});
+
+const TariffTableSchema = z.object({
+  /** Adapter ID the table belongs to (e.g., "hu-foxpost") */
+  carrier: z.string().min(1),
+  currency: z.string().length(3),
+  /** Fuel surcharge percentage applied to the base freight price */
+  fuelSurchargePercent: z.number().nonnegative().default(0),
+  /** VAT percentage added on top of net prices */
+  vatPercent: z.number().nonnegative().default(0),
+  /** Whether table prices already include VAT */
+  pricesIncludeVat: z.boolean().default(false),
+  /** ISO date after which the table should no longer be used */
+  validUntil: z.string().optional(),
+  services: z.array(TariffServiceSchema).min(1),
+});
+
+export type TariffWeightBand = z.infer<typeof WeightBandSchema>;
+export type TariffSizeClass = z.infer<typeof SizeClassSchema>;
+export type TariffCodSurcharge = z.infer<typeof CodSurchargeSchema>;
+export type TariffService = z.infer<typeof TariffServiceSchema>;
+export type TariffTable = z.infer<typeof TariffTableSchema>;
+
+/**
+ * Per-parcel price breakdown, attached to Rate.metadata.parcels
+ */
+export interface TariffBreakdown {
+  parcelId: string;
+  size?: string;
+  base: number;
+  codSurcharge: number;
+  fuelSurcharge: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface TariffQuoteOptions {
+  /**
+   * Resolve the carrier size class for a parcel
+   * Defaults to the smallest sizeClasses entry the parcel fits into
+   */
+  resolveSize?: (parcel: Parcel) => string | undefined;
+}
+
+/**
+ * Parse and validate a tariff table from JSON (string or already-parsed object)
+ * Throws ValidationError listing every schema issue
+ */
+export function parseTariffTable(json: unknown): TariffTable {
+  let input = json;
+  if (typeof json === 'string') {
+    try {
+      input = JSON.parse(json);
+    } catch (error) {
+      throw new ValidationError('Tariff table is not valid JSON', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  const result = TariffTableSchema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError('Invalid tariff table', {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
+  return result.data;
+}
+
+function sortedDims(parcel: Parcel): [number, number, number] | undefined {
+  const dims = parcel.package.dimensionsCm;
+  return dims
+    ? ([dims.length, dims.width, dims.height].sort((a, b) => a - b) as [number, number, number])
+    : undefined;
+}
+
+function matchSizeClass(service: TariffService, parcel: Parcel, opts: TariffQuoteOptions): TariffSizeClass | undefined {
+  const classes = service.sizeClasses ?? [];
+  if (opts.resolveSize) {
+    const size = opts.resolveSize(parcel);
+    const match = classes.find((c) => c.size === size);
+    return match && (match.maxWeightGrams === undefined || parcel.package.weightGrams <= match.maxWeightGrams)
+      ? match
+      : undefined;
+  }
+
+  const dims = sortedDims(parcel);
+  return classes.find((c) => {
+    if (c.maxWeightGrams !== undefined && parcel.package.weightGrams > c.maxWeightGrams) {
+      return false;
+    }
+    if (!dims || !c.maxDimsCm) {
+      return true;
+    }
+    const max = [...c.maxDimsCm].sort((a, b) => a - b);
+    return dims[0] <= max[0] && dims[1] <= max[1] && dims[2] <= max[2];
+  });
+}
+
+function codSurcharge(cod: TariffCodSurcharge, parcel: Parcel): number {
+  const amount = parcel.cod?.amount.amount ?? 0;
+  let fee = (cod.fixed ?? 0) + Math.round((amount * (cod.percent ?? 0)) / 100);
+  if (cod.min !== undefined) fee = Math.max(fee, cod.min);
+  if (cod.max !== undefined) fee = Math.min(fee, cod.max);
+  return fee;
+}
+
+/**
+ * Price a single parcel for a service
+ * @returns The breakdown, or a reason why the service cannot carry the parcel
+ */
+function priceParcel(
+  table: TariffTable,
+  service: TariffService,
+  parcel: Parcel,
+  opts: TariffQuoteOptions
+): TariffBreakdown | { reason: string } {
+  if (service.delivery && parcel.recipient.delivery.method !== service.delivery) {
+    return { reason: `delivery method ${parcel.recipient.delivery.method} not served` };
+  }
+  if (parcel.cod && !service.codSurcharge) {
+    return { reason: 'COD not accepted' };
+  }
+  if (parcel.cod && parcel.cod.amount.currency !== table.currency) {
+    return { reason: `COD currency ${parcel.cod.amount.currency} not accepted` };
+  }
+
+  let base: number;
+  let size: string | undefined;
+  if (service.sizeClasses) {
+    const match = matchSizeClass(service, parcel, opts);
+    if (!match) {
+      return { reason: 'parcel does not fit any size class' };
+    }
+    base = match.price;
+    size = match.size;
+  } else {
+    const band = service.weightBands!.find((b) => parcel.package.weightGrams <= b.maxWeightGrams);
+    if (!band) {
+      return { reason: `weight ${parcel.package.weightGrams}g exceeds the highest weight band` };
+    }
+    base = band.price;
+  }
+
+  const cod = parcel.cod ? codSurcharge(service.codSurcharge!, parcel) : 0;
+  const fuel = Math.round((base * table.fuelSurchargePercent) / 100);
+  const total = base + cod + fuel;
+
+  // Tables that include VAT are stored gross; split the VAT back out
+  const net = table.pricesIncludeVat ? Math.round(total / (1 + table.vatPercent / 100)) : total;
+  const gross = table.pricesIncludeVat ? total : Math.round(total * (1 + table.vatPercent / 100));
+
+  return {
+    parcelId: parcel.id,
+    size,
+    base,
+    codSurcharge: cod,
+    fuelSurcharge: fuel,
+    net,
+    vat: gross - net,
+    gross,
+  };
+}
+
+/**
+ * Answer a RatesRequest from a tariff table
+ *
+ * Returns one Rate per service that can carry every parcel in the request,
+ * priced as the sum of the per-parcel gross prices. Services that cannot carry
+ * a parcel (wrong delivery method, too heavy, COD not accepted) are left out;
+ * `raw.rejected` lists them with the reason.
+ *
+ * @param table Tariff table (see parseTariffTable)
+ * @param req Rates request; `services` filters by TariffService.service
+ * @param opts Optional size resolver for size-class tariffs
+ */
+export function quoteFromTariff(
+  table: TariffTable,
+  req: RatesRequest,
+  opts: TariffQuoteOptions = {}
+): RatesResponse {
+  const rates: Rate[] = [];
+  const rejected: Array<{ service: string; parcelId: string; reason: string }> = [];
+
+  const services = req.services?.length
+    ? table.services.filter((s) => req.services!.includes(s.service))
+    : table.services;
+
+  for (const service of services) {
+    const breakdown: TariffBreakdown[] = [];
+    for (const parcel of req.parcels) {
+      const priced = priceParcel(table, service, parcel, opts);
+      if ('reason' in priced) {
+        rejected.push({ service: service.service, parcelId: parcel.id, reason: priced.reason });
+        break;
+      }
+      breakdown.push(priced);
+    }
+
+    if (breakdown.length !== req.parcels.length || breakdown.length === 0) {
+      continue;
+    }
+
+    rates.push({
+      service: service.service,
+      carrier: table.carrier,
+      price: breakdown.reduce((sum, b) => sum + b.gross, 0),
+      currency: table.currency,
+      estimatedDays: service.estimatedDays,
+      metadata: {
+        delivery: service.delivery,
+        carrierServiceCode: service.carrierServiceCode,
+        net: breakdown.reduce((sum, b) => sum + b.net, 0),
+        vat: breakdown.reduce((sum, b) => sum + b.vat, 0),
+        parcels: breakdown,
+      },
+    });
+  }
+
+  return {
+    rates: rates.sort((a, b) => a.price - b.price),
+    expiresAt: table.validUntil ? new Date(table.validUntil) : undefined,
+    raw: { source: 'tariff', rejected },
+  };
+}
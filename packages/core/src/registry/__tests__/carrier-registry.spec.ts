@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CarrierRegistry } from '../carrier-registry.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import { NotImplementedError, ValidationError } from '../../errors/index.js';
+import { withOperationName } from '../../utils/adapter-wrapper.js';
+import type { CarrierAdapter, AdapterContext } from '../../interfaces/index.js';
+
+function makeAdapter(overrides: Partial<CarrierAdapter> & { id: string }): CarrierAdapter {
+  return {
+    capabilities: [],
+    ...overrides,
+  };
+}
+
+const ctx: AdapterContext = {};
+
+describe('CarrierRegistry', () => {
+  it('registers adapters by id and lists them in registration order', () => {
+    const registry = new CarrierRegistry()
+      .register(makeAdapter({ id: 'hu-foxpost' }))
+      .register(makeAdapter({ id: 'hu-gls' }));
+
+    expect(registry.carrierIds()).toEqual(['hu-foxpost', 'hu-gls']);
+    expect(registry.has('hu-gls')).toBe(true);
+    expect(registry.get('hu-foxpost').id).toBe('hu-foxpost');
+  });
+
+  it('rejects duplicate registrations', () => {
+    const registry = new CarrierRegistry().register(makeAdapter({ id: 'hu-mpl' }));
+    expect(() => registry.register(makeAdapter({ id: 'hu-mpl' }))).toThrow(ValidationError);
+  });
+
+  it('throws ValidationError for unknown carriers', async () => {
+    const registry = new CarrierRegistry();
+    expect(() => registry.get('hu-dpd')).toThrow(ValidationError);
+    await expect(
+      registry.dispatch('hu-dpd', Capabilities.TRACK, { trackingNumber: 'X' }, ctx)
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('unregisters adapters', () => {
+    const registry = new CarrierRegistry().register(makeAdapter({ id: 'hu-gls' }));
+    expect(registry.unregister('hu-gls')).toBe(true);
+    expect(registry.has('hu-gls')).toBe(false);
+    expect(registry.unregister('hu-gls')).toBe(false);
+  });
+
+  it('lists carriers by capability', () => {
+    const registry = new CarrierRegistry()
+      .register(makeAdapter({ id: 'hu-foxpost', capabilities: [Capabilities.TRACK, Capabilities.BATCH_TRACK] }))
+      .register(makeAdapter({ id: 'hu-gls', capabilities: [Capabilities.TRACK] }));
+
+    expect(registry.listByCapability(Capabilities.TRACK).map((a) => a.id)).toEqual(['hu-foxpost', 'hu-gls']);
+    expect(registry.listByCapability(Capabilities.BATCH_TRACK).map((a) => a.id)).toEqual(['hu-foxpost']);
+    expect(registry.listByCapability(Capabilities.RATES)).toEqual([]);
+  });
+
+  it('dispatches to the method backing the capability', async () => {
+    const track = vi.fn(async (req: any) => ({
+      trackingNumber: req.trackingNumber,
+      events: [],
+      status: 'PENDING' as const,
+      lastUpdate: null,
+    }));
+    const registry = new CarrierRegistry().register(
+      makeAdapter({ id: 'hu-gls', capabilities: [Capabilities.TRACK], track })
+    );
+
+    const update = await registry.dispatch('hu-gls', Capabilities.TRACK, { trackingNumber: '123' }, ctx);
+
+    expect(update.trackingNumber).toBe('123');
+    expect(track).toHaveBeenCalledWith({ trackingNumber: '123' }, ctx);
+  });
+
+  it('throws NotImplementedError when the capability is not advertised', async () => {
+    const getRates = vi.fn();
+    const registry = new CarrierRegistry().register(makeAdapter({ id: 'hu-gls', getRates }));
+
+    await expect(
+      registry.dispatch('hu-gls', Capabilities.RATES, { parcels: [] }, ctx)
+    ).rejects.toBeInstanceOf(NotImplementedError);
+    expect(getRates).not.toHaveBeenCalled();
+    expect(registry.supports('hu-gls', Capabilities.RATES)).toBe(false);
+  });
+
+  it('throws NotImplementedError when the capability is advertised but the method is missing', async () => {
+    const registry = new CarrierRegistry().register(
+      makeAdapter({ id: 'hu-mpl', capabilities: [Capabilities.CLOSE_SHIPMENT] })
+    );
+
+    await expect(
+      registry.dispatch('hu-mpl', Capabilities.CLOSE_SHIPMENT, { trackingNumbers: ['A'] }, ctx)
+    ).rejects.toThrow("Capability 'CLOSE_SHIPMENT' is not implemented by adapter 'hu-mpl'");
+    expect(registry.supports('hu-mpl', Capabilities.CLOSE_SHIPMENT)).toBe(false);
+  });
+
+  it('supports non-dispatchable capabilities based on the advertised list only', () => {
+    const registry = new CarrierRegistry().register(
+      makeAdapter({ id: 'hu-foxpost', capabilities: [Capabilities.TEST_MODE_SUPPORTED] })
+    );
+    expect(registry.supports('hu-foxpost', Capabilities.TEST_MODE_SUPPORTED)).toBe(true);
+  });
+
+  it('dispatches through wrapped adapters', async () => {
+    const track = vi.fn(async (_req: any, context: AdapterContext) => ({
+      trackingNumber: context.operationName ?? '',
+      events: [],
+      status: 'PENDING' as const,
+      lastUpdate: null,
+    }));
+    const adapter = withOperationName(makeAdapter({ id: 'hu-foxpost', capabilities: [Capabilities.TRACK], track }));
+    const registry = new CarrierRegistry().register(adapter);
+
+    const update = await registry.dispatch('hu-foxpost', Capabilities.TRACK, { trackingNumber: 'CLFOX1' }, ctx);
+
+    expect(update.trackingNumber).toBe('track');
+  });
+});
@@ -0,0 +1,220 @@
+import type {
+  AdapterContext,
+  CarrierAdapter,
+  CarrierResource,
+  Capability,
+  CreateLabelRequest,
+  CreateParcelRequest,
+  CreateParcelsRequest,
+  ListParcelsRequest,
+  ListParcelsResponse,
+  RatesRequest,
+  ShipmentDetailsRequest,
+  TrackingRequest,
+  UpdateParcelRequest,
+  VoidLabelRequest,
+  WebhookRequest,
+} from '../interfaces/index.js';
+import type {
+  BatchTrackingRequest,
+  BatchTrackingResponse,
+  CloseShipmentsRequest,
+  CloseShipmentsResponse,
+  CreateLabelResponse,
+  CreateParcelsResponse,
+  CreateReturnRequest,
+  CreateReturnsRequest,
+  DeleteParcelRequest,
+  DeleteParcelResult,
+  FetchPickupPointsRequest,
+  FetchPickupPointsResponse,
+  PickupRequest,
+  PickupResponse,
+  RatesResponse,
+  ShipmentDetailsResponse,
+  TrackingUpdate,
+} from '../types/index.js';
+import { Capabilities } from '../interfaces/capabilities.js';
+import { NotImplementedError, ValidationError } from '../errors/index.js';
+
+/**
+ * Request/response pair for every capability that maps to a callable adapter method
+ *
+ * Capabilities that only describe adapter behaviour (e.g. TEST_MODE_SUPPORTED)
+ * are intentionally absent: there is nothing to dispatch for them.
+ */
+export interface CapabilityOperations {
+  [Capabilities.RATES]: { request: RatesRequest; response: RatesResponse };
+  [Capabilities.CREATE_PARCEL]: { request: CreateParcelRequest; response: CarrierResource };
+  [Capabilities.CREATE_PARCELS]: { request: CreateParcelsRequest; response: CreateParcelsResponse };
+  [Capabilities.CLOSE_SHIPMENT]: { request: CloseShipmentsRequest; response: CloseShipmentsResponse };
+  [Capabilities.CREATE_LABEL]: { request: CreateLabelRequest; response: CreateLabelResponse };
+  [Capabilities.VOID_LABEL]: { request: VoidLabelRequest | string; response: CarrierResource };
+  [Capabilities.TRACK]: { request: TrackingRequest; response: TrackingUpdate };
+  [Capabilities.BATCH_TRACK]: { request: BatchTrackingRequest; response: BatchTrackingResponse };
+  [Capabilities.GET_SHIPMENT_DETAILS]: { request: ShipmentDetailsRequest; response: ShipmentDetailsResponse };
+  [Capabilities.LIST_PICKUP_POINTS]: { request: FetchPickupPointsRequest; response: FetchPickupPointsResponse };
+  [Capabilities.DELETE_PARCEL]: { request: DeleteParcelRequest; response: DeleteParcelResult };
+  [Capabilities.MODIFY_PARCEL]: { request: UpdateParcelRequest; response: CarrierResource };
+  [Capabilities.LIST_PARCELS]: { request: ListParcelsRequest; response: ListParcelsResponse };
+  [Capabilities.CREATE_RETURN]: { request: CreateReturnRequest; response: CarrierResource };
+  [Capabilities.CREATE_RETURNS]: { request: CreateReturnsRequest; response: CreateParcelsResponse };
+  [Capabilities.PICKUP]: { request: PickupRequest; response: PickupResponse };
+  [Capabilities.WEBHOOKS]: { request: WebhookRequest; response: TrackingUpdate[] };
+}
+
+/**
+ * Capabilities that can be passed to CarrierRegistry.dispatch()
+ */
+export type DispatchableCapability = keyof CapabilityOperations;
+
+export type CapabilityRequest<C extends DispatchableCapability> = CapabilityOperations[C]['request'];
+export type CapabilityResponse<C extends DispatchableCapability> = CapabilityOperations[C]['response'];
+
+/**
+ * Capability to adapter method name mapping used by dispatch()
+ */
+export const CAPABILITY_METHODS = {
+  [Capabilities.RATES]: 'getRates',
+  [Capabilities.CREATE_PARCEL]: 'createParcel',
+  [Capabilities.CREATE_PARCELS]: 'createParcels',
+  [Capabilities.CLOSE_SHIPMENT]: 'closeShipments',
+  [Capabilities.CREATE_LABEL]: 'createLabel',
+  [Capabilities.VOID_LABEL]: 'voidLabel',
+  [Capabilities.TRACK]: 'track',
+  [Capabilities.BATCH_TRACK]: 'batchTrack',
+  [Capabilities.GET_SHIPMENT_DETAILS]: 'getShipmentDetails',
+  [Capabilities.LIST_PICKUP_POINTS]: 'fetchPickupPoints',
+  [Capabilities.DELETE_PARCEL]: 'deleteParcel',
+  [Capabilities.MODIFY_PARCEL]: 'updateParcel',
+  [Capabilities.LIST_PARCELS]: 'listParcels',
+  [Capabilities.CREATE_RETURN]: 'createReturn',
+  [Capabilities.CREATE_RETURNS]: 'createReturns',
+  [Capabilities.PICKUP]: 'requestPickup',
+  [Capabilities.WEBHOOKS]: 'parseWebhook',
+} as const satisfies Record<DispatchableCapability, keyof CarrierAdapter>;
+
+/**
+ * CarrierRegistry
+ * Holds adapter instances by carrier ID and dispatches capability calls to them
+ *
+ * Replaces the per-integrator map of adapters and the manual
+ * `adapter.capabilities.includes(...)` checks before calling optional methods.
+ *
+ * Usage:
+ * ```typescript
+ * const registry = new CarrierRegistry()
+ *   .register(new FoxpostAdapter())
+ *   .register(new GLSAdapter())
+ *   .register(new MPLAdapter());
+ *
+ * const update = await registry.dispatch('hu-gls', Capabilities.TRACK, req, ctx);
+ * const trackers = registry.listByCapability(Capabilities.BATCH_TRACK);
+ * ```
+ */
+export class CarrierRegistry {
+  private adapters = new Map<string, CarrierAdapter>();
+
+  /**
+   * Register an adapter under its `id`
+   * Throws ValidationError if an adapter with the same ID is already registered
+   */
+  register(adapter: CarrierAdapter): this {
+    if (this.adapters.has(adapter.id)) {
+      throw new ValidationError(`Carrier '${adapter.id}' is already registered`, {
+        carrierId: adapter.id,
+      });
+    }
+    this.adapters.set(adapter.id, adapter);
+    return this;
+  }
+
+  /**
+   * Remove an adapter from the registry
+   * @returns true if an adapter was removed
+   */
+  unregister(carrierId: string): boolean {
+    return this.adapters.delete(carrierId);
+  }
+
+  /**
+   * Whether an adapter is registered for the carrier ID
+   */
+  has(carrierId: string): boolean {
+    return this.adapters.has(carrierId);
+  }
+
+  /**
+   * Get the adapter registered for the carrier ID
+   * Throws ValidationError if the carrier is unknown
+   */
+  get(carrierId: string): CarrierAdapter {
+    const adapter = this.adapters.get(carrierId);
+    if (!adapter) {
+      throw new ValidationError(`Unknown carrier '${carrierId}'`, {
+        carrierId,
+        registered: this.carrierIds(),
+      });
+    }
+    return adapter;
+  }
+
+  /**
+   * IDs of all registered carriers, in registration order
+   */
+  carrierIds(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * All registered adapters, in registration order
+   */
+  list(): CarrierAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Adapters that advertise the given capability
+   */
+  listByCapability(capability: Capability): CarrierAdapter[] {
+    return this.list().filter((adapter) => adapter.capabilities.includes(capability));
+  }
+
+  /**
+   * Whether the carrier advertises the capability and, for dispatchable
+   * capabilities, actually implements the backing method
+   */
+  supports(carrierId: string, capability: Capability): boolean {
+    const adapter = this.adapters.get(carrierId);
+    if (!adapter || !adapter.capabilities.includes(capability)) {
+      return false;
+    }
+    const methodName = CAPABILITY_METHODS[capability as DispatchableCapability];
+    return methodName === undefined || typeof adapter[methodName] === 'function';
+  }
+
+  /**
+   * Call the adapter method backing a capability
+   *
+   * Throws NotImplementedError when the adapter does not advertise the
+   * capability or does not implement the method behind it, so callers get
+   * the same error regardless of how the adapter is wired.
+   */
+  async dispatch<C extends DispatchableCapability>(
+    carrierId: string,
+    capability: C,
+    req: CapabilityRequest<C>,
+    ctx: AdapterContext
+  ): Promise<CapabilityResponse<C>> {
+    const adapter = this.get(carrierId);
+    const methodName = CAPABILITY_METHODS[capability];
+    const method = adapter[methodName] as unknown;
+
+    if (!adapter.capabilities.includes(capability) || typeof method !== 'function') {
+      throw new NotImplementedError(capability, adapter.id);
+    }
+
+    return (method as (req: CapabilityRequest<C>, ctx: AdapterContext) => Promise<CapabilityResponse<C>>)
+      .call(adapter, req, ctx);
+  }
+}
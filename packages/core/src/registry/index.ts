@@ -0,0 +1,7 @@
+export { CarrierRegistry, CAPABILITY_METHODS } from './carrier-registry.js';
+export type {
+  CapabilityOperations,
+  DispatchableCapability,
+  CapabilityRequest,
+  CapabilityResponse,
+} from './carrier-registry.js';
@@ -0,0 +1,4 @@
+import { InMemoryStore } from '../in-memory.js';
+import { runStoreConformanceSuite } from '../../testing/index.js';
+
+runStoreConformanceSuite(() => new InMemoryStore(), { name: 'InMemoryStore conformance' });
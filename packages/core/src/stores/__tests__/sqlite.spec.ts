@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import { SqliteStore, type SqliteDatabase, type SqliteValue } from '../sqlite.js';
+import { ValidationError } from '../../errors/index.js';
+import { runStoreConformanceSuite } from '../../testing/index.js';
+import type { Parcel } from '../../types/index.js';
+
+// sql.js (SQLite compiled to WebAssembly) runs on every Node version;
+// node:sqlite ships with Node 22.5+ and is covered too where available
+const SQL = await initSqlJs();
+const nodeSqlite: typeof import('node:sqlite') | null = await import('node:sqlite').catch(() => null);
+
+/**
+ * sql.js behind the synchronous prepare/get/all API the store expects
+ */
+function openSqlJsDatabase(): SqliteDatabase {
+  const db = new SQL.Database();
+  const query = (sql: string, params: SqliteValue[]) => {
+    const stmt = db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Record<string, unknown>[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  };
+  return {
+    exec: (sql) => db.exec(sql),
+    prepare: (sql) => ({
+      run: (...params) => db.run(sql, params),
+      get: (...params) => query(sql, params)[0],
+      all: (...params) => query(sql, params),
+    }),
+  };
+}
+
+const drivers: Array<[string, () => SqliteDatabase]> = [['sql.js', openSqlJsDatabase]];
+if (nodeSqlite) {
+  drivers.push(['node:sqlite', () => new nodeSqlite.DatabaseSync(':memory:')]);
+}
+
+function makeParcel(id: string, status?: Parcel['status']): Parcel {
+  const contact = { name: 'Test Sender' };
+  const address = { name: 'Test', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id,
+    shipper: { contact, address },
+    recipient: { contact, delivery: { method: 'HOME', address } },
+    service: 'standard',
+    package: { weightGrams: 1000 },
+    status,
+  } as Parcel;
+}
+
+describe.each(drivers)('SqliteStore (%s)', (_driver, openDatabase) => {
+  runStoreConformanceSuite(() => new SqliteStore(openDatabase()), { name: 'conformance' });
+
+  it('migrates once and keeps data across instances', async () => {
+    const db = openDatabase();
+    const store = new SqliteStore(db);
+    await store.saveParcel(makeParcel('p1', 'created'));
+
+    const reopened = new SqliteStore(db);
+
+    expect(reopened.migrate()).toBe(0);
+    expect(db.prepare('SELECT MAX(version) AS version FROM shopickup_migrations').get()).toEqual({ version: 2 });
+    expect((await reopened.getParcel('p1'))?.status).toBe('created');
+  });
+
+  it('keeps raw carrier payloads', async () => {
+    const store = new SqliteStore(openDatabase());
+    await store.saveParcel(makeParcel('p1'));
+    await store.saveCarrierResource('p1', 'parcel', {
+      carrierId: '51234567890',
+      status: 'created',
+      raw: { ParcelId: 51234567890, Nested: [1, 2] },
+    });
+    await store.saveCarrierResource('p1', 'label', { carrierId: 'label-1', status: 'created' });
+
+    expect(await store.getCarrierResource('p1', 'parcel')).toEqual({
+      carrierId: '51234567890',
+      status: 'created',
+      raw: { ParcelId: 51234567890, Nested: [1, 2] },
+    });
+    expect(await store.getCarrierResource('p1', 'label')).toEqual({ carrierId: 'label-1', status: 'created' });
+  });
+
+  it('lists parcels by status and updates the status column on save', async () => {
+    const store = new SqliteStore(openDatabase());
+    await store.saveParcel(makeParcel('p1', 'created'));
+    await store.saveParcel(makeParcel('p2', 'created'));
+    await store.saveParcel(makeParcel('p3', 'delivered'));
+    await store.saveParcel(makeParcel('p2', 'shipped'));
+
+    expect((await store.listParcelsByStatus('created')).items.map((p) => p.id)).toEqual(['p1']);
+    expect((await store.listParcelsByStatus('shipped')).items.map((p) => p.id)).toEqual(['p2']);
+  });
+
+  it('uses the table prefix and rejects unsafe ones', async () => {
+    const db = openDatabase();
+    new SqliteStore(db, { tablePrefix: 'app_' });
+
+    const tables = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'app_%' ORDER BY name`).all();
+    expect(tables.map((t) => (t as { name: string }).name)).toEqual([
+      'app_carrier_resource_index',
+      'app_carrier_resources',
+      'app_events',
+      'app_idempotency_records',
+      'app_migrations',
+      'app_parcels',
+      'app_shipments',
+    ]);
+    expect(() => new SqliteStore(db, { tablePrefix: 'x; DROP TABLE app_events; --' })).toThrow(ValidationError);
+  });
+});
@@ -1,5 +1,17 @@
-import type { Store, DomainEvent, CarrierResource } from '../interfaces/index.js';
-import type { Shipment, Parcel } from '../types/index.js';
+import type {
+  Store,
+  DomainEvent,
+  CarrierResource,
+  CarrierResourceRef,
+  EventLogEntry,
+  EventQuery,
+  IdempotencyRecord,
+  StorePage,
+  StorePageOptions,
+} from '../interfaces/index.js';
+import type { Shipment, Parcel, ParcelStatus } from '../types/index.js';
+
+const DEFAULT_PAGE_SIZE = 100;
 
 /**
  * InMemoryStore
@@ -11,6 +23,10 @@ export class InMemoryStore implements Store {
   private parcels = new Map<string, Parcel>();
   private carrierResources = new Map<string, CarrierResource>();
   private events = new Map<string, DomainEvent[]>();
+  private idempotencyRecords = new Map<string, IdempotencyRecord>();
+  private carrierResourceIndex = new Map<string, CarrierResourceRef>();
+  // Every event with its append sequence, for queryEvents and readEventLog
+  private eventLog: EventLogEntry[] = [];
 
   async saveShipment(shipment: Shipment): Promise<void> {
     this.shipments.set(shipment.id, {
@@ -63,10 +79,76 @@ export class InMemoryStore implements Store {
     };
 
     this.events.get(internalId)!.push(eventWithTimestamp);
+    this.eventLog.push({ seq: this.eventLog.length + 1, event: eventWithTimestamp });
   }
 
   async getEvents(internalId: string): Promise<DomainEvent[]> {
-    return this.events.get(internalId) ?? [];
+    // A copy, so callers cannot rewrite the log
+    return [...(this.events.get(internalId) ?? [])];
+  }
+
+  async queryEvents(query: EventQuery): Promise<StorePage<DomainEvent>> {
+    const limit = Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE);
+    // Cursor: "<timestamp ms>:<seq>" of the last event returned
+    const [afterTime, afterSeq] = query.cursor ? query.cursor.split(':').map(Number) : [-Infinity, 0];
+
+    const matching = this.eventLog
+      .map(({ seq, event }) => ({ seq, event, time: event.timestamp!.getTime() }))
+      .filter(({ event, time }) =>
+        (query.internalId === undefined || event.internalId === query.internalId) &&
+        (query.from === undefined || time >= query.from.getTime()) &&
+        (query.to === undefined || time < query.to.getTime()))
+      .sort((a, b) => a.time - b.time || a.seq - b.seq)
+      .filter(({ seq, time }) => time > afterTime || (time === afterTime && seq > afterSeq));
+
+    const page = matching.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(({ event }) => event),
+      ...(matching.length > limit && last ? { nextCursor: `${last.time}:${last.seq}` } : {}),
+    };
+  }
+
+  async readEventLog(afterSeq: number, limit: number): Promise<EventLogEntry[]> {
+    // seq is the 1-based log index
+    const start = Math.max(0, afterSeq);
+    return this.eventLog.slice(start, start + Math.max(1, limit)).map((entry) => ({ ...entry }));
+  }
+
+  async indexCarrierResource(ref: CarrierResourceRef): Promise<void> {
+    this.carrierResourceIndex.set(`${ref.resourceType}:${ref.carrierId}:${ref.carrierResourceId}`, { ...ref });
+  }
+
+  async findByCarrierResourceId(
+    carrierId: string,
+    carrierResourceId: string,
+    resourceType: "shipment" | "parcel" | "label" = "parcel"
+  ): Promise<CarrierResourceRef | null> {
+    return this.carrierResourceIndex.get(`${resourceType}:${carrierId}:${carrierResourceId}`) ?? null;
+  }
+
+  async listParcelsByStatus(status: ParcelStatus, options: StorePageOptions = {}): Promise<StorePage<Parcel>> {
+    const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+    const matching = [...this.parcels.values()]
+      .filter((parcel) => parcel.status === status && (options.cursor === undefined || parcel.id > options.cursor))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    const items = matching.slice(0, limit);
+    return {
+      items,
+      ...(matching.length > limit ? { nextCursor: items[items.length - 1].id } : {}),
+    };
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    this.idempotencyRecords.set(`${record.carrierId}:${record.key}`, {
+      ...record,
+      createdAt: record.createdAt ?? new Date(),
+    });
+  }
+
+  async getIdempotencyRecord(carrierId: string, key: string): Promise<IdempotencyRecord | null> {
+    return this.idempotencyRecords.get(`${carrierId}:${key}`) ?? null;
   }
 
   /**
@@ -77,5 +159,8 @@ export class InMemoryStore implements Store {
     this.parcels.clear();
     this.carrierResources.clear();
     this.events.clear();
+    this.idempotencyRecords.clear();
+    this.carrierResourceIndex.clear();
+    this.eventLog = [];
   }
 }
@@ -1,2 +1,4 @@
 export { InMemoryStore } from './in-memory.js';
+export { SqliteStore } from './sqlite.js';
+export type { SqliteDatabase, SqliteStatement, SqliteValue, SqliteStoreOptions } from './sqlite.js';
 export type { Store, DomainEvent } from '../interfaces/store.js';
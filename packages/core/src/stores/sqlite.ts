@@ -0,0 +1,408 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  Store,
+  DomainEvent,
+  CarrierResource,
+  CarrierResourceRef,
+  EventLogEntry,
+  EventQuery,
+  IdempotencyRecord,
+  StorePage,
+  StorePageOptions,
+} from '../interfaces/index.js';
+import type { Shipment, Parcel, ParcelStatus } from '../types/index.js';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * Prepared statement, as returned by SqliteDatabase.prepare
+ */
+export interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown;
+  get(...params: SqliteValue[]): unknown;
+  all(...params: SqliteValue[]): unknown[];
+}
+
+export type SqliteValue = string | number | null;
+
+/**
+ * The part of a synchronous SQLite driver the store uses
+ * better-sqlite3's `Database` and node:sqlite's `DatabaseSync` both fit, so
+ * core does not depend on either: open the database yourself and pass it in.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStoreOptions {
+  /** Prefix for table and index names (default: "shopickup_") */
+  tablePrefix?: string;
+
+  /** Run pending schema migrations in the constructor (default: true) */
+  migrate?: boolean;
+}
+
+/**
+ * Schema migrations, applied in order; the applied count is kept in a
+ * `<prefix>migrations` table. Append new steps, never edit released ones.
+ */
+function migrations(p: string): string[] {
+  return [
+    `CREATE TABLE ${p}shipments (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE TABLE ${p}parcels (
+      id TEXT PRIMARY KEY,
+      status TEXT,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX ${p}parcels_status ON ${p}parcels (status);
+    CREATE TABLE ${p}carrier_resources (
+      internal_id TEXT NOT NULL,
+      resource_type TEXT NOT NULL,
+      carrier_id TEXT,
+      status TEXT,
+      raw TEXT,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (internal_id, resource_type)
+    );
+    CREATE INDEX ${p}carrier_resources_carrier_id ON ${p}carrier_resources (carrier_id, resource_type);
+    CREATE TABLE ${p}events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      id TEXT NOT NULL UNIQUE,
+      internal_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      carrier_id TEXT,
+      timestamp TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX ${p}events_internal_id ON ${p}events (internal_id, seq);
+    CREATE INDEX ${p}events_carrier_id ON ${p}events (carrier_id);
+    CREATE TABLE ${p}idempotency_records (
+      carrier_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      resource TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (carrier_id, key)
+    );`,
+    `CREATE TABLE ${p}carrier_resource_index (
+      carrier_id TEXT NOT NULL,
+      carrier_resource_id TEXT NOT NULL,
+      resource_type TEXT NOT NULL,
+      internal_id TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (carrier_id, carrier_resource_id, resource_type)
+    );
+    CREATE INDEX ${p}carrier_resource_index_internal_id ON ${p}carrier_resource_index (internal_id);
+    DROP INDEX ${p}parcels_status;
+    CREATE INDEX ${p}parcels_status ON ${p}parcels (status, id);
+    CREATE INDEX ${p}events_timestamp ON ${p}events (timestamp, seq);`,
+  ];
+}
+
+const TABLE_PREFIX_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function fromJson<T>(value: unknown): T | undefined {
+  return typeof value === 'string' ? (JSON.parse(value) as T) : undefined;
+}
+
+function toDate(value: unknown): Date | undefined {
+  return value === undefined || value === null ? undefined : new Date(value as string);
+}
+
+interface CarrierResourceRow {
+  internal_id: string;
+  resource_type: string;
+  raw: string | null;
+  data: string;
+}
+
+/**
+ * SqliteStore
+ * Store backed by SQLite, for single-node deployments
+ *
+ * Records are kept as JSON (`data`, plus `raw` for carrier payloads) with
+ * the columns needed for lookups pulled out and indexed: parcel status,
+ * carrier IDs and the (adapter, carrier ID) reverse index. Dates on records
+ * and events come back as Date; dates nested inside `raw` or `meta` come back
+ * as ISO strings.
+ *
+ * Usage:
+ * ```typescript
+ * import Database from 'better-sqlite3'; // or: import { DatabaseSync } from 'node:sqlite';
+ *
+ * const store = new SqliteStore(new Database('shopickup.db'));
+ * const ref = await store.findByCarrierResourceId('hu-foxpost', 'CLFOX0000000001');
+ * ```
+ */
+export class SqliteStore implements Store {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: SqliteStoreOptions = {}
+  ) {
+    this.prefix = options.tablePrefix ?? 'shopickup_';
+    if (!TABLE_PREFIX_PATTERN.test(this.prefix)) {
+      throw new ValidationError(`Invalid table prefix '${this.prefix}'`, { tablePrefix: this.prefix });
+    }
+    if (options.migrate ?? true) {
+      this.migrate();
+    }
+  }
+
+  /**
+   * Apply pending schema migrations
+   * @returns Number of migrations applied
+   */
+  migrate(): number {
+    const p = this.prefix;
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${p}migrations (version INTEGER PRIMARY KEY, applied_at TEXT NOT NULL)`);
+    const row = this.db.prepare(`SELECT MAX(version) AS version FROM ${p}migrations`).get() as { version: number | null } | undefined;
+    const current = row?.version ?? 0;
+
+    const pending = migrations(p).slice(current);
+    pending.forEach((sql, idx) => {
+      this.transaction(() => {
+        this.db.exec(sql);
+        this.db.prepare(`INSERT INTO ${p}migrations (version, applied_at) VALUES (?, ?)`)
+          .run(current + idx + 1, new Date().toISOString());
+      });
+    });
+    return pending.length;
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async saveShipment(shipment: Shipment): Promise<void> {
+    const now = new Date();
+    const record: Shipment = { ...shipment, updatedAt: now };
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}shipments (id, data, created_at, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    ).run(shipment.id, JSON.stringify(record), (shipment.createdAt ?? now).toISOString(), now.toISOString());
+  }
+
+  async getShipment(id: string): Promise<Shipment | null> {
+    const row = this.db.prepare(`SELECT data FROM ${this.prefix}shipments WHERE id = ?`).get(id) as { data: string } | undefined;
+    if (!row) return null;
+    const shipment = JSON.parse(row.data) as Shipment;
+    return { ...shipment, createdAt: new Date(shipment.createdAt), updatedAt: new Date(shipment.updatedAt) };
+  }
+
+  async saveParcel(parcel: Parcel): Promise<void> {
+    const now = new Date();
+    const record: Parcel = { ...parcel, updatedAt: now };
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}parcels (id, status, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data, updated_at = excluded.updated_at`
+    ).run(parcel.id, parcel.status ?? null, JSON.stringify(record), (parcel.createdAt ?? now).toISOString(), now.toISOString());
+  }
+
+  async getParcel(id: string): Promise<Parcel | null> {
+    const row = this.db.prepare(`SELECT data FROM ${this.prefix}parcels WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? this.toParcel(row.data) : null;
+  }
+
+  async saveCarrierResource(
+    internalId: string,
+    resourceType: "shipment" | "parcel" | "label",
+    resource: CarrierResource
+  ): Promise<void> {
+    const { raw, ...rest } = resource;
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}carrier_resources (internal_id, resource_type, carrier_id, status, raw, data, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (internal_id, resource_type) DO UPDATE SET
+         carrier_id = excluded.carrier_id, status = excluded.status, raw = excluded.raw,
+         data = excluded.data, updated_at = excluded.updated_at`
+    ).run(
+      internalId,
+      resourceType,
+      resource.carrierId ?? null,
+      resource.status ?? null,
+      toJson(raw),
+      JSON.stringify(rest),
+      new Date().toISOString()
+    );
+  }
+
+  async getCarrierResource(
+    internalId: string,
+    resourceType: "shipment" | "parcel" | "label"
+  ): Promise<CarrierResource | null> {
+    const row = this.db.prepare(
+      `SELECT internal_id, resource_type, raw, data FROM ${this.prefix}carrier_resources WHERE internal_id = ? AND resource_type = ?`
+    ).get(internalId, resourceType) as CarrierResourceRow | undefined;
+    return row ? this.toCarrierResource(row) : null;
+  }
+
+  async appendEvent(internalId: string, event: DomainEvent): Promise<void> {
+    const record: DomainEvent = {
+      ...event,
+      timestamp: event.timestamp ?? new Date(),
+      id: event.id ?? randomUUID(),
+    };
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}events (id, internal_id, type, carrier_id, timestamp, data) VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(record.id!, internalId, record.type, record.carrierId ?? null, record.timestamp!.toISOString(), JSON.stringify(record));
+  }
+
+  async getEvents(internalId: string): Promise<DomainEvent[]> {
+    const rows = this.db.prepare(
+      `SELECT data FROM ${this.prefix}events WHERE internal_id = ? ORDER BY seq`
+    ).all(internalId) as Array<{ data: string }>;
+    return rows.map((row) => this.toEvent(row.data));
+  }
+
+  async queryEvents(query: EventQuery): Promise<StorePage<DomainEvent>> {
+    const limit = Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE);
+    const where: string[] = [];
+    const params: SqliteValue[] = [];
+    if (query.internalId !== undefined) {
+      where.push('internal_id = ?');
+      params.push(query.internalId);
+    }
+    if (query.from) {
+      where.push('timestamp >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      where.push('timestamp < ?');
+      params.push(query.to.toISOString());
+    }
+    if (query.cursor) {
+      // Cursor: "<timestamp>|<seq>" of the last event returned
+      const [timestamp, seq] = query.cursor.split('|');
+      where.push('(timestamp > ? OR (timestamp = ? AND seq > ?))');
+      params.push(timestamp, timestamp, Number(seq));
+    }
+
+    const rows = this.db.prepare(
+      `SELECT seq, timestamp, data FROM ${this.prefix}events
+       ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY timestamp, seq LIMIT ?`
+    ).all(...params, limit + 1) as Array<{ seq: number; timestamp: string; data: string }>;
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toEvent(row.data)),
+      ...(rows.length > limit ? { nextCursor: `${last.timestamp}|${last.seq}` } : {}),
+    };
+  }
+
+  async readEventLog(afterSeq: number, limit: number): Promise<EventLogEntry[]> {
+    const rows = this.db.prepare(
+      `SELECT seq, data FROM ${this.prefix}events WHERE seq > ? ORDER BY seq LIMIT ?`
+    ).all(afterSeq, Math.max(1, limit)) as Array<{ seq: number; data: string }>;
+    return rows.map((row) => ({ seq: row.seq, event: this.toEvent(row.data) }));
+  }
+
+  async indexCarrierResource(ref: CarrierResourceRef): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}carrier_resource_index (carrier_id, carrier_resource_id, resource_type, internal_id, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (carrier_id, carrier_resource_id, resource_type) DO UPDATE SET
+         internal_id = excluded.internal_id, updated_at = excluded.updated_at`
+    ).run(ref.carrierId, ref.carrierResourceId, ref.resourceType, ref.internalId, new Date().toISOString());
+  }
+
+  async findByCarrierResourceId(
+    carrierId: string,
+    carrierResourceId: string,
+    resourceType: "shipment" | "parcel" | "label" = "parcel"
+  ): Promise<CarrierResourceRef | null> {
+    const row = this.db.prepare(
+      `SELECT internal_id FROM ${this.prefix}carrier_resource_index
+       WHERE carrier_id = ? AND carrier_resource_id = ? AND resource_type = ?`
+    ).get(carrierId, carrierResourceId, resourceType) as { internal_id: string } | undefined;
+    return row ? { carrierId, carrierResourceId, internalId: row.internal_id, resourceType } : null;
+  }
+
+  async listParcelsByStatus(status: ParcelStatus, options: StorePageOptions = {}): Promise<StorePage<Parcel>> {
+    const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+    const rows = this.db.prepare(
+      `SELECT id, data FROM ${this.prefix}parcels WHERE status = ? AND id > ? ORDER BY id LIMIT ?`
+    ).all(status, options.cursor ?? '', limit + 1) as Array<{ id: string; data: string }>;
+
+    const page = rows.slice(0, limit);
+    return {
+      items: page.map((row) => this.toParcel(row.data)),
+      ...(rows.length > limit ? { nextCursor: page[page.length - 1].id } : {}),
+    };
+  }
+
+  async saveIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO ${this.prefix}idempotency_records (carrier_id, key, operation, fingerprint, resource, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (carrier_id, key) DO UPDATE SET
+         operation = excluded.operation, fingerprint = excluded.fingerprint,
+         resource = excluded.resource, created_at = excluded.created_at`
+    ).run(
+      record.carrierId,
+      record.key,
+      record.operation,
+      record.fingerprint,
+      JSON.stringify(record.resource),
+      (record.createdAt ?? new Date()).toISOString()
+    );
+  }
+
+  async getIdempotencyRecord(carrierId: string, key: string): Promise<IdempotencyRecord | null> {
+    const row = this.db.prepare(
+      `SELECT carrier_id, key, operation, fingerprint, resource, created_at FROM ${this.prefix}idempotency_records WHERE carrier_id = ? AND key = ?`
+    ).get(carrierId, key) as
+      | { carrier_id: string; key: string; operation: IdempotencyRecord['operation']; fingerprint: string; resource: string; created_at: string }
+      | undefined;
+    if (!row) return null;
+    return {
+      carrierId: row.carrier_id,
+      key: row.key,
+      operation: row.operation,
+      fingerprint: row.fingerprint,
+      resource: JSON.parse(row.resource) as CarrierResource,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private toParcel(data: string): Parcel {
+    const parcel = JSON.parse(data) as Parcel;
+    return { ...parcel, createdAt: toDate(parcel.createdAt), updatedAt: toDate(parcel.updatedAt) };
+  }
+
+  private toCarrierResource(row: CarrierResourceRow): CarrierResource {
+    const resource = JSON.parse(row.data) as CarrierResource;
+    const raw = fromJson<unknown>(row.raw);
+    return raw === undefined ? resource : { ...resource, raw };
+  }
+
+  private toEvent(data: string): DomainEvent {
+    const event = JSON.parse(data) as DomainEvent;
+    return { ...event, timestamp: toDate(event.timestamp) };
+  }
+}
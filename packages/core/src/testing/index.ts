@@ -0,0 +1,2 @@
+export { runStoreConformanceSuite } from './store-conformance.js';
+export type { StoreConformanceOptions } from './store-conformance.js';
@@ -0,0 +1,319 @@
+/**
+ * Store conformance suite
+ * Behaviour every Store implementation must share, as a vitest suite
+ * (vitest is an optional peer dependency of core; only this entry point needs it)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Store, LabelCarrierResource } from '../interfaces/index.js';
+import type { Parcel, Shipment } from '../types/index.js';
+
+export interface StoreConformanceOptions {
+  /** Suite name (default: "Store conformance") */
+  name?: string;
+
+  /** Skip the suite, e.g. when the database is not reachable */
+  skip?: boolean;
+
+  /** Called after each test with the store the factory returned */
+  teardown?: (store: Store) => void | Promise<void>;
+}
+
+function makeParcel(id: string, status: Parcel['status'] = 'created'): Parcel {
+  const contact = { name: 'Conformance Sender', email: 'sender@example.com' };
+  const address = { name: 'Conformance', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  return {
+    id,
+    shipper: { contact, address },
+    recipient: { contact, delivery: { method: 'HOME', address } },
+    service: 'standard',
+    package: { weightGrams: 1200, dimensionsCm: { length: 30, width: 20, height: 10 } },
+    status,
+  } as Parcel;
+}
+
+function makeShipment(id: string): Shipment {
+  const address = { name: 'Conformance', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' };
+  const createdAt = new Date('2026-01-10T08:00:00Z');
+  return {
+    id,
+    sender: address,
+    recipient: address,
+    service: 'standard',
+    totalWeight: 1200,
+    createdAt,
+    updatedAt: createdAt,
+  } as Shipment;
+}
+
+// Stores may stamp updatedAt with a millisecond clock
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+/**
+ * Register the Store conformance tests with vitest
+ *
+ * Call it from a spec file; the factory runs before every test and must
+ * return an empty store.
+ *
+ * Usage:
+ * ```typescript
+ * import { runStoreConformanceSuite } from '@shopickup/core/testing';
+ *
+ * runStoreConformanceSuite(async () => {
+ *   await db.query('TRUNCATE parcels, carrier_resources, events');
+ *   return new PostgresStore(db);
+ * });
+ * ```
+ */
+export function runStoreConformanceSuite(
+  factory: () => Store | Promise<Store>,
+  options: StoreConformanceOptions = {}
+): void {
+  describe.skipIf(options.skip ?? false)(options.name ?? 'Store conformance', () => {
+    let store: Store;
+
+    beforeEach(async () => {
+      store = await factory();
+    });
+
+    afterEach(async () => {
+      await options.teardown?.(store);
+    });
+
+    describe('missing IDs', () => {
+      it('returns null or an empty list for unknown IDs', async () => {
+        expect(await store.getShipment('missing')).toBeNull();
+        expect(await store.getParcel('missing')).toBeNull();
+        expect(await store.getCarrierResource('missing', 'parcel')).toBeNull();
+        expect(await store.getEvents('missing')).toEqual([]);
+      });
+    });
+
+    describe('parcels and shipments', () => {
+      it('round-trips a parcel', async () => {
+        const parcel = makeParcel('conf-p1');
+        await store.saveParcel(parcel);
+
+        const { updatedAt: _updatedAt, createdAt: _createdAt, ...saved } = (await store.getParcel('conf-p1'))!;
+        expect(saved).toEqual(parcel);
+      });
+
+      it('bumps updatedAt on every save and keeps the latest data', async () => {
+        await store.saveParcel(makeParcel('conf-p1'));
+        const first = (await store.getParcel('conf-p1'))!;
+        await tick();
+        await store.saveParcel({ ...first, status: 'shipped' });
+        const second = (await store.getParcel('conf-p1'))!;
+
+        expect(first.updatedAt).toBeInstanceOf(Date);
+        expect(second.updatedAt).toBeInstanceOf(Date);
+        expect(second.updatedAt!.getTime()).toBeGreaterThan(first.updatedAt!.getTime());
+        expect(second.status).toBe('shipped');
+      });
+
+      it('round-trips a shipment and bumps its updatedAt', async () => {
+        const shipment = makeShipment('conf-s1');
+        await store.saveShipment(shipment);
+        const first = (await store.getShipment('conf-s1'))!;
+        await tick();
+        await store.saveShipment({ ...first, reference: 'ORDER-1' });
+        const second = (await store.getShipment('conf-s1'))!;
+
+        expect(first.createdAt).toEqual(shipment.createdAt);
+        expect(first.updatedAt.getTime()).toBeGreaterThan(shipment.updatedAt.getTime());
+        expect(second.updatedAt.getTime()).toBeGreaterThan(first.updatedAt.getTime());
+        expect(second.reference).toBe('ORDER-1');
+      });
+    });
+
+    describe('carrier resources', () => {
+      it('round-trips label page ranges, raw payloads and meta', async () => {
+        const label: LabelCarrierResource = {
+          carrierId: 'CLFOX0000000001',
+          status: 'created',
+          fileId: 'file-1',
+          pageRange: { start: 2, end: 3 },
+          raw: { barcode: 'CLFOX0000000001', pages: [2, 3] },
+          meta: { printerType: 'A4_2x2' },
+        };
+        await store.saveCarrierResource('conf-p1', 'label', label);
+
+        expect(await store.getCarrierResource('conf-p1', 'label')).toEqual(label);
+      });
+
+      it('keeps resource types apart and replaces on save', async () => {
+        await store.saveCarrierResource('conf-p1', 'parcel', { carrierId: 'A', status: 'created' });
+        await store.saveCarrierResource('conf-p1', 'label', { carrierId: 'L', status: 'created' });
+        await store.saveCarrierResource('conf-p1', 'parcel', { carrierId: 'B', status: 'updated' });
+
+        expect(await store.getCarrierResource('conf-p1', 'parcel')).toEqual({ carrierId: 'B', status: 'updated' });
+        expect(await store.getCarrierResource('conf-p1', 'label')).toEqual({ carrierId: 'L', status: 'created' });
+        expect(await store.getCarrierResource('conf-p1', 'shipment')).toBeNull();
+      });
+    });
+
+    describe('events', () => {
+      it('returns events in append order with ids and timestamps', async () => {
+        const at = new Date('2026-01-10T08:00:00Z');
+        await store.appendEvent('conf-p1', { type: 'PARCEL_CREATED', internalId: 'conf-p1', carrierId: 'hu-gls', timestamp: at });
+        await store.appendEvent('conf-p1', { type: 'SHIPMENT_CLOSED', internalId: 'conf-p1' });
+        await store.appendEvent('conf-p1', { type: 'LABEL_GENERATED', internalId: 'conf-p1', details: { fileId: 'file-1' } });
+
+        const events = await store.getEvents('conf-p1');
+
+        expect(events.map((e) => e.type)).toEqual(['PARCEL_CREATED', 'SHIPMENT_CLOSED', 'LABEL_GENERATED']);
+        expect(events[0]).toMatchObject({ internalId: 'conf-p1', carrierId: 'hu-gls', timestamp: at });
+        expect(events[2].details).toEqual({ fileId: 'file-1' });
+        for (const event of events) {
+          expect(event.id).toEqual(expect.any(String));
+          expect(event.timestamp).toBeInstanceOf(Date);
+        }
+        expect(new Set(events.map((e) => e.id)).size).toBe(3);
+      });
+
+      it('is append-only: earlier events survive later appends and caller mutation', async () => {
+        await store.appendEvent('conf-p1', { type: 'PARCEL_CREATED', internalId: 'conf-p1', id: 'e1' });
+        const before = await store.getEvents('conf-p1');
+        before.pop();
+        await store.appendEvent('conf-p1', { type: 'LABEL_GENERATED', internalId: 'conf-p1', id: 'e2' });
+
+        expect((await store.getEvents('conf-p1')).map((e) => e.id)).toEqual(['e1', 'e2']);
+      });
+
+      it('keeps event logs per entity', async () => {
+        await store.appendEvent('conf-p1', { type: 'PARCEL_CREATED', internalId: 'conf-p1' });
+        await store.appendEvent('conf-p2', { type: 'ERROR_OCCURRED', internalId: 'conf-p2', details: { errorMessage: 'boom' } });
+
+        expect((await store.getEvents('conf-p1')).map((e) => e.type)).toEqual(['PARCEL_CREATED']);
+        expect((await store.getEvents('conf-p2')).map((e) => e.type)).toEqual(['ERROR_OCCURRED']);
+      });
+    });
+
+    // Optional Store methods: tests are skipped for stores without them
+    describe('carrier resource index', () => {
+      it('finds the internal ID by adapter and carrier resource ID', async (ctx) => {
+        if (!store.indexCarrierResource || !store.findByCarrierResourceId) return ctx.skip();
+        await store.indexCarrierResource({ carrierId: 'hu-gls', carrierResourceId: '51234567890', internalId: 'conf-p1', resourceType: 'parcel' });
+        await store.indexCarrierResource({ carrierId: 'hu-gls', carrierResourceId: '51234567890', internalId: 'conf-p1', resourceType: 'label' });
+
+        expect(await store.findByCarrierResourceId('hu-gls', '51234567890')).toEqual({
+          carrierId: 'hu-gls',
+          carrierResourceId: '51234567890',
+          internalId: 'conf-p1',
+          resourceType: 'parcel',
+        });
+        expect((await store.findByCarrierResourceId('hu-gls', '51234567890', 'label'))?.internalId).toBe('conf-p1');
+        expect(await store.findByCarrierResourceId('hu-gls', '51234567890', 'shipment')).toBeNull();
+        expect(await store.findByCarrierResourceId('hu-mpl', '51234567890')).toBeNull();
+        expect(await store.findByCarrierResourceId('hu-gls', 'missing')).toBeNull();
+      });
+
+      it('points a re-indexed carrier ID at the latest internal ID', async (ctx) => {
+        if (!store.indexCarrierResource || !store.findByCarrierResourceId) return ctx.skip();
+        await store.indexCarrierResource({ carrierId: 'hu-gls', carrierResourceId: '51234567890', internalId: 'conf-p1', resourceType: 'parcel' });
+        await store.indexCarrierResource({ carrierId: 'hu-gls', carrierResourceId: '51234567890', internalId: 'conf-p2', resourceType: 'parcel' });
+
+        expect((await store.findByCarrierResourceId('hu-gls', '51234567890'))?.internalId).toBe('conf-p2');
+      });
+    });
+
+    describe('listing parcels by status', () => {
+      it('pages through parcels with the status, ordered by ID', async (ctx) => {
+        if (!store.listParcelsByStatus) return ctx.skip();
+        for (const id of ['conf-p3', 'conf-p1', 'conf-p4', 'conf-p2']) {
+          await store.saveParcel(makeParcel(id, 'shipped'));
+        }
+        await store.saveParcel(makeParcel('conf-p5', 'delivered'));
+        await store.saveParcel({ ...makeParcel('conf-p4'), status: 'delivered' });
+
+        const first = await store.listParcelsByStatus('shipped', { limit: 2 });
+        const second = await store.listParcelsByStatus('shipped', { limit: 2, cursor: first.nextCursor });
+
+        expect(first.items.map((p) => p.id)).toEqual(['conf-p1', 'conf-p2']);
+        expect(first.nextCursor).toEqual(expect.any(String));
+        expect(second.items.map((p) => p.id)).toEqual(['conf-p3']);
+        expect(second.nextCursor).toBeUndefined();
+        expect((await store.listParcelsByStatus('delivered')).items.map((p) => p.id)).toEqual(['conf-p4', 'conf-p5']);
+        expect(await store.listParcelsByStatus('exception')).toEqual({ items: [] });
+      });
+    });
+
+    describe('querying events', () => {
+      const at = (minute: number) => new Date(Date.UTC(2026, 0, 10, 8, minute));
+
+      beforeEach(async () => {
+        await store.appendEvent('conf-p1', { type: 'PARCEL_CREATED', internalId: 'conf-p1', id: 'e1', timestamp: at(0) });
+        await store.appendEvent('conf-p2', { type: 'PARCEL_CREATED', internalId: 'conf-p2', id: 'e2', timestamp: at(1) });
+        await store.appendEvent('conf-p1', { type: 'LABEL_GENERATED', internalId: 'conf-p1', id: 'e3', timestamp: at(1) });
+        await store.appendEvent('conf-p2', { type: 'LABEL_GENERATED', internalId: 'conf-p2', id: 'e4', timestamp: at(2) });
+        await store.appendEvent('conf-p1', { type: 'TRACKING_UPDATED', internalId: 'conf-p1', id: 'e5', timestamp: at(3) });
+      });
+
+      it('returns events across entities oldest first, in pages', async (ctx) => {
+        if (!store.queryEvents) return ctx.skip();
+        const ids: string[] = [];
+        let cursor: string | undefined;
+        let pages = 0;
+        do {
+          const page = await store.queryEvents({ limit: 2, cursor });
+          ids.push(...page.items.map((e) => e.id!));
+          cursor = page.nextCursor;
+          pages++;
+        } while (cursor);
+
+        expect(ids).toEqual(['e1', 'e2', 'e3', 'e4', 'e5']);
+        expect(pages).toBe(3);
+      });
+
+      it('filters by time range (from inclusive, to exclusive) and internal ID', async (ctx) => {
+        if (!store.queryEvents) return ctx.skip();
+        const range = await store.queryEvents({ from: at(1), to: at(3) });
+        const forParcel = await store.queryEvents({ internalId: 'conf-p1', from: at(1) });
+
+        expect(range.items.map((e) => e.id)).toEqual(['e2', 'e3', 'e4']);
+        expect(range.nextCursor).toBeUndefined();
+        expect(forParcel.items.map((e) => e.id)).toEqual(['e3', 'e5']);
+        expect(forParcel.items[0].timestamp).toEqual(at(1));
+      });
+
+      it('reads the log in append order after a sequence number', async (ctx) => {
+        if (!store.readEventLog) return ctx.skip();
+        // Appended last but with the earliest timestamp
+        await store.appendEvent('conf-p2', { type: 'ERROR_OCCURRED', internalId: 'conf-p2', id: 'e6', timestamp: at(-5) });
+
+        const first = await store.readEventLog(0, 4);
+        const rest = await store.readEventLog(first[first.length - 1].seq, 10);
+
+        expect([...first, ...rest].map((entry) => entry.event.id)).toEqual(['e1', 'e2', 'e3', 'e4', 'e5', 'e6']);
+        expect(rest[0].seq).toBeGreaterThan(first[3].seq);
+        expect(rest[1].seq).toBeGreaterThan(rest[0].seq);
+        expect(rest[1].event.timestamp).toEqual(at(-5));
+        expect(await store.readEventLog(rest[1].seq, 10)).toEqual([]);
+      });
+    });
+
+    describe('idempotency records', () => {
+      it('returns null for unknown keys', async (ctx) => {
+        if (!store.getIdempotencyRecord) return ctx.skip();
+        expect(await store.getIdempotencyRecord('hu-gls', 'missing')).toBeNull();
+      });
+
+      it('round-trips records keyed by carrier and key', async (ctx) => {
+        if (!store.saveIdempotencyRecord || !store.getIdempotencyRecord) return ctx.skip();
+        const createdAt = new Date('2026-01-10T08:00:00Z');
+        const record = {
+          carrierId: 'hu-gls',
+          key: 'conf-p1',
+          operation: 'createParcel' as const,
+          fingerprint: 'f1',
+          resource: { carrierId: '51234567890', status: 'created' },
+          createdAt,
+        };
+        await store.saveIdempotencyRecord(record);
+
+        expect(await store.getIdempotencyRecord('hu-gls', 'conf-p1')).toEqual(record);
+        expect(await store.getIdempotencyRecord('hu-mpl', 'conf-p1')).toBeNull();
+      });
+    });
+  });
+}
@@ -11,3 +11,4 @@ export * from './rate.js';
 export * from './responses.js';
 export * from './pickup-point.js';
 export * from './return.js';
+export * from './pickup.js';
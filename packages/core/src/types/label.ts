@@ -3,6 +3,21 @@
  * Carrier-agnostic types for batch label creation with file mapping
  */
 
+/**
+ * Label tiling on a sheet
+ * Labels fill the grid row by row from the top-left cell
+ */
+export interface LabelSheetLayout {
+  columns: number;
+  rows: number;
+
+  /**
+   * 1-based cell of the first label on the first page (default: 1)
+   * Mirrors carrier options such as GLS printPosition
+   */
+  startPosition?: number;
+}
+
 /**
  * Physical label file returned by the carrier or produced by adapter processing
  * 
@@ -46,7 +61,8 @@ export interface LabelFileResource {
    * Integrators typically populate this after uploading `rawCarrierResponse` to storage
    * 
    * **Note:** Initially undefined; adapters do not provide URLs (keep them stateless).
-   * Integrators populate this field during their storage/handling pipeline.
+   * Integrators populate this field during their storage/handling pipeline,
+   * e.g. with `withLabelStorage`.
    */
   url?: string;
 
@@ -90,6 +106,12 @@ export interface LabelFileResource {
    */
   orientation?: 'portrait' | 'landscape';
 
+  /**
+   * Grid of labels per page when several labels are tiled on one sheet
+   * (e.g., GLS A4_2x2). Absent for one label per page.
+   */
+  layout?: LabelSheetLayout;
+
   /**
    * Carrier-specific metadata (e.g., Foxpost size, testMode, compression)
    * Optional; populated only if relevant to the carrier
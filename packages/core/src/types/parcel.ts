@@ -101,14 +101,21 @@ export interface Parcel {
   updatedAt?: Date;
 }
 
+/**
+ * Lifecycle status of a parcel
+ * Allowed moves between statuses are defined by PARCEL_TRANSITIONS (see ParcelLifecycle)
+ */
 export type ParcelStatus =
-  | "draft"           // Not yet submitted to carrier
-  | "created"         // Carrier has acknowledged the parcel
-  | "closed"          // Parcel closed (ready for labeling)
-  | "label_generated" // Label created
-  | "shipped"         // In transit
-  | "delivered"       // Delivered to recipient
-  | "exception";      // Exception/problem during delivery
+  | "draft"            // Not yet submitted to carrier
+  | "created"          // Carrier has acknowledged the parcel
+  | "closed"           // Parcel closed (ready for labeling)
+  | "label_generated"  // Label created
+  | "shipped"          // In transit
+  | "out_for_delivery" // Out for delivery today
+  | "delivered"        // Delivered to recipient
+  | "exception"        // Exception/problem during delivery
+  | "returned"         // Returned to sender
+  | "cancelled";       // Deleted at the carrier or cancelled in transit
 
 /**
  * Item within a parcel
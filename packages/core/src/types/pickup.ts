@@ -0,0 +1,73 @@
+/**
+ * Pickup (courier collection) types
+ *
+ * Represents a request for a courier to collect parcels at an address
+ * within a time window.
+ */
+
+import type { RequestOptions } from '../interfaces/carrier-adapter.js';
+import type { CarrierResource } from '../interfaces/carrier-resource.js';
+import type { Address } from './address.js';
+import type { Contact } from './contact.js';
+
+/**
+ * Time window in which the courier may arrive
+ */
+export interface PickupWindow {
+  /** Earliest arrival */
+  from: Date;
+  /** Latest arrival; must be after `from` */
+  to: Date;
+}
+
+/**
+ * Request for a courier collection
+ */
+export interface PickupRequest {
+  /**
+   * Where the courier collects the parcels
+   */
+  address: Address;
+  /**
+   * Who hands the parcels over
+   */
+  contact: Contact;
+  /**
+   * When the courier should arrive.
+   * Carriers that only book whole days use the day of `window.from`.
+   */
+  window: PickupWindow;
+  /**
+   * Number of parcels to collect
+   */
+  parcelCount: number;
+  /**
+   * Combined weight of the parcels in grams (optional)
+   */
+  totalWeightGrams?: number;
+  /**
+   * Optional reference for the pickup (e.g., warehouse dispatch ID)
+   */
+  reference?: string;
+  /**
+   * Credentials for the carrier API
+   */
+  credentials: Record<string, unknown>;
+  /**
+   * Per-call options
+   */
+  options?: RequestOptions;
+}
+
+/**
+ * Booked pickup
+ *
+ * `carrierId` is the carrier's pickup (or pickup shipment) ID and status is
+ * 'scheduled' once the carrier accepted the booking.
+ */
+export interface PickupResponse extends CarrierResource {
+  /**
+   * Window the carrier booked, when it differs from or narrows the requested one
+   */
+  window?: PickupWindow;
+}
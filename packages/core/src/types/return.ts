@@ -5,6 +5,8 @@
  */
 
 import type { RequestOptions } from '../interfaces/carrier-adapter.js';
+import type { Address } from './address.js';
+import type { Contact } from './contact.js';
 
 /**
  * Item describing a parcel to be returned.
@@ -22,6 +24,15 @@ export interface ReturnItem {
    * Optional reference code for the return.
    */
   refCode?: string;
+  /**
+   * Who sends the return (the customer) and where the carrier collects it.
+   * Required by carriers that create the return as a new parcel instead of
+   * deriving it from the original one (e.g., GLS).
+   */
+  shipper?: {
+    contact: Contact;
+    address: Address;
+  };
 }
 
 /**
@@ -187,3 +198,35 @@ export interface BatchTrackingResponse {
    */
   rawCarrierResponse?: unknown;
 }
+
+/**
+ * Handle of a batch tracking job started with startBatchTrack().
+ */
+export interface BatchTrackingJob {
+  /**
+   * Carrier-assigned job ID (e.g., the MPL Pull-500 trackingGUID).
+   */
+  jobId: string;
+  /**
+   * Tracking numbers submitted with the job, in request order.
+   */
+  trackingNumbers: string[];
+}
+
+/**
+ * Request to check a batch tracking job for results.
+ */
+export interface CollectBatchTrackingRequest {
+  /**
+   * Job ID returned by startBatchTrack().
+   */
+  jobId: string;
+  /**
+   * Credentials for the carrier API (if required).
+   */
+  credentials?: Record<string, unknown>;
+  /**
+   * Per-call options (e.g., useTestApi).
+   */
+  options?: RequestOptions;
+}
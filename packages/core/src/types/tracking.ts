@@ -50,6 +50,22 @@ export interface TrackingEvent {
    */
   descriptionLocalLanguage?: string;
 
+  /**
+   * Finer-grained status within `status` (optional)
+   * Set by adapters when the carrier code says more than the canonical status,
+   * e.g. EXCEPTION + "ADDRESS_PROBLEM" or IN_TRANSIT + "READY_FOR_PICKUP"
+   */
+  subStatus?: TrackingSubStatus;
+
+  /** Whether `status` is final (delivered, returned, cancelled) */
+  isTerminal?: boolean;
+
+  /** Whether the recipient or shipper has to act (collect, fix the address, clear customs) */
+  requiresAction?: boolean;
+
+  /** Last day the parcel can be collected, for READY_FOR_PICKUP (when the carrier reports it) */
+  pickupDeadline?: Date;
+
   /** Raw carrier data for debugging/reference */
   raw?: unknown;
 }
@@ -63,6 +79,76 @@ export type TrackingStatus =
   | "RETURNED"            // Returned to sender
   | "CANCELLED";          // Shipment cancelled
 
+/**
+ * Finer-grained tracking status, for customer communication
+ * Carriers disagree on the canonical status around some of these (a parcel
+ * waiting in a locker is IN_TRANSIT at Foxpost, OUT_FOR_DELIVERY or EXCEPTION
+ * at GLS), so read them together with TrackingEvent.status
+ */
+export type TrackingSubStatus =
+  | "INFO_RECEIVED"             // Data received, parcel not handed over yet
+  | "PICKED_UP"                 // Collected from or dropped off by the shipper
+  | "AT_HUB"                    // At a sorting facility or depot
+  | "REDIRECTED"                // Sent to a new destination or delivery option
+  | "READY_FOR_PICKUP"          // Waiting in a locker or at a pickup point
+  | "WITH_COURIER"              // On the delivery vehicle
+  | "DELIVERY_ATTEMPT_FAILED"   // Nobody home or no time; retried or held
+  | "ADDRESS_PROBLEM"           // Address incomplete or wrong
+  | "HELD_AT_CUSTOMS"           // Waiting for customs clearance
+  | "REFUSED"                   // Recipient refused the parcel
+  | "DAMAGED"                   // Parcel damaged
+  | "DELAYED"                   // Late: capacity, sorting or weather problem
+  | "PICKUP_EXPIRED"            // Not collected in time
+  | "RETURNING_TO_SENDER"       // On the way back to the shipper
+  | "DELIVERED_TO_PICKUP_POINT" // Delivered via a locker or pickup point
+  | "DELIVERED_TO_RECIPIENT";   // Handed over at the address
+
+/**
+ * Canonical statuses after which nothing more happens to a parcel
+ */
+export const TERMINAL_TRACKING_STATUSES: readonly TrackingStatus[] = ["DELIVERED", "RETURNED", "CANCELLED"];
+
+/**
+ * Sub-statuses that need someone to act
+ */
+export const ACTION_REQUIRED_SUB_STATUSES: readonly TrackingSubStatus[] = [
+  "READY_FOR_PICKUP",
+  "DELIVERY_ATTEMPT_FAILED",
+  "ADDRESS_PROBLEM",
+  "HELD_AT_CUSTOMS",
+];
+
+/**
+ * isTerminal / requiresAction for a status pair, for adapters filling TrackingEvent
+ */
+export function trackingFlags(
+  status: TrackingStatus,
+  subStatus?: TrackingSubStatus
+): { isTerminal: boolean; requiresAction: boolean } {
+  return {
+    isTerminal: TERMINAL_TRACKING_STATUSES.includes(status),
+    requiresAction: subStatus !== undefined && ACTION_REQUIRED_SUB_STATUSES.includes(subStatus),
+  };
+}
+
+/**
+ * Update-level subStatus, isTerminal, requiresAction and pickupDeadline
+ * Taken from the latest event (events are chronological); isTerminal follows `status`
+ */
+export function summarizeTrackingEvents(
+  events: TrackingEvent[],
+  status: TrackingStatus
+): Pick<TrackingUpdate, "subStatus" | "isTerminal" | "requiresAction" | "pickupDeadline"> {
+  const latest = events[events.length - 1];
+  const flags = trackingFlags(status, latest?.subStatus);
+  return {
+    ...(latest?.subStatus ? { subStatus: latest.subStatus } : {}),
+    isTerminal: flags.isTerminal,
+    requiresAction: latest?.requiresAction ?? flags.requiresAction,
+    ...(latest?.pickupDeadline ? { pickupDeadline: latest.pickupDeadline } : {}),
+  };
+}
+
 /**
  * Complete tracking information for a shipment
  */
@@ -76,6 +162,18 @@ export interface TrackingUpdate {
   /** Overall current status */
   status: TrackingStatus;
 
+  /** Sub-status of the latest event (optional) */
+  subStatus?: TrackingSubStatus;
+
+  /** Whether `status` is final; the tracking poller stops polling such parcels */
+  isTerminal?: boolean;
+
+  /** Whether the latest event needs someone to act */
+  requiresAction?: boolean;
+
+  /** Last day the parcel can be collected from a locker or pickup point */
+  pickupDeadline?: Date;
+
   /** Last update timestamp (null if no tracking events available) */
   lastUpdate: Date | null;
 
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withIdempotency, fingerprintRequest } from '../idempotency.js';
+import { IdempotencyConflictError, ValidationError } from '../../errors/index.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import { InMemoryStore } from '../../stores/in-memory.js';
+import type { CarrierAdapter, CarrierResource, Store } from '../../interfaces/index.js';
+import type { Parcel } from '../../types/index.js';
+
+function makeParcel(id: string, weightGrams = 1000): Parcel {
+  return {
+    id,
+    shipper: { contact: { name: 'Sender' }, address: { name: 'Sender', street: 'Fő utca 1', city: 'Budapest', postalCode: '1011', country: 'HU' } },
+    recipient: { contact: { name: 'Recipient' }, delivery: { method: 'PICKUP_POINT', pickupPoint: { id: 'PP1' } } },
+    service: 'standard',
+    package: { weightGrams },
+  } as Parcel;
+}
+
+function batch(results: CarrierResource[]) {
+  const successCount = results.filter((r) => r.status !== 'failed').length;
+  return {
+    results,
+    successCount,
+    failureCount: results.length - successCount,
+    totalCount: results.length,
+    allSucceeded: successCount === results.length,
+    allFailed: successCount === 0,
+    someFailed: successCount > 0 && successCount < results.length,
+    summary: 'ok',
+    rawCarrierResponse: { calls: 1 },
+  };
+}
+
+function makeAdapter(): CarrierAdapter {
+  let seq = 0;
+  return {
+    id: 'hu-foxpost',
+    capabilities: [Capabilities.CREATE_PARCEL, Capabilities.CREATE_PARCELS, Capabilities.CREATE_RETURN],
+    createParcel: vi.fn(async () => ({ carrierId: `CLFOX${++seq}`, status: 'created' })),
+    createParcels: vi.fn(async (req) =>
+      batch(
+        req.parcels.map((p) =>
+          p.package.weightGrams > 20000
+            ? { status: 'failed', errors: [{ message: 'Too heavy' }] }
+            : { carrierId: `CLFOX${++seq}`, status: 'created' }
+        )
+      )
+    ),
+    createReturn: vi.fn(async (req) => ({ carrierId: `RET-${req.return.parcelCarrierId}`, status: 'created' })),
+  };
+}
+
+describe('fingerprintRequest', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(fingerprintRequest({ a: 1, b: { c: 2, d: undefined } })).toBe(fingerprintRequest({ b: { c: 2 }, a: 1 }));
+    expect(fingerprintRequest({ a: 1 })).not.toBe(fingerprintRequest({ a: 2 }));
+  });
+});
+
+describe('withIdempotency', () => {
+  it('returns the stored resource when createParcel is replayed', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+    const parcel = makeParcel('p-1');
+
+    const first = await adapter.createParcel!({ parcel, credentials: {} }, {});
+    const second = await adapter.createParcel!({ parcel: { ...parcel, status: 'created' }, credentials: {} }, {});
+
+    expect(second).toEqual(first);
+    expect(inner.createParcel).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a replayed key with a different payload', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+
+    await adapter.createParcel!({ parcel: makeParcel('p-1'), credentials: {} }, {});
+    const error = await adapter
+      .createParcel!({ parcel: makeParcel('p-1', 2500), credentials: {} }, {})
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(IdempotencyConflictError);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain("Idempotency key 'p-1'");
+    expect(inner.createParcel).toHaveBeenCalledTimes(1);
+  });
+
+  it('only forwards unseen parcels in a replayed batch and keeps input order', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+
+    const first = await adapter.createParcels!(
+      { parcels: [makeParcel('p-1'), makeParcel('p-2', 30000)], credentials: {} },
+      {}
+    );
+    expect(first.someFailed).toBe(true);
+
+    const second = await adapter.createParcels!(
+      { parcels: [makeParcel('p-1'), makeParcel('p-2'), makeParcel('p-3')], credentials: {} },
+      {}
+    );
+
+    expect(inner.createParcels).toHaveBeenLastCalledWith(
+      expect.objectContaining({ parcels: [makeParcel('p-2'), makeParcel('p-3')] }),
+      {}
+    );
+    expect(second.results.map((r) => r.carrierId)).toEqual([first.results[0].carrierId, 'CLFOX2', 'CLFOX3']);
+    expect(second.allSucceeded).toBe(true);
+    expect(second.totalCount).toBe(3);
+  });
+
+  it('does not call the carrier when the whole batch is replayed', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+    const req = { parcels: [makeParcel('p-1'), makeParcel('p-2')], credentials: {} };
+
+    await adapter.createParcels!(req, {});
+    const replay = await adapter.createParcels!(req, {});
+
+    expect(inner.createParcels).toHaveBeenCalledTimes(1);
+    expect(replay.successCount).toBe(2);
+  });
+
+  it('rejects the whole batch before calling the carrier on a conflict', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+
+    await adapter.createParcels!({ parcels: [makeParcel('p-1')], credentials: {} }, {});
+    await expect(
+      adapter.createParcels!({ parcels: [makeParcel('p-2'), makeParcel('p-1', 5000)], credentials: {} }, {})
+    ).rejects.toBeInstanceOf(IdempotencyConflictError);
+    expect(inner.createParcels).toHaveBeenCalledTimes(1);
+  });
+
+  it('deduplicates returns by the caller-supplied idempotency key', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+    const req = { return: { parcelCarrierId: 'CLFOX1', refCode: 'R1' }, credentials: {}, options: { idempotencyKey: 'ret-1' } };
+
+    await adapter.createReturn!(req, {});
+    const replay = await adapter.createReturn!(req, {});
+
+    expect(replay.carrierId).toBe('RET-CLFOX1');
+    expect(inner.createReturn).toHaveBeenCalledTimes(1);
+    await expect(
+      adapter.createReturn!({ ...req, return: { parcelCarrierId: 'CLFOX1', refCode: 'R2' } }, {})
+    ).rejects.toBeInstanceOf(IdempotencyConflictError);
+  });
+
+  it('allows several returns of the same parcel under different keys or without a key', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+    const ret = { parcelCarrierId: 'CLFOX1', refCode: 'R1' };
+
+    await adapter.createReturn!({ return: ret, credentials: {}, options: { idempotencyKey: 'ret-1' } }, {});
+    await adapter.createReturn!({ return: { ...ret, refCode: 'R2' }, credentials: {}, options: { idempotencyKey: 'ret-2' } }, {});
+    await adapter.createReturn!({ return: ret, credentials: {} }, {});
+    await adapter.createReturn!({ return: ret, credentials: {} }, {});
+
+    expect(inner.createReturn).toHaveBeenCalledTimes(4);
+  });
+
+  it('sends concurrent identical calls to the carrier once', async () => {
+    const inner = makeAdapter();
+    const adapter = withIdempotency(inner, new InMemoryStore());
+    const parcel = makeParcel('p-1');
+
+    const [first, second, batched] = await Promise.all([
+      adapter.createParcel!({ parcel, credentials: {} }, {}),
+      adapter.createParcel!({ parcel, credentials: {} }, {}),
+      adapter.createParcels!({ parcels: [parcel, makeParcel('p-2')], credentials: {} }, {}),
+    ]);
+
+    expect(inner.createParcel).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(batched.results[0]).toEqual(first);
+    expect(vi.mocked(inner.createParcels!).mock.calls[0][0].parcels.map((p) => p.id)).toEqual(['p-2']);
+  });
+
+  it('rejects concurrent calls that reuse an in-flight key with a different payload', async () => {
+    const adapter = withIdempotency(makeAdapter(), new InMemoryStore());
+    const parcel = makeParcel('p-1');
+
+    const first = adapter.createParcel!({ parcel, credentials: {} }, {});
+    await expect(
+      adapter.createParcel!({ parcel: makeParcel('p-1', 5000), credentials: {} }, {})
+    ).rejects.toBeInstanceOf(IdempotencyConflictError);
+    await first;
+  });
+
+  it('requires a store with idempotency records', () => {
+    const store: Store = Object.assign(new InMemoryStore(), { getIdempotencyRecord: undefined });
+    expect(() => withIdempotency(makeAdapter(), store)).toThrow(TypeError);
+  });
+});
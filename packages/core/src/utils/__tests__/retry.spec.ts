@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withRetry, CircuitBreaker } from '../retry.js';
+import { composeAdapterWrappers, withOperationName } from '../adapter-wrapper.js';
+import { CarrierError } from '../../errors/index.js';
+import { Capabilities } from '../../interfaces/capabilities.js';
+import type { CarrierAdapter, AdapterContext, TelemetryClient } from '../../interfaces/index.js';
+
+const trackResult = (trackingNumber: string) => ({
+  trackingNumber,
+  events: [],
+  status: 'PENDING' as const,
+  lastUpdate: null,
+});
+
+function makeAdapter(overrides: Partial<CarrierAdapter> = {}): CarrierAdapter {
+  return {
+    id: 'hu-gls',
+    capabilities: [Capabilities.TRACK, Capabilities.CREATE_PARCEL],
+    ...overrides,
+  };
+}
+
+function makeTelemetry(): TelemetryClient {
+  return {
+    recordHistogram: vi.fn(),
+    incrementCounter: vi.fn(),
+    recordGauge: vi.fn(),
+  };
+}
+
+const noSleep = vi.fn(async (_ms: number) => {});
+
+describe('withRetry', () => {
+  it('retries Transient errors and reports attempts through telemetry', async () => {
+    const track = vi.fn()
+      .mockRejectedValueOnce(new CarrierError('Gateway timeout', 'Transient'))
+      .mockResolvedValueOnce(trackResult('123'));
+    const telemetry = makeTelemetry();
+    const adapter = withRetry(makeAdapter({ track }), { sleep: noSleep, random: () => 0 });
+
+    const result = await adapter.track!({ trackingNumber: '123' }, { telemetry });
+
+    expect(result.trackingNumber).toBe('123');
+    expect(track).toHaveBeenCalledTimes(2);
+    expect(telemetry.incrementCounter).toHaveBeenCalledWith('adapter.attempt', 1, {
+      carrier: 'hu-gls',
+      operation: 'track',
+      outcome: 'retry',
+      category: 'Transient',
+    });
+    expect(telemetry.recordHistogram).toHaveBeenCalledWith('adapter.attempts', 2, {
+      carrier: 'hu-gls',
+      operation: 'track',
+    });
+  });
+
+  it('uses exponential backoff with jitter', async () => {
+    const sleep = vi.fn(async (_ms: number) => {});
+    const track = vi.fn().mockRejectedValue(new CarrierError('Unavailable', 'Transient'));
+    const adapter = withRetry(makeAdapter({ track }), {
+      sleep,
+      random: () => 0.5,
+      defaultPolicy: { maxAttempts: 4, baseDelayMs: 100, jitter: 0.5 },
+      circuitBreaker: false,
+    });
+
+    await expect(adapter.track!({ trackingNumber: '1' }, {})).rejects.toThrow('Unavailable');
+
+    expect(track).toHaveBeenCalledTimes(4);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([75, 150, 300]);
+  });
+
+  it('honours retryAfterMs for RateLimit errors', async () => {
+    const sleep = vi.fn(async (_ms: number) => {});
+    const track = vi.fn()
+      .mockRejectedValueOnce(new CarrierError('Too many requests', 'RateLimit', { retryAfterMs: 1500 }))
+      .mockResolvedValueOnce(trackResult('1'));
+    const adapter = withRetry(makeAdapter({ track }), { sleep });
+
+    await adapter.track!({ trackingNumber: '1' }, {});
+
+    expect(sleep).toHaveBeenCalledWith(1500);
+  });
+
+  it('does not retry non-retryable categories', async () => {
+    const track = vi.fn().mockRejectedValue(new CarrierError('Bad request', 'Validation'));
+    const adapter = withRetry(makeAdapter({ track }), { sleep: noSleep });
+
+    await expect(adapter.track!({ trackingNumber: '1' }, {})).rejects.toThrow('Bad request');
+    expect(track).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries non-idempotent calls only with an idempotency key', async () => {
+    const createParcel = vi.fn().mockRejectedValue(new CarrierError('Timeout', 'Transient'));
+    const adapter = withRetry(makeAdapter({ createParcel }), { sleep: noSleep, circuitBreaker: false });
+    const parcel = { id: 'p-1' } as any;
+
+    await expect(adapter.createParcel!({ parcel, credentials: {} }, {})).rejects.toThrow('Timeout');
+    expect(createParcel).toHaveBeenCalledTimes(1);
+
+    createParcel.mockClear();
+    await expect(
+      adapter.createParcel!({ parcel, credentials: {}, options: { idempotencyKey: 'order-42' } }, {})
+    ).rejects.toThrow('Timeout');
+    expect(createParcel).toHaveBeenCalledTimes(3);
+  });
+
+  it('applies per-operation policies', async () => {
+    const track = vi.fn().mockRejectedValue(new CarrierError('Unavailable', 'Transient'));
+    const adapter = withRetry(makeAdapter({ track }), {
+      sleep: noSleep,
+      policies: { track: { maxAttempts: 5 } },
+      circuitBreaker: false,
+    });
+
+    await expect(adapter.track!({ trackingNumber: '1' }, {})).rejects.toThrow();
+    expect(track).toHaveBeenCalledTimes(5);
+  });
+
+  it('opens the circuit after repeated Transient failures and fails fast', async () => {
+    const track = vi.fn().mockRejectedValue(new CarrierError('Unavailable', 'Transient'));
+    const adapter = withRetry(makeAdapter({ track }), {
+      sleep: noSleep,
+      defaultPolicy: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 },
+    });
+
+    await expect(adapter.track!({ trackingNumber: '1' }, {})).rejects.toThrow('Unavailable');
+    await expect(adapter.track!({ trackingNumber: '1' }, {})).rejects.toThrow('Unavailable');
+
+    const error = await adapter.track!({ trackingNumber: '1' }, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(CarrierError);
+    expect(error.carrierCode).toBe('CIRCUIT_OPEN');
+    expect(track).toHaveBeenCalledTimes(2);
+  });
+
+  it('composes with other wrappers', async () => {
+    const track = vi.fn(async (_req: any, ctx: AdapterContext) => trackResult(ctx.operationName ?? ''));
+    const adapter = composeAdapterWrappers(makeAdapter({ track }), [
+      (a) => withOperationName(a),
+      (a) => withRetry(a, { sleep: noSleep }),
+    ]);
+
+    const result = await adapter.track!({ trackingNumber: '1' }, {});
+    expect(result.trackingNumber).toBe('track');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('half-opens after the reset timeout and closes on a successful trial', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => now);
+
+    breaker.recordFailure(new CarrierError('Down', 'Transient'));
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('does not count non-Transient failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    breaker.recordFailure(new CarrierError('Bad request', 'Validation'));
+    expect(breaker.state).toBe('closed');
+  });
+});
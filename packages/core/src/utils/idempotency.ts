@@ -0,0 +1,343 @@
+/**
+ * Idempotency wrapper
+ * Deduplicates parcel and return creation across retries using the Store
+ */
+
+import { createHash } from 'node:crypto';
+import type {
+  CarrierAdapter,
+  AdapterContext,
+  CarrierResource,
+  CreateParcelRequest,
+  CreateParcelsRequest,
+  IdempotencyRecord,
+  RequestOptions,
+  Store,
+} from '../interfaces/index.js';
+import type {
+  CreateParcelsResponse,
+  CreateReturnRequest,
+  CreateReturnsRequest,
+  Parcel,
+  ReturnItem,
+} from '../types/index.js';
+import { IdempotencyConflictError } from '../errors/index.js';
+
+/**
+ * Parcel fields that change over the parcel's lifetime and must not affect the fingerprint
+ */
+const VOLATILE_PARCEL_FIELDS = new Set(['status', 'carrierIds', 'createdAt', 'updatedAt']);
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * SHA-256 fingerprint of a request payload
+ * Key order and undefined fields do not affect the result
+ */
+export function fingerprintRequest(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(canonicalize(payload))).digest('hex');
+}
+
+function fingerprintParcel(parcel: Parcel): string {
+  const stable = Object.fromEntries(
+    Object.entries(parcel).filter(([key]) => !VOLATILE_PARCEL_FIELDS.has(key))
+  );
+  return fingerprintRequest(stable);
+}
+
+/**
+ * How an operation's items are recorded
+ */
+interface ItemSpec<T> {
+  operation: IdempotencyRecord['operation'];
+  fingerprint: (item: T) => string;
+}
+
+const PARCEL_SPEC: ItemSpec<Parcel> = {
+  operation: 'createParcel',
+  fingerprint: fingerprintParcel,
+};
+
+const RETURN_SPEC: ItemSpec<ReturnItem> = {
+  operation: 'createReturn',
+  fingerprint: (item) => fingerprintRequest(item),
+};
+
+/**
+ * Keys of the returns in a request: the caller's idempotency key, suffixed
+ * with the item index for batches. Returns without a key are not deduplicated,
+ * since the same parcel may legitimately be returned more than once.
+ */
+function returnKeys(options: RequestOptions | undefined, count: number, batch: boolean): Array<string | undefined> {
+  const key = options?.idempotencyKey;
+  return Array.from({ length: count }, (_, idx) => (key ? (batch ? `return:${key}:${idx}` : `return:${key}`) : undefined));
+}
+
+function isSuccessful(resource: CarrierResource): boolean {
+  return !!resource.carrierId && resource.status !== 'failed';
+}
+
+/**
+ * A key claimed by an ongoing create call
+ */
+interface InFlight {
+  operation: IdempotencyRecord['operation'];
+  fingerprint: string;
+  promise: Promise<CarrierResource>;
+}
+
+/**
+ * Create a wrapper that makes parcel and return creation idempotent
+ *
+ * Every successful createParcel(s) / createReturn(s) result is recorded in the
+ * Store per (adapter.id, key), together with a fingerprint of the submitted
+ * payload. The key is `Parcel.id` for parcels. Returns are keyed by
+ * `options.idempotencyKey` (per item index for createReturns) and are passed
+ * through unchanged when the caller supplies no key.
+ *
+ * - Replaying a key with the same payload returns the stored resource without
+ *   calling the carrier; batch calls only forward the items not seen before
+ * - A key that is still in flight is not sent again: the replay waits for the
+ *   first call's result
+ * - Replaying a key with a different payload throws IdempotencyConflictError
+ *   before anything is sent to the carrier
+ * - Failed results are not recorded, so they can be retried
+ *
+ * Usage:
+ * ```typescript
+ * const adapter = composeAdapterWrappers(new FoxpostAdapter(), [
+ *   (a) => withIdempotency(a, store),
+ *   (a) => withOperationName(a),
+ * ]);
+ * ```
+ *
+ * @param adapter The CarrierAdapter to wrap
+ * @param store Store used to persist idempotency records; must implement
+ *   the optional saveIdempotencyRecord and getIdempotencyRecord methods
+ * @returns A wrapped adapter with idempotent create operations
+ * @throws TypeError when the store does not implement idempotency records
+ */
+export function withIdempotency<T extends CarrierAdapter>(adapter: T, store: Store): T {
+  if (typeof store.getIdempotencyRecord !== 'function' || typeof store.saveIdempotencyRecord !== 'function') {
+    throw new TypeError('withIdempotency requires a Store implementing saveIdempotencyRecord and getIdempotencyRecord');
+  }
+  const getRecord = store.getIdempotencyRecord.bind(store);
+  const saveRecord = store.saveIdempotencyRecord.bind(store);
+
+  // Calls sent to the carrier and not answered yet, by key
+  const inFlight = new Map<string, InFlight>();
+
+  function conflict(key: string, operation: string, storedOperation: string): IdempotencyConflictError {
+    return new IdempotencyConflictError(adapter.id, key, { operation, storedOperation });
+  }
+
+  async function remember<I>(spec: ItemSpec<I>, item: I, key: string, resource: CarrierResource): Promise<void> {
+    if (!isSuccessful(resource)) {
+      return;
+    }
+    await saveRecord({
+      carrierId: adapter.id,
+      key,
+      operation: spec.operation,
+      fingerprint: spec.fingerprint(item),
+      resource,
+    });
+  }
+
+  /**
+   * Resolve each item from the store, from an in-flight call with the same
+   * key, or by sending it to the carrier
+   *
+   * Keys are claimed before the store is read, so concurrent calls for the
+   * same key wait for the first one instead of reaching the carrier twice.
+   * Throws IdempotencyConflictError on the first fingerprint mismatch,
+   * before anything is sent.
+   *
+   * @returns Per-item results in input order, plus the number of items not sent
+   */
+  async function resolve<I>(
+    spec: ItemSpec<I>,
+    items: I[],
+    keys: Array<string | undefined>,
+    send: (fresh: I[]) => Promise<CarrierResource[]>
+  ): Promise<{ results: Array<Promise<CarrierResource>>; replayed: number }> {
+    const settle = new Map<number, { resolve: (r: CarrierResource) => void; reject: (e: unknown) => void }>();
+    const results: Array<Promise<CarrierResource> | undefined> = [];
+
+    try {
+      items.forEach((item, idx) => {
+        const key = keys[idx];
+        if (!key) {
+          return;
+        }
+        const fingerprint = spec.fingerprint(item);
+        const pending = inFlight.get(key);
+        if (pending) {
+          if (pending.operation !== spec.operation || pending.fingerprint !== fingerprint) {
+            throw conflict(key, spec.operation, pending.operation);
+          }
+          results[idx] = pending.promise;
+          return;
+        }
+        const promise = new Promise<CarrierResource>((resolve, reject) => settle.set(idx, { resolve, reject }));
+        // Only waiters observe rejections; the owner rethrows the original error
+        promise.catch(() => undefined);
+        inFlight.set(key, { operation: spec.operation, fingerprint, promise });
+      });
+
+      const claimed = [...settle.keys()];
+      const records = await Promise.all(claimed.map((idx) => getRecord(adapter.id, keys[idx]!)));
+      claimed.forEach((idx, i) => {
+        const record = records[i];
+        if (record && (record.operation !== spec.operation || record.fingerprint !== spec.fingerprint(items[idx]))) {
+          throw conflict(keys[idx]!, spec.operation, record.operation);
+        }
+        if (record) {
+          results[idx] = Promise.resolve(record.resource);
+          settle.get(idx)!.resolve(record.resource);
+        }
+      });
+
+      const freshIdx = items.map((_, idx) => idx).filter((idx) => !results[idx]);
+      if (freshIdx.length > 0) {
+        const fresh = await send(freshIdx.map((idx) => items[idx]));
+        await Promise.all(
+          freshIdx.map(async (idx, i) => {
+            const resource = fresh[i] ?? {
+              status: 'failed',
+              errors: [{ message: 'Carrier returned no result for this item' }],
+            };
+            results[idx] = Promise.resolve(resource);
+            if (keys[idx]) {
+              await remember(spec, items[idx], keys[idx]!, resource);
+            }
+            settle.get(idx)?.resolve(resource);
+          })
+        );
+      }
+
+      return { results: results as Array<Promise<CarrierResource>>, replayed: items.length - freshIdx.length };
+    } catch (error) {
+      settle.forEach(({ reject }) => reject(error));
+      throw error;
+    } finally {
+      settle.forEach((_, idx) => inFlight.delete(keys[idx]!));
+    }
+  }
+
+  async function single<I>(
+    spec: ItemSpec<I>,
+    item: I,
+    key: string | undefined,
+    call: () => Promise<CarrierResource>,
+    ctx: AdapterContext
+  ): Promise<CarrierResource> {
+    const { results, replayed } = await resolve(spec, [item], [key], async () => [await call()]);
+    if (replayed > 0) {
+      ctx?.logger?.debug(`[${adapter.id}] ${spec.operation} replayed from idempotency store`, { key });
+    }
+    return results[0];
+  }
+
+  async function batch<I>(
+    spec: ItemSpec<I>,
+    items: I[],
+    keys: Array<string | undefined>,
+    call: (fresh: I[]) => Promise<CreateParcelsResponse>,
+    ctx: AdapterContext
+  ): Promise<CreateParcelsResponse> {
+    let response: CreateParcelsResponse | undefined;
+    const { results: pending, replayed } = await resolve(spec, items, keys, async (fresh) => {
+      response = await call(fresh);
+      return response.results;
+    });
+
+    if (replayed === 0 && response) {
+      return response;
+    }
+
+    ctx?.logger?.debug(`[${adapter.id}] ${spec.operation} batch partially replayed`, {
+      replayed,
+      forwarded: items.length - replayed,
+    });
+
+    // Items replayed from a concurrent call that failed are reported as failed
+    const results = await Promise.all(
+      pending.map((result) =>
+        result.catch((error): CarrierResource => ({
+          status: 'failed',
+          errors: [{ message: error instanceof Error ? error.message : String(error) }],
+        }))
+      )
+    );
+
+    const successCount = results.filter(isSuccessful).length;
+    const failureCount = results.length - successCount;
+    return {
+      results,
+      successCount,
+      failureCount,
+      totalCount: results.length,
+      allSucceeded: failureCount === 0,
+      allFailed: successCount === 0,
+      someFailed: successCount > 0 && failureCount > 0,
+      summary: `${successCount} succeeded, ${failureCount} failed (${replayed} replayed)`,
+      rawCarrierResponse: response?.rawCarrierResponse,
+    };
+  }
+
+  const handlers: Record<string, (method: Function, target: T) => Function> = {
+    createParcel: (method, target) => (req: CreateParcelRequest, ctx: AdapterContext) =>
+      single(PARCEL_SPEC, req.parcel, req.parcel.id, () => method.call(target, req, ctx), ctx),
+
+    createParcels: (method, target) => (req: CreateParcelsRequest, ctx: AdapterContext) =>
+      batch(
+        PARCEL_SPEC,
+        req.parcels,
+        req.parcels.map((parcel) => parcel.id),
+        (parcels) => method.call(target, { ...req, parcels }, ctx),
+        ctx
+      ),
+
+    createReturn: (method, target) => (req: CreateReturnRequest, ctx: AdapterContext) =>
+      single(RETURN_SPEC, req.return, returnKeys(req.options, 1, false)[0], () => method.call(target, req, ctx), ctx),
+
+    createReturns: (method, target) => (req: CreateReturnsRequest, ctx: AdapterContext) =>
+      batch(
+        RETURN_SPEC,
+        req.returns,
+        returnKeys(req.options, req.returns.length, true),
+        (returns) => method.call(target, { ...req, returns }, ctx),
+        ctx
+      ),
+  };
+
+  return new Proxy(adapter, {
+    get(target, methodName: string | symbol) {
+      const method = (target as any)[methodName];
+
+      if (typeof method !== 'function' || typeof methodName !== 'string' || !handlers[methodName]) {
+        return method;
+      }
+
+      return handlers[methodName](method, target);
+    },
+  }) as T;
+}
@@ -4,4 +4,6 @@
 
 export { serializeForLog, truncateString, sanitizeHeadersForLog, errorToLog } from './logging.js';
 export { withOperationName, withCallTracing, composeAdapterWrappers } from './adapter-wrapper.js';
-
+export { withRetry, CircuitBreaker } from './retry.js';
+export type { RetryPolicy, RetryOptions, CircuitBreakerOptions, CircuitState } from './retry.js';
+export { withIdempotency, fingerprintRequest } from './idempotency.js';
@@ -0,0 +1,301 @@
+/**
+ * Retry, backoff & circuit breaker wrapper
+ * Acts on CarrierError.category / retryAfterMs so integrators don't have to
+ */
+
+import type { CarrierAdapter, AdapterContext, RequestOptions } from '../interfaces/index.js';
+import { CarrierError } from '../errors/index.js';
+
+/**
+ * Retry policy for a single adapter operation
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first call (1 = no retries) */
+  maxAttempts: number;
+
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay (also caps retryAfterMs) */
+  maxDelayMs: number;
+
+  /**
+   * Fraction of the backoff delay that is randomised (0 = none, 1 = full jitter)
+   * Default: 0.5
+   */
+  jitter: number;
+
+  /**
+   * Whether the operation can safely be repeated
+   * Non-idempotent operations are only retried when the request carries
+   * `options.idempotencyKey`
+   */
+  idempotent: boolean;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive Transient failures that open the circuit */
+  failureThreshold: number;
+
+  /** How long the circuit stays open before a trial call is let through */
+  resetTimeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RetryOptions {
+  /** Overrides applied to every operation */
+  defaultPolicy?: Partial<RetryPolicy>;
+
+  /** Per-operation overrides, keyed by adapter method name */
+  policies?: Record<string, Partial<RetryPolicy>>;
+
+  /**
+   * Circuit breaker settings, a shared CircuitBreaker instance, or false to disable
+   * Default: one breaker per wrapped adapter (i.e. per carrier)
+   */
+  circuitBreaker?: Partial<CircuitBreakerOptions> | CircuitBreaker | false;
+
+  /** Injected for tests */
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const BASE_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 10_000,
+  jitter: 0.5,
+  idempotent: true,
+};
+
+/**
+ * Operations wrapped by default
+ * Calls that create carrier-side records are marked non-idempotent
+ */
+const DEFAULT_POLICIES: Record<string, Partial<RetryPolicy>> = {
+  getRates: {},
+  createParcel: { idempotent: false },
+  createParcels: { idempotent: false },
+  closeShipments: { idempotent: false },
+  createLabel: {},
+  createLabels: {},
+  voidLabel: {},
+  track: {},
+  batchTrack: {},
+  startBatchTrack: { idempotent: false },
+  collectBatchTrack: {},
+  getShipmentDetails: {},
+  fetchPickupPoints: {},
+  deleteParcel: {},
+  updateParcel: {},
+  listParcels: {},
+  createReturn: { idempotent: false },
+  createReturns: { idempotent: false },
+  requestPickup: { idempotent: false },
+};
+
+const DEFAULT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/**
+ * CircuitBreaker
+ * Opens after `failureThreshold` consecutive Transient failures and rejects
+ * calls until `resetTimeoutMs` has passed, then lets a single trial call through
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, private readonly now: () => number = Date.now) {
+    this.options = { ...DEFAULT_BREAKER, ...options };
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Milliseconds until the circuit allows a trial call (0 when not open)
+   */
+  remainingOpenMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.options.resetTimeoutMs - (this.now() - this.openedAt));
+  }
+
+  /**
+   * Whether a call may proceed; claims the trial slot when half-open
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call; only Transient failures count towards opening,
+   * any other error proves the carrier is reachable and resets the count
+   */
+  recordFailure(error: unknown): void {
+    const wasTrial = this.trialInFlight;
+    this.trialInFlight = false;
+
+    if (!(error instanceof CarrierError) || error.category !== 'Transient') {
+      this.recordSuccess();
+      return;
+    }
+
+    this.failures++;
+    if (wasTrial || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+function resolvePolicy(operation: string, options: RetryOptions): RetryPolicy {
+  return {
+    ...BASE_POLICY,
+    ...DEFAULT_POLICIES[operation],
+    ...options.defaultPolicy,
+    ...options.policies?.[operation],
+  };
+}
+
+function hasIdempotencyKey(request: unknown): boolean {
+  const opts = (request as { options?: RequestOptions } | undefined)?.options;
+  return typeof opts?.idempotencyKey === 'string' && opts.idempotencyKey.length > 0;
+}
+
+/**
+ * Compute the delay before the given retry (1-based)
+ * RateLimit errors with retryAfterMs use the carrier's hint instead of backoff
+ */
+function computeDelay(retry: number, error: CarrierError, policy: RetryPolicy, random: () => number): number {
+  if (error.category === 'RateLimit' && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+  return Math.round(exponential * (1 - policy.jitter * random()));
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a wrapper that retries retryable CarrierErrors (RateLimit, Transient)
+ * with exponential backoff and guards the carrier with a circuit breaker
+ *
+ * - Only errors where `CarrierError.isRetryable()` is true are retried
+ * - RateLimit errors wait for `retryAfterMs` when the carrier provides it
+ * - Non-idempotent operations (createParcel, createParcels, closeShipments,
+ *   createReturn(s), requestPickup) are only retried when the request carries
+ *   `options.idempotencyKey`
+ * - While the circuit is open, calls fail fast with a Transient CarrierError
+ *   (carrierCode "CIRCUIT_OPEN")
+ * - Attempts are reported through `ctx.telemetry` as `adapter.attempt`
+ *   counters and an `adapter.attempts` histogram per call
+ *
+ * Usage:
+ * ```typescript
+ * const adapter = composeAdapterWrappers(new GLSAdapter(), [
+ *   (a) => withOperationName(a),
+ *   (a) => withRetry(a, { policies: { track: { maxAttempts: 5 } } }),
+ * ]);
+ * ```
+ *
+ * @param adapter The CarrierAdapter to wrap
+ * @param options Retry policies and circuit breaker settings
+ * @returns A wrapped adapter with retries
+ */
+export function withRetry<T extends CarrierAdapter>(adapter: T, options: RetryOptions = {}): T {
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+  const breaker = options.circuitBreaker === false
+    ? undefined
+    : options.circuitBreaker instanceof CircuitBreaker
+      ? options.circuitBreaker
+      : new CircuitBreaker(options.circuitBreaker);
+
+  return new Proxy(adapter, {
+    get(target, methodName: string | symbol) {
+      const method = (target as any)[methodName];
+
+      if (
+        typeof method !== 'function' ||
+        typeof methodName !== 'string' ||
+        !(methodName in DEFAULT_POLICIES || (options.policies && methodName in options.policies))
+      ) {
+        return method;
+      }
+
+      const policy = resolvePolicy(methodName, options);
+
+      return async function retryingMethod(request: unknown, context: AdapterContext): Promise<unknown> {
+        const opName = context?.operationName || methodName;
+        const tags = { carrier: adapter.id, operation: opName };
+        const canRetry = policy.idempotent || hasIdempotencyKey(request);
+        const maxAttempts = canRetry ? Math.max(1, policy.maxAttempts) : 1;
+
+        for (let attempt = 1; ; attempt++) {
+          if (breaker && !breaker.tryAcquire()) {
+            context?.telemetry?.incrementCounter('adapter.circuit_rejected', 1, tags);
+            throw new CarrierError(`Circuit open for carrier '${adapter.id}'`, 'Transient', {
+              carrierCode: 'CIRCUIT_OPEN',
+              retryAfterMs: breaker.remainingOpenMs(),
+            });
+          }
+
+          try {
+            const result = await (method as any).call(target, request, context);
+            breaker?.recordSuccess();
+            context?.telemetry?.incrementCounter('adapter.attempt', 1, { ...tags, outcome: 'success' });
+            context?.telemetry?.recordHistogram('adapter.attempts', attempt, tags);
+            return result;
+          } catch (error) {
+            breaker?.recordFailure(error);
+
+            const retryable = error instanceof CarrierError && error.isRetryable();
+            const willRetry = retryable && attempt < maxAttempts;
+            context?.telemetry?.incrementCounter('adapter.attempt', 1, {
+              ...tags,
+              outcome: willRetry ? 'retry' : 'failure',
+              category: error instanceof CarrierError ? error.category : 'Unknown',
+            });
+
+            if (!willRetry) {
+              if (retryable && !canRetry) {
+                context?.logger?.debug(`[${adapter.id}] ${opName} not retried: no idempotency key`);
+              }
+              context?.telemetry?.recordHistogram('adapter.attempts', attempt, tags);
+              throw error;
+            }
+
+            const delay = computeDelay(attempt, error, policy, random);
+            context?.logger?.warn(`[${adapter.id}] ${opName} failed, retrying in ${delay}ms`, {
+              attempt,
+              maxAttempts,
+              category: error.category,
+              error: error.message,
+            });
+            await sleep(delay);
+          }
+        }
+      };
+    },
+  }) as T;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import {
+  createHmacVerifier,
+  createSharedSecretVerifier,
+  getWebhookHeader,
+  readWebhookJson,
+} from '../verifiers.js';
+import { CarrierError } from '../../errors/index.js';
+
+const body = JSON.stringify({ parcelNumber: 12345, statusCode: '5' });
+const sign = (payload: string, secret = 's3cret') =>
+  createHmac('sha256', secret).update(payload).digest('hex');
+
+describe('getWebhookHeader', () => {
+  it('looks headers up case-insensitively and takes the first repeated value', () => {
+    const headers = { 'X-Signature': 'abc', 'x-multi': ['one', 'two'] };
+    expect(getWebhookHeader(headers, 'x-signature')).toBe('abc');
+    expect(getWebhookHeader(headers, 'X-MULTI')).toBe('one');
+    expect(getWebhookHeader(headers, 'missing')).toBeUndefined();
+  });
+});
+
+describe('readWebhookJson', () => {
+  it('parses string and byte bodies and passes parsed bodies through', () => {
+    expect(readWebhookJson({ headers: {}, body })).toEqual({ parcelNumber: 12345, statusCode: '5' });
+    expect(readWebhookJson({ headers: {}, body: Buffer.from(body) })).toEqual({ parcelNumber: 12345, statusCode: '5' });
+    const parsed = { a: 1 };
+    expect(readWebhookJson({ headers: {}, body: parsed })).toBe(parsed);
+  });
+
+  it('throws a Validation CarrierError for empty or malformed bodies', () => {
+    expect(() => readWebhookJson({ headers: {}, body: undefined })).toThrow(CarrierError);
+    try {
+      readWebhookJson({ headers: {}, body: '{not json' });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as CarrierError).category).toBe('Validation');
+    }
+  });
+});
+
+describe('createHmacVerifier', () => {
+  const verifier = createHmacVerifier({ secret: 's3cret', header: 'x-signature', prefix: 'sha256=' });
+
+  it('accepts a valid signature over the raw body', () => {
+    expect(() => verifier.verify({ headers: { 'x-signature': `sha256=${sign(body)}` }, body })).not.toThrow();
+    expect(() =>
+      verifier.verify({ headers: { 'X-Signature': sign(body) }, body: Buffer.from(body) })
+    ).not.toThrow();
+  });
+
+  it('supports base64 signatures', () => {
+    const b64 = createHmacVerifier({ secret: 's3cret', header: 'x-signature', encoding: 'base64' });
+    const signature = createHmac('sha256', 's3cret').update(body).digest('base64');
+    expect(() => b64.verify({ headers: { 'x-signature': signature }, body })).not.toThrow();
+  });
+
+  it('rejects a tampered body, a wrong secret and a missing header', () => {
+    const cases = [
+      { headers: { 'x-signature': sign(body) }, body: body.replace('5', '6') },
+      { headers: { 'x-signature': sign(body, 'other') }, body },
+      { headers: {}, body },
+    ];
+    for (const req of cases) {
+      try {
+        verifier.verify(req);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(CarrierError);
+        expect((error as CarrierError).category).toBe('Auth');
+      }
+    }
+  });
+
+  it('requires the raw body', () => {
+    try {
+      verifier.verify({ headers: { 'x-signature': sign(body) }, body: JSON.parse(body) });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as CarrierError).carrierCode).toBe('WEBHOOK_RAW_BODY_REQUIRED');
+    }
+  });
+});
+
+describe('createSharedSecretVerifier', () => {
+  const verifier = createSharedSecretVerifier({ secret: 'token-123', header: 'x-webhook-token' });
+
+  it('accepts the shared secret regardless of body form', () => {
+    expect(() => verifier.verify({ headers: { 'X-Webhook-Token': 'token-123' }, body: { a: 1 } })).not.toThrow();
+  });
+
+  it('rejects a wrong or missing secret', () => {
+    expect(() => verifier.verify({ headers: { 'x-webhook-token': 'token-12' }, body })).toThrow('Invalid webhook secret');
+    expect(() => verifier.verify({ headers: {}, body })).toThrow("Missing webhook secret header 'x-webhook-token'");
+  });
+});
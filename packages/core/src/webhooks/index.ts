@@ -0,0 +1,11 @@
+export {
+  createHmacVerifier,
+  createSharedSecretVerifier,
+  getWebhookHeader,
+  readWebhookJson,
+} from './verifiers.js';
+export type {
+  WebhookVerifier,
+  HmacVerifierOptions,
+  SharedSecretVerifierOptions,
+} from './verifiers.js';
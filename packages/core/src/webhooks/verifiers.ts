@@ -0,0 +1,165 @@
+/**
+ * Webhook verification
+ * Checks that an inbound push notification really comes from the carrier
+ * before its payload is trusted
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { WebhookRequest } from '../interfaces/index.js';
+import { CarrierError } from '../errors/index.js';
+
+/**
+ * Verifies an inbound webhook request
+ * Implementations throw CarrierError("Auth") when the request is not authentic
+ */
+export interface WebhookVerifier {
+  verify(req: WebhookRequest): void | Promise<void>;
+}
+
+export interface HmacVerifierOptions {
+  /** Shared signing secret agreed with the carrier */
+  secret: string;
+
+  /** Header carrying the signature (e.g., "x-signature") */
+  header: string;
+
+  /** HMAC digest algorithm (default: "sha256") */
+  algorithm?: string;
+
+  /** Signature encoding in the header (default: "hex") */
+  encoding?: 'hex' | 'base64';
+
+  /** Prefix stripped from the header value before comparing (e.g., "sha256=") */
+  prefix?: string;
+}
+
+export interface SharedSecretVerifierOptions {
+  /** Secret the carrier sends with every notification */
+  secret: string;
+
+  /** Header carrying the secret (e.g., "x-webhook-token") */
+  header: string;
+}
+
+/**
+ * Read a header value case-insensitively
+ * Repeated headers resolve to their first value
+ */
+export function getWebhookHeader(
+  headers: WebhookRequest['headers'],
+  name: string
+): string | undefined {
+  const wanted = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === wanted) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode a webhook body to JSON
+ * Accepts a raw string/bytes body or an already-parsed value
+ * Throws CarrierError("Validation") if the body is empty or not JSON
+ */
+export function readWebhookJson(req: WebhookRequest): unknown {
+  const { body } = req;
+  if (body === undefined || body === null) {
+    throw new CarrierError('Webhook body is empty', 'Validation');
+  }
+  if (typeof body !== 'string' && !(body instanceof Uint8Array)) {
+    return body;
+  }
+
+  const text = typeof body === 'string' ? body : Buffer.from(body).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CarrierError(
+      `Webhook body is not valid JSON: ${(error as Error).message}`,
+      'Validation'
+    );
+  }
+}
+
+function rawBody(req: WebhookRequest): Buffer {
+  if (typeof req.body === 'string') {
+    return Buffer.from(req.body, 'utf8');
+  }
+  if (req.body instanceof Uint8Array) {
+    return Buffer.from(req.body);
+  }
+  throw new CarrierError(
+    'Webhook signature verification requires the raw request body',
+    'Auth',
+    { carrierCode: 'WEBHOOK_RAW_BODY_REQUIRED' }
+  );
+}
+
+// Compare digests rather than the values so differing lengths do not short-circuit
+function safeEqual(a: string | Buffer, b: string | Buffer): boolean {
+  const da = createHash('sha256').update(a).digest();
+  const db = createHash('sha256').update(b).digest();
+  return timingSafeEqual(da, db);
+}
+
+/**
+ * Verifier for HMAC-signed notifications
+ * The signature header must hold HMAC(secret, raw body)
+ *
+ * Usage:
+ * ```typescript
+ * adapter.webhookVerifier = createHmacVerifier({
+ *   secret: process.env.GLS_WEBHOOK_SECRET!,
+ *   header: 'x-gls-signature',
+ * });
+ * ```
+ */
+export function createHmacVerifier(opts: HmacVerifierOptions): WebhookVerifier {
+  const algorithm = opts.algorithm ?? 'sha256';
+  const encoding = opts.encoding ?? 'hex';
+
+  return {
+    verify(req) {
+      let signature = getWebhookHeader(req.headers, opts.header);
+      if (!signature) {
+        throw new CarrierError(`Missing webhook signature header '${opts.header}'`, 'Auth', {
+          carrierCode: 'WEBHOOK_SIGNATURE_MISSING',
+        });
+      }
+      if (opts.prefix && signature.startsWith(opts.prefix)) {
+        signature = signature.slice(opts.prefix.length);
+      }
+
+      const expected = createHmac(algorithm, opts.secret).update(rawBody(req)).digest();
+      const given = Buffer.from(signature.trim(), encoding);
+      if (!safeEqual(expected, given)) {
+        throw new CarrierError('Invalid webhook signature', 'Auth', {
+          carrierCode: 'WEBHOOK_SIGNATURE_INVALID',
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Verifier for notifications authenticated by a static shared secret in a header
+ */
+export function createSharedSecretVerifier(opts: SharedSecretVerifierOptions): WebhookVerifier {
+  return {
+    verify(req) {
+      const given = getWebhookHeader(req.headers, opts.header);
+      if (!given) {
+        throw new CarrierError(`Missing webhook secret header '${opts.header}'`, 'Auth', {
+          carrierCode: 'WEBHOOK_SECRET_MISSING',
+        });
+      }
+      if (!safeEqual(given, opts.secret)) {
+        throw new CarrierError('Invalid webhook secret', 'Auth', {
+          carrierCode: 'WEBHOOK_SECRET_INVALID',
+        });
+      }
+    },
+  };
+}